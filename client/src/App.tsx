@@ -24,12 +24,15 @@ import CompanyPublicProfile from "@/pages/company/profile";
 import AdminDashboard from "@/pages/dashboard/admin";
 import AdminUsers from "@/pages/dashboard/admin/users";
 import AdminSettings from "@/pages/dashboard/admin/settings";
+import AdminEmails from "@/pages/dashboard/admin/emails";
 
 // Shared
 import SettingsPage from "@/pages/dashboard/settings";
 import ProfilePage from "@/pages/dashboard/profile";
 import NotificationsPage from '@/pages/dashboard/notifications';
 import NotificationsRoot from '@/pages/notifications';
+import MessagesPage from "@/pages/dashboard/messages";
+import BookMeetingPage from "@/pages/dashboard/book";
 
 function Router() {
   return (
@@ -55,11 +58,14 @@ function Router() {
       <Route path="/dashboard/admin" component={AdminDashboard} />
       <Route path="/dashboard/admin/users" component={AdminUsers} />
       <Route path="/dashboard/admin/settings" component={AdminSettings} />
+      <Route path="/dashboard/admin/emails" component={AdminEmails} />
 
       {/* Shared Routes */}
       <Route path="/dashboard/settings" component={SettingsPage} />
       <Route path="/dashboard/profile" component={ProfilePage} />
       <Route path="/dashboard/notifications" component={NotificationsPage} />
+      <Route path="/dashboard/messages" component={MessagesPage} />
+      <Route path="/dashboard/meetings/:id/book" component={BookMeetingPage} />
       <Route path="/notifications" component={NotificationsRoot} />
       
       <Route component={NotFound} />
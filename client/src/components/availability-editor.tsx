@@ -0,0 +1,194 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { TimezoneSelect, browserTimeZone } from "@/components/meeting-time";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Trash2 } from "lucide-react";
+import { useEffect, useState } from "react";
+
+interface Window { day_of_week: number; start_time: string; end_time: string }
+interface Override { date: string; start_time: string | null; end_time: string | null }
+interface Blackout { start_date: string; end_date: string; reason: string | null }
+
+interface Availability {
+  timezone: string;
+  buffer_minutes: number;
+  max_meetings_per_day: number | null;
+  windows: Window[];
+  overrides: Override[];
+  blackouts: Blackout[];
+}
+
+// Monday first; values are `Date#getDay` numbers as stored
+const WEEKDAYS = [
+  { day: 1, label: "Monday" },
+  { day: 2, label: "Tuesday" },
+  { day: 3, label: "Wednesday" },
+  { day: 4, label: "Thursday" },
+  { day: 5, label: "Friday" },
+  { day: 6, label: "Saturday" },
+  { day: 0, label: "Sunday" },
+];
+
+const hhmm = (value: string | null) => (value ?? "").slice(0, 5);
+
+const timeInput = "w-28 bg-background/50 border border-white/10 rounded-md p-2 text-sm";
+
+/**
+ * Weekly hours, one-off date changes, time away and meeting limits used by automatic scheduling
+ * and calendar conflict checks. Everything is in the chosen timezone.
+ */
+export function AvailabilityEditor() {
+  const { toast } = useToast();
+  const [value, setValue] = useState<Availability | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/users/me/availability', { credentials: 'include' })
+      .then(res => (res.ok ? res.json() : Promise.reject(new Error('failed to load availability'))))
+      .then((data: Availability) => setValue({
+        ...data,
+        timezone: data.timezone === 'UTC' && data.windows.length === 0 ? browserTimeZone() : data.timezone,
+      }))
+      .catch(err => console.error('load availability error', err));
+  }, []);
+
+  if (!value) return <p className="text-sm text-muted-foreground">Loading availability...</p>;
+
+  const update = (patch: Partial<Availability>) => setValue({ ...value, ...patch });
+  const setWindow = (index: number, patch: Partial<Window>) =>
+    update({ windows: value.windows.map((w, i) => (i === index ? { ...w, ...patch } : w)) });
+  const setOverride = (index: number, patch: Partial<Override>) =>
+    update({ overrides: value.overrides.map((o, i) => (i === index ? { ...o, ...patch } : o)) });
+  const setBlackout = (index: number, patch: Partial<Blackout>) =>
+    update({ blackouts: value.blackouts.map((b, i) => (i === index ? { ...b, ...patch } : b)) });
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/users/me/availability', {
+        method: 'PUT',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(value),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body?.message ?? 'failed to save availability');
+      setValue(body);
+      toast({ title: 'Saved', description: 'Availability updated.' });
+    } catch (err: any) {
+      toast({ title: 'Error', description: err?.message ?? 'Failed to save availability', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label>Timezone</Label>
+          <TimezoneSelect value={value.timezone} onChange={timezone => update({ timezone })} className="w-full bg-background/50 border border-white/10 rounded-md p-2 text-sm" />
+        </div>
+        <div className="space-y-2">
+          <Label>Buffer between meetings (minutes)</Label>
+          <Input type="number" min={0} max={240} step={5} value={value.buffer_minutes}
+            onChange={e => update({ buffer_minutes: Number(e.target.value) || 0 })} className="bg-background/50 border-white/10" />
+        </div>
+        <div className="space-y-2">
+          <Label>Max meetings per day</Label>
+          <Input type="number" min={1} max={24} placeholder="No limit" value={value.max_meetings_per_day ?? ''}
+            onChange={e => update({ max_meetings_per_day: e.target.value ? Number(e.target.value) : null })} className="bg-background/50 border-white/10" />
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <Label className="text-base">Weekly hours</Label>
+        {WEEKDAYS.map(({ day, label }) => {
+          const rows = value.windows.map((w, index) => ({ w, index })).filter(({ w }) => w.day_of_week === day);
+          return (
+            <div key={day} className="flex flex-col md:flex-row md:items-start gap-2 py-2 border-b border-white/5">
+              <span className="w-28 text-sm pt-2">{label}</span>
+              <div className="flex-1 space-y-2">
+                {rows.length === 0 && <p className="text-sm text-muted-foreground pt-2">Unavailable</p>}
+                {rows.map(({ w, index }) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <input type="time" value={hhmm(w.start_time)} onChange={e => setWindow(index, { start_time: e.target.value })} className={timeInput} />
+                    <span className="text-muted-foreground">–</span>
+                    <input type="time" value={hhmm(w.end_time)} onChange={e => setWindow(index, { end_time: e.target.value })} className={timeInput} />
+                    <Button variant="ghost" size="icon" onClick={() => update({ windows: value.windows.filter((_, i) => i !== index) })}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => update({ windows: [...value.windows, { day_of_week: day, start_time: '09:00', end_time: '17:00' }] })}>
+                <Plus className="w-4 h-4 mr-1" /> Add hours
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-3">
+        <div>
+          <Label className="text-base">Date overrides</Label>
+          <p className="text-sm text-muted-foreground">Different hours on a specific date, or a day off. Overrides replace that date's weekly hours.</p>
+        </div>
+        {value.overrides.map((o, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <input type="date" value={o.date} onChange={e => setOverride(index, { date: e.target.value })} className="bg-background/50 border border-white/10 rounded-md p-2 text-sm" />
+            <label className="flex items-center gap-1 text-sm">
+              <input type="checkbox" checked={!o.start_time}
+                onChange={e => setOverride(index, e.target.checked ? { start_time: null, end_time: null } : { start_time: '09:00', end_time: '17:00' })} />
+              Day off
+            </label>
+            {o.start_time && (
+              <>
+                <input type="time" value={hhmm(o.start_time)} onChange={e => setOverride(index, { start_time: e.target.value })} className={timeInput} />
+                <span className="text-muted-foreground">–</span>
+                <input type="time" value={hhmm(o.end_time)} onChange={e => setOverride(index, { end_time: e.target.value })} className={timeInput} />
+              </>
+            )}
+            <Button variant="ghost" size="icon" onClick={() => update({ overrides: value.overrides.filter((_, i) => i !== index) })}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+        <Button variant="outline" size="sm" className="border-white/10"
+          onClick={() => update({ overrides: [...value.overrides, { date: new Date().toISOString().slice(0, 10), start_time: null, end_time: null }] })}>
+          <Plus className="w-4 h-4 mr-1" /> Add override
+        </Button>
+      </div>
+
+      <div className="space-y-3">
+        <div>
+          <Label className="text-base">Time away</Label>
+          <p className="text-sm text-muted-foreground">No meetings are scheduled on these dates.</p>
+        </div>
+        {value.blackouts.map((b, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <input type="date" value={b.start_date} onChange={e => setBlackout(index, { start_date: e.target.value })} className="bg-background/50 border border-white/10 rounded-md p-2 text-sm" />
+            <span className="text-muted-foreground">to</span>
+            <input type="date" value={b.end_date} onChange={e => setBlackout(index, { end_date: e.target.value })} className="bg-background/50 border border-white/10 rounded-md p-2 text-sm" />
+            <Input placeholder="Reason (optional)" value={b.reason ?? ''} onChange={e => setBlackout(index, { reason: e.target.value || null })} className="w-48 bg-background/50 border-white/10" />
+            <Button variant="ghost" size="icon" onClick={() => update({ blackouts: value.blackouts.filter((_, i) => i !== index) })}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+        <Button variant="outline" size="sm" className="border-white/10"
+          onClick={() => {
+            const today = new Date().toISOString().slice(0, 10);
+            update({ blackouts: [...value.blackouts, { start_date: today, end_date: today, reason: null }] });
+          }}>
+          <Plus className="w-4 h-4 mr-1" /> Add time away
+        </Button>
+      </div>
+
+      <Button onClick={save} disabled={saving} className="w-full">
+        {saving ? 'Saving...' : 'Save Availability'}
+      </Button>
+    </div>
+  );
+}
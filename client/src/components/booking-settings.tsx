@@ -0,0 +1,83 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useEffect, useState } from "react";
+
+const DURATIONS = [15, 30, 45, 60];
+
+interface BookingSettings { durations: number[]; horizon_days: number }
+
+/**
+ * Meeting lengths and how far ahead others may book from the free times in your availability
+ */
+export function BookingSettingsForm() {
+  const { toast } = useToast();
+  const [value, setValue] = useState<BookingSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/users/me/booking-settings', { credentials: 'include' })
+      .then(res => (res.ok ? res.json() : Promise.reject(new Error('failed to load booking settings'))))
+      .then(setValue)
+      .catch(err => console.error('load booking settings error', err));
+  }, []);
+
+  if (!value) return <p className="text-sm text-muted-foreground">Loading booking settings...</p>;
+
+  const toggle = (minutes: number) => {
+    const durations = value.durations.includes(minutes)
+      ? value.durations.filter(d => d !== minutes)
+      : [...value.durations, minutes].sort((a, b) => a - b);
+    setValue({ ...value, durations });
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/users/me/booking-settings', {
+        method: 'PUT',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(value),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body?.message ?? 'failed to save booking settings');
+      setValue(body);
+      toast({ title: 'Saved', description: 'Booking settings updated.' });
+    } catch (err: any) {
+      toast({ title: 'Error', description: err?.message ?? 'Failed to save booking settings', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Meeting lengths offered</Label>
+        <div className="flex gap-2">
+          {DURATIONS.map(minutes => (
+            <Button
+              key={minutes}
+              variant={value.durations.includes(minutes) ? 'default' : 'outline'}
+              className={value.durations.includes(minutes) ? '' : 'border-white/10'}
+              onClick={() => toggle(minutes)}
+            >
+              {minutes} min
+            </Button>
+          ))}
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label>Booking horizon (days)</Label>
+        <Input type="number" min={1} max={30} value={value.horizon_days}
+          onChange={e => setValue({ ...value, horizon_days: Number(e.target.value) || 1 })} className="w-32 bg-background/50 border-white/10" />
+        <p className="text-sm text-muted-foreground">People requesting a meeting can book any free time up to this many days ahead.</p>
+      </div>
+      <Button onClick={save} disabled={saving || value.durations.length === 0} className="w-full">
+        {saving ? 'Saving...' : 'Save Booking Settings'}
+      </Button>
+    </div>
+  );
+}
@@ -9,6 +9,8 @@ import {
   LogOut, 
   Bell, 
   Search,
+  MessageSquare,
+  Mail,
   Menu,
   X
 } from "lucide-react";
@@ -93,16 +95,19 @@ export function DashboardLayout({
       { icon: Search, label: "Discover Companies", href: "/dashboard/investor/discover" },
       { icon: Calendar, label: "Meetings", href: "/dashboard/investor/meetings" },
       { icon: Users, label: "My Network", href: "/dashboard/investor/network" },
+      { icon: MessageSquare, label: "Messages", href: "/dashboard/messages" },
     ],
     company: [
       { icon: LayoutDashboard, label: "Overview", href: "/dashboard/company" },
       { icon: Users, label: "Find Investors", href: "/dashboard/company/investors" },
       { icon: Calendar, label: "Meetings", href: "/dashboard/company/meetings" },
       { icon: Briefcase, label: "Pitch Deck", href: "/dashboard/company/pitch" },
+      { icon: MessageSquare, label: "Messages", href: "/dashboard/messages" },
     ],
     admin: [
       { icon: LayoutDashboard, label: "Admin Overview", href: "/dashboard/admin" },
       { icon: Users, label: "User Management", href: "/dashboard/admin/users" },
+      { icon: Mail, label: "Email Outbox", href: "/dashboard/admin/emails" },
       { icon: Settings, label: "System Settings", href: "/dashboard/admin/settings" },
     ]
   };
@@ -198,7 +203,9 @@ export function DashboardLayout({
                           }
                         }
                         // optionally navigate or show details; prefer navigating to related pages
-                        if (n.data?.meeting_request_id) {
+                        if (n.type === 'message_received' && n.data?.from_user_id) {
+                          setLocation(`/dashboard/messages?with=${n.data.from_user_id}`);
+                        } else if (n.data?.meeting_request_id) {
                           setLocation('/dashboard/meetings');
                         } else if (n.data?.company_id) {
                           setLocation(`/company/${n.data.company_id}`);
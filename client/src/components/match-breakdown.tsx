@@ -0,0 +1,85 @@
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { CheckCircle2, MinusCircle, XCircle } from "lucide-react";
+
+// Mirrors MatchScore in server/lib/matchEngine.ts
+export interface MatchReason {
+  factor: 'sector' | 'stage' | 'ticketSize' | 'geography' | 'investorType';
+  impact: 'positive' | 'neutral' | 'negative';
+  message: string;
+}
+
+export interface MatchScore {
+  overall: number;
+  factors: {
+    sector: number;
+    stage: number;
+    ticketSize: number;
+    geography: number;
+    investorType: number;
+  };
+  confidence: 'high' | 'medium' | 'low';
+  reasons?: MatchReason[];
+  excluded?: boolean;
+  dealBreakers?: Array<{ rule: string; message: string }>;
+}
+
+const FACTOR_LABELS: Record<MatchReason['factor'], string> = {
+  sector: 'Sector',
+  stage: 'Stage',
+  ticketSize: 'Ticket Size',
+  geography: 'Geography',
+  investorType: 'Investor Type',
+};
+
+const IMPACT_ICONS = {
+  positive: <CheckCircle2 className="w-4 h-4 text-green-500 shrink-0" />,
+  neutral: <MinusCircle className="w-4 h-4 text-muted-foreground shrink-0" />,
+  negative: <XCircle className="w-4 h-4 text-destructive shrink-0" />,
+};
+
+/**
+ * Match badge that opens a per-factor breakdown of why a company scored the way it did.
+ */
+export function MatchBreakdown({ score, className }: { score: MatchScore; className?: string }) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button type="button" onClick={(e) => e.stopPropagation()}>
+          {score.excluded ? (
+            <Badge variant="outline" className={`bg-destructive/10 text-destructive border-destructive/20 cursor-pointer ${className ?? ''}`}>Deal breaker</Badge>
+          ) : (
+            <Badge variant="outline" className={`bg-primary/10 text-primary border-primary/20 cursor-pointer ${className ?? ''}`}>{score.overall}% Match</Badge>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80" onClick={(e) => e.stopPropagation()}>
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="font-medium">Match breakdown</span>
+            <span className="text-xs text-muted-foreground capitalize">{score.confidence} confidence</span>
+          </div>
+          {score.excluded && score.dealBreakers?.length ? (
+            <ul className="space-y-1 text-xs text-destructive">
+              {score.dealBreakers.map(hit => <li key={hit.rule}>{hit.message}</li>)}
+            </ul>
+          ) : null}
+          <ul className="space-y-2">
+            {(score.reasons ?? []).map(reason => (
+              <li key={reason.factor} className="flex items-start gap-2 text-sm">
+                {IMPACT_ICONS[reason.impact]}
+                <div className="flex-1">
+                  <div className="flex justify-between text-xs text-muted-foreground">
+                    <span>{FACTOR_LABELS[reason.factor]}</span>
+                    <span>{score.factors[reason.factor]}%</span>
+                  </div>
+                  <div>{reason.message}</div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
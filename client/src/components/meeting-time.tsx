@@ -0,0 +1,50 @@
+import { COMMON_TIME_ZONES, formatInTimeZone, normalizeTimeZone, timeZoneAbbreviation } from "@shared/timezone";
+
+export function browserTimeZone(): string {
+  return normalizeTimeZone(Intl.DateTimeFormat().resolvedOptions().timeZone);
+}
+
+function formatRange(start: string, end: string | undefined, timeZone: string): string {
+  const from = formatInTimeZone(start, timeZone, { weekday: "short", month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+  const to = end ? ` – ${formatInTimeZone(end, timeZone, { hour: "numeric", minute: "2-digit" })}` : "";
+  return `${from}${to} ${timeZoneAbbreviation(start, timeZone)}`;
+}
+
+/**
+ * A meeting time in the viewer's timezone, with the other participant's local time underneath
+ * when they are somewhere else
+ */
+export function MeetingTime({ start, end, timeZone, otherTimeZone, otherLabel = "other participant" }: {
+  start: string;
+  end?: string;
+  timeZone: string;
+  otherTimeZone?: string | null;
+  otherLabel?: string;
+}) {
+  const own = normalizeTimeZone(timeZone);
+  const other = otherTimeZone ? normalizeTimeZone(otherTimeZone) : null;
+  return (
+    <span className="flex flex-col">
+      <span>{formatRange(start, end, own)}</span>
+      {other && other !== own && (
+        <span className="text-xs text-muted-foreground">{formatRange(start, end, other)} for the {otherLabel} ({other})</span>
+      )}
+    </span>
+  );
+}
+
+/**
+ * Native timezone picker: common zones plus the current value and the browser's zone
+ */
+export function TimezoneSelect({ value, onChange, className }: {
+  value: string;
+  onChange: (value: string) => void;
+  className?: string;
+}) {
+  const zones = Array.from(new Set([value, browserTimeZone(), ...COMMON_TIME_ZONES].filter(Boolean)));
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={className ?? "w-full p-2 rounded bg-input text-sm"}>
+      {zones.map(tz => <option key={tz} value={tz}>{tz}</option>)}
+    </select>
+  );
+}
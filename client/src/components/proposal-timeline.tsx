@@ -0,0 +1,125 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { MeetingTime } from "@/components/meeting-time";
+import { useToast } from "@/hooks/use-toast";
+import { Check } from "lucide-react";
+import { useState } from "react";
+import { formatInTimeZone } from "@shared/timezone";
+
+interface Slot { start_time: string; end_time: string }
+
+const STATUS_STYLES: Record<string, string> = {
+  PENDING: 'text-yellow-500 border-yellow-500/20 bg-yellow-500/10',
+  ACCEPTED: 'text-green-500 border-green-500/20 bg-green-500/10',
+  DECLINED: 'text-red-500 border-red-500/20 bg-red-500/10',
+  COUNTERED: 'text-blue-400 border-blue-400/20 bg-blue-400/10',
+};
+
+// Proposals from before multi-slot proposals carry a single start/end
+function slotsOf(proposal: any): Slot[] {
+  if (Array.isArray(proposal.slots) && proposal.slots.length > 0) return proposal.slots;
+  return [{ start_time: proposal.start_time, end_time: proposal.end_time }];
+}
+
+function isOpen(proposal: any): boolean {
+  return proposal.status === 'PENDING' && (!proposal.expires_at || new Date(proposal.expires_at).getTime() > Date.now());
+}
+
+/**
+ * The negotiation history of a meeting request, oldest first. The recipient of an open proposal
+ * can accept any of its slots, decline it, or counter with their own (`onCounter`).
+ */
+export function ProposalTimeline({ meetingId, proposals, currentUserId, timeZone, otherTimeZone, otherLabel, onChanged, onCounter }: {
+  meetingId: string;
+  proposals: any[];
+  currentUserId: string | null;
+  timeZone: string;
+  otherTimeZone?: string | null;
+  /** How the other participant is named ("investor", "company") */
+  otherLabel: string;
+  /** Called after an accept or decline with the server's response */
+  onChanged: (result: any) => void;
+  onCounter: (proposal: any) => void;
+}) {
+  const { toast } = useToast();
+  const [busy, setBusy] = useState(false);
+
+  if (!proposals || proposals.length === 0) return null;
+  const history = [...proposals].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+  const respond = async (proposal: any, action: 'accept' | 'decline', slotIndex?: number) => {
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/meetings/requests/${meetingId}/proposals/${proposal.id}/${action}`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(action === 'accept' ? { slot_index: slotIndex } : {}),
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(body?.message ?? `Could not ${action} the proposal`);
+      toast(action === 'accept'
+        ? { title: 'Proposal Accepted', description: 'Meeting rescheduled.' }
+        : { title: 'Proposal Declined', description: 'The proposer has been notified.' });
+      onChanged(body);
+    } catch (err: any) {
+      toast({ title: action === 'accept' ? 'Accept Failed' : 'Decline Failed', description: err?.message ?? `Could not ${action} the proposal`, variant: 'destructive' });
+      // The proposal may have expired or been answered meanwhile
+      onChanged(null);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="mt-2">
+      <h4 className="text-sm font-medium">Reschedule Proposals</h4>
+      <ol className="mt-2 border-l border-white/10 space-y-4">
+        {history.map(proposal => {
+          const mine = proposal.proposed_by_user_id === currentUserId;
+          const open = isOpen(proposal);
+          const canRespond = open && Boolean(currentUserId) && !mine;
+          const status = proposal.status === 'PENDING' && !open ? 'EXPIRED' : proposal.status;
+          return (
+            <li key={proposal.id} className="relative pl-4">
+              <span className={`absolute -left-[5px] top-1.5 w-2.5 h-2.5 rounded-full ${open ? 'bg-yellow-500' : 'bg-white/20'}`} />
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-medium text-foreground">
+                  {mine ? 'You' : `The ${otherLabel}`} {proposal.counter_to_proposal_id ? 'countered' : 'proposed'}
+                </span>
+                <span className="text-xs text-muted-foreground">{formatInTimeZone(proposal.created_at, timeZone, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}</span>
+                <Badge variant="outline" className={STATUS_STYLES[status] ?? 'text-muted-foreground border-white/10'}>{status}</Badge>
+                {open && proposal.expires_at && (
+                  <span className="text-xs text-muted-foreground">expires {formatInTimeZone(proposal.expires_at, timeZone, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}</span>
+                )}
+              </div>
+              <ol className="mt-2 space-y-2">
+                {slotsOf(proposal).map((slot, i) => {
+                  const accepted = proposal.status === 'ACCEPTED' && (proposal.accepted_slot ?? 0) === i;
+                  return (
+                    <li key={i} className={`flex items-center justify-between gap-2 p-2 rounded ${accepted ? 'bg-green-500/10 border border-green-500/20' : 'bg-muted'}`}>
+                      <div className="text-sm flex items-start gap-2">
+                        <span className="text-xs text-muted-foreground mt-0.5">{i + 1}.</span>
+                        <MeetingTime start={slot.start_time} end={slot.end_time} timeZone={timeZone} otherTimeZone={otherTimeZone} otherLabel={otherLabel} />
+                        {accepted && <Check className="w-4 h-4 text-green-500 mt-0.5" />}
+                      </div>
+                      {canRespond && (
+                        <Button size="sm" disabled={busy} onClick={() => respond(proposal, 'accept', i)}>Accept</Button>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+              {canRespond && (
+                <div className="flex gap-2 mt-2">
+                  <Button size="sm" variant="outline" disabled={busy} onClick={() => respond(proposal, 'decline')}>Decline</Button>
+                  <Button size="sm" variant="outline" disabled={busy} onClick={() => onCounter(proposal)}>Suggest Other Times</Button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogFooter,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { TimezoneSelect, browserTimeZone } from "@/components/meeting-time";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, X } from "lucide-react";
+import { useEffect, useState } from "react";
+import { parseLocalDateTime, toLocalDateTimeInput } from "@shared/timezone";
+
+// Matches MAX_PROPOSAL_SLOTS on the server
+const MAX_SLOTS = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface SlotRow { start: string; end: string }
+
+function defaultRow(timeZone: string): SlotRow {
+  const d = new Date();
+  d.setDate(d.getDate() + 1);
+  d.setHours(9, 0, 0, 0);
+  return { start: toLocalDateTimeInput(d, timeZone), end: toLocalDateTimeInput(new Date(d.getTime() + 30 * 60 * 1000), timeZone) };
+}
+
+/**
+ * Propose up to five candidate times, in order of preference. Posts `{ slots, timezone }` to
+ * `endpoint`: a meeting request's proposals, or a pending proposal's counter.
+ */
+export function ProposeTimesDialog({ open, onOpenChange, endpoint, title, description, timeZone, initial, onSent }: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  endpoint: string | null;
+  title: string;
+  description: string;
+  timeZone?: string;
+  /** Prefill the first choice (e.g. the current meeting time) */
+  initial?: { start: string; end: string } | null;
+  onSent: () => void;
+}) {
+  const { toast } = useToast();
+  const [zone, setZone] = useState<string>(timeZone ?? browserTimeZone());
+  const [rows, setRows] = useState<SlotRow[]>([]);
+  const [sending, setSending] = useState(false);
+
+  // Start over each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    const tz = timeZone ?? browserTimeZone();
+    setZone(tz);
+    setRows([initial
+      ? { start: toLocalDateTimeInput(new Date(initial.start), tz), end: toLocalDateTimeInput(new Date(initial.end), tz) }
+      : defaultRow(tz)]);
+  }, [open]);
+
+  const update = (index: number, patch: Partial<SlotRow>) => setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+
+  // Another option: same time of day as the last one, a day later
+  const addRow = () => {
+    const last = rows[rows.length - 1];
+    const start = last && parseLocalDateTime(last.start, zone);
+    const end = last && parseLocalDateTime(last.end, zone);
+    if (!start || !end) return setRows(prev => [...prev, defaultRow(zone)]);
+    setRows(prev => [...prev, { start: toLocalDateTimeInput(new Date(start.getTime() + DAY_MS), zone), end: toLocalDateTimeInput(new Date(end.getTime() + DAY_MS), zone) }]);
+  };
+
+  const submit = async () => {
+    if (!endpoint) return;
+    // The inputs are wall-clock values in the selected timezone, not the browser's
+    const slots = [];
+    for (const row of rows) {
+      const start = parseLocalDateTime(row.start, zone);
+      const end = parseLocalDateTime(row.end, zone);
+      if (!start || !end || end <= start) {
+        toast({ title: 'Invalid time', description: 'Each option needs a start and an end after it.' });
+        return;
+      }
+      slots.push({ start_time: start.toISOString(), end_time: end.toISOString() });
+    }
+
+    setSending(true);
+    try {
+      const res = await fetch(endpoint, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ slots, timezone: zone }),
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(body?.message ?? 'Could not send the proposal');
+      toast({ title: 'Proposal Sent', description: `The other participant can pick any of the ${slots.length === 1 ? 'proposed time' : `${slots.length} proposed times`}.` });
+      onOpenChange(false);
+      onSent();
+    } catch (err: any) {
+      toast({ title: 'Proposal Failed', description: err?.message ?? 'Could not send the proposal', variant: 'destructive' });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 mt-4">
+          {rows.map((row, i) => (
+            <div key={i} className="flex items-end gap-2">
+              <span className="text-sm text-muted-foreground w-5 pb-2">{i + 1}.</span>
+              <div className="flex-1">
+                {i === 0 && <label className="text-sm">Start</label>}
+                <input type="datetime-local" value={row.start} onChange={(e) => update(i, { start: e.target.value })} className="w-full p-2 rounded bg-input text-sm" />
+              </div>
+              <div className="flex-1">
+                {i === 0 && <label className="text-sm">End</label>}
+                <input type="datetime-local" value={row.end} onChange={(e) => update(i, { end: e.target.value })} className="w-full p-2 rounded bg-input text-sm" />
+              </div>
+              <Button variant="ghost" size="icon" disabled={rows.length === 1} onClick={() => setRows(prev => prev.filter((_, j) => j !== i))}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          {rows.length < MAX_SLOTS && (
+            <Button variant="outline" size="sm" className="border-white/10" onClick={addRow}>
+              <Plus className="w-4 h-4 mr-2" /> Add another time
+            </Button>
+          )}
+          <div>
+            <label className="text-sm">Timezone</label>
+            <TimezoneSelect value={zone} onChange={setZone} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button onClick={submit} disabled={sending || rows.length === 0}>{sending ? 'Sending...' : 'Send Proposal'}</Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,29 @@
+import { SECTOR_GROUPS, findSector } from "@shared/sectors";
+
+/**
+ * Native sector picker grouped by top-level category. A stored value that is not in the
+ * taxonomy (older free-text data) stays selectable so saving does not silently drop it.
+ */
+export function SectorSelect({ value, onChange, placeholder = "Select sector", className }: {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+}) {
+  const known = !value || Boolean(findSector(value));
+  return (
+    <select
+      value={known ? (findSector(value)?.label ?? "") : value}
+      onChange={(e) => onChange(e.target.value)}
+      className={className ?? "w-full bg-background/50 border border-white/10 rounded-md p-2 text-sm"}
+    >
+      <option value="">{placeholder}</option>
+      {!known && <option value={value}>{value}</option>}
+      {SECTOR_GROUPS.map(group => (
+        <optgroup key={group.label} label={group.label}>
+          {group.sectors.map(sector => <option key={sector} value={sector}>{sector}</option>)}
+        </optgroup>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,112 @@
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Copy, Download, ExternalLink } from "lucide-react";
+
+export const TOTP_CODE_LENGTH = 6;
+
+/**
+ * Six-digit code from an authenticator app
+ */
+export function TotpCodeInput({ value, onChange, onComplete, disabled }: {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <InputOTP
+      maxLength={TOTP_CODE_LENGTH}
+      value={value}
+      onChange={(next) => onChange(next.replace(/\D/g, ""))}
+      onComplete={onComplete}
+      disabled={disabled}
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      autoFocus
+      containerClassName="justify-center"
+    >
+      <InputOTPGroup>
+        {Array.from({ length: TOTP_CODE_LENGTH }, (_, i) => <InputOTPSlot key={i} index={i} className="border-white/10 bg-white/5" />)}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+/**
+ * The key to add to an authenticator app: a link that opens the app on phones, and the key
+ * itself to type in
+ */
+export function TwoFactorSetupKey({ secret, otpauthUri, onCopied }: {
+  secret: string;
+  otpauthUri: string;
+  onCopied?: (ok: boolean) => void;
+}) {
+  const grouped = secret.match(/.{1,4}/g)?.join(" ") ?? secret;
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(secret);
+      onCopied?.(true);
+    } catch {
+      onCopied?.(false);
+    }
+  };
+  return (
+    <div className="space-y-3">
+      <div className="p-3 bg-white/5 rounded-lg border border-white/10">
+        <p className="text-xs text-muted-foreground mb-1">Setup key</p>
+        <div className="flex items-center justify-between gap-2">
+          <code className="font-mono text-sm break-all">{grouped}</code>
+          <Button type="button" variant="ghost" size="icon" onClick={copy} aria-label="Copy setup key">
+            <Copy className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+      <Button type="button" variant="outline" className="w-full" asChild>
+        <a href={otpauthUri}>
+          <ExternalLink className="w-4 h-4 mr-2" />
+          Open in authenticator app
+        </a>
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Recovery codes as issued; they are not shown again
+ */
+export function RecoveryCodeList({ codes, onCopied }: { codes: string[]; onCopied?: (ok: boolean) => void }) {
+  const text = codes.join("\n");
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      onCopied?.(true);
+    } catch {
+      onCopied?.(false);
+    }
+  };
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([`EIF recovery codes (each works once)\n\n${text}\n`], { type: "text/plain" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "eif-recovery-codes.txt";
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2 p-3 bg-white/5 rounded-lg border border-white/10">
+        {codes.map(code => <code key={code} className="font-mono text-sm text-center">{code}</code>)}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" className="flex-1" onClick={copy}>
+          <Copy className="w-4 h-4 mr-2" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" className="flex-1" onClick={download}>
+          <Download className="w-4 h-4 mr-2" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -25,8 +25,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { Loader2, ArrowLeft, CheckCircle2, Mail } from "lucide-react";
+import { Loader2, ArrowLeft, CheckCircle2, Mail, ShieldCheck } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { TimezoneSelect, browserTimeZone } from "@/components/meeting-time";
+import { RecoveryCodeList, TOTP_CODE_LENGTH, TotpCodeInput, TwoFactorSetupKey } from "@/components/two-factor";
 
 const loginSchema = z.object({
   email: z.string().email({ message: "Invalid email address" }),
@@ -94,6 +96,16 @@ export default function AuthPage() {
   const [resetToken, setResetToken] = useState('');
   const [showResendVerification, setShowResendVerification] = useState(false);
   const [resendEmail, setResendEmail] = useState('');
+  // Second login step: a code for accounts with two-factor authentication, or setting it up
+  // when the account's role requires it. `challenge` proves the password was right.
+  const [twoFactorStep, setTwoFactorStep] = useState<'verify' | 'setup' | 'recovery-codes' | null>(null);
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState('');
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [recoveryCodeInput, setRecoveryCodeInput] = useState('');
+  const [setupKey, setSetupKey] = useState<{ secret: string; otpauthUri: string } | null>(null);
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[]>([]);
+  const [signedInRole, setSignedInRole] = useState<string | undefined>();
   const { toast } = useToast();
 
   // URL params parsing (simplified)
@@ -118,7 +130,7 @@ export default function AuthPage() {
       automatic_availability: false,
       availability_from: "",
       availability_to: "",
-      availability_timezone: "UTC",
+      availability_timezone: browserTimeZone(),
       arrange_meetings: false,
     },
   });
@@ -170,6 +182,95 @@ export default function AuthPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [tokenFromUrl]);
 
+  function goToDashboard(role: string | undefined) {
+    if (role === 'company') setLocation('/dashboard/company');
+    else if (role === 'admin') setLocation('/dashboard/admin');
+    else setLocation('/dashboard/investor');
+  }
+
+  function leaveTwoFactor() {
+    setTwoFactorStep(null);
+    setTwoFactorChallenge('');
+    setTwoFactorCode('');
+    setUseRecoveryCode(false);
+    setRecoveryCodeInput('');
+    setSetupKey(null);
+    loginForm.resetField('password');
+  }
+
+  // The challenge lasts a few minutes; after that the password has to be entered again
+  function handleTwoFactorFailure(res: Response, data: any, title: string) {
+    if (data?.code === 'challenge_expired' || res.status === 403 || res.status === 503) {
+      leaveTwoFactor();
+    }
+    setTwoFactorCode('');
+    toast({ title, description: data?.message ?? 'Please try again', variant: 'destructive' });
+  }
+
+  async function startTwoFactorSetup(challenge: string) {
+    const res = await fetch('/api/auth/2fa/setup', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ challenge }),
+    });
+    const data = await res.json();
+    if (!res.ok) return handleTwoFactorFailure(res, data, 'Setup failed');
+    setSetupKey({ secret: data.secret, otpauthUri: data.otpauthUri });
+  }
+
+  async function onTwoFactorVerify(code?: string) {
+    const value = useRecoveryCode ? recoveryCodeInput.trim() : (code ?? twoFactorCode);
+    if (!value || (!useRecoveryCode && value.length !== TOTP_CODE_LENGTH)) return;
+    setIsLoading(true);
+    try {
+      const res = await fetch('/api/auth/2fa/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(useRecoveryCode ? { challenge: twoFactorChallenge, recoveryCode: value } : { challenge: twoFactorChallenge, code: value }),
+      });
+      const data = await res.json();
+      if (!res.ok) return handleTwoFactorFailure(res, data, 'Verification failed');
+
+      if (typeof data.recoveryCodesRemaining === 'number') {
+        toast({
+          title: 'Recovery code used',
+          description: `${data.recoveryCodesRemaining} recovery code${data.recoveryCodesRemaining === 1 ? '' : 's'} left. You can create new ones in Settings.`,
+        });
+      }
+      goToDashboard(data?.user?.role);
+    } catch (err: any) {
+      toast({ title: 'Verification failed', description: err?.message ?? 'Unable to verify the code', variant: 'destructive' });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function onTwoFactorConfirm(code?: string) {
+    const value = code ?? twoFactorCode;
+    if (value.length !== TOTP_CODE_LENGTH) return;
+    setIsLoading(true);
+    try {
+      const res = await fetch('/api/auth/2fa/confirm', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ challenge: twoFactorChallenge, code: value }),
+      });
+      const data = await res.json();
+      if (!res.ok) return handleTwoFactorFailure(res, data, 'Setup failed');
+
+      setSignedInRole(data?.user?.role);
+      setNewRecoveryCodes(data.recoveryCodes ?? []);
+      setTwoFactorStep('recovery-codes');
+    } catch (err: any) {
+      toast({ title: 'Setup failed', description: err?.message ?? 'Unable to verify the code', variant: 'destructive' });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
   async function onLogin(values: z.infer<typeof loginSchema>) {
     setIsLoading(true);
     try {
@@ -190,10 +291,19 @@ export default function AuthPage() {
         throw new Error(msg);
       }
 
-      const role = data?.user?.role as string | undefined;
-      if (role === 'company') setLocation('/dashboard/company');
-      else if (role === 'admin') setLocation('/dashboard/admin');
-      else setLocation('/dashboard/investor');
+      if (data?.code === 'two_factor_required' || data?.code === 'two_factor_setup_required') {
+        setTwoFactorChallenge(data.challenge);
+        setTwoFactorCode('');
+        if (data.code === 'two_factor_required') {
+          setTwoFactorStep('verify');
+        } else {
+          setTwoFactorStep('setup');
+          await startTwoFactorSetup(data.challenge);
+        }
+        return;
+      }
+
+      goToDashboard(data?.user?.role as string | undefined);
     } catch (err: any) {
       toast({ title: 'Login failed', description: err?.message ?? 'Unable to login' });
     } finally {
@@ -249,7 +359,9 @@ export default function AuthPage() {
       // Success: Show verification message and reset form
       toast({ 
         title: 'Success!', 
-        description: 'A verification link has been sent to your email. Please verify your email before logging in.' 
+        description: data?.approval_status === 'pending'
+          ? 'A verification link has been sent to your email. Please verify your email; an administrator will also review your account before you can log in.'
+          : 'A verification link has been sent to your email. Please verify your email before logging in.'
       });
       registerForm.reset({
         name: "",
@@ -259,7 +371,7 @@ export default function AuthPage() {
         automatic_availability: false,
         availability_from: "",
         availability_to: "",
-        availability_timezone: "UTC",
+        availability_timezone: browserTimeZone(),
         arrange_meetings: false,
       });
       
@@ -476,6 +588,97 @@ export default function AuthPage() {
     );
   }
 
+  if (twoFactorStep) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background relative overflow-hidden p-4">
+        <div className="absolute top-[-20%] left-[-10%] w-[500px] h-[500px] bg-primary/20 rounded-full blur-[120px]" />
+        <div className="absolute bottom-[-20%] right-[-10%] w-[500px] h-[500px] bg-secondary/20 rounded-full blur-[120px]" />
+
+        <Card className="w-full max-w-md border-white/10 bg-black/60 backdrop-blur-xl shadow-2xl">
+          <CardHeader className="space-y-1 text-center">
+            <div className="w-12 h-12 mx-auto mb-4 rounded-xl bg-gradient-to-br from-green-500 to-emerald-500 flex items-center justify-center text-white shadow-lg shadow-green-500/25">
+              <ShieldCheck className="h-6 w-6" />
+            </div>
+            <CardTitle className="text-2xl font-heading">
+              {twoFactorStep === 'verify' ? 'Two-factor authentication' : twoFactorStep === 'setup' ? 'Set up two-factor authentication' : 'Save your recovery codes'}
+            </CardTitle>
+            <CardDescription>
+              {twoFactorStep === 'verify' && (useRecoveryCode
+                ? 'Enter one of the recovery codes you saved when you set up two-factor authentication'
+                : 'Enter the 6-digit code from your authenticator app')}
+              {twoFactorStep === 'setup' && 'Your account type requires a second step at sign-in. Add this key to an authenticator app, then enter the code it shows.'}
+              {twoFactorStep === 'recovery-codes' && 'Each code signs you in once if you lose your phone. They will not be shown again.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {twoFactorStep === 'verify' && (
+              <form onSubmit={(e) => { e.preventDefault(); onTwoFactorVerify(); }} className="space-y-4">
+                {useRecoveryCode ? (
+                  <Input
+                    value={recoveryCodeInput}
+                    onChange={(e) => setRecoveryCodeInput(e.target.value)}
+                    placeholder="xxxxx-xxxxx"
+                    autoComplete="off"
+                    autoFocus
+                    className="bg-white/5 border-white/10 font-mono text-center"
+                  />
+                ) : (
+                  <TotpCodeInput value={twoFactorCode} onChange={setTwoFactorCode} onComplete={(code) => onTwoFactorVerify(code)} disabled={isLoading} />
+                )}
+                <Button type="submit" className="w-full bg-primary hover:bg-primary/90" disabled={isLoading}>
+                  {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : "Verify"}
+                </Button>
+                <Button type="button" variant="ghost" className="w-full text-sm" onClick={() => { setUseRecoveryCode(!useRecoveryCode); setTwoFactorCode(''); setRecoveryCodeInput(''); }}>
+                  {useRecoveryCode ? 'Use your authenticator app' : 'Use a recovery code'}
+                </Button>
+              </form>
+            )}
+
+            {twoFactorStep === 'setup' && (
+              setupKey ? (
+                <form onSubmit={(e) => { e.preventDefault(); onTwoFactorConfirm(); }} className="space-y-4">
+                  <TwoFactorSetupKey
+                    secret={setupKey.secret}
+                    otpauthUri={setupKey.otpauthUri}
+                    onCopied={(ok) => toast(ok ? { title: 'Copied', description: 'Setup key copied to clipboard.' } : { title: 'Error', description: 'Could not copy the key', variant: 'destructive' })}
+                  />
+                  <Label className="block text-center">Code from the app</Label>
+                  <TotpCodeInput value={twoFactorCode} onChange={setTwoFactorCode} onComplete={(code) => onTwoFactorConfirm(code)} disabled={isLoading} />
+                  <Button type="submit" className="w-full bg-primary hover:bg-primary/90" disabled={isLoading}>
+                    {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : "Turn on and sign in"}
+                  </Button>
+                </form>
+              ) : (
+                <div className="flex justify-center">
+                  <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                </div>
+              )
+            )}
+
+            {twoFactorStep === 'recovery-codes' && (
+              <RecoveryCodeList
+                codes={newRecoveryCodes}
+                onCopied={(ok) => toast(ok ? { title: 'Copied', description: 'Recovery codes copied to clipboard.' } : { title: 'Error', description: 'Could not copy the codes', variant: 'destructive' })}
+              />
+            )}
+          </CardContent>
+          <CardFooter>
+            {twoFactorStep === 'recovery-codes' ? (
+              <Button className="w-full" onClick={() => goToDashboard(signedInRole)}>
+                I have saved my codes
+              </Button>
+            ) : (
+              <Button variant="ghost" className="w-full" onClick={leaveTwoFactor}>
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to login
+              </Button>
+            )}
+          </CardFooter>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background relative overflow-hidden p-4">
       {/* Forgot Password Dialog */}
@@ -765,16 +968,11 @@ export default function AuthPage() {
                           <FormItem>
                             <FormLabel>Timezone</FormLabel>
                             <FormControl>
-                              <select 
-                                {...field}
+                              <TimezoneSelect
+                                value={field.value}
+                                onChange={field.onChange}
                                 className="w-full bg-white/5 border border-white/10 rounded-md p-2 text-sm"
-                              >
-                                <option value="UTC">UTC</option>
-                                <option value="EST">EST</option>
-                                <option value="CST">CST</option>
-                                <option value="MST">MST</option>
-                                <option value="PST">PST</option>
-                              </select>
+                              />
                             </FormControl>
                             <FormMessage />
                           </FormItem>
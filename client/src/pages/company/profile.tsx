@@ -4,6 +4,7 @@ import { DashboardLayout } from "@/components/layout-dashboard";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { Bookmark, BookmarkCheck } from "lucide-react";
 
 export default function CompanyPublicProfile() {
   const [match, params] = useRoute('/company/:userId');
@@ -13,6 +14,8 @@ export default function CompanyPublicProfile() {
 
   const [company, setCompany] = useState<any>(null);
   const [loading, setLoading] = useState(true);
+  const [isInvestor, setIsInvestor] = useState(false);
+  const [saved, setSaved] = useState(false);
 
   useEffect(() => {
     if (!userId) return;
@@ -41,6 +44,41 @@ export default function CompanyPublicProfile() {
     return () => { mounted = false; };
   }, [userId]);
 
+  // Investors can save the company to their watchlist
+  useEffect(() => {
+    if (!userId) return;
+    let mounted = true;
+    (async () => {
+      try {
+        const meRes = await fetch('/api/users/me', { credentials: 'include' });
+        if (!meRes.ok) return;
+        const me = await meRes.json();
+        if (!String(me?.role ?? '').toLowerCase().includes('investor')) return;
+        if (mounted) setIsInvestor(true);
+        const favRes = await fetch('/api/investors/me/favorites', { credentials: 'include' });
+        if (!favRes.ok) return;
+        const favorites = await favRes.json();
+        if (mounted) setSaved(Array.isArray(favorites) && favorites.some((f: any) => f.user_id === userId));
+      } catch (err) {
+        console.error(err);
+      }
+    })();
+    return () => { mounted = false; };
+  }, [userId]);
+
+  const toggleSaved = async () => {
+    if (!userId) return;
+    try {
+      const res = await fetch(`/api/investors/me/favorites/${userId}`, { method: saved ? 'DELETE' : 'POST', credentials: 'include' });
+      if (!res.ok) throw new Error('request failed');
+      setSaved(!saved);
+      toast({ title: saved ? 'Removed from Saved' : 'Company Saved', description: saved ? 'Removed from your watchlist.' : 'Added to your watchlist.' });
+    } catch (err) {
+      console.error(err);
+      toast({ title: 'Error', description: 'Could not update your watchlist.' });
+    }
+  };
+
   const handleDownload = async (fileName?: string, url?: string) => {
     if (!userId) return;
     try {
@@ -75,6 +113,12 @@ export default function CompanyPublicProfile() {
             <p className="text-muted-foreground">{company?.tagline ?? ''}</p>
           </div>
           <div className="flex gap-2">
+            {isInvestor && (
+              <Button variant="outline" onClick={toggleSaved}>
+                {saved ? <BookmarkCheck className="w-4 h-4 mr-2" /> : <Bookmark className="w-4 h-4 mr-2" />}
+                {saved ? 'Saved' : 'Save'}
+              </Button>
+            )}
             <Button onClick={() => setLocation('/auth')}>Request Meeting</Button>
             <Button onClick={() => handleDownload(company?.links?.pitch_deck?.name, company?.links?.pitch_deck?.url)} className="bg-secondary">Download Deck</Button>
           </div>
@@ -2,17 +2,133 @@ import { DashboardLayout } from "@/components/layout-dashboard";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogFooter,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
 import { Users, Calendar, AlertCircle, CheckCircle, XCircle } from "lucide-react";
+import { useEffect, useState } from "react";
+
+type ApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+interface AdminUser {
+  id: string;
+  email: string;
+  name?: string;
+  role?: string;
+  email_verified?: boolean;
+  approval_status?: ApprovalStatus;
+  created_at?: string;
+  // Only on accounts waiting for approval
+  profile?: any;
+}
+
+const STATUS_LABELS: Record<ApprovalStatus, string> = { pending: 'Pending', approved: 'Approved', rejected: 'Rejected' };
+
+// One line about the applicant from their company or investor profile
+function profileSummary(user: AdminUser): string | null {
+  const p = user.profile;
+  if (!p) return null;
+  const parts = (user.role ?? '').toLowerCase().includes('company')
+    ? [p.company_name, p.sector, p.stage, p.hq_location]
+    : [p.firm, p.investor_type, p.location];
+  const summary = parts.filter(Boolean).join(' · ');
+  return summary || null;
+}
 
 export default function AdminDashboard() {
-  const recentUsers = [
-    { name: "GreenTech Ventures", email: "contact@greentech.vc", role: "Investor", status: "Pending" },
-    { name: "Solar Solutions Inc", email: "admin@solarsolutions.com", role: "Company", status: "Verified" },
-    { name: "James Wilson", email: "j.wilson@apexcapital.com", role: "Investor", status: "Verified" },
-    { name: "HydroGen Corp", email: "info@hydrogencorp.energy", role: "Company", status: "Pending" },
-    { name: "Wind Power Ltd", email: "hello@windpower.co.uk", role: "Company", status: "Rejected" },
-  ];
+  const { toast } = useToast();
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [pending, setPending] = useState<AdminUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [rejecting, setRejecting] = useState<AdminUser | null>(null);
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [maintenance, setMaintenance] = useState<boolean | null>(null);
+
+  const load = async () => {
+    try {
+      const [usersRes, pendingRes, settingsRes] = await Promise.all([
+        fetch('/api/admin/users', { credentials: 'include' }),
+        fetch('/api/admin/approvals', { credentials: 'include' }),
+        fetch('/api/admin/settings', { credentials: 'include' }),
+      ]);
+      if (!usersRes.ok || !pendingRes.ok) throw new Error('failed to load accounts');
+      setUsers((await usersRes.json()) || []);
+      setPending((await pendingRes.json()) || []);
+      if (settingsRes.ok) setMaintenance(Boolean((await settingsRes.json())?.maintenance_mode));
+    } catch (err: any) {
+      toast({ title: 'Failed', description: 'Could not load accounts', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const decide = async (user: AdminUser, decision: 'approve' | 'reject', decisionReason?: string) => {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/admin/users/${user.id}/${decision}`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason: decisionReason }),
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(body?.message ?? 'Could not update the account');
+      toast({
+        title: decision === 'approve' ? 'Account Approved' : 'Account Rejected',
+        description: `${user.email} has been notified by email.`,
+      });
+      setRejecting(null);
+      setReason('');
+      await load();
+    } catch (err: any) {
+      toast({ title: 'Update Failed', description: err?.message ?? 'Could not update the account', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleMaintenance = async () => {
+    const next = !maintenance;
+    setSaving(true);
+    try {
+      const res = await fetch('/api/admin/settings', {
+        method: 'PATCH',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ maintenance_mode: next }),
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(body?.message ?? 'Could not change maintenance mode');
+      setMaintenance(Boolean(body?.maintenance_mode));
+      toast({
+        title: next ? 'Maintenance Mode On' : 'Maintenance Mode Off',
+        description: next ? 'Only admins can use the platform until you turn it off.' : 'The platform is open again.',
+      });
+    } catch (err: any) {
+      toast({ title: 'Update Failed', description: err?.message ?? 'Could not change maintenance mode', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Applicants first (with their profile), then the latest registrations
+  const pendingIds = new Set(pending.map(u => u.id));
+  const recentUsers = [...pending, ...users.filter(u => !pendingIds.has(u.id))].slice(0, Math.max(10, pending.length));
+  const investors = users.filter(u => (u.role ?? '').toLowerCase().includes('investor')).length;
+  const companies = users.filter(u => (u.role ?? '').toLowerCase().includes('company')).length;
 
   return (
     <DashboardLayout role="admin">
@@ -22,7 +138,9 @@ export default function AdminDashboard() {
             <h1 className="text-3xl font-bold font-heading">System Administration</h1>
             <p className="text-muted-foreground">Manage users, approvals, and platform settings.</p>
           </div>
-          <Button variant="destructive">Emergency Maintenance</Button>
+          <Button variant={maintenance ? "outline" : "destructive"} disabled={maintenance === null || saving} onClick={toggleMaintenance}>
+            {maintenance ? 'End Maintenance' : 'Emergency Maintenance'}
+          </Button>
         </div>
 
         {/* Stats */}
@@ -33,8 +151,8 @@ export default function AdminDashboard() {
               <Users className="h-4 w-4 text-primary" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">1,234</div>
-              <p className="text-xs text-muted-foreground mt-1">845 Investors, 389 Companies</p>
+              <div className="text-2xl font-bold">{loading ? '–' : users.length.toLocaleString()}</div>
+              <p className="text-xs text-muted-foreground mt-1">{investors} Investors, {companies} Companies</p>
             </CardContent>
           </Card>
           <Card className="bg-card/50 border-white/5">
@@ -43,8 +161,8 @@ export default function AdminDashboard() {
               <AlertCircle className="h-4 w-4 text-yellow-500" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">12</div>
-              <p className="text-xs text-muted-foreground mt-1">Requires immediate attention</p>
+              <div className="text-2xl font-bold">{loading ? '–' : pending.length}</div>
+              <p className="text-xs text-muted-foreground mt-1">{pending.length > 0 ? 'Requires immediate attention' : 'All caught up'}</p>
             </CardContent>
           </Card>
           <Card className="bg-card/50 border-white/5">
@@ -77,45 +195,80 @@ export default function AdminDashboard() {
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {recentUsers.map((user, i) => (
-                  <TableRow key={i} className="border-white/10 hover:bg-white/5">
-                    <TableCell className="font-medium">{user.name}</TableCell>
-                    <TableCell>{user.email}</TableCell>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">Loading...</TableCell>
+                  </TableRow>
+                ) : recentUsers.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">No registrations yet</TableCell>
+                  </TableRow>
+                ) : recentUsers.map((user) => {
+                  const status = user.approval_status ?? 'approved';
+                  const role = (user.role ?? '').toLowerCase();
+                  const summary = profileSummary(user);
+                  return (
+                  <TableRow key={user.id} className="border-white/10 hover:bg-white/5">
+                    <TableCell className="font-medium">
+                      <div>{user.name || user.email}</div>
+                      {summary && <div className="text-xs text-muted-foreground font-normal">{summary}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <div>{user.email}</div>
+                      {!user.email_verified && <div className="text-xs text-muted-foreground">Email not verified</div>}
+                    </TableCell>
                     <TableCell>
                       <Badge variant="outline" className={
-                        user.role === "Investor" 
+                        role.includes('investor')
                           ? "bg-primary/10 text-primary border-primary/20" 
                           : "bg-secondary/10 text-secondary border-secondary/20"
                       }>
-                        {user.role}
+                        {role.includes('investor') ? 'Investor' : role.includes('company') ? 'Company' : (user.role ?? 'User')}
                       </Badge>
                     </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-2">
-                        {user.status === "Verified" && <CheckCircle className="w-4 h-4 text-green-500" />}
-                        {user.status === "Pending" && <AlertCircle className="w-4 h-4 text-yellow-500" />}
-                        {user.status === "Rejected" && <XCircle className="w-4 h-4 text-red-500" />}
-                        <span className="text-sm">{user.status}</span>
+                        {status === "approved" && <CheckCircle className="w-4 h-4 text-green-500" />}
+                        {status === "pending" && <AlertCircle className="w-4 h-4 text-yellow-500" />}
+                        {status === "rejected" && <XCircle className="w-4 h-4 text-red-500" />}
+                        <span className="text-sm">{STATUS_LABELS[status]}</span>
                       </div>
                     </TableCell>
                     <TableCell className="text-right">
-                      {user.status === "Pending" && (
+                      {status === "pending" && (
                         <div className="flex justify-end gap-2">
-                          <Button size="sm" variant="ghost" className="h-8 w-8 p-0 text-green-500 hover:text-green-400 hover:bg-green-500/10">
+                          <Button size="sm" variant="ghost" title="Approve" disabled={saving} onClick={() => decide(user, 'approve')} className="h-8 w-8 p-0 text-green-500 hover:text-green-400 hover:bg-green-500/10">
                             <CheckCircle className="w-4 h-4" />
                           </Button>
-                          <Button size="sm" variant="ghost" className="h-8 w-8 p-0 text-red-500 hover:text-red-400 hover:bg-red-500/10">
+                          <Button size="sm" variant="ghost" title="Reject" disabled={saving} onClick={() => { setRejecting(user); setReason(''); }} className="h-8 w-8 p-0 text-red-500 hover:text-red-400 hover:bg-red-500/10">
                             <XCircle className="w-4 h-4" />
                           </Button>
                         </div>
                       )}
                     </TableCell>
                   </TableRow>
-                ))}
+                  );
+                })}
               </TableBody>
             </Table>
           </CardContent>
         </Card>
+
+        <Dialog open={rejecting !== null} onOpenChange={(open) => { if (!open) setRejecting(null); }}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Reject Account</DialogTitle>
+              <DialogDescription>{rejecting?.email} will receive this reason by email.</DialogDescription>
+            </DialogHeader>
+            <Textarea value={reason} onChange={(e) => setReason(e.target.value)} maxLength={1000} placeholder="Reason for rejecting this application" className="bg-background/50 border-white/10" />
+            <DialogFooter>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setRejecting(null)}>Cancel</Button>
+                <Button variant="destructive" disabled={saving || !reason.trim()} onClick={() => rejecting && decide(rejecting, 'reject', reason.trim())}>Reject Account</Button>
+              </div>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
       </div>
     </DashboardLayout>
   );
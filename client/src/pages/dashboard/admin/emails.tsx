@@ -0,0 +1,182 @@
+import { DashboardLayout } from "@/components/layout-dashboard";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { RefreshCw, RotateCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useCallback, useEffect, useState } from "react";
+
+interface OutboxEmail {
+  id: string;
+  to_address: string;
+  template: string;
+  subject: string;
+  status: 'pending' | 'sent' | 'failed';
+  transport?: string | null;
+  attempts: number;
+  max_attempts: number;
+  last_error?: string | null;
+  next_attempt_at?: string | null;
+  sent_at?: string | null;
+  created_at: string;
+}
+
+const STATUS_FILTERS = [
+  { value: '', label: 'All' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'pending', label: 'Pending' },
+  { value: 'sent', label: 'Sent' },
+];
+
+const STATUS_STYLES: Record<OutboxEmail['status'], string> = {
+  sent: 'bg-green-500/10 text-green-500',
+  pending: 'bg-yellow-500/10 text-yellow-500',
+  failed: 'bg-red-500/10 text-red-500',
+};
+
+export default function AdminEmails() {
+  const { toast } = useToast();
+  const [emails, setEmails] = useState<OutboxEmail[]>([]);
+  const [transport, setTransport] = useState<string>('');
+  const [status, setStatus] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  const fetchEmails = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/emails${status ? `?status=${status}` : ''}`, { credentials: 'include' });
+      if (!res.ok) throw new Error('failed to fetch emails');
+      const data = await res.json();
+      setEmails(data.emails || []);
+      setTransport(data.transport || '');
+    } catch (err: any) {
+      toast({ title: 'Failed', description: 'Could not load emails' });
+    } finally {
+      setLoading(false);
+    }
+  }, [status, toast]);
+
+  useEffect(() => {
+    fetchEmails();
+  }, [fetchEmails]);
+
+  const handleRetry = async (id: string) => {
+    try {
+      const res = await fetch(`/api/admin/emails/${id}/retry`, { method: 'POST', credentials: 'include' });
+      if (!res.ok) throw new Error('retry failed');
+      const updated: OutboxEmail = await res.json();
+      setEmails(prev => prev.map(e => (e.id === id ? { ...e, ...updated } : e)));
+      toast({
+        title: updated.status === 'sent' ? 'Email Sent' : 'Retry Failed',
+        description: updated.status === 'sent' ? `Delivered to ${updated.to_address}` : (updated.last_error ?? 'Delivery failed again'),
+      });
+    } catch (err) {
+      toast({ title: 'Retry Failed', description: 'Could not retry this email' });
+    }
+  };
+
+  const handleProcess = async () => {
+    try {
+      const res = await fetch('/api/admin/emails/process', { method: 'POST', credentials: 'include' });
+      if (!res.ok) throw new Error('processing failed');
+      const result = await res.json();
+      toast({ title: 'Outbox Processed', description: `${result.processed} due, ${result.sent} sent, ${result.failed} failed` });
+      fetchEmails();
+    } catch (err) {
+      toast({ title: 'Failed', description: 'Could not process the outbox' });
+    }
+  };
+
+  const failedCount = emails.filter(e => e.status === 'failed').length;
+
+  return (
+    <DashboardLayout role="admin">
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <h1 className="text-3xl font-bold font-heading">Email Outbox</h1>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={fetchEmails}>
+              <RefreshCw className="w-4 h-4 mr-2" /> Refresh
+            </Button>
+            <Button onClick={handleProcess}>Retry Due Emails</Button>
+          </div>
+        </div>
+
+        <Card className="bg-card/50 border-white/5">
+          <CardHeader>
+            <CardTitle>Recent Emails</CardTitle>
+            <CardDescription>
+              Transport: <span className="font-mono">{transport || '-'}</span>
+              {failedCount > 0 && <span className="text-red-500"> · {failedCount} failed</span>}
+            </CardDescription>
+            <div className="flex gap-2 pt-2">
+              {STATUS_FILTERS.map(filter => (
+                <Button
+                  key={filter.value}
+                  size="sm"
+                  variant={status === filter.value ? 'default' : 'outline'}
+                  onClick={() => setStatus(filter.value)}
+                >
+                  {filter.label}
+                </Button>
+              ))}
+            </div>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow className="border-white/10 hover:bg-white/5">
+                  <TableHead>Created</TableHead>
+                  <TableHead>To</TableHead>
+                  <TableHead>Template</TableHead>
+                  <TableHead>Subject</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">Loading...</TableCell>
+                  </TableRow>
+                ) : emails.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">No emails found</TableCell>
+                  </TableRow>
+                ) : (
+                  emails.map((email) => (
+                    <TableRow key={email.id} className="border-white/10 hover:bg-white/5">
+                      <TableCell className="whitespace-nowrap">{new Date(email.created_at).toLocaleString()}</TableCell>
+                      <TableCell className="text-muted-foreground">{email.to_address}</TableCell>
+                      <TableCell className="font-mono text-xs">{email.template}</TableCell>
+                      <TableCell className="max-w-xs truncate" title={email.subject}>{email.subject}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary" className={STATUS_STYLES[email.status]}>{email.status}</Badge>
+                        {email.last_error && email.status !== 'sent' && (
+                          <p className="text-xs text-red-500 mt-1 max-w-xs truncate" title={email.last_error}>{email.last_error}</p>
+                        )}
+                        {email.status === 'pending' && email.next_attempt_at && (
+                          <p className="text-xs text-muted-foreground mt-1">Next try {new Date(email.next_attempt_at).toLocaleTimeString()}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>{email.attempts}/{email.max_attempts}</TableCell>
+                      <TableCell className="text-right">
+                        {email.status !== 'sent' && (
+                          <Button variant="ghost" size="sm" onClick={() => handleRetry(email.id)}>
+                            <RotateCw className="w-4 h-4 mr-1" /> Retry
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
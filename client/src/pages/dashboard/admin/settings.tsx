@@ -5,8 +5,115 @@ import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/hooks/use-toast";
+import { useEffect, useState } from "react";
+import { FX_RATES_AS_OF, FX_RATES_TO_USD } from "@shared/money";
+
+interface PlatformSettings {
+  registration_open: boolean;
+  maintenance_mode: boolean;
+  require_admin_approval: boolean;
+  smtp_host: string | null;
+  smtp_port: number;
+  sender_name: string | null;
+  sender_email: string | null;
+  require_two_factor_roles: TwoFactorRole[];
+}
+
+type TwoFactorRole = 'admin' | 'investor' | 'company';
+
+const TWO_FACTOR_ROLES: { role: TwoFactorRole; label: string }[] = [
+  { role: 'investor', label: 'Investors' },
+  { role: 'company', label: 'Companies' },
+  { role: 'admin', label: 'Admins' },
+];
+
+type ToggleKey = 'registration_open' | 'maintenance_mode' | 'require_admin_approval';
+
+const emptyEmailForm = { smtp_host: '', smtp_port: '', sender_name: '', sender_email: '' };
 
 export default function AdminSettings() {
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<PlatformSettings | null>(null);
+  const [emailForm, setEmailForm] = useState(emptyEmailForm);
+  const [saving, setSaving] = useState(false);
+  const [testing, setTesting] = useState(false);
+
+  const applySettings = (next: PlatformSettings) => {
+    setSettings(next);
+    setEmailForm({
+      smtp_host: next.smtp_host ?? '',
+      smtp_port: String(next.smtp_port ?? ''),
+      sender_name: next.sender_name ?? '',
+      sender_email: next.sender_email ?? '',
+    });
+  };
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch('/api/admin/settings', { credentials: 'include' });
+        if (!res.ok) throw new Error('failed to load settings');
+        applySettings(await res.json());
+      } catch (err: any) {
+        toast({ title: 'Failed', description: 'Could not load settings', variant: 'destructive' });
+      }
+    })();
+  }, []);
+
+  const save = async (changes: Record<string, any>, successMessage: string) => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/admin/settings', {
+        method: 'PATCH',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(body?.message ?? 'Could not save settings');
+      applySettings(body);
+      toast({ title: 'Settings Saved', description: successMessage });
+    } catch (err: any) {
+      toast({ title: 'Save Failed', description: err?.message ?? 'Could not save settings', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggle = (key: ToggleKey, label: string) => (checked: boolean) =>
+    save({ [key]: checked }, `${label} is now ${checked ? 'on' : 'off'}.`);
+
+  const toggleTwoFactorRole = (role: TwoFactorRole, label: string) => (checked: boolean) => {
+    const current = settings?.require_two_factor_roles ?? [];
+    const next = checked ? [...current, role] : current.filter(r => r !== role);
+    save({ require_two_factor_roles: next }, checked
+      ? `${label} must set up two-factor authentication at their next sign-in.`
+      : `Two-factor authentication is optional for ${label.toLowerCase()}.`);
+  };
+
+  const saveEmail = () => save({
+    smtp_host: emailForm.smtp_host,
+    // An empty port goes back to the server default
+    smtp_port: emailForm.smtp_port.trim() || null,
+    sender_name: emailForm.sender_name,
+    sender_email: emailForm.sender_email,
+  }, 'Email configuration updated.');
+
+  const testConnection = async () => {
+    setTesting(true);
+    try {
+      const res = await fetch('/api/admin/settings/smtp/test', { method: 'POST', credentials: 'include' });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(body?.message ?? 'Connection failed');
+      toast({ title: 'Connection Successful', description: 'The SMTP server accepted the configuration.' });
+    } catch (err: any) {
+      toast({ title: 'Connection Failed', description: err?.message ?? 'Connection failed', variant: 'destructive' });
+    } finally {
+      setTesting(false);
+    }
+  };
+
   return (
     <DashboardLayout role="admin">
       <div className="space-y-6 max-w-4xl">
@@ -23,15 +130,15 @@ export default function AdminSettings() {
                 <Label className="text-base">Registration Open</Label>
                 <p className="text-sm text-muted-foreground">Allow new users to sign up.</p>
               </div>
-              <Switch defaultChecked />
+              <Switch checked={settings?.registration_open ?? false} disabled={!settings || saving} onCheckedChange={toggle('registration_open', 'Registration')} />
             </div>
             <Separator className="bg-white/10" />
             <div className="flex items-center justify-between">
               <div className="space-y-0.5">
                 <Label className="text-base">Maintenance Mode</Label>
-                <p className="text-sm text-muted-foreground">Take the site offline for updates.</p>
+                <p className="text-sm text-muted-foreground">Take the site offline for updates. Only admins can sign in.</p>
               </div>
-              <Switch />
+              <Switch checked={settings?.maintenance_mode ?? false} disabled={!settings || saving} onCheckedChange={toggle('maintenance_mode', 'Maintenance mode')} />
             </div>
              <Separator className="bg-white/10" />
              <div className="flex items-center justify-between">
@@ -39,7 +146,24 @@ export default function AdminSettings() {
                 <Label className="text-base">Require Admin Approval</Label>
                 <p className="text-sm text-muted-foreground">New accounts must be manually approved.</p>
               </div>
-              <Switch defaultChecked />
+              <Switch checked={settings?.require_admin_approval ?? false} disabled={!settings || saving} onCheckedChange={toggle('require_admin_approval', 'Admin approval')} />
+            </div>
+            <Separator className="bg-white/10" />
+            <div className="space-y-3">
+              <div className="space-y-0.5">
+                <Label className="text-base">Require Two-Factor Authentication</Label>
+                <p className="text-sm text-muted-foreground">Accounts of these types must sign in with an authenticator app. Users without one set it up at their next sign-in.</p>
+              </div>
+              {TWO_FACTOR_ROLES.map(({ role, label }) => (
+                <div key={role} className="flex items-center justify-between pl-4">
+                  <Label className="font-normal">{label}</Label>
+                  <Switch
+                    checked={settings?.require_two_factor_roles?.includes(role) ?? false}
+                    disabled={!settings || saving}
+                    onCheckedChange={toggleTwoFactorRole(role, label)}
+                  />
+                </div>
+              ))}
             </div>
           </CardContent>
         </Card>
@@ -47,28 +171,50 @@ export default function AdminSettings() {
         <Card className="bg-card/50 border-white/5">
           <CardHeader>
             <CardTitle>Email Configuration</CardTitle>
-            <CardDescription>SMTP settings for system emails.</CardDescription>
+            <CardDescription>SMTP settings for system emails. The SMTP username and password are set on the server.</CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="grid gap-4 md:grid-cols-2">
               <div className="space-y-2">
                 <Label>SMTP Host</Label>
-                <Input defaultValue="smtp.sendgrid.net" className="bg-background/50 border-white/10" />
+                <Input value={emailForm.smtp_host} onChange={(e) => setEmailForm({ ...emailForm, smtp_host: e.target.value })} placeholder="smtp.sendgrid.net" className="bg-background/50 border-white/10" />
               </div>
               <div className="space-y-2">
                 <Label>Port</Label>
-                <Input defaultValue="587" className="bg-background/50 border-white/10" />
+                <Input value={emailForm.smtp_port} onChange={(e) => setEmailForm({ ...emailForm, smtp_port: e.target.value })} placeholder="587" inputMode="numeric" className="bg-background/50 border-white/10" />
               </div>
               <div className="space-y-2">
                 <Label>Sender Name</Label>
-                <Input defaultValue="EIF Portal Team" className="bg-background/50 border-white/10" />
+                <Input value={emailForm.sender_name} onChange={(e) => setEmailForm({ ...emailForm, sender_name: e.target.value })} placeholder="EIF Portal Team" className="bg-background/50 border-white/10" />
               </div>
               <div className="space-y-2">
                 <Label>Sender Email</Label>
-                <Input defaultValue="noreply@energyinvestorsforum.com" className="bg-background/50 border-white/10" />
+                <Input value={emailForm.sender_email} onChange={(e) => setEmailForm({ ...emailForm, sender_email: e.target.value })} placeholder="noreply@energyinvestorsforum.com" className="bg-background/50 border-white/10" />
               </div>
             </div>
-            <Button className="mt-2">Test Connection</Button>
+            <div className="flex gap-2 mt-2">
+              <Button disabled={!settings || saving} onClick={saveEmail}>Save</Button>
+              <Button variant="outline" disabled={!settings || testing} onClick={testConnection}>{testing ? 'Testing...' : 'Test Connection'}</Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-card/50 border-white/5">
+          <CardHeader>
+            <CardTitle>Currency Conversion</CardTitle>
+            <CardDescription>
+              Static rates used to compare funding asks and check sizes (as of {FX_RATES_AS_OF}). Update them in <code>shared/money.ts</code>.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-2 grid-cols-2 md:grid-cols-4 text-sm">
+              {Object.entries(FX_RATES_TO_USD).map(([code, rate]) => (
+                <div key={code} className="flex justify-between rounded border border-white/10 bg-background/50 px-3 py-2">
+                  <span className="font-medium">{code}</span>
+                  <span className="text-muted-foreground">${rate}</span>
+                </div>
+              ))}
+            </div>
           </CardContent>
         </Card>
       </div>
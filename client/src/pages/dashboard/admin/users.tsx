@@ -4,7 +4,8 @@ import { Input } from "@/components/ui/input";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Search, MoreHorizontal, Shield, Ban, CheckCircle } from "lucide-react";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Search, MoreHorizontal, Shield, Ban, CheckCircle, ShieldOff } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useEffect, useState } from "react";
 
@@ -15,6 +16,7 @@ interface AdminUser {
   role?: string;
   email_verified?: boolean;
   created_at?: string;
+  two_factor_enabled?: boolean;
 }
 
 const USERS: AdminUser[] = [];
@@ -40,6 +42,20 @@ export default function AdminUsers() {
     };
     fetchUsers();
   }, []);
+
+  // For users who lost both their authenticator app and their recovery codes
+  const handleResetTwoFactor = async (user: AdminUser) => {
+    if (!confirm(`Turn off two-factor authentication for ${user.email}? They will be signed out everywhere and can set it up again at their next sign-in.`)) return;
+    try {
+      const res = await fetch(`/api/admin/users/${user.id}/2fa/reset`, { method: 'POST', credentials: 'include' });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(body?.message ?? 'Could not reset two-factor authentication');
+      setUsers(prev => prev.map(u => u.id === user.id ? { ...u, two_factor_enabled: false } : u));
+      toast({ title: 'Two-Factor Reset', description: `${user.email} has been signed out and emailed.` });
+    } catch (err: any) {
+      toast({ title: 'Reset Failed', description: err?.message ?? 'Could not reset two-factor authentication', variant: 'destructive' });
+    }
+  };
   return (
     <DashboardLayout role="admin">
       <div className="space-y-6">
@@ -98,11 +114,25 @@ export default function AdminUsers() {
                         <Badge variant="secondary" className={user.email_verified ? 'bg-green-500/10 text-green-500' : 'bg-yellow-500/10 text-yellow-500'}>
                           {user.email_verified ? 'Verified' : 'Pending'}
                         </Badge>
+                        {user.two_factor_enabled && (
+                          <Badge variant="outline" className="ml-2 border-white/10" title="Two-factor authentication is on">
+                            <Shield className="w-3 h-3 mr-1" /> 2FA
+                          </Badge>
+                        )}
                       </TableCell>
                       <TableCell className="text-right">
-                        <Button variant="ghost" size="icon" className="h-8 w-8">
-                          <MoreHorizontal className="w-4 h-4" />
-                        </Button>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="icon" className="h-8 w-8">
+                              <MoreHorizontal className="w-4 h-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem disabled={!user.two_factor_enabled} onSelect={() => handleResetTwoFactor(user)}>
+                              <ShieldOff className="w-4 h-4 mr-2" /> Reset two-factor authentication
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
                       </TableCell>
                     </TableRow>
                   ))
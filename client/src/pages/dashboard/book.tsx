@@ -0,0 +1,171 @@
+import { DashboardLayout } from "@/components/layout-dashboard";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { MeetingTime } from "@/components/meeting-time";
+import { useToast } from "@/hooks/use-toast";
+import { AlertCircle, CalendarCheck } from "lucide-react";
+import { useEffect, useState } from "react";
+import { useLocation, useRoute } from "wouter";
+import { formatInTimeZone } from "@shared/timezone";
+
+interface Slot { start: string; end: string }
+
+interface BookingPage {
+  meeting_request_id: string;
+  host: { id: string; name: string | null; timezone: string };
+  timezone: string;
+  durations: number[];
+  horizon_days: number;
+  duration: number;
+  slots: Slot[];
+}
+
+/**
+ * "Pick a slot": the requester of a pending meeting books one of the recipient's free times
+ */
+export default function BookMeetingPage() {
+  const [, params] = useRoute('/dashboard/meetings/:id/book');
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [role, setRole] = useState<'investor' | 'company'>('investor');
+  const [page, setPage] = useState<BookingPage | null>(null);
+  const [duration, setDuration] = useState<number | null>(null);
+  const [selected, setSelected] = useState<Slot | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [booking, setBooking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloads, setReloads] = useState(0);
+
+  useEffect(() => {
+    fetch('/api/users/me', { credentials: 'include' })
+      .then(res => (res.ok ? res.json() : null))
+      .then(me => { if (me?.role?.toLowerCase().includes('company')) setRole('company'); })
+      .catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    if (!params?.id) return;
+    setLoading(true);
+    setSelected(null);
+    const query = duration ? `?duration=${duration}` : '';
+    fetch(`/api/meetings/requests/${params.id}/booking${query}`, { credentials: 'include' })
+      .then(async res => {
+        const body = await res.json();
+        if (!res.ok) throw new Error(body?.message ?? 'Could not load free times');
+        setPage(body);
+        setError(null);
+      })
+      .catch((err: any) => setError(err?.message ?? 'Could not load free times'))
+      .finally(() => setLoading(false));
+  }, [params?.id, duration, reloads]);
+
+  const handleBook = async () => {
+    if (!page || !selected) return;
+    setBooking(true);
+    try {
+      const res = await fetch(`/api/meetings/requests/${page.meeting_request_id}/booking`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ start_time: selected.start, duration_minutes: page.duration, timezone: page.timezone }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body?.message ?? 'Could not book this time');
+      toast({ title: 'Meeting Booked', description: 'Invitations are on their way to both of you.' });
+      setLocation(`/dashboard/${role}/meetings`);
+    } catch (err: any) {
+      toast({ title: 'Booking Failed', description: err?.message ?? 'Could not book this time', variant: 'destructive' });
+      // Someone may have taken the slot: reload the free times
+      setReloads(n => n + 1);
+    } finally {
+      setBooking(false);
+    }
+  };
+
+  // Slots grouped by local day in the viewer's timezone
+  const days: { label: string; slots: Slot[] }[] = [];
+  for (const slot of page?.slots ?? []) {
+    const label = formatInTimeZone(slot.start, page!.timezone, { weekday: 'long', month: 'long', day: 'numeric' });
+    const last = days[days.length - 1];
+    if (last && last.label === label) last.slots.push(slot);
+    else days.push({ label, slots: [slot] });
+  }
+
+  return (
+    <DashboardLayout role={role}>
+      <div className="space-y-6 max-w-4xl">
+        <div>
+          <h1 className="text-3xl font-bold font-heading">Pick a Time</h1>
+          <p className="text-muted-foreground">
+            {page ? `Free times for ${page.host.name ?? 'the other participant'} over the next ${page.horizon_days} days, shown in ${page.timezone}.` : 'Free times for your meeting.'}
+          </p>
+        </div>
+
+        {error && (
+          <Card className="bg-destructive/10 border-destructive/20">
+            <CardContent className="p-4 flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 text-destructive mt-0.5 shrink-0" />
+              <p className="text-sm text-destructive">{error}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {page && (
+          <Card className="bg-card/50 border-white/5">
+            <CardHeader>
+              <CardTitle>Meeting length</CardTitle>
+              <CardDescription>Options offered by {page.host.name ?? 'the other participant'}</CardDescription>
+            </CardHeader>
+            <CardContent className="flex gap-2">
+              {page.durations.map(d => (
+                <Button key={d} variant={d === page.duration ? 'default' : 'outline'} className={d === page.duration ? '' : 'border-white/10'} onClick={() => setDuration(d)}>
+                  {d} min
+                </Button>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading free times...</p>
+        ) : page && days.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">No free times in the booking window. Try a shorter meeting or send a message instead.</div>
+        ) : (
+          <div className="space-y-4">
+            {days.map(day => (
+              <Card key={day.label} className="bg-card/50 border-white/5">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base">{day.label}</CardTitle>
+                </CardHeader>
+                <CardContent className="flex flex-wrap gap-2">
+                  {day.slots.map(slot => (
+                    <Button
+                      key={slot.start}
+                      size="sm"
+                      variant={selected?.start === slot.start ? 'default' : 'outline'}
+                      className={selected?.start === slot.start ? '' : 'border-white/10'}
+                      onClick={() => setSelected(slot)}
+                    >
+                      {formatInTimeZone(slot.start, page!.timezone, { hour: 'numeric', minute: '2-digit' })}
+                    </Button>
+                  ))}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {page && selected && (
+          <Card className="bg-primary/10 border-primary/20 sticky bottom-4">
+            <CardContent className="p-4 flex flex-col md:flex-row gap-4 items-start md:items-center justify-between">
+              <MeetingTime start={selected.start} end={selected.end} timeZone={page.timezone} otherTimeZone={page.host.timezone} otherLabel={page.host.name ?? 'other participant'} />
+              <Button onClick={handleBook} disabled={booking}>
+                <CalendarCheck className="w-4 h-4 mr-2" /> {booking ? 'Booking...' : 'Confirm Booking'}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -4,27 +4,54 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card";
-import { Search, Filter, MapPin, Briefcase, Globe } from "lucide-react";
+import { Search, Filter, MapPin, Briefcase, Globe, Mail } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { checkSizeAmount, formatMoney } from "@shared/money";
 
-// Investors will be loaded from the server API (/api/investors) which uses Supabase as
-// the primary storage backend. The server already exposes `/api/investors`.
+// Investors are loaded from `/api/companies/me/recommendations`, which scores every investor
+// against the current company. Without a company profile we fall back to `/api/investors`.
 type Investor = any;
 
+const INVESTOR_TYPES: Record<string, string> = {
+  vc: 'Venture Capital',
+  pe: 'Private Equity',
+  cvc: 'Corporate VC',
+  angel: 'Angel Group',
+};
+
 // Fallback to an empty list while data loads.
 const EMPTY: Investor[] = [];
 
 export default function CompanyInvestors() {
   const { toast } = useToast();
+  const [, setLocation] = useLocation();
   const [investors, setInvestors] = useState<Investor[]>(EMPTY);
   const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [investorType, setInvestorType] = useState("all");
+  const [stage, setStage] = useState("all");
+  const [sortBy, setSortBy] = useState<'match' | 'name'>('match');
+
+  useEffect(() => {
+    const t = window.setTimeout(() => setDebouncedSearch(search.trim()), 350);
+    return () => window.clearTimeout(t);
+  }, [search]);
 
   useEffect(() => {
     let mounted = true;
     (async () => {
+      setLoading(true);
       try {
-        const res = await fetch('/api/investors', { credentials: 'include' });
+        const params = new URLSearchParams();
+        if (debouncedSearch) params.set('search', debouncedSearch);
+        if (investorType !== 'all') params.set('type', investorType);
+        if (stage !== 'all') params.set('stage', stage);
+        let res = await fetch(`/api/companies/me/recommendations?${params.toString()}`, { credentials: 'include' });
+        // No company profile yet: list investors without match scores
+        if (res.status === 404) res = await fetch(`/api/investors?${params.toString()}`, { credentials: 'include' });
         if (!res.ok) throw new Error('failed to fetch investors');
         const data = await res.json();
         if (mounted && Array.isArray(data)) setInvestors(data);
@@ -35,24 +62,20 @@ export default function CompanyInvestors() {
       }
     })();
     return () => { mounted = false; };
-  }, []);
+  }, [debouncedSearch, investorType, stage]);
+
+  const sortedInvestors = sortBy === 'name'
+    ? [...investors].sort((a, b) => String(a.firm ?? a.full_name ?? '').localeCompare(String(b.firm ?? b.full_name ?? '')))
+    : investors;
 
-  function formatCheckSize(min: any, max: any, unit?: string) {
+  function formatCheckSize(min: any, max: any, unit?: string, currency?: string) {
     // If values are empty/null return a dash
-    if ((min === null || min === undefined || min === '') && (max === null || max === undefined || max === '')) return '—';
     const nf = (v: any) => {
       if (v === null || v === undefined || v === '') return null;
-      // Assume values are millions if small decimals present (heuristic). If value >= 1000 assume it's raw number.
       const n = Number(v);
       if (Number.isNaN(n)) return String(v);
       // Unit handling: 'M' => millions, 'k' => thousands, 'raw' => raw numeric
-      if (unit === 'raw') return `$${n.toLocaleString()}`;
-      if (unit === 'k') {
-        return n % 1 === 0 ? `$${n}k` : `$${n}k`;
-      }
-      // default to millions
-      if (Math.abs(n) >= 1000) return `${n.toLocaleString()}`;
-      return `$${n}M`;
+      return formatMoney(checkSizeAmount(n, unit ?? 'M'), currency || 'USD');
     };
     const a = nf(min);
     const b = nf(max);
@@ -79,27 +102,38 @@ export default function CompanyInvestors() {
         <div className="flex gap-4 bg-card/50 p-4 rounded-lg border border-white/5 backdrop-blur-sm">
           <div className="relative flex-1">
             <Search className="absolute left-3 top-3 w-4 h-4 text-muted-foreground" />
-            <Input placeholder="Search by firm name, focus area..." className="pl-9 bg-background/50 border-white/10" />
+            <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search by firm name, focus area..." className="pl-9 bg-background/50 border-white/10" />
           </div>
-          <Select>
+          <Select value={investorType} onValueChange={setInvestorType}>
             <SelectTrigger className="w-[180px] bg-background/50 border-white/10">
               <SelectValue placeholder="Investor Type" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="vc">Venture Capital</SelectItem>
-              <SelectItem value="pe">Private Equity</SelectItem>
-              <SelectItem value="cvc">Corporate VC</SelectItem>
-              <SelectItem value="angel">Angel Group</SelectItem>
+              <SelectItem value="all">All Types</SelectItem>
+              {Object.entries(INVESTOR_TYPES).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
-          <Select>
+          <Select value={stage} onValueChange={setStage}>
             <SelectTrigger className="w-[180px] bg-background/50 border-white/10">
               <SelectValue placeholder="Stage Focus" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="seed">Seed</SelectItem>
-              <SelectItem value="series-a">Series A</SelectItem>
-              <SelectItem value="growth">Growth</SelectItem>
+              <SelectItem value="all">All Stages</SelectItem>
+              <SelectItem value="Seed">Seed</SelectItem>
+              <SelectItem value="Series A">Series A</SelectItem>
+              <SelectItem value="Series B">Series B</SelectItem>
+              <SelectItem value="Growth">Growth</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={sortBy} onValueChange={(v) => setSortBy(v as 'match' | 'name')}>
+            <SelectTrigger className="w-[160px] bg-background/50 border-white/10">
+              <SelectValue placeholder="Sort by" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="match">Best match</SelectItem>
+              <SelectItem value="name">Name (A–Z)</SelectItem>
             </SelectContent>
           </Select>
         </div>
@@ -111,16 +145,23 @@ export default function CompanyInvestors() {
           ) : investors.length === 0 ? (
             <div className="col-span-full text-center text-muted-foreground">No investors found.</div>
           ) : (
-            investors.map((investor, idx) => (
+            sortedInvestors.map((investor, idx) => (
               <Card key={investor.user_id ?? investor.id ?? idx} className="bg-card/50 border-white/5 hover:border-secondary/50 transition-all duration-300 group">
               <CardHeader className="pb-3">
                 <div className="flex justify-between items-start mb-2">
                   <div className="w-12 h-12 rounded bg-gradient-to-br from-gray-800 to-gray-900 flex items-center justify-center font-bold text-lg text-white">
                     {(investor.firm || investor.name || '??').substring(0, 2).toUpperCase()}
                   </div>
-                  <Badge variant="outline" className="bg-secondary/10 text-secondary border-secondary/20">
-                    {investor.role ?? investor.type ?? 'Investor'}
-                  </Badge>
+                  <div className="flex flex-col items-end gap-1">
+                    {investor.matchScore && (
+                      <Badge variant="outline" className="bg-primary/10 text-primary border-primary/20">
+                        {investor.matchScore.overall}% Match
+                      </Badge>
+                    )}
+                    <Badge variant="outline" className="bg-secondary/10 text-secondary border-secondary/20">
+                      {INVESTOR_TYPES[investor.investor_type] ?? investor.role ?? investor.type ?? 'Investor'}
+                    </Badge>
+                  </div>
                 </div>
                 <div className="flex justify-between items-start">
                   <div>
@@ -147,7 +188,7 @@ export default function CompanyInvestors() {
                   <div className="text-xs text-muted-foreground mb-3">
                     <div className="text-[11px]">Check Size</div>
                     <div className="font-medium text-sm">
-                      {formatCheckSize(investor.check_size_min, investor.check_size_max, investor.check_size_unit)}
+                      {formatCheckSize(investor.check_size_min, investor.check_size_max, investor.check_size_unit, investor.check_size_currency)}
                     </div>
                   </div>
                 )}
@@ -172,6 +213,15 @@ export default function CompanyInvestors() {
                 >
                   Send Pitch
                 </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="border border-white/10 text-muted-foreground hover:text-white"
+                  title="Message"
+                  onClick={() => setLocation(`/dashboard/messages?with=${investor.user_id}`)}
+                >
+                  <Mail className="w-4 h-4" />
+                </Button>
                 <Button variant="ghost" size="icon" className="border border-white/10 text-muted-foreground hover:text-white">
                   <Globe className="w-4 h-4" />
                 </Button>
@@ -3,11 +3,15 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Calendar as CalendarIcon, Clock, MapPin, Video, AlertCircle } from "lucide-react";
+import { Calendar as CalendarIcon, CalendarPlus, Clock, MapPin, Video, AlertCircle } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { useEffect, useState } from "react";
 import { DayPicker } from 'react-day-picker';
+import { MeetingTime, TimezoneSelect, browserTimeZone } from "@/components/meeting-time";
+import { ProposalTimeline } from "@/components/proposal-timeline";
+import { ProposeTimesDialog } from "@/components/propose-times-dialog";
+import { formatInTimeZone, toLocalDateTimeInput, wallClock, zonedTimeToUtc } from "@shared/timezone";
 import 'react-day-picker/dist/style.css';
 import {
   Dialog,
@@ -30,12 +34,15 @@ interface MeetingRequest {
   created_at: string;
   updated_at: string;
   time_proposals_eif?: any[];
+  from_timezone?: string;
+  to_timezone?: string;
 }
 
 export default function CompanyMeetings() {
   const { toast } = useToast();
   const [meetings, setMeetings] = useState<MeetingRequest[]>([]);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [myTimezone, setMyTimezone] = useState<string>(browserTimeZone());
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -47,6 +54,10 @@ export default function CompanyMeetings() {
         if (!userRes.ok) throw new Error('Could not get current user');
         const user = await userRes.json();
         setCurrentUserId(user.id ?? null);
+        if (user.timezone) {
+          setMyTimezone(user.timezone);
+          setTimezoneSel(user.timezone);
+        }
 
         // Get meeting requests for this user
         const meRes = await fetch(`/api/meetings/requests/${user.id}`, { credentials: 'include' });
@@ -75,13 +86,16 @@ export default function CompanyMeetings() {
     fetchMeetings();
   }, []);
 
-  const upcomingMeetings = meetings.filter(m => m.status === 'CONFIRMED');
+  // RESCHEDULING meetings keep their current time until a new one is agreed
+  const upcomingMeetings = meetings.filter(m => m.status === 'CONFIRMED' || m.status === 'RESCHEDULING');
   const pendingMeetings = meetings.filter(m => m.status === 'PENDING');
 
-  const formatDate = (dateStr: string) => {
-    const date = new Date(dateStr);
-    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', weekday: 'short' });
-  };
+  const formatDate = (dateStr: string) => formatInTimeZone(dateStr, myTimezone, { month: 'short', day: 'numeric' });
+
+  // The meeting record (time, join URL) behind a confirmed request, and the other side's timezone
+  const recordFor = (meeting: MeetingRequest) => meetingRecords.find(r => r.meeting_request_id === meeting.id)
+    ?? meetingRecords.find(r => (r.participant_a_id === meeting.from_user_id && r.participant_b_id === meeting.to_user_id) || (r.participant_a_id === meeting.to_user_id && r.participant_b_id === meeting.from_user_id));
+  const otherTimezone = (meeting: MeetingRequest) => (meeting.from_user_id === currentUserId ? meeting.to_timezone : meeting.from_timezone);
 
   const handleUpdateMeeting = async (id: string, status: string) => {
     try {
@@ -91,79 +105,73 @@ export default function CompanyMeetings() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ status }),
       });
-      if (!res.ok) throw new Error('failed to update meeting');
-      const updated = await res.json();
+      const updated = await res.json().catch(() => null);
+      // The server explains rejected status changes (e.g. a request that was cancelled meanwhile)
+      if (!res.ok) throw new Error(updated?.message ?? 'Could not update meeting status.');
       setMeetings(prev => prev.map(m => (m.id === id ? updated : m)));
       toast({ title: 'Meeting Updated', description: `Meeting ${status.toLowerCase()}` });
     } catch (err: any) {
       console.error('update meeting error', err);
-      toast({ title: 'Update Failed', description: 'Could not update meeting status.' });
+      toast({ title: 'Update Failed', description: err?.message ?? 'Could not update meeting status.', variant: 'destructive' });
     }
   };
 
-  // Reschedule dialog state
-  const [rescheduleOpen, setRescheduleOpen] = useState(false);
-  const [rescheduleMeetingId, setRescheduleMeetingId] = useState<string | null>(null);
-  const [startLocal, setStartLocal] = useState<string>(() => {
-    const d = new Date();
-    d.setDate(d.getDate() + 1);
-    d.setHours(9, 0, 0, 0);
-    return d.toISOString().slice(0, 16);
-  });
-  const [endLocal, setEndLocal] = useState<string>(() => {
-    const d = new Date();
-    d.setDate(d.getDate() + 1);
-    d.setHours(9, 30, 0, 0);
-    return d.toISOString().slice(0, 16);
-  });
+  // Propose-times dialog: a new proposal for a request, or a counter to a pending proposal
+  const [propose, setPropose] = useState<{ endpoint: string; counter: boolean; initial?: { start: string; end: string } | null } | null>(null);
   const [meetingRecords, setMeetingRecords] = useState<any[]>([]);
-  const [timezoneSel, setTimezoneSel] = useState<string>(Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC');
+  const [timezoneSel, setTimezoneSel] = useState<string>(browserTimeZone());
   // Scheduling modal (for Accept & Schedule)
   const [scheduleOpen, setScheduleOpen] = useState(false);
   const [scheduleMeetingId, setScheduleMeetingId] = useState<string | null>(null);
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(undefined);
   const [startTimeVal, setStartTimeVal] = useState<string>('09:00');
   const [endTimeVal, setEndTimeVal] = useState<string>('09:30');
-  const timezones = [
-    'UTC','Europe/London','Europe/Berlin','America/New_York','America/Chicago','America/Los_Angeles','Asia/Kolkata','Asia/Singapore','Asia/Tokyo','Australia/Sydney'
-  ];
 
-  const openReschedule = (meetingId: string) => {
-    setRescheduleMeetingId(meetingId);
-    // Prefill using an existing meeting record if we have one
-    const req = meetings.find(m => m.id === meetingId);
-    if (req) {
-      const found = meetingRecords.find(r => (r.participant_a_id === req.from_user_id && r.participant_b_id === req.to_user_id) || (r.participant_a_id === req.to_user_id && r.participant_b_id === req.from_user_id));
-      if (found) {
-        const s = new Date(found.start_time);
-        const e = new Date(found.end_time);
-        const toLocal = (d: Date) => {
-          const tzOffset = d.getTimezoneOffset() * 60000;
-          const local = new Date(d.getTime() - tzOffset);
-          return local.toISOString().slice(0,16);
-        };
-        setStartLocal(toLocal(s));
-        setEndLocal(toLocal(e));
-        setTimezoneSel((found.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone) || 'UTC');
-      }
+  const openReschedule = (meeting: MeetingRequest) => {
+    // Prefill the first choice with the current meeting time
+    const found = recordFor(meeting);
+    setPropose({ endpoint: `/api/meetings/requests/${meeting.id}/proposals`, counter: false, initial: found ? { start: found.start_time, end: found.end_time } : null });
+  };
+
+  // Reload requests (with their proposals) and meeting records after a proposal changes
+  const refreshMeetings = async () => {
+    if (!currentUserId) return;
+    try {
+      const meRes = await fetch(`/api/meetings/requests/${currentUserId}`, { credentials: 'include' });
+      if (meRes.ok) setMeetings((await meRes.json()) || []);
+      const recRes = await fetch('/api/users/me/meetings', { credentials: 'include' });
+      if (recRes.ok) setMeetingRecords((await recRes.json()) || []);
+    } catch (err) {
+      console.error('refresh meetings error', err);
     }
-    setRescheduleOpen(true);
   };
 
+  const timelineFor = (meeting: MeetingRequest) => (
+    <ProposalTimeline
+      meetingId={meeting.id}
+      proposals={meeting.time_proposals_eif ?? []}
+      currentUserId={currentUserId}
+      timeZone={myTimezone}
+      otherTimeZone={otherTimezone(meeting)}
+      otherLabel="investor"
+      onChanged={() => refreshMeetings()}
+      onCounter={(proposal) => setPropose({ endpoint: `/api/meetings/requests/${meeting.id}/proposals/${proposal.id}/counter`, counter: true })}
+    />
+  );
+
   const openSchedule = (meetingId: string) => {
     setScheduleMeetingId(meetingId);
     // Prefill date/time from existing meeting record if available
     const req = meetings.find(m => m.id === meetingId);
     if (req) {
-      const found = meetingRecords.find(r => (r.participant_a_id === req.from_user_id && r.participant_b_id === req.to_user_id) || (r.participant_a_id === req.to_user_id && r.participant_b_id === req.from_user_id));
+      const found = recordFor(req);
       if (found) {
-        setSelectedDate(new Date(found.start_time));
-        const s = new Date(found.start_time);
-        const e = new Date(found.end_time);
-        const toTimeInput = (d: Date) => d.toISOString().slice(11,16);
-        setStartTimeVal(toTimeInput(s));
-        setEndTimeVal(toTimeInput(e));
-        setTimezoneSel((found.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone) || 'UTC');
+        const tz = found.timezone || myTimezone;
+        const day = wallClock(new Date(found.start_time), tz);
+        setSelectedDate(new Date(day.year, day.month - 1, day.day));
+        setStartTimeVal(toLocalDateTimeInput(new Date(found.start_time), tz).slice(11, 16));
+        setEndTimeVal(toLocalDateTimeInput(new Date(found.end_time), tz).slice(11, 16));
+        setTimezoneSel(tz);
       } else {
         // default to tomorrow
         const d = new Date(); d.setDate(d.getDate()+1); setSelectedDate(d);
@@ -175,14 +183,17 @@ export default function CompanyMeetings() {
   const submitSchedule = async () => {
     if (!scheduleMeetingId || !selectedDate) return;
     try {
-      // construct ISO start/end using selectedDate + time inputs
+      // The picked date and times are wall-clock values in the selected timezone, not the browser's
+      const tz = timezoneSel || myTimezone;
+      const day = { year: selectedDate.getFullYear(), month: selectedDate.getMonth() + 1, day: selectedDate.getDate() };
       const [sh, sm] = startTimeVal.split(':').map(Number);
       const [eh, em] = endTimeVal.split(':').map(Number);
-      const start = new Date(selectedDate);
-      start.setHours(sh, sm, 0, 0);
-      const end = new Date(selectedDate);
-      end.setHours(eh, em, 0, 0);
-      const tz = timezoneSel || Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+      const start = zonedTimeToUtc({ ...day, hour: sh, minute: sm }, tz);
+      const end = zonedTimeToUtc({ ...day, hour: eh, minute: em }, tz);
+      if (end <= start) {
+        toast({ title: 'Invalid time', description: 'End time must be after the start time.' });
+        return;
+      }
 
       const res = await fetch(`/api/meetings/requests/${scheduleMeetingId}`, {
         method: 'PATCH',
@@ -211,42 +222,6 @@ export default function CompanyMeetings() {
     }
   };
 
-  const submitReschedule = async () => {
-    if (!rescheduleMeetingId) return;
-    try {
-      const start = new Date(startLocal).toISOString();
-      const end = new Date(endLocal).toISOString();
-      const tz = timezoneSel || Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
-      const res = await fetch(`/api/meetings/requests/${rescheduleMeetingId}/proposals`, {
-        method: 'POST',
-        credentials: 'include',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ start_time: start, end_time: end, timezone: tz }),
-      });
-      if (!res.ok) throw new Error('failed to create proposal');
-      const proposal = await res.json();
-      toast({ title: 'Reschedule Requested', description: 'Investor notified of new proposed time.' });
-      setRescheduleOpen(false);
-      // Refresh meetings list and meeting records
-      try {
-        const userRes = await fetch('/api/users/me', { credentials: 'include' });
-        const user = await userRes.json();
-        const meRes = await fetch(`/api/meetings/requests/${user.id}`, { credentials: 'include' });
-        const data = await meRes.json();
-        setMeetings(data || []);
-        try {
-          const recRes = await fetch('/api/users/me/meetings', { credentials: 'include' });
-          if (recRes.ok) setMeetingRecords(await recRes.json());
-        } catch (e) {}
-      } catch (e) {
-        // ignore
-      }
-    } catch (err: any) {
-      console.error('reschedule error', err);
-      toast({ title: 'Reschedule Failed', description: 'Could not send reschedule request.' });
-    }
-  };
-
   return (
     <DashboardLayout role="company">
       <div className="space-y-6">
@@ -285,26 +260,35 @@ export default function CompanyMeetings() {
             ) : upcomingMeetings.length === 0 ? (
               <div className="text-center py-12 text-muted-foreground">No upcoming meetings scheduled.</div>
             ) : (
-              upcomingMeetings.map((meeting) => (
+              upcomingMeetings.map((meeting) => {
+                const record = recordFor(meeting);
+                return (
                 <Card key={meeting.id} className="bg-card/50 border-white/5 hover:bg-white/[0.02] transition-colors">
                   <CardContent className="p-6 flex flex-col md:flex-row gap-6 items-start md:items-center justify-between">
                     <div className="flex items-start gap-4">
                       <div className="flex flex-col items-center justify-center w-16 h-16 rounded-lg bg-secondary/10 text-secondary border border-secondary/20 shrink-0">
-                        <span className="text-xs font-medium uppercase">{formatDate(meeting.created_at).split(' ')[0]}</span>
-                        <span className="text-xl font-bold">{formatDate(meeting.created_at).split(' ')[1]}</span>
+                        <span className="text-xs font-medium uppercase">{formatDate(record?.start_time ?? meeting.created_at).split(' ')[0]}</span>
+                        <span className="text-xl font-bold">{formatDate(record?.start_time ?? meeting.created_at).split(' ')[1]}</span>
                       </div>
                       <div>
                         <div className="flex items-center gap-2 mb-1">
                           <h3 className="font-bold text-lg">Scheduled Meeting</h3>
-                          <Badge variant="outline" className="text-green-500 border-green-500/20 bg-green-500/10">
+                          <Badge variant="outline" className={meeting.status === 'RESCHEDULING' ? 'text-yellow-500 border-yellow-500/20 bg-yellow-500/10' : 'text-green-500 border-green-500/20 bg-green-500/10'}>
                             {meeting.status}
                           </Badge>
                         </div>
                         <div className="flex flex-col gap-1 text-sm text-muted-foreground">
                           <p>{meeting.message || "Investor meeting"}</p>
+                          {record && (
+                            <div className="flex items-start gap-2">
+                              <Clock className="w-4 h-4 mt-0.5" />
+                              <MeetingTime start={record.start_time} end={record.end_time} timeZone={myTimezone} otherTimeZone={otherTimezone(meeting)} otherLabel="investor" />
+                            </div>
+                          )}
                           <div className="flex items-center gap-2">
                             <Video className="w-4 h-4" /> Video Meeting
                           </div>
+                          {timelineFor(meeting)}
                         </div>
                       </div>
                     </div>
@@ -314,14 +298,18 @@ export default function CompanyMeetings() {
                         <Button 
                           variant="outline" 
                           className="border-white/10 hover:bg-white/5"
-                          onClick={() => openReschedule(meeting.id)}
+                          onClick={() => openReschedule(meeting)}
                         >
                           Reschedule
                         </Button>
+                        <Button variant="outline" className="border-white/10 hover:bg-white/5" asChild>
+                          <a href={`/api/meetings/requests/${meeting.id}/ics`} download>
+                            <CalendarPlus className="w-4 h-4 mr-2" /> Add to Calendar
+                          </a>
+                        </Button>
                         <Button className="bg-secondary hover:bg-secondary/90 text-white" onClick={() => {
-                          const found = meetingRecords.find(r => (r.participant_a_id === meeting.from_user_id && r.participant_b_id === meeting.to_user_id) || (r.participant_a_id === meeting.to_user_id && r.participant_b_id === meeting.from_user_id));
-                          if (found && found.location_url) {
-                            window.open(found.location_url, '_blank');
+                          if (record && record.location_url) {
+                            window.open(record.location_url, '_blank');
                           } else {
                             toast({ title: 'No meeting link', description: 'No meeting URL available yet.' });
                           }
@@ -330,7 +318,8 @@ export default function CompanyMeetings() {
                     </div>
                   </CardContent>
                 </Card>
-              ))
+                );
+              })
             )}
           </TabsContent>
           
@@ -354,6 +343,7 @@ export default function CompanyMeetings() {
                         <h3 className="font-bold text-lg mb-2">New Meeting Request from Investor</h3>
                         <p className="text-sm text-muted-foreground mb-2">{meeting.message || "Wants to discuss an investment opportunity with your company"}</p>
                         <Badge variant="outline" className="text-yellow-500 border-yellow-500/20 bg-yellow-500/10">NEEDS YOUR RESPONSE</Badge>
+                        {timelineFor(meeting)}
                       </div>
                       <div className="flex gap-2 ml-auto md:ml-0">
                         <Button variant="outline" className="border-white/10" onClick={() => handleUpdateMeeting(meeting.id, 'DECLINED')}>Decline</Button>
@@ -366,36 +356,16 @@ export default function CompanyMeetings() {
             )}
           </TabsContent>
         </Tabs>
-        <Dialog open={rescheduleOpen} onOpenChange={setRescheduleOpen}>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Request Reschedule</DialogTitle>
-              <DialogDescription>Pick a new date and time to propose to the participant.</DialogDescription>
-            </DialogHeader>
-
-            <div className="grid grid-cols-1 gap-3 mt-4">
-              <label className="text-sm">Start</label>
-              <input type="datetime-local" value={startLocal} onChange={(e) => setStartLocal(e.target.value)} className="w-full p-2 rounded bg-input text-sm" />
-              <label className="text-sm">End</label>
-              <input type="datetime-local" value={endLocal} onChange={(e) => setEndLocal(e.target.value)} className="w-full p-2 rounded bg-input text-sm" />
-              <label className="text-sm">Timezone</label>
-              <select value={timezoneSel} onChange={(e) => setTimezoneSel(e.target.value)} className="w-full p-2 rounded bg-input text-sm">
-                <option value={Intl.DateTimeFormat().resolvedOptions().timeZone}>{Intl.DateTimeFormat().resolvedOptions().timeZone}</option>
-                <option value="UTC">UTC</option>
-                <option value="Europe/London">Europe/London</option>
-                <option value="America/New_York">America/New_York</option>
-                <option value="Asia/Kolkata">Asia/Kolkata</option>
-              </select>
-            </div>
-
-            <DialogFooter>
-              <div className="flex gap-2">
-                <Button variant="outline" onClick={() => setRescheduleOpen(false)}>Cancel</Button>
-                <Button onClick={submitReschedule}>Send Proposal</Button>
-              </div>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
+        <ProposeTimesDialog
+          open={propose !== null}
+          onOpenChange={(open) => { if (!open) setPropose(null); }}
+          endpoint={propose?.endpoint ?? null}
+          title={propose?.counter ? 'Suggest Other Times' : 'Request Reschedule'}
+          description="Offer up to five times in order of preference; the investor can accept any one of them."
+          timeZone={timezoneSel || myTimezone}
+          initial={propose?.initial}
+          onSent={refreshMeetings}
+        />
         <Dialog open={scheduleOpen} onOpenChange={setScheduleOpen}>
           <DialogContent>
             <DialogHeader>
@@ -414,9 +384,7 @@ export default function CompanyMeetings() {
                 <label className="text-sm mt-2">End time</label>
                 <input type="time" value={endTimeVal} onChange={(e) => setEndTimeVal(e.target.value)} className="w-full p-2 rounded bg-input text-sm" />
                 <label className="text-sm mt-2">Timezone</label>
-                <select value={timezoneSel} onChange={(e) => setTimezoneSel(e.target.value)} className="w-full p-2 rounded bg-input text-sm">
-                  {timezones.map(tz => <option key={tz} value={tz}>{tz}</option>)}
-                </select>
+                <TimezoneSelect value={timezoneSel} onChange={setTimezoneSel} />
               </div>
             </div>
 
@@ -5,8 +5,11 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Upload, FileText, Image as ImageIcon, Save } from "lucide-react";
+import { SectorSelect } from "@/components/sector-select";
 import { useToast } from "@/hooks/use-toast";
 import { useEffect, useState } from "react";
+import { normalizeSector } from "@shared/sectors";
+import { CURRENCIES, formatMoneyRange, parseMoney, toUsd, type MoneyRange } from "@shared/money";
 
 interface CompanyProfile {
   user_id?: string;
@@ -16,6 +19,7 @@ interface CompanyProfile {
   sector?: string;
   stage?: string;
   capital_sought?: string;
+  funding_ask?: MoneyRange | null;
   pitch_deck_url?: string;
   logo_url?: string;
 }
@@ -33,6 +37,7 @@ export default function CompanyPitch() {
   const [sector, setSector] = useState("");
   const [stage, setStage] = useState("");
   const [capitalSought, setCapitalSought] = useState("");
+  const [askCurrency, setAskCurrency] = useState("USD");
 
   useEffect(() => {
     const fetchData = async () => {
@@ -47,6 +52,7 @@ export default function CompanyPitch() {
           setSector(data.sector || "");
           setStage(data.stage || "");
           setCapitalSought(data.capital_sought || "");
+          setAskCurrency(data.funding_ask?.currency || "USD");
         }
       } catch (err) {
         console.error('fetch error', err);
@@ -58,7 +64,18 @@ export default function CompanyPitch() {
     fetchData();
   }, []);
 
+  // Parsed as the user types; symbols in the text ("€2M") win over the currency select
+  const fundingAsk = capitalSought.trim() ? parseMoney(capitalSought, askCurrency) : null;
+  const fundingAskInvalid = Boolean(capitalSought.trim()) && !fundingAsk;
+  const fundingAskUsd = fundingAsk && fundingAsk.currency !== 'USD'
+    ? { min: Math.round(toUsd(fundingAsk.min, fundingAsk.currency) ?? 0), max: Math.round(toUsd(fundingAsk.max, fundingAsk.currency) ?? 0), currency: 'USD' }
+    : null;
+
   const handleSave = async () => {
+    if (fundingAskInvalid) {
+      toast({ title: "Invalid Funding Ask", description: "Enter an amount like $5M, €2-3M or ₹40Cr." });
+      return;
+    }
     setSaving(true);
     try {
       const res = await fetch('/api/companies/me', {
@@ -69,9 +86,9 @@ export default function CompanyPitch() {
           company_name: companyName,
           tagline,
           description,
-          sector,
+          sector: normalizeSector(sector) || null,
           stage,
-          capital_sought: capitalSought,
+          funding_ask: fundingAsk,
         }),
       });
       if (!res.ok) throw new Error('save failed');
@@ -152,11 +169,7 @@ export default function CompanyPitch() {
               <div className="grid md:grid-cols-3 gap-4">
                 <div className="space-y-2">
                   <Label>Sector</Label>
-                  <Input 
-                    value={sector} 
-                    onChange={(e) => setSector(e.target.value)} 
-                    className="bg-background/50 border-white/10" 
-                  />
+                  <SectorSelect value={sector} onChange={setSector} />
                 </div>
                 <div className="space-y-2">
                   <Label>Stage</Label>
@@ -174,12 +187,28 @@ export default function CompanyPitch() {
                 </div>
                 <div className="space-y-2">
                   <Label>Funding Ask</Label>
-                  <Input 
-                    value={capitalSought} 
-                    onChange={(e) => setCapitalSought(e.target.value)} 
-                    placeholder="e.g., $5M"
-                    className="bg-background/50 border-white/10" 
-                  />
+                  <div className="flex gap-2">
+                    <select
+                      value={askCurrency}
+                      onChange={(e) => setAskCurrency(e.target.value)}
+                      className="bg-background/50 border border-white/10 rounded-md p-2 text-sm"
+                    >
+                      {CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+                    </select>
+                    <Input 
+                      value={capitalSought} 
+                      onChange={(e) => setCapitalSought(e.target.value)} 
+                      placeholder="e.g., 5M or 2-3M"
+                      className={`bg-background/50 border-white/10 ${fundingAskInvalid ? 'border-destructive' : ''}`}
+                    />
+                  </div>
+                  {fundingAskInvalid ? (
+                    <p className="text-xs text-destructive">Enter an amount like $5M, €2-3M or ₹40Cr.</p>
+                  ) : fundingAsk ? (
+                    <p className="text-xs text-muted-foreground">
+                      {formatMoneyRange(fundingAsk)}{fundingAskUsd ? ` (~${formatMoneyRange(fundingAskUsd)})` : ''}
+                    </p>
+                  ) : null}
                 </div>
               </div>
             </CardContent>
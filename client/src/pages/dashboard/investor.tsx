@@ -6,6 +6,7 @@ import { Progress } from "@/components/ui/progress";
 import { ArrowUpRight, Calendar, DollarSign, PieChart, Users, ArrowRight } from "lucide-react";
 import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
+import { MatchBreakdown, type MatchScore } from "@/components/match-breakdown";
 
 interface InvestorProfile {
   user_id?: string;
@@ -26,17 +27,7 @@ interface RecommendedCompany {
   sector?: string;
   stage?: string;
   funding_ask?: string;
-  matchScore?: {
-    overall: number;
-    factors: {
-      sector: number;
-      stage: number;
-      ticketSize: number;
-      geography: number;
-      investorType: number;
-    };
-    confidence: 'high' | 'medium' | 'low';
-  };
+  matchScore?: MatchScore;
 }
 
 interface Meeting {
@@ -179,11 +170,7 @@ export default function InvestorDashboard() {
                       </div>
                       <div className="text-right space-y-1">
                         <div className="text-xs text-muted-foreground">Ask: {company.funding_ask || 'TBD'}</div>
-                        {company.matchScore && (
-                          <Badge className="bg-primary/20 text-primary border-0" variant="outline">
-                            {company.matchScore.overall}% Match
-                          </Badge>
-                        )}
+                        {company.matchScore && <MatchBreakdown score={company.matchScore} />}
                       </div>
                     </div>
                   ))
@@ -2,15 +2,18 @@ import { DashboardLayout } from "@/components/layout-dashboard";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card";
-import { Search, Filter, MapPin, DollarSign, Briefcase, Calendar } from "lucide-react";
+import { Search, Filter, MapPin, DollarSign, Briefcase, Calendar, Bookmark, BookmarkCheck } from "lucide-react";
 import { useLocation } from 'wouter';
 import { useToast } from "@/hooks/use-toast";
 import { useEffect, useState, useRef } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogFooter, DialogTitle, DialogDescription, DialogClose } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
+import { ToastAction } from "@/components/ui/toast";
 import { Label } from "@/components/ui/label";
+import { MatchBreakdown, type MatchScore } from "@/components/match-breakdown";
+import { SECTOR_GROUPS } from "@shared/sectors";
 
 type Company = {
   user_id?: string;
@@ -23,17 +26,7 @@ type Company = {
   description?: string;
   tags?: string[] | string | null;
   match?: string;
-  matchScore?: {
-    overall: number;
-    factors: {
-      sector: number;
-      stage: number;
-      ticketSize: number;
-      geography: number;
-      investorType: number;
-    };
-    confidence: 'high' | 'medium' | 'low';
-  };
+  matchScore?: MatchScore;
 };
 
 export default function InvestorDiscover() {
@@ -49,6 +42,44 @@ export default function InvestorDiscover() {
   const [total, setTotal] = useState(0);
   const pageSize = 12;
   const searchRef = useRef<number | undefined>(undefined as any);
+  const [savedIds, setSavedIds] = useState<Set<string>>(new Set());
+  const [savedCompanies, setSavedCompanies] = useState<Company[]>([]);
+  const [showSaved, setShowSaved] = useState(false);
+  const [showExcluded, setShowExcluded] = useState(false);
+  const [excludedCount, setExcludedCount] = useState(0);
+
+  async function fetchFavorites() {
+    try {
+      const res = await fetch('/api/investors/me/favorites', { credentials: 'include' });
+      if (!res.ok) return;
+      const data: Company[] = await res.json();
+      setSavedCompanies(data);
+      setSavedIds(new Set(data.map(c => String(c.user_id))));
+    } catch (err) {
+      console.error('fetch favorites error', err);
+    }
+  }
+
+  useEffect(() => {
+    fetchFavorites();
+  }, []);
+
+  async function toggleFavorite(company: Company) {
+    const id = String(company.user_id ?? company.id);
+    const saved = savedIds.has(id);
+    const displayName = (company as any).company_name ?? (company as any).name ?? 'Company';
+    try {
+      const res = await fetch(`/api/investors/me/favorites/${id}`, { method: saved ? 'DELETE' : 'POST', credentials: 'include' });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message ?? 'request failed');
+      }
+      toast({ title: saved ? 'Removed from Saved' : 'Company Saved', description: saved ? `${displayName} was removed from your watchlist.` : `${displayName} was added to your watchlist.` });
+      await fetchFavorites();
+    } catch (err: any) {
+      toast({ title: 'Could not update watchlist', description: err?.message ?? String(err) });
+    }
+  }
 
   async function fetchCompanies() {
     setLoading(true);
@@ -60,6 +91,7 @@ export default function InvestorDiscover() {
       if (stage) params.set('stage', stage);
       params.set('page', String(page));
       params.set('pageSize', String(pageSize));
+      if (showExcluded) params.set('includeExcluded', 'true');
 
       const res = await fetch(`/api/companies?${params.toString()}`, { credentials: 'include' });
       if (!res.ok) throw new Error(await res.text());
@@ -71,6 +103,7 @@ export default function InvestorDiscover() {
       } else {
         setCompanies((payload.items ?? []) as Company[]);
         setTotal(payload.total ?? 0);
+        setExcludedCount(payload.excludedCount ?? 0);
       }
     } catch (err: any) {
       setError(err?.message ?? String(err));
@@ -95,7 +128,7 @@ export default function InvestorDiscover() {
   useEffect(() => {
     fetchCompanies();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [sector, stage, page]);
+  }, [sector, stage, page, showExcluded]);
 
   const [meetingModalOpen, setMeetingModalOpen] = useState(false);
   const [meetingCompany, setMeetingCompany] = useState<Company | null>(null);
@@ -120,7 +153,7 @@ export default function InvestorDiscover() {
       if (!meRes.ok) {
         if (meRes.status === 401) {
           toast({ title: 'Login Required', description: 'Please log in to request a meeting.' });
-        } else if (meRes.status === 404) {
+        } else if (meRes.status === 403 || meRes.status === 404) {
           toast({ title: 'Investor Account Required', description: 'You must be an investor to request meetings.' });
         } else {
           toast({ title: 'Unable to Verify Account', description: 'Could not verify your account to create a meeting request.' });
@@ -146,8 +179,13 @@ export default function InvestorDiscover() {
         const text = await res.text();
         throw new Error(text || 'request failed');
       }
+      const created = await res.json();
       setMeetingModalOpen(false);
-      toast({ title: 'Request Sent', description: `Meeting request sent to ${displayName}` });
+      toast({
+        title: 'Request Sent',
+        description: `Meeting request sent to ${displayName}`,
+        action: created?.id ? <ToastAction altText="Pick a time" onClick={() => setLocation(`/dashboard/meetings/${created.id}/book`)}>Pick a time</ToastAction> : undefined,
+      });
     } catch (err: any) {
       toast({ title: 'Request Failed', description: err?.message ?? String(err) });
     } finally {
@@ -170,6 +208,10 @@ export default function InvestorDiscover() {
               <Filter className="w-4 h-4 mr-2" />
               Advanced Filters
             </Button>
+            <Button variant={showSaved ? 'default' : 'outline'} onClick={() => setShowSaved(v => !v)}>
+              <BookmarkCheck className="w-4 h-4 mr-2" />
+              Saved ({savedIds.size})
+            </Button>
             <Button onClick={() => toast({ title: 'Search Saved', description: 'You will be notified of new matches.' })}>Save Search</Button>
           </div>
         </div>
@@ -180,15 +222,18 @@ export default function InvestorDiscover() {
             <Search className="absolute left-3 top-3 w-4 h-4 text-muted-foreground" />
             <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search by name, technology, or keyword..." className="pl-9 bg-background/50 border-white/10" />
           </div>
-          <Select onValueChange={(v) => setSector(v || null)}>
+          <Select onValueChange={(v) => { setSector(v === 'all' ? null : v); setPage(1); }}>
             <SelectTrigger className="w-[180px] bg-background/50 border-white/10">
               <SelectValue placeholder="Sector" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="Renewables">Renewables</SelectItem>
-              <SelectItem value="Grid Infra">Grid Infra</SelectItem>
-              <SelectItem value="Storage">Storage</SelectItem>
-              <SelectItem value="Clean Fuels">Clean Fuels</SelectItem>
+              <SelectItem value="all">All Sectors</SelectItem>
+              {SECTOR_GROUPS.map(group => (
+                <SelectGroup key={group.label}>
+                  <SelectLabel>{group.label}</SelectLabel>
+                  {group.sectors.map(s => <SelectItem key={s} value={s}>{s}</SelectItem>)}
+                </SelectGroup>
+              ))}
             </SelectContent>
           </Select>
           <Select onValueChange={(v) => setStage(v || null)}>
@@ -206,11 +251,12 @@ export default function InvestorDiscover() {
 
         {/* Results Grid */}
         <div>
-          {loading && <div className="text-sm text-muted-foreground">Loading companies…</div>}
-          {error && <div className="text-sm text-destructive">Error: {error}</div>}
-          {!loading && companies.length === 0 && <div className="text-sm text-muted-foreground">No companies found.</div>}
+          {loading && !showSaved && <div className="text-sm text-muted-foreground">Loading companies…</div>}
+          {error && !showSaved && <div className="text-sm text-destructive">Error: {error}</div>}
+          {!loading && !showSaved && companies.length === 0 && <div className="text-sm text-muted-foreground">No companies found.</div>}
+          {showSaved && savedCompanies.length === 0 && <div className="text-sm text-muted-foreground">You haven't saved any companies yet.</div>}
           <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6 mt-4">
-            {companies.map((company) => {
+            {(showSaved ? savedCompanies : companies).map((company) => {
               const id = company.user_id ?? company.id;
               const displayName = (company as any).company_name ?? (company as any).name ?? '??';
               const tags = Array.isArray(company.tags)
@@ -225,9 +271,13 @@ export default function InvestorDiscover() {
                       <div className="w-12 h-12 rounded bg-gradient-to-br from-gray-800 to-gray-900 flex items-center justify-center font-bold text-lg text-white">
                         {(displayName || '??').substring(0, 2).toUpperCase()}
                       </div>
-                      <Badge variant="outline" className="bg-primary/10 text-primary border-primary/20">
-                        {company.matchScore ? `${company.matchScore.overall}% Match` : (company.match ? `${company.match} Match` : 'New')}
-                      </Badge>
+                      {company.matchScore ? (
+                        <MatchBreakdown score={company.matchScore} />
+                      ) : (
+                        <Badge variant="outline" className="bg-primary/10 text-primary border-primary/20">
+                          {company.match ? `${company.match} Match` : 'New'}
+                        </Badge>
+                      )}
                     </div>
                     <div className="flex justify-between items-start">
                       <div>
@@ -239,6 +289,11 @@ export default function InvestorDiscover() {
                     </div>
                   </CardHeader>
                   <CardContent className="pb-3">
+                    {company.matchScore?.excluded && (
+                      <ul className="text-xs text-destructive mb-3 space-y-1">
+                        {company.matchScore.dealBreakers?.map(hit => <li key={hit.rule}>{hit.message}</li>)}
+                      </ul>
+                    )}
                     <p className="text-sm text-muted-foreground mb-4 line-clamp-2">
                       {company.description}
                     </p>
@@ -268,6 +323,16 @@ export default function InvestorDiscover() {
                     >
                       Request Meeting
                     </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className={`border border-white/10 hover:text-white ${savedIds.has(String(id)) ? 'text-primary' : 'text-muted-foreground'}`}
+                      onClick={() => toggleFavorite(company)}
+                      disabled={!id}
+                      title={savedIds.has(String(id)) ? 'Remove from saved' : 'Save company'}
+                    >
+                      {savedIds.has(String(id)) ? <BookmarkCheck className="w-4 h-4" /> : <Bookmark className="w-4 h-4" />}
+                    </Button>
                     <Button variant="ghost" size="icon" className="border border-white/10 text-muted-foreground hover:text-white" onClick={() => setLocation(`/company/${id}`)}>
                       <Search className="w-4 h-4" />
                     </Button>
@@ -308,14 +373,21 @@ export default function InvestorDiscover() {
           </Dialog>
 
           {/* Pagination */}
-          <div className="flex items-center justify-between mt-6">
-            <div className="text-sm text-muted-foreground">{total} results</div>
+          {!showSaved && <div className="flex items-center justify-between mt-6">
+            <div className="text-sm text-muted-foreground flex items-center gap-3">
+              <span>{total} results</span>
+              {(excludedCount > 0 || showExcluded) && (
+                <Button variant="link" size="sm" className="h-auto p-0" onClick={() => { setPage(1); setShowExcluded(v => !v); }}>
+                  {showExcluded ? 'Hide deal-breaker matches' : `${excludedCount} hidden by your deal breakers — show`}
+                </Button>
+              )}
+            </div>
             <div className="flex items-center gap-2">
               <Button variant="ghost" onClick={() => setPage(Math.max(1, page - 1))} disabled={page <= 1}>Prev</Button>
               <div className="text-sm">{page} / {pageCount}</div>
               <Button variant="ghost" onClick={() => setPage(Math.min(pageCount, page + 1))} disabled={page >= pageCount}>Next</Button>
             </div>
-          </div>
+          </div>}
         </div>
       </div>
     </DashboardLayout>
@@ -3,10 +3,15 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Calendar as CalendarIcon, Clock, MapPin, Video, MoreVertical, AlertCircle } from "lucide-react";
+import { Calendar as CalendarIcon, CalendarCheck, CalendarPlus, Clock, MapPin, Video, MoreVertical, AlertCircle } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { MeetingTime, browserTimeZone } from "@/components/meeting-time";
+import { ProposalTimeline } from "@/components/proposal-timeline";
+import { ProposeTimesDialog } from "@/components/propose-times-dialog";
+import { formatInTimeZone } from "@shared/timezone";
 
 interface MeetingRequest {
   id: string;
@@ -19,14 +24,21 @@ interface MeetingRequest {
   created_at: string;
   updated_at: string;
   time_proposals_eif?: any[];
+  from_timezone?: string;
+  to_timezone?: string;
 }
 
 export default function InvestorMeetings() {
   const { toast } = useToast();
+  const [, setLocation] = useLocation();
   const [meetings, setMeetings] = useState<MeetingRequest[]>([]);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [myTimezone, setMyTimezone] = useState<string>(browserTimeZone());
+  const [meetingRecords, setMeetingRecords] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Propose-times dialog: a new proposal for a request, or a counter to a pending proposal
+  const [propose, setPropose] = useState<{ endpoint: string; counter: boolean; initial?: { start: string; end: string } | null } | null>(null);
 
   useEffect(() => {
     const fetchMeetings = async () => {
@@ -36,12 +48,21 @@ export default function InvestorMeetings() {
         if (!userRes.ok) throw new Error('Could not get current user');
         const user = await userRes.json();
         setCurrentUserId(user.id ?? null);
+        if (user.timezone) setMyTimezone(user.timezone);
 
         // Get meeting requests for this user
         const meRes = await fetch(`/api/meetings/requests/${user.id}`, { credentials: 'include' });
         if (!meRes.ok) throw new Error('Could not fetch meetings');
         const data = await meRes.json();
         setMeetings(data || []);
+
+        // Meeting records carry the scheduled times
+        try {
+          const recRes = await fetch('/api/users/me/meetings', { credentials: 'include' });
+          if (recRes.ok) setMeetingRecords((await recRes.json()) || []);
+        } catch (e) {
+          // ignore
+        }
       } catch (err: any) {
         console.error('fetch meetings error', err);
         setError(err?.message || 'Failed to load meetings');
@@ -53,7 +74,8 @@ export default function InvestorMeetings() {
     fetchMeetings();
   }, []);
 
-  const upcomingMeetings = meetings.filter(m => m.status === 'CONFIRMED');
+  // RESCHEDULING meetings keep their current time until a new one is agreed
+  const upcomingMeetings = meetings.filter(m => m.status === 'CONFIRMED' || m.status === 'RESCHEDULING');
   const pendingMeetings = meetings.filter(m => m.status === 'PENDING');
 
   const handleUpdateMeeting = async (id: string, status: string) => {
@@ -64,54 +86,47 @@ export default function InvestorMeetings() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ status }),
       });
-      if (!res.ok) throw new Error('failed to update meeting');
-      const updated = await res.json();
+      const updated = await res.json().catch(() => null);
+      // The server explains rejected status changes (e.g. a request that was cancelled meanwhile)
+      if (!res.ok) throw new Error(updated?.message ?? 'Could not update meeting status.');
       setMeetings(prev => prev.map(m => (m.id === id ? updated : m)));
       toast({ title: 'Meeting Updated', description: `Meeting ${status.toLowerCase()}` });
     } catch (err: any) {
       console.error('update meeting error', err);
-      toast({ title: 'Update Failed', description: 'Could not update meeting status.' });
+      toast({ title: 'Update Failed', description: err?.message ?? 'Could not update meeting status.', variant: 'destructive' });
     }
   };
 
-  const handleAcceptProposal = async (meetingId: string, proposalId: string) => {
+  // Reload requests (with their proposals) and meeting records after a proposal changes
+  const refreshMeetings = async () => {
+    if (!currentUserId) return;
     try {
-      const res = await fetch(`/api/meetings/requests/${meetingId}/proposals/${proposalId}/accept`, { method: 'POST', credentials: 'include' });
-      if (!res.ok) throw new Error('failed to accept proposal');
-      const data = await res.json();
-      toast({ title: 'Proposal Accepted', description: 'Meeting rescheduled.' });
-      // refresh meetings
-      const userRes = await fetch('/api/users/me', { credentials: 'include' });
-      const user = await userRes.json();
-      const meRes = await fetch(`/api/meetings/requests/${user.id}`, { credentials: 'include' });
-      const meetingsData = await meRes.json();
-      setMeetings(meetingsData || []);
-    } catch (err: any) {
-      console.error('accept proposal error', err);
-      toast({ title: 'Accept Failed', description: 'Could not accept proposal.' });
+      const meRes = await fetch(`/api/meetings/requests/${currentUserId}`, { credentials: 'include' });
+      if (meRes.ok) setMeetings((await meRes.json()) || []);
+      const recRes = await fetch('/api/users/me/meetings', { credentials: 'include' });
+      if (recRes.ok) setMeetingRecords((await recRes.json()) || []);
+    } catch (err) {
+      console.error('refresh meetings error', err);
     }
   };
 
-  const handleDeclineProposal = async (meetingId: string, proposalId: string) => {
-    try {
-      const res = await fetch(`/api/meetings/requests/${meetingId}/proposals/${proposalId}/decline`, { method: 'POST', credentials: 'include' });
-      if (!res.ok) throw new Error('failed to decline proposal');
-      toast({ title: 'Proposal Declined', description: 'The proposer has been notified.' });
-      const userRes = await fetch('/api/users/me', { credentials: 'include' });
-      const user = await userRes.json();
-      const meRes = await fetch(`/api/meetings/requests/${user.id}`, { credentials: 'include' });
-      const meetingsData = await meRes.json();
-      setMeetings(meetingsData || []);
-    } catch (err: any) {
-      console.error('decline proposal error', err);
-      toast({ title: 'Decline Failed', description: 'Could not decline proposal.' });
-    }
-  };
+  const formatDate = (dateStr: string) => formatInTimeZone(dateStr, myTimezone, { month: 'short', day: 'numeric' });
 
-  const formatDate = (dateStr: string) => {
-    const date = new Date(dateStr);
-    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', weekday: 'short' });
-  };
+  const recordFor = (meeting: MeetingRequest) => meetingRecords.find(r => r.meeting_request_id === meeting.id);
+  const otherTimezone = (meeting: MeetingRequest) => (meeting.from_user_id === currentUserId ? meeting.to_timezone : meeting.from_timezone);
+
+  const timelineFor = (meeting: MeetingRequest) => (
+    <ProposalTimeline
+      meetingId={meeting.id}
+      proposals={meeting.time_proposals_eif ?? []}
+      currentUserId={currentUserId}
+      timeZone={myTimezone}
+      otherTimeZone={otherTimezone(meeting)}
+      otherLabel="company"
+      onChanged={() => refreshMeetings()}
+      onCounter={(proposal) => setPropose({ endpoint: `/api/meetings/requests/${meeting.id}/proposals/${proposal.id}/counter`, counter: true })}
+    />
+  );
 
   return (
     <DashboardLayout role="investor">
@@ -148,46 +163,35 @@ export default function InvestorMeetings() {
             ) : upcomingMeetings.length === 0 ? (
               <div className="text-center py-12 text-muted-foreground">No upcoming meetings scheduled.</div>
             ) : (
-              upcomingMeetings.map((meeting) => (
+              upcomingMeetings.map((meeting) => {
+                const record = recordFor(meeting);
+                return (
                 <Card key={meeting.id} className="bg-card/50 border-white/5 hover:bg-white/[0.02] transition-colors">
                   <CardContent className="p-6 flex flex-col md:flex-row gap-6 items-start md:items-center justify-between">
                     <div className="flex items-start gap-4">
                       <div className="flex flex-col items-center justify-center w-16 h-16 rounded-lg bg-primary/10 text-primary border border-primary/20 shrink-0">
-                        <span className="text-xs font-medium uppercase">{formatDate(meeting.created_at).split(' ')[0]}</span>
-                        <span className="text-xl font-bold">{formatDate(meeting.created_at).split(' ')[1]}</span>
+                        <span className="text-xs font-medium uppercase">{formatDate(record?.start_time ?? meeting.created_at).split(' ')[0]}</span>
+                        <span className="text-xl font-bold">{formatDate(record?.start_time ?? meeting.created_at).split(' ')[1]}</span>
                       </div>
                       <div>
                         <div className="flex items-center gap-2 mb-1">
                           <h3 className="font-bold text-lg">Meeting Request</h3>
-                          <Badge variant="outline" className="text-green-500 border-green-500/20 bg-green-500/10">
+                          <Badge variant="outline" className={meeting.status === 'RESCHEDULING' ? 'text-yellow-500 border-yellow-500/20 bg-yellow-500/10' : 'text-green-500 border-green-500/20 bg-green-500/10'}>
                             {meeting.status}
                           </Badge>
                         </div>
                         <div className="flex flex-col gap-1 text-sm text-muted-foreground">
                           <p>{meeting.message || "Meeting request from investor"}</p>
+                          {record && (
+                            <div className="flex items-start gap-2">
+                              <Clock className="w-4 h-4 mt-0.5" />
+                              <MeetingTime start={record.start_time} end={record.end_time} timeZone={myTimezone} otherTimeZone={otherTimezone(meeting)} otherLabel="company" />
+                            </div>
+                          )}
                           <div className="flex items-center gap-2">
                             <Video className="w-4 h-4" /> Video Meeting
                           </div>
-                          {meeting.time_proposals_eif && meeting.time_proposals_eif.length > 0 && (
-                            <div className="mt-2">
-                              <h4 className="text-sm font-medium">Reschedule Proposals</h4>
-                              <div className="space-y-2 mt-2">
-                                {meeting.time_proposals_eif.map((p: any) => (
-                                  <div key={p.id} className="flex items-center justify-between gap-2 bg-muted p-2 rounded">
-                                    <div className="text-sm">{new Date(p.start_time).toLocaleString()} — {new Date(p.end_time).toLocaleString()} <span className="text-xs text-muted-foreground">({p.status})</span></div>
-                                    <div className="flex gap-2">
-                                      {currentUserId && p.proposed_by_user_id !== currentUserId && p.status === 'PENDING' && (
-                                        <>
-                                          <Button size="sm" variant="outline" onClick={() => handleDeclineProposal(meeting.id, p.id)}>Decline</Button>
-                                          <Button size="sm" onClick={() => handleAcceptProposal(meeting.id, p.id)}>Accept</Button>
-                                        </>
-                                      )}
-                                    </div>
-                                  </div>
-                                ))}
-                              </div>
-                            </div>
-                          )}
+                          {timelineFor(meeting)}
                         </div>
                       </div>
                     </div>
@@ -197,16 +201,22 @@ export default function InvestorMeetings() {
                         <Button 
                           variant="outline" 
                           className="border-white/10 hover:bg-white/5"
-                          onClick={() => toast({ title: "Reschedule Request", description: "Availability options sent to participant." })}
+                          onClick={() => setPropose({ endpoint: `/api/meetings/requests/${meeting.id}/proposals`, counter: false, initial: record ? { start: record.start_time, end: record.end_time } : null })}
                         >
                           Reschedule
                         </Button>
+                        <Button variant="outline" className="border-white/10 hover:bg-white/5" asChild>
+                          <a href={`/api/meetings/requests/${meeting.id}/ics`} download>
+                            <CalendarPlus className="w-4 h-4 mr-2" /> Add to Calendar
+                          </a>
+                        </Button>
                         <Button className="bg-primary hover:bg-primary/90">Join Call</Button>
                       </div>
                     </div>
                   </CardContent>
                 </Card>
-              ))
+                );
+              })
             )}
           </TabsContent>
           
@@ -224,6 +234,7 @@ export default function InvestorMeetings() {
                         <h3 className="font-bold text-lg mb-2">New Meeting Request</h3>
                         <p className="text-sm text-muted-foreground">{meeting.message || "Wants to discuss an investment opportunity"}</p>
                         <Badge variant="outline" className="text-yellow-500 border-yellow-500/20 bg-yellow-500/10 mt-2">PENDING RESPONSE</Badge>
+                        {timelineFor(meeting)}
                       </div>
                         <div className="flex gap-2 ml-auto md:ml-0">
                           {currentUserId && meeting.to_user_id === currentUserId ? (
@@ -232,8 +243,10 @@ export default function InvestorMeetings() {
                               <Button className="bg-primary hover:bg-primary/90" onClick={() => handleUpdateMeeting(meeting.id, 'CONFIRMED')}>Accept</Button>
                             </>
                           ) : (
-                            // If current user is the requester, show a non-action label or allow cancel
-                            <Button variant="ghost" className="opacity-70" onClick={() => toast({ title: 'Request Sent', description: 'Waiting for the recipient to respond.' })}>Awaiting response</Button>
+                            // The requester can book one of the recipient's free times instead of waiting
+                            <Button className="bg-primary hover:bg-primary/90" onClick={() => setLocation(`/dashboard/meetings/${meeting.id}/book`)}>
+                              <CalendarCheck className="w-4 h-4 mr-2" /> Pick a Time
+                            </Button>
                           )}
                         </div>
                     </CardContent>
@@ -243,6 +256,16 @@ export default function InvestorMeetings() {
             )}
           </TabsContent>
         </Tabs>
+        <ProposeTimesDialog
+          open={propose !== null}
+          onOpenChange={(open) => { if (!open) setPropose(null); }}
+          endpoint={propose?.endpoint ?? null}
+          title={propose?.counter ? 'Suggest Other Times' : 'Request Reschedule'}
+          description="Offer up to five times in order of preference; the company can accept any one of them."
+          timeZone={myTimezone}
+          initial={propose?.initial}
+          onSent={refreshMeetings}
+        />
       </div>
     </DashboardLayout>
   );
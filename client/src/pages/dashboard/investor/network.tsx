@@ -207,7 +207,7 @@ export default function InvestorNetwork() {
                       size="sm" 
                       variant="outline" 
                       className="flex-1 bg-white/5 border-white/10 hover:bg-white/10"
-                      onClick={() => toast({ title: "Message Sent", description: `Message sent to ${person.name}` })}
+                      onClick={() => setLocation(`/dashboard/messages?with=${person.id}`)}
                     >
                       <Mail className="w-4 h-4 mr-2" /> Message
                     </Button>
@@ -0,0 +1,283 @@
+import { DashboardLayout } from "@/components/layout-dashboard";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { MessageSquare, Search, Send } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { formatDistanceToNow } from "date-fns";
+import { useEffect, useRef, useState } from "react";
+
+interface Message {
+  id: string;
+  from_user_id: string;
+  to_user_id: string;
+  content: string;
+  is_read?: boolean;
+  created_at: string;
+}
+
+interface Conversation {
+  other_user_id: string;
+  last_message: Message | null;
+  unread_count: number;
+  user: { id: string; name?: string; email?: string; role?: string };
+}
+
+interface UserData {
+  id?: string;
+  name?: string;
+  role?: string;
+}
+
+const PAGE_SIZE = 30;
+
+export default function MessagesPage() {
+  const { toast } = useToast();
+  const [me, setMe] = useState<UserData | null>(null);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [activeUserId, setActiveUserId] = useState<string | null>(() => new URLSearchParams(window.location.search).get('with'));
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [threadLoading, setThreadLoading] = useState(false);
+  const [threadError, setThreadError] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const [sending, setSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement | null>(null);
+
+  const fetchConversations = async () => {
+    try {
+      const res = await fetch('/api/messages/conversations', { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to load conversations');
+      const data: Conversation[] = await res.json();
+      setConversations(prev => {
+        // keep a placeholder for a freshly opened thread that has no messages yet
+        const placeholders = prev.filter(p => !p.last_message && !data.some(d => d.other_user_id === p.other_user_id));
+        return [...placeholders, ...data];
+      });
+    } catch (err) {
+      console.error('fetch conversations error', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch('/api/users/me', { credentials: 'include' });
+        if (res.ok) setMe(await res.json());
+      } catch (err) {
+        console.error('fetch user error', err);
+      }
+    })();
+    fetchConversations();
+    const poll = setInterval(fetchConversations, 20_000);
+    return () => clearInterval(poll);
+  }, []);
+
+  // Ensure the conversation opened via ?with=<userId> shows up in the list
+  useEffect(() => {
+    if (!activeUserId || loading) return;
+    if (conversations.some(c => c.other_user_id === activeUserId)) return;
+    (async () => {
+      try {
+        const res = await fetch(`/api/users/${activeUserId}`, { credentials: 'include' });
+        const u = res.ok ? await res.json() : null;
+        setConversations(prev => prev.some(c => c.other_user_id === activeUserId) ? prev : [
+          { other_user_id: activeUserId, last_message: null, unread_count: 0, user: { id: activeUserId, name: u?.name, email: u?.email, role: u?.role } },
+          ...prev,
+        ]);
+      } catch (err) {
+        console.error('fetch contact error', err);
+      }
+    })();
+  }, [activeUserId, loading]);
+
+  const fetchThread = async (otherUserId: string, before?: string | null) => {
+    setThreadLoading(true);
+    setThreadError(null);
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (before) params.set('before', before);
+      const res = await fetch(`/api/messages/${otherUserId}?${params.toString()}`, { credentials: 'include' });
+      if (res.status === 403) throw new Error('You can only message users you have a meeting request with.');
+      if (!res.ok) throw new Error('Failed to load messages');
+      const data: { items: Message[]; nextCursor: string | null } = await res.json();
+      setMessages(prev => before ? [...data.items, ...prev] : data.items);
+      setNextCursor(data.nextCursor);
+      if (!before) {
+        await fetch(`/api/messages/${otherUserId}/read`, { method: 'POST', credentials: 'include' });
+        setConversations(prev => prev.map(c => c.other_user_id === otherUserId ? { ...c, unread_count: 0 } : c));
+        requestAnimationFrame(() => bottomRef.current?.scrollIntoView({ block: 'end' }));
+      }
+    } catch (err: any) {
+      setThreadError(err?.message ?? String(err));
+      if (!before) setMessages([]);
+    } finally {
+      setThreadLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!activeUserId) return;
+    setMessages([]);
+    setNextCursor(null);
+    fetchThread(activeUserId);
+    window.history.replaceState({}, document.title, `/dashboard/messages?with=${activeUserId}`);
+  }, [activeUserId]);
+
+  const sendMessage = async () => {
+    if (!activeUserId || !draft.trim()) return;
+    setSending(true);
+    try {
+      const res = await fetch('/api/messages', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ to_user_id: activeUserId, content: draft }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message ?? 'Failed to send message');
+      }
+      const message: Message = await res.json();
+      setMessages(prev => [...prev, message]);
+      setDraft("");
+      setConversations(prev => {
+        const rest = prev.filter(c => c.other_user_id !== activeUserId);
+        const current = prev.find(c => c.other_user_id === activeUserId);
+        return [{ ...(current ?? { other_user_id: activeUserId, unread_count: 0, user: { id: activeUserId } }), last_message: message }, ...rest];
+      });
+      requestAnimationFrame(() => bottomRef.current?.scrollIntoView({ block: 'end' }));
+    } catch (err: any) {
+      toast({ title: 'Message not sent', description: err?.message ?? String(err), variant: 'destructive' });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const displayName = (c: Conversation) => c.user?.name ?? c.user?.email ?? 'Contact';
+  const filtered = conversations.filter(c => displayName(c).toLowerCase().includes(search.toLowerCase()));
+  const active = conversations.find(c => c.other_user_id === activeUserId) ?? null;
+  const role = me?.role?.toLowerCase().includes('company') ? 'company' : 'investor';
+
+  return (
+    <DashboardLayout role={role}>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold font-heading">Messages</h1>
+          <p className="text-muted-foreground">Conversations with your meeting contacts.</p>
+        </div>
+
+        <div className="grid md:grid-cols-[320px_1fr] gap-6 h-[calc(100vh-14rem)] min-h-[420px]">
+          {/* Conversation list */}
+          <Card className="bg-card/50 border-white/5 flex flex-col overflow-hidden">
+            <CardHeader className="pb-3">
+              <div className="relative">
+                <Search className="absolute left-3 top-3 w-4 h-4 text-muted-foreground" />
+                <Input placeholder="Search conversations..." className="pl-9 bg-background/50 border-white/10" value={search} onChange={(e) => setSearch(e.target.value)} />
+              </div>
+            </CardHeader>
+            <CardContent className="flex-1 overflow-y-auto p-2">
+              {loading ? (
+                <div className="p-3 text-sm text-muted-foreground">Loading conversations...</div>
+              ) : filtered.length === 0 ? (
+                <div className="p-3 text-sm text-muted-foreground">No conversations yet.</div>
+              ) : filtered.map(c => (
+                <button
+                  key={c.other_user_id}
+                  onClick={() => setActiveUserId(c.other_user_id)}
+                  className={`w-full flex items-center gap-3 p-3 rounded-md text-left transition-colors ${c.other_user_id === activeUserId ? 'bg-white/10' : 'hover:bg-white/5'}`}
+                >
+                  <Avatar className="h-10 w-10">
+                    <AvatarImage src={`https://api.dicebear.com/7.x/avataaars/svg?seed=${c.other_user_id}`} />
+                    <AvatarFallback>{displayName(c)[0]}</AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex justify-between items-center gap-2">
+                      <span className="font-medium truncate">{displayName(c)}</span>
+                      {c.last_message && (
+                        <span className="text-[10px] text-muted-foreground shrink-0">{formatDistanceToNow(new Date(c.last_message.created_at), { addSuffix: true })}</span>
+                      )}
+                    </div>
+                    <div className="flex justify-between items-center gap-2">
+                      <span className="text-xs text-muted-foreground truncate">{c.last_message?.content ?? 'Start the conversation'}</span>
+                      {c.unread_count > 0 && <Badge className="h-5 px-1.5 text-[10px]">{c.unread_count}</Badge>}
+                    </div>
+                  </div>
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+
+          {/* Thread */}
+          <Card className="bg-card/50 border-white/5 flex flex-col overflow-hidden">
+            {!activeUserId ? (
+              <CardContent className="flex-1 flex flex-col items-center justify-center text-center">
+                <MessageSquare className="w-12 h-12 text-muted-foreground mb-4" />
+                <h3 className="text-lg font-medium mb-2">Select a conversation</h3>
+                <p className="text-muted-foreground max-w-sm">You can message anyone you have sent or received a meeting request from.</p>
+              </CardContent>
+            ) : (
+              <>
+                <CardHeader className="pb-3 border-b border-white/5">
+                  <CardTitle className="text-lg">{active ? displayName(active) : 'Conversation'}</CardTitle>
+                </CardHeader>
+                <CardContent className="flex-1 overflow-y-auto p-4 space-y-3">
+                  {nextCursor && (
+                    <div className="flex justify-center">
+                      <Button size="sm" variant="ghost" disabled={threadLoading} onClick={() => fetchThread(activeUserId, nextCursor)}>
+                        {threadLoading ? 'Loading…' : 'Load older messages'}
+                      </Button>
+                    </div>
+                  )}
+                  {threadError && <div className="text-sm text-destructive">{threadError}</div>}
+                  {!threadError && !threadLoading && messages.length === 0 && (
+                    <div className="text-sm text-muted-foreground text-center">No messages yet. Say hello!</div>
+                  )}
+                  {messages.map(m => {
+                    const mine = m.from_user_id === me?.id;
+                    return (
+                      <div key={m.id} className={`flex ${mine ? 'justify-end' : 'justify-start'}`}>
+                        <div className={`max-w-[75%] rounded-lg px-3 py-2 text-sm ${mine ? 'bg-primary text-primary-foreground' : 'bg-white/5'}`}>
+                          <p className="whitespace-pre-wrap break-words">{m.content}</p>
+                          <p className={`text-[10px] mt-1 ${mine ? 'text-primary-foreground/70' : 'text-muted-foreground'}`}>
+                            {formatDistanceToNow(new Date(m.created_at), { addSuffix: true })}
+                          </p>
+                        </div>
+                      </div>
+                    );
+                  })}
+                  <div ref={bottomRef} />
+                </CardContent>
+                <div className="p-4 border-t border-white/5 flex gap-2">
+                  <Textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && !e.shiftKey) {
+                        e.preventDefault();
+                        sendMessage();
+                      }
+                    }}
+                    placeholder="Write a message..."
+                    className="min-h-[44px] max-h-32 bg-background/50 border-white/10"
+                    disabled={!!threadError}
+                  />
+                  <Button onClick={sendMessage} disabled={sending || !draft.trim() || !!threadError}>
+                    <Send className="w-4 h-4" />
+                  </Button>
+                </div>
+              </>
+            )}
+          </Card>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
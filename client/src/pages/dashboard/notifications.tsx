@@ -15,6 +15,18 @@ function formatNotificationTitle(n: any) {
       return n.data?.title ?? 'Reschedule accepted';
     case 'meeting_reschedule_declined':
       return n.data?.title ?? 'Reschedule declined';
+    case 'meeting_reschedule_countered':
+      return n.data?.title ?? 'Reschedule counter-proposal';
+    case 'meeting_proposal_expired':
+      return n.data?.title ?? 'Reschedule proposal expired';
+    case 'meeting_request_expired':
+      return n.data?.title ?? 'Meeting request expired';
+    case 'meeting_booked':
+      return n.data?.title ?? 'Meeting booked';
+    case 'message_received':
+      return n.data?.title ?? 'New message';
+    case 'company_favorited':
+      return n.data?.title ?? 'Your company was saved';
     default:
       return n.data?.title ?? n.type ?? 'Notification';
   }
@@ -90,6 +102,10 @@ export default function NotificationsPage() {
         await markReadState(n.id, true);
       }
       // navigate to related resource, else show details
+      if (n.type === 'message_received' && n.data?.from_user_id) {
+        setLocation(`/dashboard/messages?with=${n.data.from_user_id}`);
+        return;
+      }
       if (n.data?.meeting_request_id) {
         setLocation(`/dashboard/meetings`);
         return;
@@ -5,9 +5,13 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
-import { Upload, Camera, Globe, MapPin, DollarSign, Mail, Briefcase } from "lucide-react";
+import { Slider } from "@/components/ui/slider";
+import { Upload, Camera, Globe, MapPin, DollarSign, Mail, Briefcase, ArrowUp, ArrowDown } from "lucide-react";
+import { SectorSelect } from "@/components/sector-select";
 import { useToast } from "@/hooks/use-toast";
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
+import { normalizeSector, normalizeSectors } from "@shared/sectors";
+import { CURRENCIES } from "@shared/money";
 
 interface UserData {
   id?: string;
@@ -24,7 +28,47 @@ interface InvestorProfile {
   bio?: string;
   aum?: string;
   check_size_unit?: string;
+  check_size_currency?: string;
   sectors?: string[];
+  scoring_weights?: ScoringWeights | null;
+  deal_breakers?: DealBreakers | null;
+}
+
+// Hard filters applied by the match engine; raise bounds are raw USD amounts
+interface DealBreakers {
+  excluded_sectors?: string[];
+  excluded_geographies?: string[];
+  excluded_stages?: string[];
+  min_raise?: number | null;
+  max_raise?: number | null;
+}
+
+const STAGE_OPTIONS = ['Seed', 'Series A', 'Series B', 'Growth'];
+
+// Match scoring weights in whole percentages; mirrors DEFAULT_SCORING_WEIGHTS in server/lib/matchEngine.ts
+interface ScoringWeights {
+  sector: number;
+  stage: number;
+  ticketSize: number;
+  geography: number;
+  investorType: number;
+}
+
+const DEFAULT_WEIGHTS: ScoringWeights = { sector: 30, stage: 25, ticketSize: 25, geography: 15, investorType: 5 };
+
+const WEIGHT_LABELS: Array<{ key: keyof ScoringWeights; label: string }> = [
+  { key: 'sector', label: 'Sector' },
+  { key: 'stage', label: 'Stage' },
+  { key: 'ticketSize', label: 'Ticket Size' },
+  { key: 'geography', label: 'Geography' },
+  { key: 'investorType', label: 'Investor Type' },
+];
+
+interface RecommendedCompany {
+  user_id: string;
+  company_name?: string;
+  name?: string;
+  matchScore?: { overall: number; factors: ScoringWeights };
 }
 
 interface CompanyProfile {
@@ -53,8 +97,19 @@ export default function ProfilePage() {
   const [bio, setBio] = useState("");
   const [aum, setAum] = useState("");
   const [checkSizeUnit, setCheckSizeUnit] = useState("M");
+  const [checkSizeCurrency, setCheckSizeCurrency] = useState("USD");
+  const [investorType, setInvestorType] = useState("");
   const [sectors, setSectors] = useState<string[]>([]);
   const [newSector, setNewSector] = useState("");
+  const [weights, setWeights] = useState<ScoringWeights>(DEFAULT_WEIGHTS);
+  const [recommendations, setRecommendations] = useState<RecommendedCompany[]>([]);
+  const [excludedSectors, setExcludedSectors] = useState<string[]>([]);
+  const [excludedGeographies, setExcludedGeographies] = useState<string[]>([]);
+  const [excludedStages, setExcludedStages] = useState<string[]>([]);
+  const [minRaise, setMinRaise] = useState(""); // in $M
+  const [maxRaise, setMaxRaise] = useState(""); // in $M
+  const [newExcludedSector, setNewExcludedSector] = useState("");
+  const [newExcludedGeography, setNewExcludedGeography] = useState("");
 
   // Form state for company
   const [companyName, setCompanyName] = useState("");
@@ -118,7 +173,16 @@ export default function ProfilePage() {
               setBio(inv.bio || "");
               setAum(inv.aum || "");
               setCheckSizeUnit(inv.check_size_unit || "M");
+              setCheckSizeCurrency(inv.check_size_currency || "USD");
+              setInvestorType(inv.investor_type || "");
               setSectors(inv.sectors || []);
+              setWeights(inv.scoring_weights ?? DEFAULT_WEIGHTS);
+              const dealBreakers: DealBreakers = inv.deal_breakers ?? {};
+              setExcludedSectors(dealBreakers.excluded_sectors ?? []);
+              setExcludedGeographies(dealBreakers.excluded_geographies ?? []);
+              setExcludedStages(dealBreakers.excluded_stages ?? []);
+              setMinRaise(dealBreakers.min_raise != null ? String(dealBreakers.min_raise / 1_000_000) : "");
+              setMaxRaise(dealBreakers.max_raise != null ? String(dealBreakers.max_raise / 1_000_000) : "");
             } else {
               console.warn('Failed to fetch investor profile');
               toast({ 
@@ -129,6 +193,14 @@ export default function ProfilePage() {
           } catch (err) {
             console.error('Investor profile fetch error:', err);
           }
+
+          // Top recommendations (scored with the saved weights) for the weights preview
+          try {
+            const recRes = await fetch('/api/investors/me/recommendations?limit=8', { credentials: 'include' });
+            if (recRes.ok) setRecommendations(await recRes.json());
+          } catch (err) {
+            console.error('Recommendations fetch error:', err);
+          }
         }
       } catch (err) {
         console.error('Profile fetch error:', err);
@@ -158,7 +230,7 @@ export default function ProfilePage() {
             company_name: companyName,
             tagline,
             description,
-            sector: companySector,
+            sector: normalizeSector(companySector) || null,
             stage,
             hq_location: hqLocation,
             capital_sought: capitalSought,
@@ -173,12 +245,16 @@ export default function ProfilePage() {
         // Refetch to verify persistence
         const updatedProfile = await res.json();
         setCompanyProfile(updatedProfile);
+        setCapitalSought(updatedProfile?.capital_sought ?? "");
         
         toast({ 
           title: 'Success', 
           description: 'Your company profile has been saved successfully.' 
         });
       } else {
+        if (weightsTotal !== 100) {
+          throw new Error(`Match scoring weights must add up to 100% (currently ${weightsTotal}%).`);
+        }
         // Save investor profile
         const res = await fetch('/api/investors/me', {
           method: 'PATCH',
@@ -191,7 +267,17 @@ export default function ProfilePage() {
             bio,
             aum,
             check_size_unit: checkSizeUnit,
-            sectors,
+            check_size_currency: checkSizeCurrency,
+            investor_type: investorType || null,
+            sectors: normalizeSectors(sectors),
+            scoring_weights: weights,
+            deal_breakers: {
+              excluded_sectors: normalizeSectors(excludedSectors),
+              excluded_geographies: excludedGeographies,
+              excluded_stages: excludedStages,
+              min_raise: minRaise.trim() ? Number(minRaise) * 1_000_000 : null,
+              max_raise: maxRaise.trim() ? Number(maxRaise) * 1_000_000 : null,
+            },
           }),
         });
         
@@ -222,8 +308,9 @@ export default function ProfilePage() {
   };
 
   const handleAddSector = () => {
-    if (newSector.trim() && !sectors.includes(newSector)) {
-      setSectors([...sectors, newSector]);
+    const sector = normalizeSector(newSector);
+    if (sector && !sectors.includes(sector)) {
+      setSectors([...sectors, sector]);
       setNewSector("");
     }
   };
@@ -232,6 +319,33 @@ export default function ProfilePage() {
     setSectors(sectors.filter(s => s !== sector));
   };
 
+  const addToList = (value: string, list: string[], setList: (v: string[]) => void, reset: () => void) => {
+    const trimmed = value.trim();
+    if (trimmed && !list.includes(trimmed)) setList([...list, trimmed]);
+    reset();
+  };
+
+  const toggleExcludedStage = (stageName: string) => {
+    setExcludedStages(prev => prev.includes(stageName) ? prev.filter(s => s !== stageName) : [...prev, stageName]);
+  };
+
+  const weightsTotal = WEIGHT_LABELS.reduce((sum, { key }) => sum + weights[key], 0);
+
+  // Re-rank the current recommendations with the draft weights. The server returns the
+  // per-factor scores, so the weighted overall can be recomputed locally as sliders move.
+  const weightsPreview = useMemo(() => {
+    const scored = recommendations
+      .filter(c => c.matchScore)
+      .map((c, currentRank) => {
+        const f = c.matchScore!.factors;
+        const overall = Math.round(WEIGHT_LABELS.reduce((sum, { key }) => sum + f[key] * weights[key], 0) / 100);
+        return { company: c, currentRank, currentScore: c.matchScore!.overall, overall };
+      });
+    return scored
+      .sort((a, b) => b.overall - a.overall || a.currentRank - b.currentRank)
+      .map((entry, newRank) => ({ ...entry, rankChange: entry.currentRank - newRank }));
+  }, [recommendations, weights]);
+
   if (loading) {
     return (
       <DashboardLayout>
@@ -341,7 +455,7 @@ export default function ProfilePage() {
                     <div className="grid md:grid-cols-2 gap-4">
                       <div className="space-y-2">
                         <Label>Sector</Label>
-                        <Input value={companySector} onChange={(e) => setCompanySector(e.target.value)} className="bg-background/50 border-white/10" />
+                        <SectorSelect value={companySector} onChange={setCompanySector} />
                       </div>
                       <div className="space-y-2">
                         <Label>Stage</Label>
@@ -361,7 +475,7 @@ export default function ProfilePage() {
                       </div>
                       <div className="space-y-2">
                         <Label>Capital Sought</Label>
-                        <Input value={capitalSought} onChange={(e) => setCapitalSought(e.target.value)} placeholder="e.g., $5M" className="bg-background/50 border-white/10" />
+                        <Input value={capitalSought} onChange={(e) => setCapitalSought(e.target.value)} placeholder="e.g., $5M, €2-3M or ₹40Cr" className="bg-background/50 border-white/10" />
                       </div>
                     </div>
                   </CardContent>
@@ -404,6 +518,16 @@ export default function ProfilePage() {
                         <Input value={investorRole} onChange={(e) => setInvestorRole(e.target.value)} className="bg-background/50 border-white/10" />
                       </div>
                     </div>
+                    <div className="space-y-2">
+                      <Label>Investor Type</Label>
+                      <select value={investorType} onChange={(e) => setInvestorType(e.target.value)} className="w-full bg-background/50 border border-white/10 rounded-md p-2 text-sm">
+                        <option value="">Select type</option>
+                        <option value="vc">Venture Capital</option>
+                        <option value="pe">Private Equity</option>
+                        <option value="cvc">Corporate VC</option>
+                        <option value="angel">Angel Group</option>
+                      </select>
+                    </div>
                     <div className="grid md:grid-cols-2 gap-4">
                       <div className="space-y-2">
                         <Label>AUM</Label>
@@ -417,6 +541,12 @@ export default function ProfilePage() {
                           <option value="raw">Raw</option>
                         </select>
                       </div>
+                      <div className="space-y-2">
+                        <Label>Check Size Currency</Label>
+                        <select value={checkSizeCurrency} onChange={(e) => setCheckSizeCurrency(e.target.value)} className="w-full bg-background/50 border border-white/10 rounded-md p-2 text-sm">
+                          {CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+                        </select>
+                      </div>
                     </div>
                     <div className="space-y-2">
                       <Label>Investment Focus</Label>
@@ -428,12 +558,112 @@ export default function ProfilePage() {
                         ))}
                       </div>
                       <div className="flex gap-2">
-                        <Input value={newSector} onChange={(e) => setNewSector(e.target.value)} placeholder="Add sector..." className="bg-background/50 border-white/10" onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), handleAddSector())} />
+                        <SectorSelect value={newSector} onChange={setNewSector} placeholder="Add sector..." />
                         <Button size="sm" onClick={handleAddSector} variant="outline" className="border-white/10">Add</Button>
                       </div>
                     </div>
                   </CardContent>
                 </Card>
+
+                <Card className="bg-card/50 border-white/5">
+                  <CardHeader>
+                    <CardTitle>Deal Breakers</CardTitle>
+                    <CardDescription>Companies that hit any of these rules are hidden from your recommendations and search results.</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {([
+                      { label: 'Excluded Sectors', list: excludedSectors, setList: setExcludedSectors, value: newExcludedSector, setValue: setNewExcludedSector, placeholder: 'Add sector...' },
+                      { label: 'Excluded Geographies', list: excludedGeographies, setList: setExcludedGeographies, value: newExcludedGeography, setValue: setNewExcludedGeography, placeholder: 'Add country or region...' },
+                    ]).map(({ label, list, setList, value, setValue, placeholder }) => (
+                      <div key={label} className="space-y-2">
+                        <Label>{label}</Label>
+                        <div className="flex flex-wrap gap-2 p-3 rounded-md border border-white/10 bg-background/50 min-h-[3rem]">
+                          {list.map((item) => (
+                            <Badge key={item} variant="secondary" className="bg-white/10 hover:bg-white/20 cursor-pointer" onClick={() => setList(list.filter(x => x !== item))}>
+                              {item} ×
+                            </Badge>
+                          ))}
+                        </div>
+                        <div className="flex gap-2">
+                          <Input value={value} onChange={(e) => setValue(e.target.value)} placeholder={placeholder} className="bg-background/50 border-white/10" onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), addToList(value, list, setList, () => setValue("")))} />
+                          <Button size="sm" onClick={() => addToList(value, list, setList, () => setValue(""))} variant="outline" className="border-white/10">Add</Button>
+                        </div>
+                      </div>
+                    ))}
+                    <div className="space-y-2">
+                      <Label>Stages I never invest in</Label>
+                      <div className="flex flex-wrap gap-2">
+                        {STAGE_OPTIONS.map(stageName => (
+                          <Badge
+                            key={stageName}
+                            variant={excludedStages.includes(stageName) ? 'default' : 'outline'}
+                            className={`cursor-pointer ${excludedStages.includes(stageName) ? '' : 'border-white/10'}`}
+                            onClick={() => toggleExcludedStage(stageName)}
+                          >
+                            {stageName}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="grid md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label>Minimum Raise ($M)</Label>
+                        <Input type="number" min={0} step="0.1" value={minRaise} onChange={(e) => setMinRaise(e.target.value)} placeholder="No minimum" className="bg-background/50 border-white/10" />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Maximum Raise ($M)</Label>
+                        <Input type="number" min={0} step="0.1" value={maxRaise} onChange={(e) => setMaxRaise(e.target.value)} placeholder="No maximum" className="bg-background/50 border-white/10" />
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <Card className="bg-card/50 border-white/5">
+                  <CardHeader>
+                    <CardTitle>Match Scoring Weights</CardTitle>
+                    <CardDescription>Decide how much each criterion counts towards your match scores. Weights must add up to 100%.</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-5">
+                    {WEIGHT_LABELS.map(({ key, label }) => (
+                      <div key={key} className="space-y-2">
+                        <div className="flex justify-between text-sm">
+                          <Label>{label}</Label>
+                          <span className="font-medium">{weights[key]}%</span>
+                        </div>
+                        <Slider
+                          value={[weights[key]]}
+                          min={0}
+                          max={100}
+                          step={5}
+                          onValueChange={([value]) => setWeights(prev => ({ ...prev, [key]: value }))}
+                        />
+                      </div>
+                    ))}
+                    <div className="flex items-center justify-between">
+                      <span className={`text-sm ${weightsTotal === 100 ? 'text-muted-foreground' : 'text-destructive'}`}>
+                        Total: {weightsTotal}%{weightsTotal !== 100 && ' (must be 100%)'}
+                      </span>
+                      <Button size="sm" variant="outline" className="border-white/10" onClick={() => setWeights(DEFAULT_WEIGHTS)}>Reset to defaults</Button>
+                    </div>
+
+                    {weightsPreview.length > 0 && (
+                      <div className="space-y-2 pt-2 border-t border-white/5">
+                        <div className="text-sm font-medium pt-3">Preview: your top recommendations</div>
+                        {weightsPreview.map(({ company, currentScore, overall, rankChange }) => (
+                          <div key={company.user_id} className="flex items-center justify-between text-sm bg-white/5 rounded px-3 py-2">
+                            <span className="truncate">{company.company_name ?? company.name ?? 'Company'}</span>
+                            <div className="flex items-center gap-3 shrink-0">
+                              {rankChange > 0 && <span className="flex items-center text-xs text-green-500"><ArrowUp className="w-3 h-3" />{rankChange}</span>}
+                              {rankChange < 0 && <span className="flex items-center text-xs text-destructive"><ArrowDown className="w-3 h-3" />{-rankChange}</span>}
+                              <span className="text-muted-foreground line-through text-xs">{overall !== currentScore ? `${currentScore}%` : ''}</span>
+                              <Badge variant="outline" className="bg-primary/10 text-primary border-primary/20">{overall}%</Badge>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
               </>
             )}
           </div>
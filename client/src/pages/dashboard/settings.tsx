@@ -4,7 +4,10 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
-import { Bell, Lock, User, Moon, Calendar, AlertCircle, CheckCircle } from "lucide-react";
+import { Bell, Lock, User, Moon, Calendar, CalendarCheck, Clock, AlertCircle, CheckCircle, Copy, RefreshCw, Monitor, Smartphone, LogOut, ShieldCheck } from "lucide-react";
+import { AvailabilityEditor } from "@/components/availability-editor";
+import { BookingSettingsForm } from "@/components/booking-settings";
+import { RecoveryCodeList, TOTP_CODE_LENGTH, TotpCodeInput, TwoFactorSetupKey } from "@/components/two-factor";
 import { useToast } from "@/hooks/use-toast";
 import { useEffect, useState } from "react";
 
@@ -15,10 +18,65 @@ interface UserData {
   role?: string;
 }
 
+interface CalendarFeed {
+  url: string;
+  webcalUrl: string;
+}
+
+interface SignInSession {
+  id: string;
+  user_agent: string | null;
+  ip: string | null;
+  created_at: string;
+  last_seen_at: string | null;
+  current: boolean;
+}
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  /** Required for this account's role by the platform settings */
+  required: boolean;
+}
+
+/**
+ * "Chrome on macOS" from a user agent string
+ */
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : null;
+  const os = /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+  if (browser && os) return `${browser} on ${os}`;
+  return browser ?? os ?? userAgent.slice(0, 60);
+}
+
+function isMobile(userAgent: string | null): boolean {
+  return Boolean(userAgent && /iPhone|iPad|Android|Mobile/.test(userAgent));
+}
+
+interface CalendarProviderOption {
+  name: 'google' | 'microsoft' | 'caldav';
+  label: string;
+  authType: 'oauth' | 'password';
+}
+
 interface OAuthStatus {
   connected: boolean;
+  provider?: CalendarProviderOption['name'] | null;
   calendarEmail?: string;
+  accountUrl?: string | null;
   syncExternalCalendar?: boolean;
+  providers?: CalendarProviderOption[];
 }
 
 export default function SettingsPage() {
@@ -32,7 +90,19 @@ export default function SettingsPage() {
   const [newPassword, setNewPassword] = useState("");
   const [oauthStatus, setOAuthStatus] = useState<OAuthStatus>({ connected: false });
   const [oauthLoading, setOAuthLoading] = useState(false);
+  const [showCalDav, setShowCalDav] = useState(false);
+  const [calDavUrl, setCalDavUrl] = useState("");
+  const [calDavUsername, setCalDavUsername] = useState("");
+  const [calDavPassword, setCalDavPassword] = useState("");
   const [arrangeMeetings, setArrangeMeetings] = useState(false);
+  const [calendarFeed, setCalendarFeed] = useState<CalendarFeed | null>(null);
+  const [sessions, setSessions] = useState<SignInSession[]>([]);
+  const [twoFactor, setTwoFactor] = useState<TwoFactorStatus | null>(null);
+  const [twoFactorSetup, setTwoFactorSetup] = useState<{ secret: string; otpauthUri: string } | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  // Turning it off or replacing the recovery codes asks for a code first
+  const [twoFactorAction, setTwoFactorAction] = useState<'disable' | 'regenerate' | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
 
   useEffect(() => {
     const fetchData = async () => {
@@ -53,6 +123,21 @@ export default function SettingsPage() {
           const status = await oauthRes.json();
           setOAuthStatus(status);
         }
+
+        const feedRes = await fetch('/api/users/me/calendar-feed', { credentials: 'include' });
+        if (feedRes.ok) {
+          setCalendarFeed(await feedRes.json());
+        }
+
+        const sessionsRes = await fetch('/api/users/me/sessions', { credentials: 'include' });
+        if (sessionsRes.ok) {
+          setSessions(await sessionsRes.json());
+        }
+
+        const twoFactorRes = await fetch('/api/users/me/2fa', { credentials: 'include' });
+        if (twoFactorRes.ok) {
+          setTwoFactor(await twoFactorRes.json());
+        }
       } catch (err) {
         console.error('fetch error', err);
       } finally {
@@ -95,10 +180,14 @@ export default function SettingsPage() {
     setNewPassword("");
   };
 
-  const handleConnectOAuth = async () => {
+  const handleConnectOAuth = async (provider: CalendarProviderOption) => {
+    if (provider.authType === 'password') {
+      setShowCalDav(true);
+      return;
+    }
     try {
       setOAuthLoading(true);
-      const res = await fetch('/api/oauth/authorize', { credentials: 'include' });
+      const res = await fetch(`/api/oauth/authorize?provider=${provider.name}`, { credentials: 'include' });
       const data = await res.json();
       if (data.authUrl) {
         window.location.href = data.authUrl;
@@ -113,6 +202,36 @@ export default function SettingsPage() {
     }
   };
 
+  const handleConnectCalDav = async () => {
+    if (!calDavUrl || !calDavUsername || !calDavPassword) {
+      toast({ title: 'Error', description: 'Please fill in the calendar URL, username and password.' });
+      return;
+    }
+    try {
+      setOAuthLoading(true);
+      const res = await fetch('/api/oauth/connect', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ provider: 'caldav', serverUrl: calDavUrl, username: calDavUsername, password: calDavPassword }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast({ title: 'Connection Failed', description: data.message || 'Could not connect to the calendar', variant: 'destructive' });
+        return;
+      }
+      setOAuthStatus(prev => ({ ...prev, connected: true, provider: 'caldav', calendarEmail: data.calendarEmail ?? undefined, accountUrl: calDavUrl }));
+      setShowCalDav(false);
+      setCalDavPassword("");
+      toast({ title: 'Calendar Connected', description: 'Your CalDAV calendar has been connected successfully.' });
+    } catch (err) {
+      console.error('CalDAV error:', err);
+      toast({ title: 'Error', description: 'Failed to connect calendar', variant: 'destructive' });
+    } finally {
+      setOAuthLoading(false);
+    }
+  };
+
   const handleDisconnectOAuth = async () => {
     try {
       const res = await fetch('/api/oauth/disconnect', {
@@ -120,7 +239,7 @@ export default function SettingsPage() {
         credentials: 'include',
       });
       if (res.ok) {
-        setOAuthStatus({ connected: false });
+        setOAuthStatus(prev => ({ ...prev, connected: false, provider: null, calendarEmail: undefined, accountUrl: null }));
         toast({ title: 'Disconnected', description: 'Your calendar has been disconnected.' });
       } else {
         toast({ title: 'Error', description: 'Failed to disconnect', variant: 'destructive' });
@@ -131,6 +250,148 @@ export default function SettingsPage() {
     }
   };
 
+  const connectedProvider = oauthStatus.providers?.find(p => p.name === oauthStatus.provider);
+
+  const handleCopyFeedUrl = async () => {
+    if (!calendarFeed) return;
+    try {
+      await navigator.clipboard.writeText(calendarFeed.url);
+      toast({ title: 'Copied', description: 'Subscription link copied to clipboard.' });
+    } catch {
+      toast({ title: 'Error', description: 'Could not copy the link', variant: 'destructive' });
+    }
+  };
+
+  const handleRotateFeed = async () => {
+    try {
+      const res = await fetch('/api/users/me/calendar-feed/rotate', {
+        method: 'POST',
+        credentials: 'include',
+      });
+      if (!res.ok) throw new Error('failed to reset link');
+      setCalendarFeed(await res.json());
+      toast({ title: 'Link Reset', description: 'The old subscription link no longer works.' });
+    } catch (err) {
+      console.error('Rotate feed error:', err);
+      toast({ title: 'Error', description: 'Failed to reset subscription link', variant: 'destructive' });
+    }
+  };
+
+  const handleRevokeSession = async (session: SignInSession) => {
+    try {
+      const res = await fetch(`/api/users/me/sessions/${session.id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      if (!res.ok) throw new Error('failed to revoke session');
+      if (session.current) {
+        window.location.href = '/auth';
+        return;
+      }
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+      toast({ title: 'Signed Out', description: `${describeDevice(session.user_agent)} has been signed out.` });
+    } catch (err) {
+      console.error('Revoke session error:', err);
+      toast({ title: 'Error', description: 'Failed to sign out that device', variant: 'destructive' });
+    }
+  };
+
+  const handleRevokeOtherSessions = async () => {
+    try {
+      const res = await fetch('/api/users/me/sessions', {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      if (!res.ok) throw new Error('failed to revoke sessions');
+      const { revokedCount } = await res.json();
+      setSessions(prev => prev.filter(s => s.current));
+      toast({ title: 'Signed Out', description: `Signed out of ${revokedCount} other device${revokedCount === 1 ? '' : 's'}.` });
+    } catch (err) {
+      console.error('Revoke sessions error:', err);
+      toast({ title: 'Error', description: 'Failed to sign out other devices', variant: 'destructive' });
+    }
+  };
+
+  const refreshTwoFactor = async () => {
+    const res = await fetch('/api/users/me/2fa', { credentials: 'include' });
+    if (res.ok) setTwoFactor(await res.json());
+  };
+
+  const handleStartTwoFactor = async () => {
+    try {
+      const res = await fetch('/api/users/me/2fa/setup', {
+        method: 'POST',
+        credentials: 'include',
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message ?? 'failed to start setup');
+      setRecoveryCodes([]);
+      setTwoFactorCode("");
+      setTwoFactorSetup(data);
+    } catch (err: any) {
+      console.error('Two-factor setup error:', err);
+      toast({ title: 'Error', description: err?.message ?? 'Failed to start two-factor setup', variant: 'destructive' });
+    }
+  };
+
+  const handleConfirmTwoFactor = async (code: string = twoFactorCode) => {
+    if (code.length !== TOTP_CODE_LENGTH) return;
+    try {
+      const res = await fetch('/api/users/me/2fa/confirm', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message ?? 'failed to confirm');
+      setTwoFactorSetup(null);
+      setTwoFactorCode("");
+      setRecoveryCodes(data.recoveryCodes ?? []);
+      await refreshTwoFactor();
+      toast({ title: 'Two-Factor Authentication On', description: 'You will be asked for a code when you sign in.' });
+    } catch (err: any) {
+      setTwoFactorCode("");
+      toast({ title: 'Error', description: err?.message ?? 'Failed to turn on two-factor authentication', variant: 'destructive' });
+    }
+  };
+
+  // Six digits are a code from the app; anything else is taken as a recovery code
+  const handleTwoFactorAction = async () => {
+    const value = twoFactorCode.trim();
+    if (!value || !twoFactorAction) return;
+    const body = /^\d{6}$/.test(value) ? { code: value } : { recoveryCode: value };
+    try {
+      const res = twoFactorAction === 'disable'
+        ? await fetch('/api/users/me/2fa', {
+          method: 'DELETE',
+          credentials: 'include',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        })
+        : await fetch('/api/users/me/2fa/recovery-codes', {
+          method: 'POST',
+          credentials: 'include',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message ?? 'request failed');
+      if (twoFactorAction === 'disable') {
+        setRecoveryCodes([]);
+        toast({ title: 'Two-Factor Authentication Off', description: 'Signing in only needs your password again.' });
+      } else {
+        setRecoveryCodes(data.recoveryCodes ?? []);
+        toast({ title: 'New Recovery Codes', description: 'Your old recovery codes no longer work.' });
+      }
+      setTwoFactorAction(null);
+      setTwoFactorCode("");
+      await refreshTwoFactor();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err?.message ?? 'Could not verify the code', variant: 'destructive' });
+    }
+  };
+
   const handleUpdateArrangeSettings = async () => {
     try {
       const res = await fetch('/api/users/me/arrangement-preferences', {
@@ -223,25 +484,103 @@ export default function SettingsPage() {
                     <AlertCircle className="w-5 h-5 text-yellow-500" />
                   )}
                   <div>
-                    <p className="font-medium">{oauthStatus.connected ? 'Connected' : 'Not Connected'}</p>
-                    {oauthStatus.calendarEmail && (
-                      <p className="text-sm text-muted-foreground">{oauthStatus.calendarEmail}</p>
+                    <p className="font-medium">
+                      {oauthStatus.connected
+                        ? `Connected${connectedProvider ? ` to ${connectedProvider.label}` : ''}`
+                        : 'Not Connected'}
+                    </p>
+                    {(oauthStatus.calendarEmail || oauthStatus.accountUrl) && (
+                      <p className="text-sm text-muted-foreground">{oauthStatus.calendarEmail || oauthStatus.accountUrl}</p>
                     )}
                   </div>
                 </div>
-                <Button
-                  variant={oauthStatus.connected ? "outline" : "default"}
-                  onClick={oauthStatus.connected ? handleDisconnectOAuth : handleConnectOAuth}
-                  disabled={oauthLoading}
-                >
-                  {oauthLoading ? 'Loading...' : oauthStatus.connected ? 'Disconnect' : 'Connect Calendar'}
-                </Button>
+                {oauthStatus.connected && (
+                  <Button variant="outline" onClick={handleDisconnectOAuth} disabled={oauthLoading}>
+                    Disconnect
+                  </Button>
+                )}
               </div>
+              {!oauthStatus.connected && (
+                <div className="flex flex-wrap gap-2">
+                  {(oauthStatus.providers || []).map(provider => (
+                    <Button key={provider.name} onClick={() => handleConnectOAuth(provider)} disabled={oauthLoading}>
+                      {oauthLoading ? 'Loading...' : `Connect ${provider.label}`}
+                    </Button>
+                  ))}
+                </div>
+              )}
+              {!oauthStatus.connected && showCalDav && (
+                <div className="space-y-3 p-3 bg-white/5 rounded-lg border border-white/10">
+                  <div className="space-y-2">
+                    <Label htmlFor="caldav-url">Calendar URL</Label>
+                    <Input
+                      id="caldav-url"
+                      placeholder="https://caldav.example.com/calendars/me/work/"
+                      value={calDavUrl}
+                      onChange={(e) => setCalDavUrl(e.target.value)}
+                      className="bg-background/50 border-white/10"
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="caldav-username">Username</Label>
+                      <Input
+                        id="caldav-username"
+                        value={calDavUsername}
+                        onChange={(e) => setCalDavUsername(e.target.value)}
+                        className="bg-background/50 border-white/10"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="caldav-password">App Password</Label>
+                      <Input
+                        id="caldav-password"
+                        type="password"
+                        value={calDavPassword}
+                        onChange={(e) => setCalDavPassword(e.target.value)}
+                        className="bg-background/50 border-white/10"
+                      />
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button onClick={handleConnectCalDav} disabled={oauthLoading}>
+                      {oauthLoading ? 'Connecting...' : 'Connect'}
+                    </Button>
+                    <Button variant="ghost" onClick={() => setShowCalDav(false)}>Cancel</Button>
+                  </div>
+                </div>
+              )}
               <p className="text-sm text-muted-foreground">
-                Connect your personal Google Calendar to enable automatic conflict checking and per-user calendar event creation.
+                Connect your Google, Outlook or CalDAV calendar to enable automatic conflict checking and per-user calendar event creation.
               </p>
             </div>
 
+            {/* Calendar Subscription */}
+            {calendarFeed && (
+              <div className="space-y-3 pt-4 border-t border-white/10">
+                <div className="space-y-0.5">
+                  <Label className="text-base">Calendar Subscription</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Subscribe from Google Calendar, Outlook or Apple Calendar to see your confirmed meetings. Anyone with this link can read your meetings.
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Input readOnly value={calendarFeed.url} className="bg-background/50 border-white/10 font-mono text-xs" />
+                  <Button variant="outline" size="icon" onClick={handleCopyFeedUrl} title="Copy link">
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="secondary" asChild>
+                    <a href={calendarFeed.webcalUrl}>Open in Calendar App</a>
+                  </Button>
+                  <Button variant="outline" onClick={handleRotateFeed}>
+                    <RefreshCw className="w-4 h-4 mr-2" /> Reset Link
+                  </Button>
+                </div>
+              </div>
+            )}
+
             {/* Auto-Arrangement Toggle */}
             <div className="space-y-3 pt-4 border-t border-white/10">
               <div className="flex items-center justify-between">
@@ -269,6 +608,32 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Availability */}
+        <Card className="bg-card/50 border-white/5">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="w-5 h-5" /> Availability
+            </CardTitle>
+            <CardDescription>When automatic scheduling may book meetings for you</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AvailabilityEditor />
+          </CardContent>
+        </Card>
+
+        {/* Booking */}
+        <Card className="bg-card/50 border-white/5">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarCheck className="w-5 h-5" /> Booking
+            </CardTitle>
+            <CardDescription>How others book a meeting with you from your free times</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <BookingSettingsForm />
+          </CardContent>
+        </Card>
+
         {/* Notifications */}
         <Card className="bg-card/50 border-white/5">
           <CardHeader>
@@ -333,6 +698,132 @@ export default function SettingsPage() {
               <Button variant="secondary" className="mt-2" onClick={handleUpdatePassword}>Update Password</Button>
           </CardContent>
         </Card>
+
+        {/* Two-factor authentication */}
+        <Card className="bg-card/50 border-white/5">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="w-5 h-5" /> Two-Factor Authentication
+            </CardTitle>
+            <CardDescription>Ask for a code from an authenticator app (such as Google Authenticator, 1Password or Authy) when you sign in.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {twoFactor?.enabled ? (
+              <div className="flex items-center justify-between gap-4 p-3 bg-white/5 rounded-lg border border-white/10">
+                <div>
+                  <p className="font-medium flex items-center gap-2"><CheckCircle className="w-4 h-4 text-green-500" /> On</p>
+                  <p className="text-xs text-muted-foreground">
+                    {twoFactor.enabledAt && `Since ${new Date(twoFactor.enabledAt).toLocaleDateString()} · `}
+                    {twoFactor.recoveryCodesRemaining} recovery code{twoFactor.recoveryCodesRemaining === 1 ? '' : 's'} left
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => { setTwoFactorAction('regenerate'); setTwoFactorCode(""); }}>New recovery codes</Button>
+                  {!twoFactor.required && (
+                    <Button variant="ghost" size="sm" onClick={() => { setTwoFactorAction('disable'); setTwoFactorCode(""); }}>Turn off</Button>
+                  )}
+                </div>
+              </div>
+            ) : !twoFactorSetup && (
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-sm text-muted-foreground">
+                  {twoFactor?.required ? 'Required for your account. You will be asked to set it up at your next sign-in.' : 'Off'}
+                </p>
+                <Button variant="secondary" onClick={handleStartTwoFactor}>Set up</Button>
+              </div>
+            )}
+            {twoFactor?.enabled && twoFactor.required && (
+              <p className="text-xs text-muted-foreground">Two-factor authentication is required for your account and cannot be turned off.</p>
+            )}
+
+            {twoFactorSetup && (
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">Add this key to your authenticator app, then enter the 6-digit code it shows.</p>
+                <TwoFactorSetupKey
+                  secret={twoFactorSetup.secret}
+                  otpauthUri={twoFactorSetup.otpauthUri}
+                  onCopied={(ok) => toast(ok ? { title: 'Copied', description: 'Setup key copied to clipboard.' } : { title: 'Error', description: 'Could not copy the key', variant: 'destructive' })}
+                />
+                <TotpCodeInput value={twoFactorCode} onChange={setTwoFactorCode} onComplete={handleConfirmTwoFactor} />
+                <div className="flex gap-2">
+                  <Button variant="ghost" onClick={() => { setTwoFactorSetup(null); setTwoFactorCode(""); }}>Cancel</Button>
+                  <Button onClick={() => handleConfirmTwoFactor()} disabled={twoFactorCode.length !== TOTP_CODE_LENGTH}>Turn on</Button>
+                </div>
+              </div>
+            )}
+
+            {twoFactorAction && (
+              <div className="space-y-2">
+                <Label>{twoFactorAction === 'disable' ? 'Enter a code from your app or a recovery code to turn it off' : 'Enter a code from your app to replace your recovery codes'}</Label>
+                <div className="flex gap-2">
+                  <Input
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                    placeholder={twoFactorAction === 'disable' ? '123456 or xxxxx-xxxxx' : '123456'}
+                    autoComplete="one-time-code"
+                    className="bg-background/50 border-white/10 font-mono"
+                  />
+                  <Button variant="ghost" onClick={() => { setTwoFactorAction(null); setTwoFactorCode(""); }}>Cancel</Button>
+                  <Button variant={twoFactorAction === 'disable' ? 'destructive' : 'secondary'} onClick={handleTwoFactorAction}>
+                    {twoFactorAction === 'disable' ? 'Turn off' : 'Replace'}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {recoveryCodes.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm">Save these recovery codes somewhere safe. Each one signs you in once if you lose your phone, and they will not be shown again.</p>
+                <RecoveryCodeList
+                  codes={recoveryCodes}
+                  onCopied={(ok) => toast(ok ? { title: 'Copied', description: 'Recovery codes copied to clipboard.' } : { title: 'Error', description: 'Could not copy the codes', variant: 'destructive' })}
+                />
+                <Button variant="ghost" size="sm" onClick={() => setRecoveryCodes([])}>Done</Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Devices & sessions */}
+        <Card className="bg-card/50 border-white/5">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Monitor className="w-5 h-5" /> Devices & Sessions
+            </CardTitle>
+            <CardDescription>Where your account is signed in. Sign out any device you don't recognize.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {sessions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No active sessions.</p>
+            ) : (
+              sessions.map((session) => {
+                const DeviceIcon = isMobile(session.user_agent) ? Smartphone : Monitor;
+                return (
+                  <div key={session.id} className="flex items-center justify-between gap-4 p-3 bg-white/5 rounded-lg border border-white/10">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <DeviceIcon className="w-5 h-5 text-muted-foreground shrink-0" />
+                      <div className="min-w-0">
+                        <p className="font-medium truncate" title={session.user_agent ?? undefined}>
+                          {describeDevice(session.user_agent)}
+                          {session.current && <span className="ml-2 text-xs text-green-500">This device</span>}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {session.ip ?? 'Unknown address'} · Last active {new Date(session.last_seen_at ?? session.created_at).toLocaleString()}
+                        </p>
+                      </div>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => handleRevokeSession(session)}>
+                      <LogOut className="w-4 h-4 mr-2" /> {session.current ? 'Sign out' : 'Revoke'}
+                    </Button>
+                  </div>
+                );
+              })
+            )}
+            {sessions.some(s => !s.current) && (
+              <Button variant="secondary" onClick={handleRevokeOtherSessions}>Sign out all other devices</Button>
+            )}
+          </CardContent>
+        </Card>
       </div>
     </DashboardLayout>
   );
@@ -2,6 +2,7 @@ import 'dotenv/config';
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes.js";
 import { serveStatic } from "./static.js";
+import { startOutboxWorker } from "./lib/mailer.js";
 import { createServer } from "http";
 
 const app = express();
@@ -110,4 +111,9 @@ app.use((req, res, next) => {
   httpServer.listen(listenOptions, () => {
     log(`serving on ${host}:${port}`);
   });
+
+  // Retry queued emails in the background; MAIL_OUTBOX_INTERVAL_MS=0 disables it
+  // (e.g. on serverless hosts, where POST /api/admin/emails/process can be called from a cron job)
+  const outboxInterval = parseInt(process.env.MAIL_OUTBOX_INTERVAL_MS || "60000", 10);
+  if (outboxInterval > 0) startOutboxWorker(outboxInterval);
 })();
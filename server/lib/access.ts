@@ -0,0 +1,190 @@
+import type { Express, NextFunction, Request, RequestHandler, Response } from 'express';
+import jwt from 'jsonwebtoken';
+
+/**
+ * Authentication and route permissions.
+ *
+ * `authenticate` reads the access token (`Authorization: Bearer` or the `token` cookie) and
+ * attaches the caller as `req.user`; it never rejects a request itself. Access tokens belong to a
+ * sign-in session (sessions.ts), which decides whether they are still honoured. Every API route is
+ * registered through `guardRoutes`, which puts `authorize(policy)` in front of the handler using
+ * the route's entry in `ROUTE_ACCESS` (routeAccess.ts) and refuses to register a route without
+ * one, so a new endpoint cannot ship without a decision about who may call it.
+ *
+ * A policy is either public or requires a signed-in user, optionally with one of `roles`. Its
+ * `allow` rules then decide about the resource in the URL: the caller passes if any rule
+ * matches. Admins are not exempt from rules unless the policy lists `ADMIN` among them.
+ */
+
+export type Role = 'admin' | 'investor' | 'company';
+
+export const ROLES: Role[] = ['admin', 'investor', 'company'];
+
+export interface AuthUser {
+  id: string;
+  /** Null for accounts without one of the platform roles (e.g. invited as 'user') */
+  role: Role | null;
+  username?: string | null;
+  /** The sign-in session the access token was issued for */
+  sessionId: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Set by `authenticate` when the request carries a valid session token */
+      user?: AuthUser;
+    }
+  }
+}
+
+export interface AccessRule {
+  /** Shown in test output and denial logs, e.g. "self(id)" */
+  name: string;
+  /** True to allow, false to deny, null when the resource does not exist (404) */
+  check: (req: Request, user: AuthUser) => Promise<boolean | null> | boolean | null;
+  /** Message for the 404 when the resource does not exist */
+  notFound?: string;
+}
+
+export type RoutePolicy =
+  | { public: true }
+  | {
+      public?: false;
+      /** Roles that may call the route; any signed-in user when omitted */
+      roles?: Role[];
+      /** Resource rules; the caller passes if any of them allows */
+      allow?: AccessRule[];
+      /** Message for the 403 when no rule allows */
+      denied?: string;
+      /** Route parameters that must be UUIDs; anything else is a 400 before the rules run */
+      ids?: string[];
+    };
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isUuid(value: unknown): value is string {
+  return typeof value === 'string' && UUID_RE.test(value);
+}
+
+/**
+ * A cookie from the request's Cookie header
+ */
+export function readCookie(req: Request, name: string): string | null {
+  const cookie = req.headers?.cookie;
+  if (!cookie) return null;
+  const match = cookie.split(';').map(s => s.trim()).find(s => s.startsWith(`${name}=`));
+  return match ? decodeURIComponent(match.slice(name.length + 1)) : null;
+}
+
+/**
+ * The access token from the Authorization header or the `token` cookie
+ */
+export function extractToken(req: Request): string | null {
+  const auth = req.headers?.authorization;
+  if (auth && auth.toLowerCase().startsWith('bearer ')) return auth.split(' ')[1];
+  return readCookie(req, 'token');
+}
+
+/**
+ * The platform role of a stored or token role ("ADMIN", "super_admin", "investor"...)
+ */
+export function roleOf(value: unknown): Role | null {
+  const role = (value ?? '').toString().toLowerCase();
+  return ROLES.find(r => role.includes(r)) ?? null;
+}
+
+/**
+ * Decode an access token; null when it is missing, invalid, expired or not tied to a session
+ * (such as the signed OAuth `state`)
+ */
+export function verifySessionToken(token: string | null): AuthUser | null {
+  const secret = process.env.JWT_SECRET;
+  if (!token || !secret) return null;
+  try {
+    const payload = jwt.verify(token, secret) as any;
+    if (!payload?.sub || !payload?.sid) return null;
+    return { id: String(payload.sub), role: roleOf(payload.role), username: payload.username ?? null, sessionId: String(payload.sid) };
+  } catch {
+    return null;
+  }
+}
+
+export function authenticate(req: Request, _res: Response, next: NextFunction) {
+  const user = verifySessionToken(extractToken(req));
+  if (user) req.user = user;
+  else delete req.user;
+  next();
+}
+
+/**
+ * The caller of a route behind a non-public policy
+ */
+export function currentUser(req: Request): AuthUser {
+  if (!req.user) throw new Error('route is missing an access policy');
+  return req.user;
+}
+
+export function isAdmin(user: AuthUser | undefined): boolean {
+  return user?.role === 'admin';
+}
+
+/** Allows admins */
+export const ADMIN: AccessRule = { name: 'admin', check: (_req, user) => isAdmin(user) };
+
+/**
+ * Allows the user whose id is the route parameter `param`
+ */
+export function self(param: string): AccessRule {
+  return { name: `self(${param})`, check: (req, user) => req.params[param] === user.id };
+}
+
+/**
+ * Middleware enforcing a policy; expects `authenticate` to have run
+ */
+export function authorize(policy: RoutePolicy): RequestHandler {
+  return async (req, res, next) => {
+    if (policy.public) return next();
+    if (!process.env.JWT_SECRET) return res.status(500).json({ message: 'authentication not configured' });
+
+    const user = req.user;
+    if (!user) return res.status(401).json({ message: extractToken(req) ? 'invalid token' : 'not authenticated' });
+    if (policy.roles && !(user.role && policy.roles.includes(user.role))) {
+      return res.status(403).json({ message: policy.denied ?? 'forbidden' });
+    }
+    const badId = policy.ids?.find(param => !isUuid(req.params[param]));
+    if (badId) return res.status(400).json({ message: `invalid ${badId}` });
+    if (!policy.allow || policy.allow.length === 0) return next();
+
+    try {
+      let missing: AccessRule | null = null;
+      for (const rule of policy.allow) {
+        const result = await rule.check(req, user);
+        if (result === true) return next();
+        if (result === null && !missing) missing = rule;
+      }
+      if (missing) return res.status(404).json({ message: missing.notFound ?? 'not found' });
+      return res.status(403).json({ message: policy.denied ?? 'forbidden' });
+    } catch (err) {
+      return next(err);
+    }
+  };
+}
+
+type RouteMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+export type GuardedRoutes = Record<RouteMethod, (path: string, ...handlers: RequestHandler[]) => void>;
+
+/**
+ * `app.get/post/...` with the route's policy from `policies` in front of its handlers. Throws
+ * when a route has no policy.
+ */
+export function guardRoutes(app: Express, policies: Record<string, RoutePolicy>): GuardedRoutes {
+  const register = (method: RouteMethod) => (path: string, ...handlers: RequestHandler[]) => {
+    const key = `${method.toUpperCase()} ${path}`;
+    const policy = policies[key];
+    if (!policy) throw new Error(`no access policy for ${key}; add it to ROUTE_ACCESS`);
+    app[method](path, authorize(policy), ...handlers);
+  };
+  return { get: register('get'), post: register('post'), put: register('put'), patch: register('patch'), delete: register('delete') };
+}
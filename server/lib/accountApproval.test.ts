@@ -0,0 +1,140 @@
+#!/usr/bin/env tsx
+/**
+ * Account approval - Test Suite
+ *
+ * The REQUIRE_ADMIN_APPROVAL switch, the login check, admin decisions, storage and the
+ * decision emails.
+ *
+ * Run with: npx tsx server/lib/accountApproval.test.ts
+ */
+
+import { pathToFileURL } from 'url';
+import { approvalRequired, approvalStatusOf, loginApprovalError, validateApprovalDecision } from './accountApproval';
+import { renderEmail } from './emailTemplates';
+
+process.env.DATA_BACKEND = 'memory';
+delete process.env.MEMORY_DB_FILE;
+
+let failures = 0;
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✓ PASS: ${message}`);
+  } else {
+    failures++;
+    console.log(`✗ FAIL: ${message}`);
+  }
+}
+
+/**
+ * Test Case 1: Whether approval is required
+ */
+function testSwitch() {
+  console.log('\n=== TEST 1: REQUIRE_ADMIN_APPROVAL ===');
+
+  const saved = process.env.REQUIRE_ADMIN_APPROVAL;
+  delete process.env.REQUIRE_ADMIN_APPROVAL;
+  check(approvalRequired(), 'approval is required by default');
+  process.env.REQUIRE_ADMIN_APPROVAL = 'false';
+  check(!approvalRequired(), '"false" turns it off');
+  process.env.REQUIRE_ADMIN_APPROVAL = ' OFF ';
+  check(!approvalRequired(), 'values are read case-insensitively');
+  process.env.REQUIRE_ADMIN_APPROVAL = '1';
+  check(approvalRequired(), '"1" keeps it on');
+  if (saved === undefined) delete process.env.REQUIRE_ADMIN_APPROVAL;
+  else process.env.REQUIRE_ADMIN_APPROVAL = saved;
+}
+
+/**
+ * Test Case 2: Login check
+ */
+function testLogin() {
+  console.log('\n=== TEST 2: Login check ===');
+
+  check(approvalStatusOf({ approval_status: null }) === 'approved' && approvalStatusOf({}) === 'approved', 'accounts from before approval count as approved');
+  check(loginApprovalError({ approval_status: 'approved' }) === null, 'approved accounts log in');
+  check(loginApprovalError({ approval_status: 'pending' })?.code === 'approval_pending', 'pending accounts are told to wait (approval_pending)');
+
+  const rejected = loginApprovalError({ approval_status: 'rejected', approval_reason: 'Not an EU company' });
+  check(rejected?.code === 'approval_rejected' && rejected.message.includes('Not an EU company'), 'rejected accounts see the reason (approval_rejected)');
+}
+
+/**
+ * Test Case 3: Admin decisions
+ */
+function testDecision() {
+  console.log('\n=== TEST 3: Decisions ===');
+
+  check(Boolean(validateApprovalDecision({}, 'rejected').error), 'rejecting needs a reason');
+  check(Boolean(validateApprovalDecision({ reason: '   ' }, 'rejected').error), 'a blank reason is no reason');
+  check(validateApprovalDecision({ reason: ' Incomplete profile ' }, 'rejected').reason === 'Incomplete profile', 'the reason is trimmed');
+  check(validateApprovalDecision(undefined, 'approved').reason === null, 'approving needs no body');
+  check(Boolean(validateApprovalDecision({ reason: 42 }, 'approved').error), 'the reason must be a string');
+  check(Boolean(validateApprovalDecision({ reason: 'x'.repeat(1001) }, 'rejected').error), 'reasons are at most 1000 characters');
+}
+
+/**
+ * Test Case 4: Storage
+ */
+async function testStorage() {
+  console.log('\n=== TEST 4: Storage ===');
+
+  const { storage } = await import('../storage');
+  const applicant = await storage.createUser({ email: 'applicant@example.com', password: 'secret123', role: 'company', approval_status: 'pending' });
+  const invited = await storage.createUser({ email: 'invited@example.com', password: 'secret123', role: 'investor' });
+
+  check((applicant as any).approval_status === 'pending', 'registrations can start pending');
+  check((invited as any).approval_status === 'approved', 'accounts are approved unless stated otherwise');
+
+  const pending = await storage.listUsersByApprovalStatus('pending');
+  check(pending.some(u => u.id === applicant.id) && !pending.some(u => u.id === invited.id), 'only pending accounts are listed for review');
+
+  const rejected = await storage.setApprovalStatus(applicant.id, 'rejected', invited.id, 'Incomplete profile');
+  check((rejected as any)?.approval_status === 'rejected' && (rejected as any)?.approval_reason === 'Incomplete profile', 'a decision stores the status and reason');
+  check(Boolean((rejected as any)?.approval_reviewed_at), 'and when it was made');
+  check((await storage.listUsersByApprovalStatus('pending')).every(u => u.id !== applicant.id), 'decided accounts leave the queue');
+}
+
+/**
+ * Test Case 5: Decision emails
+ */
+function testEmails() {
+  console.log('\n=== TEST 5: Decision emails ===');
+
+  const approved = renderEmail('accountApproved', { loginLink: 'https://eif.example/auth' });
+  check(approved.text.includes('https://eif.example/auth') && approved.html.includes('href="https://eif.example/auth"'), 'the approval email links to sign-in');
+
+  const rejected = renderEmail('accountRejected', { reason: 'Not <eligible>' });
+  check(rejected.text.includes('Reason: Not <eligible>') && rejected.html.includes('Not &lt;eligible&gt;'), 'the rejection email carries the escaped reason');
+}
+
+// ============================================
+// RUN ALL TESTS
+// ============================================
+
+async function runAllTests() {
+  console.log('╔════════════════════════════════════════════╗');
+  console.log('║   Account Approval Test Suite              ║');
+  console.log('╚════════════════════════════════════════════╝');
+
+  try {
+    testSwitch();
+    testLogin();
+    testDecision();
+    await testStorage();
+    testEmails();
+  } catch (error) {
+    console.error('\n✗ Test suite failed:', error);
+    process.exit(1);
+  }
+
+  console.log(failures === 0 ? '\nAll tests passed.\n' : `\n${failures} test(s) failed.\n`);
+  if (failures > 0) process.exit(1);
+}
+
+// Run tests if this is executed directly
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runAllTests();
+}
+
+export { runAllTests };
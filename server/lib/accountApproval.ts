@@ -0,0 +1,57 @@
+/**
+ * Account approval (`users_eif.approval_status`).
+ *
+ * While approval is required, accounts created through registration start `pending` and cannot
+ * log in until an admin approves them. Rejected accounts stay locked out and see the reason.
+ * Accounts invited by an admin are approved on creation, and rows from before approval existed
+ * (no status) count as approved.
+ */
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+export const APPROVAL_STATUSES: ApprovalStatus[] = ['pending', 'approved', 'rejected'];
+
+const MAX_REASON_LENGTH = 1000;
+
+/**
+ * `REQUIRE_ADMIN_APPROVAL` (on unless set to false). This is the default for the "Require Admin
+ * Approval" platform setting, which decides for new registrations once an admin saves it.
+ */
+export function approvalRequired(): boolean {
+  const value = (process.env.REQUIRE_ADMIN_APPROVAL ?? '').trim().toLowerCase();
+  return !['0', 'false', 'no', 'off'].includes(value);
+}
+
+export function approvalStatusOf(user: { approval_status?: string | null } | null | undefined): ApprovalStatus {
+  const status = (user?.approval_status ?? '').toString().toLowerCase();
+  return (APPROVAL_STATUSES as string[]).includes(status) ? (status as ApprovalStatus) : 'approved';
+}
+
+/**
+ * Why this user may not log in yet, or null once approved
+ */
+export function loginApprovalError(user: { approval_status?: string | null; approval_reason?: string | null }): { message: string; code: string } | null {
+  switch (approvalStatusOf(user)) {
+    case 'pending':
+      return { message: 'your account is waiting for approval by an administrator', code: 'approval_pending' };
+    case 'rejected':
+      return {
+        message: user.approval_reason ? `your account was not approved: ${user.approval_reason}` : 'your account was not approved',
+        code: 'approval_rejected',
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check an admin's decision body; rejecting needs a reason, approving may carry a note
+ */
+export function validateApprovalDecision(body: any, decision: Exclude<ApprovalStatus, 'pending'>): { reason?: string | null; error?: string } {
+  const raw = body?.reason;
+  if (raw !== undefined && raw !== null && typeof raw !== 'string') return { error: 'reason must be a string' };
+  const reason = typeof raw === 'string' ? raw.trim() : '';
+  if (decision === 'rejected' && !reason) return { error: 'a reason is required to reject an account' };
+  if (reason.length > MAX_REASON_LENGTH) return { error: `reason must be at most ${MAX_REASON_LENGTH} characters` };
+  return { reason: reason || null };
+}
@@ -1,7 +1,17 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { createGoogleMeetEvent } from './googleCalendar.js';
 import { CalendarService } from './calendarService.js';
-import { GoogleOAuthManager } from './oauthManager.js';
+import { CalendarConnectionManager } from './oauthManager.js';
+import { SERVICE_CALENDAR_OWNER, type ExternalEventRef } from './meetingCalendarSync.js';
+import { findCommonSlots, loadAvailabilityProfile } from './availability.js';
+
+const MEETING_MINUTES = 30;
+// Leave the participants at least a day's notice
+const MIN_NOTICE_MS = 24 * 60 * 60 * 1000;
+// How far ahead to look for a slot
+const HORIZON_DAYS = 14;
+// Candidate slots checked against connected calendars before giving up
+const MAX_CANDIDATE_SLOTS = 10;
 
 export interface AutoMatchResult {
   investorId: string;
@@ -17,19 +27,12 @@ export interface AutoMatchResult {
 export class AutomaticScheduler {
   private supabase: SupabaseClient;
   private calendarService: CalendarService;
-  private oauthManager: GoogleOAuthManager;
+  private oauthManager: CalendarConnectionManager;
 
-  constructor(supabase: SupabaseClient, oauthManager?: GoogleOAuthManager) {
+  constructor(supabase: SupabaseClient, oauthManager?: CalendarConnectionManager) {
     this.supabase = supabase;
     this.calendarService = new CalendarService(supabase);
-    this.oauthManager = oauthManager || new GoogleOAuthManager(
-      {
-        clientId: process.env.GOOGLE_OAUTH_CLIENT_ID!,
-        clientSecret: process.env.GOOGLE_OAUTH_CLIENT_SECRET!,
-        redirectUri: process.env.GOOGLE_OAUTH_REDIRECT_URI!,
-      },
-      supabase
-    );
+    this.oauthManager = oauthManager || new CalendarConnectionManager(supabase);
   }
 
   /**
@@ -82,49 +85,35 @@ export class AutomaticScheduler {
   }
 
   /**
-   * Find overlapping availability between two users
+   * Find overlapping availability between two users: candidate start times (in order) and the
+   * first user's timezone, used as the meeting's display timezone
    */
   private async findAvailabilityOverlap(
     userId1: string,
-    userId2: string
-  ): Promise<{ score: number; slot?: Date } | null> {
-    // Get availability for both users
-    const [{ data: user1Avail }, { data: user2Avail }] = await Promise.all([
-      this.supabase
-        .from('user_availability_schedules_eif')
-        .select('*')
-        .eq('user_id', userId1),
-      this.supabase
-        .from('user_availability_schedules_eif')
-        .select('*')
-        .eq('user_id', userId2),
+    userId2: string,
+    limit = 1,
+  ): Promise<{ score: number; slots: Date[]; timezone: string } | null> {
+    const from = new Date(Date.now() + MIN_NOTICE_MS);
+    const to = new Date(from.getTime() + HORIZON_DAYS * 24 * 60 * 60 * 1000);
+    const [profile1, profile2] = await Promise.all([
+      loadAvailabilityProfile(this.supabase, userId1, from, to),
+      loadAvailabilityProfile(this.supabase, userId2, from, to),
     ]);
 
-    if (!user1Avail?.length || !user2Avail?.length) return null;
-
-    // Find overlapping day and time
-    for (const avail1 of user1Avail) {
-      for (const avail2 of user2Avail) {
-        if (avail1.day_of_week === avail2.day_of_week) {
-          // Find overlapping time window
-          const start1 = timeStringToMinutes(avail1.start_time);
-          const end1 = timeStringToMinutes(avail1.end_time);
-          const start2 = timeStringToMinutes(avail2.start_time);
-          const end2 = timeStringToMinutes(avail2.end_time);
-
-          const overlapStart = Math.max(start1, start2);
-          const overlapEnd = Math.min(end1, end2);
-
-          if (overlapStart < overlapEnd) {
-            // Generate a slot for next occurrence of this day
-            const slot = getNextDaySlot(avail1.day_of_week, overlapStart, overlapEnd);
-            return { score: 1, slot };
-          }
-        }
-      }
-    }
+    // Only users who set up weekly availability take part
+    if (!profile1.windows.length || !profile2.windows.length) return null;
 
-    return null;
+    // Windows, overrides and blackouts are in each user's own timezone; compare them as instants
+    // and keep each user's buffer and daily limit
+    const slots = findCommonSlots(profile1, profile2, {
+      from,
+      horizonDays: HORIZON_DAYS,
+      durationMinutes: MEETING_MINUTES,
+      limit,
+    });
+    if (slots.length === 0) return null;
+
+    return { score: 1, slots, timezone: profile1.timezone };
   }
 
   /**
@@ -132,9 +121,9 @@ export class AutomaticScheduler {
    */
   async scheduleAutoMeeting(investorId: string, companyId: string): Promise<AutoMatchResult> {
     try {
-      // 1. Find an available time slot
-      const overlap = await this.findAvailabilityOverlap(investorId, companyId);
-      if (!overlap?.slot) {
+      // 1. Find candidate time slots
+      const overlap = await this.findAvailabilityOverlap(investorId, companyId, MAX_CANDIDATE_SLOTS);
+      if (!overlap) {
         return {
           investorId,
           companyId,
@@ -143,32 +132,40 @@ export class AutomaticScheduler {
         };
       }
 
-      const meetingTime = overlap.slot;
-      const meetingEndTime = new Date(meetingTime.getTime() + 30 * 60 * 1000); // 30 min default
-
       // 2. Check calendar conflicts for both users
       const [investorCredentials, companyCredentials] = await Promise.all([
         this.oauthManager.getCredentials(investorId),
         this.oauthManager.getCredentials(companyId),
       ]);
 
-      // If both have OAuth, check their external calendars
+      // If both connected a calendar, take the first candidate free on both external calendars
+      let meetingTime: Date | null = overlap.slots[0];
       if (investorCredentials && companyCredentials) {
-        const [investorFree, companyFree] = await Promise.all([
-          this.calendarService.isTimeAvailable(investorId, investorCredentials, meetingTime, meetingEndTime),
-          this.calendarService.isTimeAvailable(companyId, companyCredentials, meetingTime, meetingEndTime),
-        ]);
+        meetingTime = null;
+        for (const slot of overlap.slots) {
+          const slotEnd = new Date(slot.getTime() + MEETING_MINUTES * 60 * 1000);
+          const [investorFree, companyFree] = await Promise.all([
+            this.calendarService.isTimeAvailable(investorId, investorCredentials, slot, slotEnd),
+            this.calendarService.isTimeAvailable(companyId, companyCredentials, slot, slotEnd),
+          ]);
+          if (investorFree && companyFree) {
+            meetingTime = slot;
+            break;
+          }
+        }
 
-        if (!investorFree || !companyFree) {
+        if (!meetingTime) {
           return {
             investorId,
             companyId,
-            suggestedTime: meetingTime,
+            suggestedTime: overlap.slots[0],
             status: 'failed',
           };
         }
       }
 
+      const meetingEndTime = new Date(meetingTime.getTime() + MEETING_MINUTES * 60 * 1000);
+
       // 3. Create a meeting request (auto-from investor to company)
       const { data: meetingRequest, error: reqError } = await this.supabase
         .from('meeting_requests_eif')
@@ -195,7 +192,7 @@ export class AutomaticScheduler {
           proposed_by_user_id: investorId,
           start_time: meetingTime.toISOString(),
           end_time: meetingEndTime.toISOString(),
-          timezone: 'UTC',
+          timezone: overlap.timezone,
           status: 'ACCEPTED',
         })
         .select('*')
@@ -207,6 +204,8 @@ export class AutomaticScheduler {
 
       // 5. Create a meeting record
       let meetUrl: string | undefined;
+      // Events created below, kept on the meeting so reschedules and cancellations can follow
+      const externalEvents: ExternalEventRef[] = [];
 
       // Try to create Google Meet event using service account if configured
       if (process.env.GOOGLE_SERVICE_ACCOUNT_JSON && process.env.GOOGLE_CALENDAR_ID) {
@@ -230,12 +229,13 @@ export class AutomaticScheduler {
           });
 
           meetUrl = ev?.meetUrl || ev?.htmlLink;
+          if (ev?.eventId) externalEvents.push({ owner: SERVICE_CALENDAR_OWNER, eventId: ev.eventId });
         } catch (e) {
           console.error('Failed to create Google Meet event:', e);
         }
       }
 
-      // If both users have OAuth, create events on their personal calendars
+      // If both users connected a calendar, create events on their personal calendars
       if (investorCredentials && companyCredentials) {
         try {
           const [investorUser, companyUser] = await Promise.all([
@@ -244,28 +244,31 @@ export class AutomaticScheduler {
           ]);
 
           // Create on investor's calendar
-          await this.calendarService.createEvent(investorId, investorCredentials, {
+          const investorEvent = await this.calendarService.createEvent(investorId, investorCredentials, {
             summary: 'Meeting with Company',
             description: 'Auto-scheduled via EIF',
             start: meetingTime.toISOString(),
             end: meetingEndTime.toISOString(),
             attendees: companyUser.data?.email ? [companyUser.data.email] : [],
-            conferenceData: {
-              createRequest: { requestId: `${meetingRequest.id}-investor` },
-            },
+            conference: { requestId: `${meetingRequest.id}-investor` },
           });
 
+          if (investorEvent.id) {
+            externalEvents.push({ owner: investorId, eventId: investorEvent.id, provider: investorCredentials.provider ?? 'google' });
+          }
+
           // Create on company's calendar
-          await this.calendarService.createEvent(companyId, companyCredentials, {
+          const companyEvent = await this.calendarService.createEvent(companyId, companyCredentials, {
             summary: 'Meeting with Investor',
             description: 'Auto-scheduled via EIF',
             start: meetingTime.toISOString(),
             end: meetingEndTime.toISOString(),
             attendees: investorUser.data?.email ? [investorUser.data.email] : [],
-            conferenceData: {
-              createRequest: { requestId: `${meetingRequest.id}-company` },
-            },
+            conference: { requestId: `${meetingRequest.id}-company` },
           });
+          if (companyEvent.id) {
+            externalEvents.push({ owner: companyId, eventId: companyEvent.id, provider: companyCredentials.provider ?? 'google' });
+          }
         } catch (e) {
           console.error('Failed to create personal calendar events:', e);
         }
@@ -275,14 +278,16 @@ export class AutomaticScheduler {
       const { data: meeting, error: meetError } = await this.supabase
         .from('meetings_eif')
         .insert({
+          meeting_request_id: meetingRequest.id,
           participant_a_id: investorId,
           participant_b_id: companyId,
           start_time: meetingTime.toISOString(),
           end_time: meetingEndTime.toISOString(),
-          timezone: 'UTC',
+          timezone: overlap.timezone,
           location_type: 'google_meet',
           location_url: meetUrl,
           status: 'CONFIRMED',
+          external_events: externalEvents,
         })
         .select('*')
         .maybeSingle();
@@ -349,33 +354,3 @@ export class AutomaticScheduler {
     return results;
   }
 }
-
-/**
- * Helper: Convert HH:MM time string to minutes since midnight
- */
-function timeStringToMinutes(timeStr: string): number {
-  const [hours, minutes] = timeStr.split(':').map(Number);
-  return hours * 60 + minutes;
-}
-
-/**
- * Helper: Get next occurrence of a day of week with a time slot
- */
-function getNextDaySlot(dayOfWeek: number, startMinutes: number, endMinutes: number): Date {
-  const now = new Date();
-  const currentDay = now.getDay();
-  let daysAhead = dayOfWeek - currentDay;
-
-  if (daysAhead <= 0) {
-    daysAhead += 7; // Next week if day has passed
-  }
-
-  const slot = new Date(now);
-  slot.setDate(slot.getDate() + daysAhead);
-
-  const hours = Math.floor(startMinutes / 60);
-  const minutes = startMinutes % 60;
-  slot.setHours(hours, minutes, 0, 0);
-
-  return slot;
-}
@@ -0,0 +1,368 @@
+#!/usr/bin/env tsx
+/**
+ * Availability - Test Suite
+ *
+ * Weekly availability windows are wall-clock times in each user's IANA timezone; overlaps are
+ * computed on real instants across timezones and DST transitions. Date overrides, blackouts,
+ * buffers and daily limits narrow what the scheduler and calendar checks may book.
+ *
+ * Run with: npx tsx server/lib/availability.test.ts
+ */
+
+import { pathToFileURL } from 'url';
+import {
+  availabilityIntervals, availableIntervals, findCommonSlots, intersectIntervals, isSlotAvailable, validateAvailability,
+  type AvailabilityProfile, type AvailabilityWindow,
+} from './availability';
+import { normalizeTimeZone, parseLocalDateTime, toLocalDateTimeInput, wallClock } from '@shared/timezone';
+
+process.env.DATA_BACKEND = 'memory';
+delete process.env.MEMORY_DB_FILE;
+
+let failures = 0;
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✓ PASS: ${message}`);
+  } else {
+    failures++;
+    console.log(`✗ FAIL: ${message}`);
+  }
+}
+
+const HOUR = 60 * 60 * 1000;
+
+function iso(date: Date | undefined): string | undefined {
+  return date?.toISOString();
+}
+
+function window(day_of_week: number, start_time: string, end_time: string, timezone: string): AvailabilityWindow {
+  return { day_of_week, start_time, end_time, timezone };
+}
+
+/**
+ * Test Case 1: Overlaps across timezones
+ */
+function testCrossTimezoneOverlap() {
+  console.log('\n=== TEST 1: Cross-timezone overlap ===');
+
+  // Tuesday 09-12 in New York and Tuesday 15-18 in Berlin are the same hours in January
+  const newYork = [window(2, '09:00', '12:00', 'America/New_York')];
+  const berlin = [window(2, '15:00', '18:00', 'Europe/Berlin')];
+  const [winter] = findCommonSlots(newYork, berlin, { from: new Date('2030-01-01T00:00:00Z'), durationMinutes: 180 });
+  check(iso(winter) === '2030-01-01T14:00:00.000Z', 'winter: full three-hour overlap at 14:00 UTC');
+
+  // US clocks go forward on March 10, 2030, Europe's on March 31: two weeks with a 5h gap
+  const from = new Date('2030-03-12T00:00:00Z');
+  const common = intersectIntervals(
+    availabilityIntervals(newYork, from, new Date('2030-03-13T00:00:00Z')),
+    availabilityIntervals(berlin, from, new Date('2030-03-13T00:00:00Z')),
+  );
+  check(common.length === 1 && iso(common[0].start) === '2030-03-12T14:00:00.000Z' && iso(common[0].end) === '2030-03-12T16:00:00.000Z',
+    'between the US and EU DST changes the overlap shrinks to 14:00-16:00 UTC');
+  check(findCommonSlots(newYork, berlin, { from, horizonDays: 1, durationMinutes: 180 }).length === 0,
+    'a three-hour meeting no longer fits that week');
+
+  // Monday 09:00 in Tokyo is Sunday 16:00 in Los Angeles: different weekdays, same instant
+  const tokyo = [window(1, '09:00', '10:00', 'Asia/Tokyo')];
+  const losAngeles = [window(0, '16:00', '17:00', 'America/Los_Angeles')];
+  const [slot] = findCommonSlots(tokyo, losAngeles, { from: new Date('2030-01-01T00:00:00Z') });
+  check(iso(slot) === '2030-01-07T00:00:00.000Z', 'windows on different local weekdays overlap');
+
+  // Identical wall-clock windows in different zones are not an overlap
+  const utc = [window(2, '09:00', '10:00', 'UTC')];
+  const kolkata = [window(2, '09:00', '10:00', 'Asia/Kolkata')];
+  check(findCommonSlots(utc, kolkata, { from: new Date('2030-01-01T00:00:00Z') }).length === 0,
+    'same local hours in UTC and Asia/Kolkata do not overlap');
+}
+
+/**
+ * Test Case 2: Windows spanning DST transitions
+ */
+function testDstBoundaries() {
+  console.log('\n=== TEST 2: DST boundaries ===');
+
+  // Europe/Berlin springs forward at 02:00 on Sunday March 31, 2030 (01:00 UTC)
+  const night = [window(0, '01:00', '04:00', 'Europe/Berlin')];
+  const [spring] = availabilityIntervals(night, new Date('2030-03-30T00:00:00Z'), new Date('2030-04-01T00:00:00Z'));
+  check(iso(spring?.start) === '2030-03-31T00:00:00.000Z' && iso(spring?.end) === '2030-03-31T02:00:00.000Z',
+    'spring-forward night: 01:00-04:00 local lasts two hours');
+
+  // ... and falls back at 03:00 on Sunday October 27, 2030 (01:00 UTC)
+  const [autumn] = availabilityIntervals(night, new Date('2030-10-26T00:00:00Z'), new Date('2030-10-28T00:00:00Z'));
+  check(iso(autumn?.start) === '2030-10-26T23:00:00.000Z' && iso(autumn?.end) === '2030-10-27T03:00:00.000Z',
+    'fall-back night: 01:00-04:00 local lasts four hours');
+
+  // A weekly 09:00 window keeps its local time on both sides of the change
+  const mornings = [window(0, '09:00', '09:30', 'Europe/Berlin')];
+  const weeks = availabilityIntervals(mornings, new Date('2030-03-24T00:00:00Z'), new Date('2030-04-08T00:00:00Z'));
+  check(weeks.map(w => iso(w.start)).join() === '2030-03-24T08:00:00.000Z,2030-03-31T07:00:00.000Z,2030-04-07T07:00:00.000Z',
+    '09:00 Berlin is 08:00 UTC before and 07:00 UTC after the change');
+
+  // A skipped wall time resolves forward, a repeated one to its first occurrence
+  check(iso(parseLocalDateTime('2030-03-10T02:30', 'America/New_York') ?? undefined) === '2030-03-10T07:30:00.000Z',
+    'skipped 02:30 in New York resolves to 03:30 EDT');
+  check(iso(parseLocalDateTime('2030-11-03T01:30', 'America/New_York') ?? undefined) === '2030-11-03T05:30:00.000Z',
+    'repeated 01:30 in New York resolves to the first (EDT) occurrence');
+  check(toLocalDateTimeInput(new Date('2030-11-03T06:30:00Z'), 'America/New_York') === '2030-11-03T01:30',
+    'second 01:30 still renders as local 01:30');
+}
+
+/**
+ * Test Case 3: Window shapes and legacy zones
+ */
+function testWindowShapes() {
+  console.log('\n=== TEST 3: Window shapes and legacy zones ===');
+
+  const lateNight = [window(5, '22:00', '02:00', 'UTC')];
+  const [overnight] = availabilityIntervals(lateNight, new Date('2030-01-04T00:00:00Z'), new Date('2030-01-06T00:00:00Z'));
+  check(overnight && overnight.end.getTime() - overnight.start.getTime() === 4 * HOUR && iso(overnight.end) === '2030-01-05T02:00:00.000Z',
+    'a window ending before it starts runs past midnight');
+
+  const adjacent = [window(3, '09:00', '10:00', 'UTC'), window(3, '10:00', '11:00', 'UTC')];
+  const merged = availabilityIntervals(adjacent, new Date('2030-01-01T00:00:00Z'), new Date('2030-01-03T00:00:00Z'));
+  check(merged.length === 1 && merged[0].end.getTime() - merged[0].start.getTime() === 2 * HOUR, 'adjacent windows merge');
+
+  check(normalizeTimeZone('EST') === 'America/New_York' && normalizeTimeZone('pst') === 'America/Los_Angeles', 'legacy abbreviations map to regions');
+  check(normalizeTimeZone('Mars/Olympus') === 'UTC' && normalizeTimeZone(null) === 'UTC', 'unknown zones fall back to UTC');
+  const legacy = availabilityIntervals([window(3, '09:00', '10:00', 'EST')], new Date('2030-07-01T00:00:00Z'), new Date('2030-07-04T00:00:00Z'));
+  check(iso(legacy[0]?.start) === '2030-07-03T13:00:00.000Z', 'legacy EST windows follow New York daylight saving');
+
+  // Starts land on quarter hours and respect the requested spacing and limit
+  const wide = [window(3, '08:00', '12:00', 'UTC')];
+  const slots = findCommonSlots(wide, wide, { from: new Date('2030-01-02T09:07:00Z'), durationMinutes: 60, stepMinutes: 60, limit: 5 });
+  check(slots.map(iso).join() === '2030-01-02T09:15:00.000Z,2030-01-02T10:15:00.000Z,2030-01-09T08:00:00.000Z,2030-01-09T09:00:00.000Z,2030-01-09T10:00:00.000Z',
+    'slots start on the next quarter hour, step by the interval and roll over to the next week');
+}
+
+/**
+ * Test Case 4: AutomaticScheduler books inside both users' local windows
+ */
+async function testScheduler() {
+  console.log('\n=== TEST 4: AutomaticScheduler across timezones ===');
+  delete process.env.GOOGLE_SERVICE_ACCOUNT_JSON;
+
+  const { default: supabase } = await import('../supabase');
+  const db = await import('./db');
+  const { storage } = await import('../storage');
+  const { AutomaticScheduler } = await import('./automaticScheduler');
+
+  const investor = await storage.createUser({ email: 'ny@investor.example', password: 'secret123', role: 'investor', arrange_meetings: true, availability_timezone: 'America/New_York' });
+  const company = await storage.createUser({ email: 'ldn@company.example', password: 'secret123', role: 'company', arrange_meetings: true, availability_timezone: 'Europe/London' });
+
+  // 09-12 New York and 14-17 London overlap by two or three hours whatever the DST state
+  for (let day = 0; day < 7; day++) {
+    await db.createUserAvailabilitySchedule(investor.id, day, '09:00:00', '12:00:00', 'America/New_York');
+    await db.createUserAvailabilitySchedule(company.id, day, '14:00:00', '17:00:00', 'Europe/London');
+  }
+
+  const results = await new AutomaticScheduler(supabase).runScheduler();
+  check(results.length === 1 && results[0].status === 'scheduled', 'scheduler books the cross-timezone pair');
+
+  const [meeting] = await db.listMeetingsForUser(company.id);
+  const start = new Date(meeting?.start_time);
+  const ny = wallClock(start, 'America/New_York');
+  const london = wallClock(start, 'Europe/London');
+  const end = new Date(meeting?.end_time);
+  check(ny.hour >= 9 && wallClock(end, 'America/New_York').hour * 60 + wallClock(end, 'America/New_York').minute <= 12 * 60,
+    'meeting falls inside the investor\'s New York hours');
+  check(london.hour >= 14 && wallClock(end, 'Europe/London').hour * 60 + wallClock(end, 'Europe/London').minute <= 17 * 60,
+    'meeting falls inside the company\'s London hours');
+  check(meeting?.timezone === 'America/New_York', 'meeting keeps the investor\'s timezone instead of UTC');
+  check(start.getTime() >= Date.now() + 23 * HOUR, 'meeting leaves at least a day\'s notice');
+
+  const zones = await db.getUserTimezones([investor.id, company.id]);
+  check(zones[investor.id] === 'America/New_York' && zones[company.id] === 'Europe/London', 'getUserTimezones reads both users');
+}
+
+function settings(patch: Partial<AvailabilityProfile> = {}): AvailabilityProfile {
+  return { timezone: 'UTC', buffer_minutes: 0, max_meetings_per_day: null, windows: [], overrides: [], blackouts: [], meetings: [], ...patch };
+}
+
+function at(value: string): Date {
+  return new Date(value);
+}
+
+/**
+ * Test Case 5: Multiple windows, overrides and blackouts
+ */
+function testOverridesAndBlackouts() {
+  console.log('\n=== TEST 5: Overrides and blackouts ===');
+
+  // Weekdays 09-12 and 13-17 in Berlin; January 2030 is CET (UTC+1)
+  const week = settings({
+    timezone: 'Europe/Berlin',
+    windows: [1, 2, 3, 4, 5].flatMap(day => [
+      { day_of_week: day, start_time: '09:00:00', end_time: '12:00:00' },
+      { day_of_week: day, start_time: '13:00:00', end_time: '17:00:00' },
+    ]),
+  });
+  const monday = availableIntervals(week, at('2030-01-07T00:00:00Z'), at('2030-01-08T00:00:00Z'));
+  check(monday.map(i => `${iso(i.start)}/${iso(i.end)}`).join() ===
+    '2030-01-07T08:00:00.000Z/2030-01-07T11:00:00.000Z,2030-01-07T12:00:00.000Z/2030-01-07T16:00:00.000Z',
+    'two windows on one weekday leave the lunch hour free');
+  check(!isSlotAvailable(week, at('2030-01-07T11:30:00Z'), at('2030-01-07T12:00:00Z')), 'lunch hour is not bookable');
+
+  const overridden = settings({
+    ...week,
+    overrides: [
+      { date: '2030-01-07', start_time: '18:00:00', end_time: '20:00:00' },
+      { date: '2030-01-08', start_time: null, end_time: null },
+    ],
+  });
+  const changed = availableIntervals(overridden, at('2030-01-07T00:00:00Z'), at('2030-01-09T00:00:00Z'));
+  check(changed.length === 1 && iso(changed[0].start) === '2030-01-07T17:00:00.000Z' && iso(changed[0].end) === '2030-01-07T19:00:00.000Z',
+    'an override replaces the weekly hours and a day off removes the day');
+  check(isSlotAvailable(overridden, at('2030-01-07T17:00:00Z'), at('2030-01-07T17:30:00Z')), 'override hours are bookable');
+  check(!isSlotAvailable(overridden, at('2030-01-07T08:00:00Z'), at('2030-01-07T08:30:00Z')), 'replaced weekly hours are not');
+
+  // A blackout covers whole local days: Berlin's Jan 9 starts at 23:00 UTC on Jan 8
+  const away = settings({ ...week, blackouts: [{ start_date: '2030-01-09', end_date: '2030-01-10', reason: 'Conference' }] });
+  check(availableIntervals(away, at('2030-01-08T22:00:00Z'), at('2030-01-10T23:00:00Z')).length === 0, 'blackout dates have no availability');
+  check(isSlotAvailable(away, at('2030-01-11T08:00:00Z'), at('2030-01-11T08:30:00Z')), 'the day after a blackout is open again');
+
+  // Without weekly windows the week is open, but blackouts still apply
+  const open = settings({ blackouts: [{ start_date: '2030-01-09', end_date: '2030-01-09', reason: null }] });
+  check(isSlotAvailable(open, at('2030-01-08T03:00:00Z'), at('2030-01-08T03:30:00Z')), 'no weekly windows means any time');
+  check(!isSlotAvailable(open, at('2030-01-09T12:00:00Z'), at('2030-01-09T12:30:00Z')), '... except blackout dates');
+}
+
+/**
+ * Test Case 6: Buffers and daily limits
+ */
+function testMeetingRules() {
+  console.log('\n=== TEST 6: Buffers and daily limits ===');
+
+  const meeting = { start: at('2030-01-07T10:00:00Z'), end: at('2030-01-07T10:30:00Z') };
+  const buffered = settings({ buffer_minutes: 15, meetings: [meeting] });
+  check(!isSlotAvailable(buffered, at('2030-01-07T10:30:00Z'), at('2030-01-07T11:00:00Z')), 'back-to-back meeting breaks the buffer');
+  check(!isSlotAvailable(buffered, at('2030-01-07T09:15:00Z'), at('2030-01-07T09:50:00Z')), 'buffer applies before a meeting too');
+  check(isSlotAvailable(buffered, at('2030-01-07T10:45:00Z'), at('2030-01-07T11:15:00Z')), 'a slot after the buffer is fine');
+
+  // The limit counts local days: 23:30 UTC on Jan 6 is already Jan 7 in Berlin
+  const limited = settings({
+    timezone: 'Europe/Berlin',
+    max_meetings_per_day: 2,
+    meetings: [meeting, { start: at('2030-01-06T23:30:00Z'), end: at('2030-01-07T00:00:00Z') }],
+  });
+  check(!isSlotAvailable(limited, at('2030-01-07T14:00:00Z'), at('2030-01-07T14:30:00Z')), 'a third meeting on the same local day is refused');
+  check(isSlotAvailable(limited, at('2030-01-07T23:30:00Z'), at('2030-01-08T00:00:00Z')), 'the next local day is open');
+
+  const busy = settings({ windows: [{ day_of_week: 1, start_time: '09:00', end_time: '12:00' }], buffer_minutes: 30, meetings: [meeting] });
+  const slots = findCommonSlots(busy, settings(), { from: at('2030-01-07T00:00:00Z'), horizonDays: 1, limit: 5 });
+  check(slots.map(iso).join() === '2030-01-07T09:00:00.000Z,2030-01-07T11:00:00.000Z,2030-01-07T11:30:00.000Z',
+    'common slots skip the existing meeting and its buffer');
+}
+
+/**
+ * Test Case 7: Editor input validation
+ */
+function testValidation() {
+  console.log('\n=== TEST 7: Validation ===');
+
+  const { settings: valid } = validateAvailability({
+    timezone: 'Europe/Berlin',
+    buffer_minutes: '10',
+    max_meetings_per_day: '',
+    windows: [{ day_of_week: 1, start_time: '09:00', end_time: '24:00' }],
+    overrides: [{ date: '2030-01-07', start_time: '', end_time: '' }],
+    blackouts: [{ start_date: '2030-02-01', end_date: '2030-02-03', reason: '  Skiing  ' }],
+  });
+  check(valid?.buffer_minutes === 10 && valid.max_meetings_per_day === null, 'numbers are parsed and an empty limit means none');
+  check(valid?.windows[0].start_time === '09:00:00' && valid.windows[0].end_time === '24:00:00', 'times are normalized to HH:MM:SS');
+  check(valid?.overrides[0].start_time === null && valid.blackouts[0].reason === 'Skiing', 'day-off overrides and trimmed reasons');
+
+  const errors = [
+    { timezone: 'Mars/Olympus' },
+    { buffer_minutes: 500 },
+    { max_meetings_per_day: 0 },
+    { windows: [{ day_of_week: 7, start_time: '09:00', end_time: '10:00' }] },
+    { windows: [{ day_of_week: 1, start_time: '9am', end_time: '10:00' }] },
+    { overrides: [{ date: '2030-02-30' }] },
+    { overrides: [{ date: '2030-01-07', start_time: '09:00' }] },
+    { overrides: [{ date: '2030-01-07' }, { date: '2030-01-07', start_time: '09:00', end_time: '10:00' }] },
+    { blackouts: [{ start_date: '2030-02-03', end_date: '2030-02-01' }] },
+  ];
+  check(errors.every(input => Boolean(validateAvailability(input).error)), 'invalid input is rejected with a message');
+}
+
+/**
+ * Test Case 8: Scheduler and calendar checks honour the stored rules
+ */
+async function testStoredRules() {
+  console.log('\n=== TEST 8: Stored rules in AutomaticScheduler and CalendarService ===');
+
+  const { default: supabase } = await import('../supabase');
+  const db = await import('./db');
+  const { storage } = await import('../storage');
+  const { AutomaticScheduler } = await import('./automaticScheduler');
+  const { CalendarService } = await import('./calendarService');
+
+  const investor = await storage.createUser({ email: 'rules@investor.example', password: 'secret123', role: 'investor', arrange_meetings: true, availability_timezone: 'UTC' });
+  const company = await storage.createUser({ email: 'rules@company.example', password: 'secret123', role: 'company', arrange_meetings: true, availability_timezone: 'UTC' });
+
+  // The investor is away for the next week, so the first common slot is after that
+  const today = new Date();
+  const dateOnly = (days: number) => new Date(today.getTime() + days * 24 * HOUR).toISOString().slice(0, 10);
+  const everyDay = [0, 1, 2, 3, 4, 5, 6].map(day => ({ day_of_week: day, start_time: '10:00', end_time: '11:00' }));
+  const { settings: investorRules } = validateAvailability({
+    timezone: 'UTC',
+    buffer_minutes: 15,
+    max_meetings_per_day: 1,
+    windows: everyDay,
+    blackouts: [{ start_date: dateOnly(0), end_date: dateOnly(7), reason: 'Vacation' }],
+  });
+  const saved = await db.saveUserAvailability(investor.id, investorRules!);
+  check(saved.windows.length === 7 && saved.blackouts.length === 1 && saved.max_meetings_per_day === 1, 'settings round-trip through storage');
+  await db.saveUserAvailability(company.id, validateAvailability({ timezone: 'UTC', windows: everyDay })!.settings!);
+
+  const results = await new AutomaticScheduler(supabase).runScheduler();
+  const scheduled = results.find(r => r.status === 'scheduled' && [r.investorId, r.companyId].includes(investor.id));
+  const [meeting] = (await db.listMeetingsForUser(investor.id)) as any[];
+  check(Boolean(scheduled) && meeting?.start_time.slice(0, 10) === dateOnly(8), 'scheduler waits for the blackout to end');
+
+  const service = new CalendarService(supabase, () => ({ getBusyTimes: async () => [] }) as any);
+  const credentials = { provider: 'google' as const, accessToken: 'unused', scope: '' };
+  const start = new Date(meeting.start_time);
+  const slot = (offsetMinutes: number, days = 0) => {
+    const from = new Date(start.getTime() + days * 24 * HOUR + offsetMinutes * 60 * 1000);
+    return [from, new Date(from.getTime() + 30 * 60 * 1000)] as const;
+  };
+  check(!(await service.isTimeAvailable(investor.id, credentials, ...slot(30))), 'calendar check refuses a second meeting that day');
+  check(!(await service.isTimeAvailable(investor.id, credentials, ...slot(0, -3))), 'calendar check refuses blackout dates');
+  check(await service.isTimeAvailable(investor.id, credentials, ...slot(0, 1)), 'calendar check accepts the next day\'s window');
+}
+
+// ============================================
+// RUN ALL TESTS
+// ============================================
+
+async function runAllTests() {
+  console.log('╔════════════════════════════════════════════╗');
+  console.log('║   Availability Test Suite                  ║');
+  console.log('╚════════════════════════════════════════════╝');
+
+  try {
+    testCrossTimezoneOverlap();
+    testDstBoundaries();
+    testWindowShapes();
+    await testScheduler();
+    testOverridesAndBlackouts();
+    testMeetingRules();
+    testValidation();
+    await testStoredRules();
+  } catch (error) {
+    console.error('\n✗ Test suite failed:', error);
+    process.exit(1);
+  }
+
+  console.log(failures === 0 ? '\nAll tests passed.\n' : `\n${failures} test(s) failed.\n`);
+  if (failures > 0) process.exit(1);
+}
+
+// Run tests if this is executed directly
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runAllTests();
+}
+
+export { runAllTests };
@@ -0,0 +1,453 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { addDays, isValidTimeZone, normalizeTimeZone, wallClock, weekdayOf, zonedTimeToUtc, type LocalDate } from '@shared/timezone';
+
+/**
+ * Weekly availability windows (`user_availability_schedules_eif`) resolved to real instants.
+ *
+ * A window is a wall-clock range on a weekday in the user's IANA timezone, so "Tuesday
+ * 09:00-12:00 Europe/Berlin" is 07:00-10:00 UTC in summer and 08:00-11:00 UTC in winter.
+ * Overlaps between users are computed on the resolved instants, never on the raw times.
+ *
+ * On top of the weekly windows a user can set, all in their own timezone:
+ * - per-date overrides, which replace that date's windows (a row without times is a day off)
+ * - blackouts, whole date ranges when they are away
+ * - a buffer kept free before and after every meeting
+ * - a maximum number of meetings per local day
+ */
+
+export interface AvailabilityWindow {
+  /** 0 = Sunday, as `Date#getDay` */
+  day_of_week: number;
+  /** HH:MM or HH:MM:SS; an end at or before the start runs past midnight */
+  start_time: string;
+  end_time: string;
+  timezone?: string | null;
+}
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+/** `user_availability_overrides_eif`: the windows for one date; without times the date is unavailable */
+export interface AvailabilityOverride {
+  /** YYYY-MM-DD in the user's timezone */
+  date: string;
+  start_time?: string | null;
+  end_time?: string | null;
+}
+
+/** `user_availability_blackouts_eif`: dates (inclusive, in the user's timezone) with no meetings at all */
+export interface AvailabilityBlackout {
+  start_date: string;
+  end_date: string;
+  reason?: string | null;
+}
+
+/**
+ * Everything a user configures in the availability editor
+ */
+export interface AvailabilitySettings {
+  timezone: string;
+  buffer_minutes: number;
+  max_meetings_per_day: number | null;
+  windows: AvailabilityWindow[];
+  overrides: AvailabilityOverride[];
+  blackouts: AvailabilityBlackout[];
+}
+
+/**
+ * Settings plus the user's active meetings around the range being checked
+ */
+export interface AvailabilityProfile extends AvailabilitySettings {
+  meetings: TimeInterval[];
+}
+
+const MINUTE = 60 * 1000;
+const QUARTER_HOUR = 15 * MINUTE;
+
+/**
+ * Convert an HH:MM[:SS] time string to minutes since midnight
+ */
+export function timeStringToMinutes(timeStr: string): number {
+  const [hours, minutes] = timeStr.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+/**
+ * Occurrences of the windows between `from` and `to`, clipped to that range, sorted and merged
+ */
+export function availabilityIntervals(windows: AvailabilityWindow[], from: Date, to: Date): TimeInterval[] {
+  const intervals: TimeInterval[] = [];
+  for (const window of windows) {
+    const zone = normalizeTimeZone(window.timezone);
+    const startMinutes = timeStringToMinutes(window.start_time);
+    let endMinutes = timeStringToMinutes(window.end_time);
+    if (endMinutes <= startMinutes) endMinutes += 24 * 60;
+
+    // Local dates covering the range, with a day of slack for windows running past midnight
+    const first = addDays(wallClock(from, zone), -1);
+    const last = wallClock(to, zone);
+    for (let date = first; compareDates(date, last) <= 0; date = addDays(date, 1)) {
+      if (weekdayOf(date) !== window.day_of_week) continue;
+      const start = atLocalMinutes(date, startMinutes, zone);
+      const end = atLocalMinutes(date, endMinutes, zone);
+      const clipped = {
+        start: new Date(Math.max(start.getTime(), from.getTime())),
+        end: new Date(Math.min(end.getTime(), to.getTime())),
+      };
+      if (clipped.start < clipped.end) intervals.push(clipped);
+    }
+  }
+  return mergeIntervals(intervals);
+}
+
+/**
+ * Times covered by both interval lists
+ */
+export function intersectIntervals(a: TimeInterval[], b: TimeInterval[]): TimeInterval[] {
+  const left = mergeIntervals(a);
+  const right = mergeIntervals(b);
+  const result: TimeInterval[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < left.length && j < right.length) {
+    const start = Math.max(left[i].start.getTime(), right[j].start.getTime());
+    const end = Math.min(left[i].end.getTime(), right[j].end.getTime());
+    if (start < end) result.push({ start: new Date(start), end: new Date(end) });
+    if (left[i].end.getTime() < right[j].end.getTime()) i++;
+    else j++;
+  }
+  return result;
+}
+
+/**
+ * Parts of `a` not covered by `b`
+ */
+export function subtractIntervals(a: TimeInterval[], b: TimeInterval[]): TimeInterval[] {
+  const remove = mergeIntervals(b);
+  const result: TimeInterval[] = [];
+  for (const interval of mergeIntervals(a)) {
+    let start = interval.start.getTime();
+    const end = interval.end.getTime();
+    for (const cut of remove) {
+      if (cut.end.getTime() <= start || cut.start.getTime() >= end) continue;
+      if (cut.start.getTime() > start) result.push({ start: new Date(start), end: cut.start });
+      start = Math.max(start, cut.end.getTime());
+    }
+    if (start < end) result.push({ start: new Date(start), end: interval.end });
+  }
+  return result;
+}
+
+/**
+ * When the user can meet between `from` and `to`: weekly windows with overrides applied and
+ * blackouts removed. Without any weekly windows the week is open, so overrides and blackouts
+ * still restrict it.
+ */
+export function availableIntervals(settings: AvailabilitySettings, from: Date, to: Date): TimeInterval[] {
+  const zone = normalizeTimeZone(settings.timezone);
+  let intervals = settings.windows.length > 0
+    ? availabilityIntervals(settings.windows.map(w => ({ ...w, timezone: w.timezone ?? zone })), from, to)
+    : [{ start: from, end: to }];
+
+  const overrideDates = Array.from(new Set(settings.overrides.map(o => o.date)));
+  if (overrideDates.length > 0) {
+    intervals = subtractIntervals(intervals, overrideDates.map(date => localDaySpan(date, date, zone)));
+    const added: TimeInterval[] = [];
+    for (const override of settings.overrides) {
+      if (!override.start_time || !override.end_time) continue;
+      const date = parseLocalDate(override.date);
+      const startMinutes = timeStringToMinutes(override.start_time);
+      let endMinutes = timeStringToMinutes(override.end_time);
+      if (endMinutes <= startMinutes) endMinutes += 24 * 60;
+      added.push({ start: atLocalMinutes(date, startMinutes, zone), end: atLocalMinutes(date, endMinutes, zone) });
+    }
+    intervals = mergeIntervals([...intervals, ...intersectIntervals(added, [{ start: from, end: to }])]);
+  }
+
+  if (settings.blackouts.length > 0) {
+    intervals = subtractIntervals(intervals, settings.blackouts.map(b => localDaySpan(b.start_date, b.end_date, zone)));
+  }
+  return intervals;
+}
+
+/**
+ * Buffer and daily-limit rules for a meeting from `start` to `end` against the user's other meetings
+ */
+export function fitsMeetingRules(profile: AvailabilityProfile, start: Date, end: Date): boolean {
+  const buffer = Math.max(0, profile.buffer_minutes || 0) * MINUTE;
+  const clashes = profile.meetings.some(m =>
+    m.start.getTime() < end.getTime() + buffer && m.end.getTime() > start.getTime() - buffer);
+  if (clashes) return false;
+
+  if (profile.max_meetings_per_day) {
+    const zone = normalizeTimeZone(profile.timezone);
+    const day = localDateKey(start, zone);
+    const sameDay = profile.meetings.filter(m => localDateKey(m.start, zone) === day).length;
+    if (sameDay >= profile.max_meetings_per_day) return false;
+  }
+  return true;
+}
+
+/**
+ * Whether the user can take a meeting from `start` to `end`: inside their availability and
+ * clear of their buffer and daily limit
+ */
+export function isSlotAvailable(profile: AvailabilityProfile, start: Date, end: Date): boolean {
+  const [covered] = availableIntervals(profile, start, end);
+  if (!covered || covered.start.getTime() > start.getTime() || covered.end.getTime() < end.getTime()) return false;
+  return fitsMeetingRules(profile, start, end);
+}
+
+/**
+ * Quarter-hour start times inside `intervals` where a meeting of `durationMinutes` fits and
+ * `accept` agrees; consecutive candidates in an interval are `stepMinutes` apart
+ */
+export function candidateStarts(
+  intervals: TimeInterval[],
+  options: { durationMinutes?: number; stepMinutes?: number; limit?: number; accept?: (start: Date, end: Date) => boolean } = {},
+): Date[] {
+  const duration = (options.durationMinutes ?? 30) * MINUTE;
+  const step = (options.stepMinutes ?? 30) * MINUTE;
+  const limit = options.limit ?? 1;
+
+  const slots: Date[] = [];
+  for (const interval of intervals) {
+    let start = Math.ceil(interval.start.getTime() / QUARTER_HOUR) * QUARTER_HOUR;
+    while (start + duration <= interval.end.getTime()) {
+      if (!options.accept || options.accept(new Date(start), new Date(start + duration))) {
+        slots.push(new Date(start));
+        if (slots.length >= limit) return slots;
+      }
+      start += step;
+    }
+  }
+  return slots;
+}
+
+/**
+ * Start times, in order, at which a meeting of `durationMinutes` fits both users' availability.
+ * Starts fall on quarter hours (every zone's offset is a multiple of 15 minutes, so they are
+ * round local times for both users) and consecutive candidates are `stepMinutes` apart.
+ */
+export function findCommonSlots(
+  a: AvailabilityWindow[] | AvailabilityProfile,
+  b: AvailabilityWindow[] | AvailabilityProfile,
+  options: { from?: Date; horizonDays?: number; durationMinutes?: number; stepMinutes?: number; limit?: number } = {},
+): Date[] {
+  const from = options.from ?? new Date();
+  const to = new Date(from.getTime() + (options.horizonDays ?? 14) * 24 * 60 * MINUTE);
+  const intervals = (x: AvailabilityWindow[] | AvailabilityProfile) =>
+    Array.isArray(x) ? availabilityIntervals(x, from, to) : availableIntervals(x, from, to);
+  const profiles = [a, b].filter((x): x is AvailabilityProfile => !Array.isArray(x));
+
+  return candidateStarts(intersectIntervals(intervals(a), intervals(b)), {
+    ...options,
+    accept: (start, end) => profiles.every(profile => fitsMeetingRules(profile, start, end)),
+  });
+}
+
+// ============================================
+// Storage
+// ============================================
+
+/**
+ * A user's availability settings (defaults when they never opened the editor)
+ */
+export async function loadAvailabilitySettings(supabase: SupabaseClient, userId: string): Promise<AvailabilitySettings> {
+  const [user, windows, overrides, blackouts] = await Promise.all([
+    supabase.from('users_eif').select('availability_timezone, meeting_buffer_minutes, max_meetings_per_day').eq('id', userId).maybeSingle(),
+    supabase.from('user_availability_schedules_eif').select('*').eq('user_id', userId).order('day_of_week', { ascending: true }),
+    supabase.from('user_availability_overrides_eif').select('*').eq('user_id', userId).order('date', { ascending: true }),
+    supabase.from('user_availability_blackouts_eif').select('*').eq('user_id', userId).order('start_date', { ascending: true }),
+  ]);
+  for (const result of [user, windows, overrides, blackouts]) {
+    if (result.error) throw result.error;
+  }
+
+  return {
+    timezone: normalizeTimeZone(user.data?.availability_timezone),
+    buffer_minutes: Number(user.data?.meeting_buffer_minutes ?? 0),
+    max_meetings_per_day: user.data?.max_meetings_per_day ?? null,
+    windows: (windows.data ?? []).map((w: any) => ({ day_of_week: w.day_of_week, start_time: w.start_time, end_time: w.end_time, timezone: w.timezone })),
+    overrides: (overrides.data ?? []).map((o: any) => ({ date: o.date, start_time: o.start_time ?? null, end_time: o.end_time ?? null })),
+    blackouts: (blackouts.data ?? []).map((b: any) => ({ start_date: b.start_date, end_date: b.end_date, reason: b.reason ?? null })),
+  };
+}
+
+/**
+ * Settings plus the user's active meetings overlapping `from`..`to` (widened by a day so the
+ * daily limit sees whole local days)
+ */
+export async function loadAvailabilityProfile(supabase: SupabaseClient, userId: string, from: Date, to: Date): Promise<AvailabilityProfile> {
+  const settings = await loadAvailabilitySettings(supabase, userId);
+  const { data, error } = await supabase
+    .from('meetings_eif')
+    .select('start_time, end_time')
+    .or(`participant_a_id.eq.${userId},participant_b_id.eq.${userId}`)
+    .or('status.is.null,status.neq.CANCELLED')
+    .gte('end_time', new Date(from.getTime() - 24 * 60 * MINUTE).toISOString())
+    .lte('start_time', new Date(to.getTime() + 24 * 60 * MINUTE).toISOString());
+  if (error) throw error;
+
+  const meetings = (data ?? []).map((m: any) => ({ start: new Date(m.start_time), end: new Date(m.end_time) }));
+  return { ...settings, meetings };
+}
+
+/**
+ * Replace a user's availability with the editor's contents (validate first)
+ */
+export async function saveAvailabilitySettings(supabase: SupabaseClient, userId: string, settings: AvailabilitySettings): Promise<AvailabilitySettings> {
+  const { error: userError } = await supabase
+    .from('users_eif')
+    .update({
+      availability_timezone: settings.timezone,
+      meeting_buffer_minutes: settings.buffer_minutes,
+      max_meetings_per_day: settings.max_meetings_per_day,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', userId);
+  if (userError) throw userError;
+
+  const replace = async (table: string, rows: Record<string, any>[]) => {
+    const { error: deleteError } = await supabase.from(table).delete().eq('user_id', userId);
+    if (deleteError) throw deleteError;
+    if (rows.length === 0) return;
+    const { error } = await supabase.from(table).insert(rows.map(row => ({ ...row, user_id: userId })));
+    if (error) throw error;
+  };
+  // Windows are stored with the user's timezone so existing readers keep working on their own
+  await replace('user_availability_schedules_eif', settings.windows.map(w => ({ ...w, timezone: settings.timezone })));
+  await replace('user_availability_overrides_eif', settings.overrides);
+  await replace('user_availability_blackouts_eif', settings.blackouts);
+
+  return loadAvailabilitySettings(supabase, userId);
+}
+
+/**
+ * Check and normalize editor input; times become HH:MM:SS
+ */
+export function validateAvailability(input: unknown): { settings?: AvailabilitySettings; error?: string } {
+  if (!input || typeof input !== 'object') return { error: 'availability must be an object' };
+  const raw = input as Record<string, any>;
+
+  const timezone = raw.timezone ?? 'UTC';
+  if (typeof timezone !== 'string' || !isValidTimeZone(timezone)) return { error: 'timezone must be an IANA timezone such as Europe/Berlin' };
+
+  const buffer = Number(raw.buffer_minutes ?? 0);
+  if (!Number.isInteger(buffer) || buffer < 0 || buffer > 240) return { error: 'buffer_minutes must be a whole number between 0 and 240' };
+
+  const max = raw.max_meetings_per_day === null || raw.max_meetings_per_day === undefined || raw.max_meetings_per_day === ''
+    ? null
+    : Number(raw.max_meetings_per_day);
+  if (max !== null && (!Number.isInteger(max) || max < 1 || max > 24)) return { error: 'max_meetings_per_day must be empty or a whole number between 1 and 24' };
+
+  for (const key of ['windows', 'overrides', 'blackouts']) {
+    if (raw[key] !== undefined && !Array.isArray(raw[key])) return { error: `${key} must be an array` };
+  }
+
+  const windows: AvailabilityWindow[] = [];
+  const rawWindows: any[] = raw.windows ?? [];
+  for (let i = 0; i < rawWindows.length; i++) {
+    const w = rawWindows[i];
+    const day = Number(w?.day_of_week);
+    if (!Number.isInteger(day) || day < 0 || day > 6) return { error: `windows[${i}].day_of_week must be 0 (Sunday) to 6` };
+    const start = normalizeTime(w?.start_time);
+    const end = normalizeTime(w?.end_time);
+    if (!start || !end || start.startsWith('24')) return { error: `windows[${i}] needs start_time and end_time as HH:MM` };
+    if (start === end) return { error: `windows[${i}] is empty` };
+    windows.push({ day_of_week: day, start_time: start, end_time: end });
+  }
+
+  const overrides: AvailabilityOverride[] = [];
+  const rawOverrides: any[] = raw.overrides ?? [];
+  for (let i = 0; i < rawOverrides.length; i++) {
+    const o = rawOverrides[i];
+    if (!isLocalDate(o?.date)) return { error: `overrides[${i}].date must be YYYY-MM-DD` };
+    const hasTimes = Boolean(o?.start_time || o?.end_time);
+    const start = hasTimes ? normalizeTime(o.start_time) : null;
+    const end = hasTimes ? normalizeTime(o.end_time) : null;
+    if (hasTimes && (!start || !end || start === end || start.startsWith('24'))) return { error: `overrides[${i}] needs both start_time and end_time, or neither for a day off` };
+    overrides.push({ date: o.date, start_time: start, end_time: end });
+  }
+  for (const date of Array.from(new Set(overrides.map(o => o.date)))) {
+    const rows = overrides.filter(o => o.date === date);
+    if (rows.length > 1 && rows.some(o => !o.start_time)) return { error: `override for ${date} cannot be both a day off and have hours` };
+  }
+
+  const blackouts: AvailabilityBlackout[] = [];
+  const rawBlackouts: any[] = raw.blackouts ?? [];
+  for (let i = 0; i < rawBlackouts.length; i++) {
+    const b = rawBlackouts[i];
+    if (!isLocalDate(b?.start_date) || !isLocalDate(b?.end_date)) return { error: `blackouts[${i}] needs start_date and end_date as YYYY-MM-DD` };
+    if (b.end_date < b.start_date) return { error: `blackouts[${i}] ends before it starts` };
+    const reason = typeof b.reason === 'string' && b.reason.trim() ? b.reason.trim().slice(0, 200) : null;
+    blackouts.push({ start_date: b.start_date, end_date: b.end_date, reason });
+  }
+
+  return { settings: { timezone, buffer_minutes: buffer, max_meetings_per_day: max, windows, overrides, blackouts } };
+}
+
+function atLocalMinutes(date: LocalDate, minutes: number, zone: string): Date {
+  const day = addDays(date, Math.floor(minutes / (24 * 60)));
+  const rest = minutes % (24 * 60);
+  return zonedTimeToUtc({ ...day, hour: Math.floor(rest / 60), minute: rest % 60 }, zone);
+}
+
+/**
+ * From the start of `startDate` to the end of `endDate` (inclusive) in `zone`
+ */
+function localDaySpan(startDate: string, endDate: string, zone: string): TimeInterval {
+  return {
+    start: zonedTimeToUtc(parseLocalDate(startDate), zone),
+    end: zonedTimeToUtc(addDays(parseLocalDate(endDate), 1), zone),
+  };
+}
+
+function parseLocalDate(value: string): LocalDate {
+  const [year, month, day] = value.split('-').map(Number);
+  return { year, month, day };
+}
+
+function isLocalDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = parseLocalDate(value);
+  const check = addDays(date, 0);
+  return check.year === date.year && check.month === date.month && check.day === date.day;
+}
+
+function localDateKey(instant: Date, zone: string): string {
+  const c = wallClock(instant, zone);
+  return `${c.year}-${c.month}-${c.day}`;
+}
+
+/**
+ * HH:MM or HH:MM:SS as HH:MM:SS (24:00 allowed as an end of day), or null
+ */
+function normalizeTime(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const m = /^(\d{2}):(\d{2})(?::(\d{2}))?$/.exec(value.trim());
+  if (!m) return null;
+  const [hours, minutes, seconds] = [Number(m[1]), Number(m[2]), Number(m[3] ?? 0)];
+  if (minutes > 59 || seconds > 59 || hours > 24 || (hours === 24 && (minutes > 0 || seconds > 0))) return null;
+  return `${m[1]}:${m[2]}:${String(seconds).padStart(2, '0')}`;
+}
+
+function compareDates(a: LocalDate, b: LocalDate): number {
+  return Date.UTC(a.year, a.month - 1, a.day) - Date.UTC(b.year, b.month - 1, b.day);
+}
+
+function mergeIntervals(intervals: TimeInterval[]): TimeInterval[] {
+  const sorted = [...intervals].sort((x, y) => x.start.getTime() - y.start.getTime());
+  const merged: TimeInterval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start.getTime() <= last.end.getTime()) {
+      if (interval.end > last.end) last.end = interval.end;
+    } else {
+      merged.push({ start: interval.start, end: interval.end });
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,172 @@
+#!/usr/bin/env tsx
+/**
+ * Self-service booking - Test Suite
+ *
+ * Free slots offered to the requester of a meeting: the recipient's availability minus their
+ * meetings and synced calendar busy times, clear of the requester's own meetings.
+ *
+ * Run with: npx tsx server/lib/booking.test.ts
+ */
+
+import { pathToFileURL } from 'url';
+import { bookableSlots, validateBookingSettings } from './booking';
+import type { AvailabilityProfile } from './availability';
+
+process.env.DATA_BACKEND = 'memory';
+delete process.env.MEMORY_DB_FILE;
+
+let failures = 0;
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✓ PASS: ${message}`);
+  } else {
+    failures++;
+    console.log(`✗ FAIL: ${message}`);
+  }
+}
+
+const HOUR = 60 * 60 * 1000;
+
+function profile(patch: Partial<AvailabilityProfile> = {}): AvailabilityProfile {
+  return { timezone: 'UTC', buffer_minutes: 0, max_meetings_per_day: null, windows: [], overrides: [], blackouts: [], meetings: [], ...patch };
+}
+
+function times(slots: Date[]): string {
+  return slots.map(s => s.toISOString().slice(11, 16)).join();
+}
+
+/**
+ * Test Case 1: Settings validation
+ */
+function testValidation() {
+  console.log('\n=== TEST 1: Booking settings ===');
+
+  const { settings } = validateBookingSettings({ durations: ['60', 15, 15], horizon_days: 7 });
+  check(settings?.durations.join() === '15,60' && settings.horizon_days === 7, 'durations are parsed, sorted and de-duplicated');
+  check(Boolean(validateBookingSettings({ durations: [20] }).error), 'only 15/30/45/60 minute meetings');
+  check(Boolean(validateBookingSettings({ durations: [] }).error), 'at least one length is required');
+  check(Boolean(validateBookingSettings({ durations: [30], horizon_days: 90 }).error), 'horizon is capped at the 30 synced days');
+}
+
+/**
+ * Test Case 2: Slots from availability, busy times and the guest's meetings
+ */
+function testSlots() {
+  console.log('\n=== TEST 2: Free slots ===');
+
+  // Monday January 7, 2030, 09:00-12:00 UTC
+  const host = profile({ windows: [{ day_of_week: 1, start_time: '09:00', end_time: '12:00' }] });
+  const range = { from: new Date('2030-01-07T00:00:00Z'), to: new Date('2030-01-08T00:00:00Z') };
+
+  check(times(bookableSlots(host, [], [], { ...range, durationMinutes: 60 })) === '09:00,09:30,10:00,10:30,11:00',
+    'hour-long slots start every half hour');
+  check(bookableSlots(host, [], [], { ...range, durationMinutes: 15 }).length === 12, 'quarter-hour slots start every quarter hour');
+
+  const busy = [{ start: new Date('2030-01-07T10:00:00Z'), end: new Date('2030-01-07T10:45:00Z') }];
+  check(times(bookableSlots(host, busy, [], { ...range, durationMinutes: 30 })) === '09:00,09:30,10:45,11:15',
+    'calendar busy times are not offered; slots resume on the next quarter hour');
+
+  const guestMeetings = [{ start: new Date('2030-01-07T09:00:00Z'), end: new Date('2030-01-07T09:30:00Z') }];
+  check(times(bookableSlots(host, [], guestMeetings, { ...range, durationMinutes: 30 })) === '09:30,10:00,10:30,11:00,11:30',
+    'times the requester is already meeting are not offered');
+
+  const buffered = profile({ ...host, buffer_minutes: 30, max_meetings_per_day: 2, meetings: [{ start: new Date('2030-01-07T10:00:00Z'), end: new Date('2030-01-07T10:30:00Z') }] });
+  check(times(bookableSlots(buffered, [], [], { ...range, durationMinutes: 30 })) === '09:00,11:00,11:30',
+    'the host\'s meetings, buffer and daily limit apply');
+  const full = profile({ ...buffered, max_meetings_per_day: 1 });
+  check(bookableSlots(full, [], [], { ...range, durationMinutes: 30 }).length === 0, 'a full day offers nothing');
+}
+
+/**
+ * Test Case 3: BookingService against storage and a connected calendar
+ */
+async function testService() {
+  console.log('\n=== TEST 3: BookingService ===');
+
+  const { default: supabase } = await import('../supabase');
+  const { BookingService } = await import('./booking');
+  const { CalendarConnectionManager } = await import('./oauthManager');
+  const db = await import('./db');
+
+  const [{ data: host }, { data: guest }] = await Promise.all([
+    supabase.from('users_eif').insert({ email: 'host@company.example', role: 'company', availability_timezone: 'UTC' }).select('*').maybeSingle(),
+    supabase.from('users_eif').insert({ email: 'guest@investor.example', role: 'investor', availability_timezone: 'UTC' }).select('*').maybeSingle(),
+  ]);
+
+  // Open all week 10:00-12:00 UTC
+  const windows = [0, 1, 2, 3, 4, 5, 6].map(day => ({ day_of_week: day, start_time: '10:00:00', end_time: '12:00:00' }));
+  await db.saveUserAvailability(host.id, { timezone: 'UTC', buffer_minutes: 0, max_meetings_per_day: null, windows, overrides: [], blackouts: [] });
+
+  let syncs = 0;
+  let calendarBusy: { start: string; end: string }[] = [];
+  const calendarService = {
+    syncExternalCalendarBusyTimes: async (userId: string) => {
+      syncs++;
+      const synced_at = new Date().toISOString();
+      if (calendarBusy.length > 0) {
+        await supabase.from('external_calendar_busy_times_eif').insert(calendarBusy.map(b => ({ user_id: userId, start_time: b.start, end_time: b.end, synced_at })));
+      }
+    },
+  } as any;
+  const service = new BookingService(supabase, { calendarService });
+
+  const settings = await service.saveSettings(host.id, { durations: [30, 60], horizon_days: 3 });
+  check(settings.durations.join() === '30,60' && settings.horizon_days === 3, 'settings are stored on the user');
+  check((await service.getSettings(guest.id)).durations.join() === '30', 'users without settings offer 30 minutes, 14 days ahead');
+
+  // Tomorrow's window, checked from 00:00 UTC today
+  const now = new Date(new Date().toISOString().slice(0, 10) + 'T00:00:00Z');
+  const tomorrow = new Date(now.getTime() + 24 * HOUR);
+  const at = (hours: number) => new Date(tomorrow.getTime() + hours * HOUR).toISOString();
+
+  const slots = await service.listSlots(host.id, guest.id, 60, now);
+  check(slots.length === 9 && slots[0].start === new Date(now.getTime() + 10 * HOUR).toISOString() && slots[0].end === new Date(now.getTime() + 11 * HOUR).toISOString(),
+    'three days of two-hour windows give nine hour-long slots');
+  check(syncs === 0, 'no calendar sync without a connected calendar');
+
+  // A stale sync is ignored and refreshed once the host has a connected calendar
+  await supabase.from('external_calendar_busy_times_eif').insert({ user_id: host.id, start_time: at(10), end_time: at(12), synced_at: new Date(now.getTime() - 2 * HOUR).toISOString() });
+  await new CalendarConnectionManager(supabase).storeCredentials(host.id, { provider: 'google', accessToken: 'token', scope: '' });
+  calendarBusy = [{ start: at(11), end: at(12) }];
+  const refreshed = await service.listSlots(host.id, guest.id, 30, new Date());
+  const tomorrowTimes = refreshed.filter(s => s.start.startsWith(at(0).slice(0, 10))).map(s => s.start.slice(11, 16)).join();
+  check(syncs === 1 && tomorrowTimes === '10:00,10:30', 'busy times come from the latest sync only');
+
+  await service.listSlots(host.id, guest.id, 30, new Date());
+  check(syncs === 1, 'a fresh sync is reused');
+
+  check(await service.isBookable(host.id, guest.id, new Date(at(10)), 30), 'a listed slot is bookable');
+  check(!(await service.isBookable(host.id, guest.id, new Date(at(11)), 30)), 'a busy slot is not');
+  check(!(await service.isBookable(host.id, guest.id, new Date(new Date(at(10)).getTime() + 5 * 60 * 1000), 30)),
+    'only listed start times are bookable');
+}
+
+// ============================================
+// RUN ALL TESTS
+// ============================================
+
+async function runAllTests() {
+  console.log('╔════════════════════════════════════════════╗');
+  console.log('║   Booking Test Suite                       ║');
+  console.log('╚════════════════════════════════════════════╝');
+
+  try {
+    testValidation();
+    testSlots();
+    await testService();
+  } catch (error) {
+    console.error('\n✗ Test suite failed:', error);
+    process.exit(1);
+  }
+
+  console.log(failures === 0 ? '\nAll tests passed.\n' : `\n${failures} test(s) failed.\n`);
+  if (failures > 0) process.exit(1);
+}
+
+// Run tests if this is executed directly
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runAllTests();
+}
+
+export { runAllTests };
@@ -0,0 +1,200 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { CalendarConnectionManager } from './oauthManager.js';
+import { CalendarService } from './calendarService.js';
+import {
+  availableIntervals,
+  candidateStarts,
+  fitsMeetingRules,
+  loadAvailabilityProfile,
+  subtractIntervals,
+  type AvailabilityProfile,
+  type TimeInterval,
+} from './availability.js';
+
+/**
+ * Self-service booking: the requester of a meeting picks one of the recipient's free slots and
+ * the request is confirmed straight away.
+ *
+ * Free slots come from the recipient's availability (weekly windows, overrides, blackouts,
+ * buffer and daily limit), their meetings in the portal and the busy times last synced from
+ * their connected calendar (`external_calendar_busy_times_eif`). Slots that clash with the
+ * requester's own meetings are left out too.
+ */
+
+/** Meeting lengths, in minutes, a user can offer on their booking page */
+export const BOOKING_DURATIONS = [15, 30, 45, 60];
+
+/** Busy times are synced 30 days ahead (`CalendarService.syncExternalCalendarBusyTimes`) */
+export const MAX_BOOKING_HORIZON_DAYS = 30;
+
+// Earliest bookable start, so nobody is booked into a meeting that starts right away
+const MIN_NOTICE_MS = 60 * 60 * 1000;
+// Synced busy times older than this are refreshed from the connected calendar first
+const BUSY_TIMES_MAX_AGE_MS = 15 * 60 * 1000;
+// Upper bound on slots listed at once (a 30-day horizon of 15-minute slots is far more)
+const MAX_SLOTS = 500;
+
+/**
+ * What a user offers on their booking page (`users_eif.booking_durations`, `booking_horizon_days`)
+ */
+export interface BookingSettings {
+  durations: number[];
+  horizon_days: number;
+}
+
+export const DEFAULT_BOOKING_SETTINGS: BookingSettings = { durations: [30], horizon_days: 14 };
+
+export interface BookingSlot {
+  start: string;
+  end: string;
+}
+
+/**
+ * Check and normalize booking settings; durations come back sorted and de-duplicated
+ */
+export function validateBookingSettings(input: unknown): { settings?: BookingSettings; error?: string } {
+  if (!input || typeof input !== 'object') return { error: 'booking settings must be an object' };
+  const raw = input as Record<string, any>;
+
+  if (!Array.isArray(raw.durations) || raw.durations.length === 0) return { error: 'durations must list at least one meeting length' };
+  const durations = Array.from(new Set(raw.durations.map(Number))).sort((a, b) => a - b);
+  if (durations.some(d => !BOOKING_DURATIONS.includes(d))) return { error: `durations must be among ${BOOKING_DURATIONS.join(', ')} minutes` };
+
+  const horizon = Number(raw.horizon_days ?? DEFAULT_BOOKING_SETTINGS.horizon_days);
+  if (!Number.isInteger(horizon) || horizon < 1 || horizon > MAX_BOOKING_HORIZON_DAYS) {
+    return { error: `horizon_days must be a whole number between 1 and ${MAX_BOOKING_HORIZON_DAYS}` };
+  }
+
+  return { settings: { durations, horizon_days: horizon } };
+}
+
+/**
+ * Starts between `from` and `to` where the host can take a meeting of `durationMinutes`: inside
+ * their availability, outside `busy` and their buffer/daily limit, and clear of `guestMeetings`
+ */
+export function bookableSlots(
+  host: AvailabilityProfile,
+  busy: TimeInterval[],
+  guestMeetings: TimeInterval[],
+  options: { from: Date; to: Date; durationMinutes: number; limit?: number },
+): Date[] {
+  const free = subtractIntervals(availableIntervals(host, options.from, options.to), busy);
+  return candidateStarts(free, {
+    durationMinutes: options.durationMinutes,
+    stepMinutes: Math.min(options.durationMinutes, 30),
+    limit: options.limit ?? MAX_SLOTS,
+    accept: (start, end) =>
+      fitsMeetingRules(host, start, end) &&
+      !guestMeetings.some(m => m.start.getTime() < end.getTime() && m.end.getTime() > start.getTime()),
+  });
+}
+
+export class BookingService {
+  private supabase: SupabaseClient;
+  private connections: CalendarConnectionManager;
+  private calendarService: CalendarService;
+
+  constructor(
+    supabase: SupabaseClient,
+    options: { connections?: CalendarConnectionManager; calendarService?: CalendarService } = {},
+  ) {
+    this.supabase = supabase;
+    this.connections = options.connections || new CalendarConnectionManager(supabase);
+    this.calendarService = options.calendarService || new CalendarService(supabase);
+  }
+
+  /**
+   * A user's booking settings (defaults when they never set them)
+   */
+  async getSettings(userId: string): Promise<BookingSettings> {
+    const { data, error } = await this.supabase
+      .from('users_eif')
+      .select('booking_durations, booking_horizon_days')
+      .eq('id', userId)
+      .maybeSingle();
+    if (error) throw error;
+
+    const durations = (data?.booking_durations ?? []).map(Number).filter((d: number) => BOOKING_DURATIONS.includes(d));
+    return {
+      durations: durations.length > 0 ? durations : DEFAULT_BOOKING_SETTINGS.durations,
+      horizon_days: data?.booking_horizon_days ?? DEFAULT_BOOKING_SETTINGS.horizon_days,
+    };
+  }
+
+  /**
+   * Save validated settings; returns them as stored
+   */
+  async saveSettings(userId: string, settings: BookingSettings): Promise<BookingSettings> {
+    const { error } = await this.supabase
+      .from('users_eif')
+      .update({ booking_durations: settings.durations, booking_horizon_days: settings.horizon_days, updated_at: new Date().toISOString() })
+      .eq('id', userId);
+    if (error) throw error;
+    return this.getSettings(userId);
+  }
+
+  /**
+   * The host's free slots for a meeting of `durationMinutes` with the guest, from an hour from
+   * `now` to the end of the host's booking horizon
+   */
+  async listSlots(hostId: string, guestId: string, durationMinutes: number, now: Date = new Date()): Promise<BookingSlot[]> {
+    const settings = await this.getSettings(hostId);
+    const from = new Date(now.getTime() + MIN_NOTICE_MS);
+    const to = new Date(now.getTime() + settings.horizon_days * 24 * 60 * 60 * 1000);
+    if (to <= from) return [];
+
+    const [host, guest, busy] = await Promise.all([
+      loadAvailabilityProfile(this.supabase, hostId, from, to),
+      loadAvailabilityProfile(this.supabase, guestId, from, to),
+      this.busyTimes(hostId, now),
+    ]);
+    const duration = durationMinutes * 60 * 1000;
+    return bookableSlots(host, busy, guest.meetings, { from, to, durationMinutes }).map(start => ({
+      start: start.toISOString(),
+      end: new Date(start.getTime() + duration).toISOString(),
+    }));
+  }
+
+  /**
+   * Whether `start` is still one of the host's free slots (checked again right before booking)
+   */
+  async isBookable(hostId: string, guestId: string, start: Date, durationMinutes: number, now: Date = new Date()): Promise<boolean> {
+    const slots = await this.listSlots(hostId, guestId, durationMinutes, now);
+    return slots.some(slot => new Date(slot.start).getTime() === start.getTime());
+  }
+
+  /**
+   * Busy times from the host's latest calendar sync, refreshed first when stale and connected
+   */
+  private async busyTimes(userId: string, now: Date): Promise<TimeInterval[]> {
+    let rows = await this.syncedBusyTimes(userId);
+    // Rows from older syncs may list events that have since been moved or deleted
+    let since = rows.reduce((latest, row) => Math.max(latest, new Date(row.synced_at).getTime()), 0);
+    if (now.getTime() - since > BUSY_TIMES_MAX_AGE_MS) {
+      try {
+        const credentials = await this.connections.getCredentials(userId);
+        if (credentials) {
+          const syncStarted = Date.now();
+          await this.calendarService.syncExternalCalendarBusyTimes(userId, credentials);
+          rows = await this.syncedBusyTimes(userId);
+          since = syncStarted;
+        }
+      } catch (error) {
+        console.error('Failed to refresh busy times for booking:', error);
+      }
+    }
+
+    return rows
+      .filter(row => new Date(row.synced_at).getTime() >= since)
+      .map(row => ({ start: new Date(row.start_time), end: new Date(row.end_time) }));
+  }
+
+  private async syncedBusyTimes(userId: string): Promise<any[]> {
+    const { data, error } = await this.supabase
+      .from('external_calendar_busy_times_eif')
+      .select('start_time, end_time, synced_at')
+      .eq('user_id', userId);
+    if (error) throw error;
+    return data ?? [];
+  }
+}
@@ -0,0 +1,297 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import net from 'net';
+import type { OAuthCredentials } from './oauthManager.js';
+import { buildCalendar, parseCalendar } from './ical.js';
+import {
+  CalendarProviderError,
+  type BusyTime,
+  type CalendarProvider,
+  type PasswordConnection,
+  type ProviderEvent,
+  type ProviderEventResult,
+} from './calendarProvider.js';
+
+/**
+ * CalDAV (RFC 4791) calendars: Nextcloud, Fastmail, iCloud, Radicale and friends.
+ *
+ * Users connect with the URL of a calendar collection plus a username and (app) password;
+ * requests use HTTP Basic auth. Events are stored as `{calendar}/{uid}.ics` resources and the
+ * resource URL is the event id.
+ *
+ * The server URL comes from the user, so every request first goes through `checkCalDavUrl`:
+ * outside development it must be https and its host must not resolve to a loopback, private,
+ * link-local or otherwise internal address. `CALDAV_ALLOWED_HOSTS` (comma-separated host
+ * names) restricts connections to those servers, which may then be internal. Redirects are not
+ * followed.
+ */
+
+const BLOCKED_RANGES = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) BLOCKED_RANGES.addSubnet(address, prefix, 'ipv4');
+for (const [address, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  BLOCKED_RANGES.addSubnet(address, prefix, 'ipv6');
+}
+
+/**
+ * True for addresses a user-supplied URL must not reach: loopback, private, link-local
+ * (including cloud metadata), carrier-grade NAT, multicast and reserved ranges
+ */
+export function isInternalAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1) is checked as IPv4
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return isInternalAddress(mapped[1]);
+  const family = net.isIP(address);
+  if (family === 4) return BLOCKED_RANGES.check(address, 'ipv4');
+  if (family === 6) return BLOCKED_RANGES.check(address, 'ipv6');
+  return true;
+}
+
+function allowedHosts(): string[] {
+  return (process.env.CALDAV_ALLOWED_HOSTS || '').split(',').map(host => host.trim().toLowerCase()).filter(Boolean);
+}
+
+/**
+ * Refuse URLs the server should not connect to on a user's behalf (see the module comment)
+ */
+export async function checkCalDavUrl(url: URL): Promise<void> {
+  const development = process.env.NODE_ENV === 'development';
+  if (url.protocol !== 'https:' && !(development && url.protocol === 'http:')) {
+    throw new CalendarProviderError('caldav', development ? 'calendar URL must be http(s)' : 'calendar URL must use https', 400);
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  const allowed = allowedHosts();
+  if (allowed.length > 0) {
+    if (!allowed.includes(host)) throw new CalendarProviderError('caldav', 'this calendar server is not allowed', 400);
+    return;
+  }
+  if (development) return;
+
+  let addresses: string[];
+  try {
+    addresses = net.isIP(host) ? [host] : (await dns.promises.lookup(host, { all: true })).map(entry => entry.address);
+  } catch {
+    throw new CalendarProviderError('caldav', `calendar host ${host} could not be resolved`, 400);
+  }
+  if (addresses.length === 0 || addresses.some(isInternalAddress)) {
+    throw new CalendarProviderError('caldav', 'calendar URL points to an internal address', 400);
+  }
+}
+
+export class CalDavCalendarProvider implements CalendarProvider {
+  readonly name = 'caldav' as const;
+  readonly label = 'CalDAV (iCloud, Fastmail, Nextcloud...)';
+  readonly authType = 'password' as const;
+
+  getAuthorizationUrl(_state: string): string {
+    throw new CalendarProviderError(this.name, 'CalDAV calendars are connected with a username and password');
+  }
+
+  async exchangeCodeForTokens(_code: string): Promise<OAuthCredentials> {
+    throw new CalendarProviderError(this.name, 'CalDAV calendars are connected with a username and password');
+  }
+
+  async connectWithPassword(connection: PasswordConnection): Promise<OAuthCredentials> {
+    let url: URL;
+    try {
+      url = new URL(connection.serverUrl);
+    } catch {
+      throw new CalendarProviderError(this.name, 'invalid calendar URL', 400);
+    }
+    await checkCalDavUrl(url);
+
+    const credentials: OAuthCredentials = {
+      provider: this.name,
+      accessToken: connection.password,
+      scope: '',
+      accountUrl: withTrailingSlash(url.toString()),
+      username: connection.username,
+    };
+
+    const res = await this.request(credentials, 'PROPFIND', credentials.accountUrl!, {
+      headers: { Depth: '0', 'Content-Type': 'application/xml; charset=utf-8' },
+      body: '<?xml version="1.0" encoding="utf-8"?>'
+        + '<d:propfind xmlns:d="DAV:"><d:prop><d:resourcetype/><d:displayname/></d:prop></d:propfind>',
+    });
+    const text = await res.text();
+    if (res.status === 401 || res.status === 403) {
+      throw new CalendarProviderError(this.name, 'the server rejected the username or password', 400);
+    }
+    if (res.status !== 207) {
+      throw new CalendarProviderError(this.name, `calendar URL did not answer PROPFIND (${res.status})`, 400);
+    }
+    if (!/<(?:[\w-]+:)?calendar\s*\/>/.test(text)) {
+      throw new CalendarProviderError(this.name, 'URL is not a calendar collection', 400);
+    }
+    return credentials;
+  }
+
+  async refreshAccessToken(credentials: OAuthCredentials): Promise<OAuthCredentials> {
+    // Passwords do not expire
+    return credentials;
+  }
+
+  async getAccountEmail(credentials: OAuthCredentials): Promise<string | null> {
+    return credentials.username && credentials.username.includes('@') ? credentials.username : null;
+  }
+
+  private async request(
+    credentials: OAuthCredentials,
+    method: string,
+    url: string,
+    init: { headers?: Record<string, string>; body?: string } = {},
+  ): Promise<Response> {
+    const auth = Buffer.from(`${credentials.username ?? ''}:${credentials.accessToken}`).toString('base64');
+    let target: URL;
+    try {
+      target = new URL(url);
+    } catch {
+      throw new CalendarProviderError(this.name, `invalid URL ${url}`, 400);
+    }
+    // Stored and event URLs are checked too: the address behind a host name can change
+    await checkCalDavUrl(target);
+    try {
+      return await fetch(target, {
+        method,
+        headers: { Authorization: `Basic ${auth}`, ...init.headers },
+        body: init.body,
+        redirect: 'manual',
+      });
+    } catch (error: any) {
+      throw new CalendarProviderError(this.name, `${method} ${url} failed: ${error?.message ?? String(error)}`);
+    }
+  }
+
+  /**
+   * `primary` (the default calendar setting) is the collection the user connected
+   */
+  private calendarUrl(credentials: OAuthCredentials, calendarId: string): string {
+    if (calendarId && calendarId !== 'primary') {
+      return withTrailingSlash(new URL(calendarId, credentials.accountUrl).toString());
+    }
+    if (!credentials.accountUrl) throw new CalendarProviderError(this.name, 'no calendar URL stored for this connection');
+    return credentials.accountUrl;
+  }
+
+  async getBusyTimes(credentials: OAuthCredentials, calendarId: string, startTime: string, endTime: string): Promise<BusyTime[]> {
+    const range = `start="${toCalDavTime(startTime)}" end="${toCalDavTime(endTime)}"`;
+    const res = await this.request(credentials, 'REPORT', this.calendarUrl(credentials, calendarId), {
+      headers: { Depth: '1', 'Content-Type': 'application/xml; charset=utf-8' },
+      body: '<?xml version="1.0" encoding="utf-8"?>'
+        + '<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">'
+        + '<d:prop><c:calendar-data/></d:prop>'
+        + '<c:filter><c:comp-filter name="VCALENDAR"><c:comp-filter name="VEVENT">'
+        + `<c:time-range ${range}/>`
+        + '</c:comp-filter></c:comp-filter></c:filter>'
+        + '</c:calendar-query>',
+    });
+    const text = await res.text();
+    if (res.status !== 207) {
+      throw new CalendarProviderError(this.name, `calendar query failed (${res.status})`, res.status);
+    }
+
+    const from = new Date(startTime).getTime();
+    const to = new Date(endTime).getTime();
+    const busy: BusyTime[] = [];
+    for (const data of calendarDataBlocks(text)) {
+      for (const event of parseCalendar(data)) {
+        if (event.transparent || event.status === 'CANCELLED') continue;
+        // Servers may return whole resources (e.g. recurring series); keep only what overlaps
+        if (event.end.getTime() <= from || event.start.getTime() >= to) continue;
+        busy.push({ start: event.start.toISOString(), end: event.end.toISOString() });
+      }
+    }
+    return busy;
+  }
+
+  private async putEvent(
+    credentials: OAuthCredentials,
+    url: string,
+    event: ProviderEvent & { uid: string },
+    create: boolean,
+  ): Promise<ProviderEventResult> {
+    const body = buildCalendar([{
+      uid: event.uid,
+      start: event.start,
+      end: event.end,
+      summary: event.summary,
+      description: event.description,
+      location: event.location,
+      sequence: event.sequence,
+      updatedAt: new Date(),
+      attendees: (event.attendees || []).map(email => ({ email })),
+    }]);
+    const res = await this.request(credentials, 'PUT', url, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        ...(create ? { 'If-None-Match': '*' } : {}),
+      },
+      body,
+    });
+    if (!res.ok) {
+      throw new CalendarProviderError(this.name, `saving event failed (${res.status})`, res.status);
+    }
+    return { id: url };
+  }
+
+  async createEvent(credentials: OAuthCredentials, calendarId: string, event: ProviderEvent): Promise<ProviderEventResult> {
+    const uid = event.uid ?? `${crypto.randomUUID()}@eif-portal`;
+    const url = new URL(`${encodeURIComponent(uid)}.ics`, this.calendarUrl(credentials, calendarId)).toString();
+    return this.putEvent(credentials, url, { ...event, uid }, true);
+  }
+
+  async updateEvent(credentials: OAuthCredentials, calendarId: string, eventId: string, event: ProviderEvent): Promise<ProviderEventResult> {
+    const url = new URL(eventId, this.calendarUrl(credentials, calendarId)).toString();
+    const uid = event.uid ?? decodeURIComponent(url.split('/').pop()!.replace(/\.ics$/, ''));
+    return this.putEvent(credentials, url, { ...event, uid }, false);
+  }
+
+  async deleteEvent(credentials: OAuthCredentials, calendarId: string, eventId: string): Promise<void> {
+    const url = new URL(eventId, this.calendarUrl(credentials, calendarId)).toString();
+    const res = await this.request(credentials, 'DELETE', url);
+    // Already gone
+    if (res.status === 404 || res.status === 410) return;
+    if (!res.ok) {
+      throw new CalendarProviderError(this.name, `deleting event failed (${res.status})`, res.status);
+    }
+  }
+}
+
+function withTrailingSlash(url: string): string {
+  return url.endsWith('/') ? url : `${url}/`;
+}
+
+/**
+ * CalDAV time-range values are UTC basic format (20240101T090000Z)
+ */
+function toCalDavTime(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Contents of every <calendar-data> element in a multistatus response
+ */
+function calendarDataBlocks(xml: string): string[] {
+  const blocks: string[] = [];
+  const pattern = /<(?:[\w-]+:)?calendar-data[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?calendar-data>/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml))) {
+    const content = match[1].trim();
+    const cdata = content.match(/^<!\[CDATA\[([\s\S]*)\]\]>$/);
+    blocks.push(cdata ? cdata[1] : decodeXml(content));
+  }
+  return blocks;
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#13;/g, '\r')
+    .replace(/&#10;/g, '\n')
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,81 @@
+import type { OAuthCredentials } from './oauthManager.js';
+
+/**
+ * External calendar providers.
+ *
+ * Each provider connects a user's own calendar (OAuth for Google and Microsoft, a
+ * username/password for CalDAV), reads busy times and creates, updates and deletes events.
+ * `CalendarService` and `CalendarConnectionManager` pick the implementation from the
+ * `provider` stored with the user's credentials.
+ */
+
+export type CalendarProviderName = 'google' | 'microsoft' | 'caldav';
+
+export interface ProviderEvent {
+  summary: string;
+  description?: string;
+  start: string; // ISO string
+  end: string; // ISO string
+  location?: string;
+  attendees?: string[]; // emails
+  /** Ask the provider to attach a video call (Google Meet, Teams); `requestId` keeps retries idempotent */
+  conference?: { requestId: string };
+  /** iCalendar UID; providers that store raw iCalendar (CalDAV) use it as the event id */
+  uid?: string;
+  sequence?: number;
+}
+
+export interface ProviderEventResult {
+  id?: string;
+  htmlLink?: string;
+  conferenceLink?: string;
+}
+
+export interface BusyTime {
+  start: string; // ISO string
+  end: string; // ISO string
+}
+
+/**
+ * Username/password connection details for providers without OAuth (CalDAV)
+ */
+export interface PasswordConnection {
+  serverUrl: string;
+  username: string;
+  password: string;
+}
+
+export interface CalendarProvider {
+  readonly name: CalendarProviderName;
+  readonly label: string;
+  readonly authType: 'oauth' | 'password';
+
+  /** URL the user is sent to for consent (OAuth providers) */
+  getAuthorizationUrl(state: string): string;
+  /** Exchange an OAuth authorization code (OAuth providers) */
+  exchangeCodeForTokens(code: string): Promise<OAuthCredentials>;
+  /** Validate direct credentials and return what to store (password providers) */
+  connectWithPassword(connection: PasswordConnection): Promise<OAuthCredentials>;
+  /** Renew an expired access token; providers without expiring tokens return the credentials unchanged */
+  refreshAccessToken(credentials: OAuthCredentials): Promise<OAuthCredentials>;
+  /** Address of the connected account, when the provider exposes one */
+  getAccountEmail(credentials: OAuthCredentials): Promise<string | null>;
+
+  getBusyTimes(credentials: OAuthCredentials, calendarId: string, startTime: string, endTime: string): Promise<BusyTime[]>;
+  createEvent(credentials: OAuthCredentials, calendarId: string, event: ProviderEvent): Promise<ProviderEventResult>;
+  updateEvent(credentials: OAuthCredentials, calendarId: string, eventId: string, event: ProviderEvent): Promise<ProviderEventResult>;
+  deleteEvent(credentials: OAuthCredentials, calendarId: string, eventId: string): Promise<void>;
+}
+
+export class CalendarProviderError extends Error {
+  constructor(public provider: CalendarProviderName, message: string, public status?: number) {
+    super(`${provider}: ${message}`);
+    this.name = 'CalendarProviderError';
+  }
+}
+
+export const CALENDAR_PROVIDER_NAMES: CalendarProviderName[] = ['google', 'microsoft', 'caldav'];
+
+export function isCalendarProviderName(value: unknown): value is CalendarProviderName {
+  return typeof value === 'string' && (CALENDAR_PROVIDER_NAMES as string[]).includes(value);
+}
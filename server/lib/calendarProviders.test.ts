@@ -0,0 +1,395 @@
+#!/usr/bin/env tsx
+/**
+ * Calendar Providers - Test Suite
+ *
+ * Covers the iCalendar reader, the CalDAV provider against a CalDAV server, provider
+ * selection, stored connections (on the in-memory backend) and the CalDAV URL checks.
+ *
+ * The CalDAV tests start a small in-process server by default. To run them against a
+ * real one (e.g. Radicale), point CALDAV_TEST_URL at an empty calendar collection and set
+ * CALDAV_TEST_USERNAME / CALDAV_TEST_PASSWORD.
+ *
+ * Run with: npx tsx server/lib/calendarProviders.test.ts
+ */
+
+import { pathToFileURL } from 'url';
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+process.env.DATA_BACKEND = 'memory';
+delete process.env.MEMORY_DB_FILE;
+
+let failures = 0;
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✓ PASS: ${message}`);
+  } else {
+    failures++;
+    console.log(`✗ FAIL: ${message}`);
+  }
+}
+
+const FAKE_USER = 'alice';
+const FAKE_PASSWORD = 'app-password';
+
+/**
+ * Just enough CalDAV for the provider: PROPFIND, calendar-query REPORT (returns every
+ * resource; the client does the time filtering), PUT with If-None-Match and DELETE.
+ */
+function startFakeCalDavServer(): Promise<{ url: string; close: () => Promise<void> }> {
+  const resources = new Map<string, string>();
+  const expectedAuth = `Basic ${Buffer.from(`${FAKE_USER}:${FAKE_PASSWORD}`).toString('base64')}`;
+  const xmlEscape = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      if (req.headers.authorization !== expectedAuth) {
+        res.writeHead(401, { 'WWW-Authenticate': 'Basic realm="test"' }).end();
+        return;
+      }
+      const path = decodeURIComponent(req.url || '/');
+      const multistatus = (inner: string) => {
+        res.writeHead(207, { 'Content-Type': 'application/xml; charset=utf-8' });
+        res.end(`<?xml version="1.0"?><d:multistatus xmlns:d="DAV:" xmlns:cal="urn:ietf:params:xml:ns:caldav">${inner}</d:multistatus>`);
+      };
+
+      if (req.method === 'PROPFIND') {
+        const type = path.startsWith('/calendars/') ? '<d:collection/><cal:calendar/>' : '<d:collection/>';
+        multistatus(`<d:response><d:href>${path}</d:href><d:propstat><d:prop><d:resourcetype>${type}</d:resourcetype></d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>`);
+        return;
+      }
+      if (req.method === 'REPORT') {
+        const responses = Array.from(resources.entries())
+          .filter(([href]) => href.startsWith(path))
+          .map(([href, data]) => `<d:response><d:href>${href}</d:href><d:propstat><d:prop><cal:calendar-data>${xmlEscape(data)}</cal:calendar-data></d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>`);
+        multistatus(responses.join(''));
+        return;
+      }
+      if (req.method === 'PUT') {
+        if (req.headers['if-none-match'] === '*' && resources.has(path)) {
+          res.writeHead(412).end();
+          return;
+        }
+        const existed = resources.has(path);
+        resources.set(path, body);
+        res.writeHead(existed ? 204 : 201).end();
+        return;
+      }
+      if (req.method === 'DELETE') {
+        res.writeHead(resources.delete(path) ? 204 : 404).end();
+        return;
+      }
+      res.writeHead(405).end();
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}/calendars/alice/work/`,
+        close: () => new Promise(done => server.close(() => done())),
+      });
+    });
+  });
+}
+
+/**
+ * Test Case 1: iCalendar reader
+ */
+async function testParseCalendar() {
+  console.log('\n=== TEST 1: parseCalendar ===');
+  const { parseCalendar, buildCalendar } = await import('./ical');
+
+  const text = [
+    'BEGIN:VCALENDAR',
+    'BEGIN:VEVENT',
+    'UID:berlin-1',
+    'DTSTART;TZID=Europe/Berlin:20250715T090000',
+    'DTEND;TZID=Europe/Berlin:20250715T100000',
+    'SUMMARY:Board call\\, weekly',
+    'BEGIN:VALARM',
+    'TRIGGER:-PT15M',
+    'DTSTART:19700101T000000Z',
+    'END:VALARM',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'UID:all-day',
+    'DTSTART;VALUE=DATE:20250716',
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ].join('\r\n');
+
+  const [timed, allDay] = parseCalendar(text);
+  check(timed?.start.toISOString() === '2025-07-15T07:00:00.000Z', 'TZID local time is converted to UTC (CEST)');
+  check(timed?.end.toISOString() === '2025-07-15T08:00:00.000Z', 'DTEND is converted too');
+  check(timed?.summary === 'Board call, weekly', 'text values are unescaped');
+  check(allDay?.end.getTime() - allDay?.start.getTime() === 24 * 60 * 60 * 1000, 'all-day event without DTEND lasts one day');
+  check(allDay?.transparent === true, 'TRANSP:TRANSPARENT is reported');
+
+  const written = buildCalendar([{
+    uid: 'round-trip',
+    start: '2025-01-02T15:00:00.000Z',
+    end: '2025-01-02T15:30:00.000Z',
+    summary: 'A fairly long summary that will certainly be folded across more than one content line',
+  }]);
+  const [roundTrip] = parseCalendar(written);
+  check(roundTrip?.uid === 'round-trip' && roundTrip.summary?.startsWith('A fairly long summary') === true
+    && roundTrip.summary.endsWith('content line'), 'folded lines written by buildCalendar are read back');
+}
+
+/**
+ * Test Case 2: CalDAV provider (connect, busy times, create/update/delete)
+ */
+async function testCalDav() {
+  console.log('\n=== TEST 2: CalDAV provider ===');
+  const { CalDavCalendarProvider } = await import('./caldavCalendarProvider');
+  const provider = new CalDavCalendarProvider();
+
+  // Plain http and loopback servers are only allowed in development
+  const nodeEnv = process.env.NODE_ENV;
+  process.env.NODE_ENV = 'development';
+  const external = process.env.CALDAV_TEST_URL;
+  const fake = external ? null : await startFakeCalDavServer();
+  const serverUrl = external || fake!.url;
+  const username = external ? process.env.CALDAV_TEST_USERNAME || '' : FAKE_USER;
+  const password = external ? process.env.CALDAV_TEST_PASSWORD || '' : FAKE_PASSWORD;
+  console.log(`Using ${external ? 'CALDAV_TEST_URL' : 'in-process CalDAV server'} ${serverUrl}`);
+
+  try {
+    let rejected = false;
+    try {
+      await provider.connectWithPassword({ serverUrl, username, password: `${password}-wrong` });
+    } catch (e: any) {
+      rejected = /rejected/.test(e.message);
+    }
+    check(rejected, 'wrong password is rejected');
+
+    if (fake) {
+      let notCalendar = false;
+      try {
+        await provider.connectWithPassword({ serverUrl: new URL('/files/alice/', serverUrl).toString(), username, password });
+      } catch (e: any) {
+        notCalendar = /not a calendar/.test(e.message);
+      }
+      check(notCalendar, 'a plain WebDAV folder is rejected');
+    }
+
+    const credentials = await provider.connectWithPassword({ serverUrl, username, password });
+    check(credentials.provider === 'caldav' && credentials.accountUrl!.endsWith('/'), 'connection stores the collection URL');
+
+    const uid = `test-${Date.now()}@eif-portal`;
+    const created = await provider.createEvent(credentials, 'primary', {
+      uid,
+      summary: 'Intro call',
+      start: '2030-03-04T10:00:00.000Z',
+      end: '2030-03-04T10:30:00.000Z',
+      attendees: ['bob@example.com'],
+    });
+    check(!!created.id && created.id.endsWith('.ics'), 'created event id is the resource URL');
+
+    let duplicate = false;
+    try {
+      await provider.createEvent(credentials, 'primary', { uid, summary: 'Again', start: '2030-03-04T10:00:00.000Z', end: '2030-03-04T10:30:00.000Z' });
+    } catch (e: any) {
+      duplicate = e.status === 412;
+    }
+    check(duplicate, 'creating the same UID twice does not overwrite');
+
+    let busy = await provider.getBusyTimes(credentials, 'primary', '2030-03-04T00:00:00.000Z', '2030-03-05T00:00:00.000Z');
+    check(busy.some(b => b.start === '2030-03-04T10:00:00.000Z' && b.end === '2030-03-04T10:30:00.000Z'), 'created event shows up as busy');
+
+    busy = await provider.getBusyTimes(credentials, 'primary', '2030-03-05T00:00:00.000Z', '2030-03-06T00:00:00.000Z');
+    check(!busy.some(b => b.start === '2030-03-04T10:00:00.000Z'), 'busy times are limited to the requested range');
+
+    await provider.updateEvent(credentials, 'primary', created.id!, {
+      uid,
+      sequence: 1,
+      summary: 'Intro call (moved)',
+      start: '2030-03-04T14:00:00.000Z',
+      end: '2030-03-04T15:00:00.000Z',
+    });
+    busy = await provider.getBusyTimes(credentials, 'primary', '2030-03-04T00:00:00.000Z', '2030-03-05T00:00:00.000Z');
+    check(busy.some(b => b.start === '2030-03-04T14:00:00.000Z') && !busy.some(b => b.start === '2030-03-04T10:00:00.000Z'),
+      'updated event replaces the old time');
+
+    await provider.deleteEvent(credentials, 'primary', created.id!);
+    busy = await provider.getBusyTimes(credentials, 'primary', '2030-03-04T00:00:00.000Z', '2030-03-05T00:00:00.000Z');
+    check(!busy.some(b => b.start === '2030-03-04T14:00:00.000Z'), 'deleted event is no longer busy');
+
+    let deleteAgainOk = true;
+    try {
+      await provider.deleteEvent(credentials, 'primary', created.id!);
+    } catch {
+      deleteAgainOk = false;
+    }
+    check(deleteAgainOk, 'deleting an already-deleted event is not an error');
+  } finally {
+    process.env.NODE_ENV = nodeEnv;
+    await fake?.close();
+  }
+}
+
+/**
+ * Test Case 3: Provider selection and stored connections
+ */
+async function testConnections() {
+  console.log('\n=== TEST 3: Provider registry and connections ===');
+  delete process.env.GOOGLE_OAUTH_CLIENT_ID;
+  delete process.env.MICROSOFT_OAUTH_CLIENT_ID;
+  const { getCalendarProvider, listCalendarProviders, setCalendarProviders } = await import('./calendarProviders');
+  const { MicrosoftCalendarProvider } = await import('./microsoftCalendarProvider');
+  const { CalendarConnectionManager } = await import('./oauthManager');
+  const { CalendarService } = await import('./calendarService');
+  const { default: supabase } = await import('../supabase');
+
+  setCalendarProviders(null);
+  check(getCalendarProvider('google') === null && getCalendarProvider('microsoft') === null, 'OAuth providers need their env configuration');
+  check(listCalendarProviders().map(p => p.name).join() === 'caldav', 'CalDAV is always available');
+
+  const microsoft = new MicrosoftCalendarProvider({ clientId: 'client-1', clientSecret: 's', redirectUri: 'https://eif.example/api/oauth/callback', tenant: 'common' });
+  const authUrl = new URL(microsoft.getAuthorizationUrl('state-1'));
+  check(authUrl.host === 'login.microsoftonline.com' && authUrl.pathname === '/common/oauth2/v2.0/authorize', 'Microsoft consent goes to the tenant authorize endpoint');
+  check((authUrl.searchParams.get('scope') || '').split(' ').includes('Calendars.ReadWrite')
+    && authUrl.searchParams.get('state') === 'state-1', 'Microsoft consent asks for calendar access and carries the state');
+
+  // Stored connection round trip, refreshed through the provider it was made with
+  let refreshedWith: string | null = null;
+  const stub = {
+    name: 'microsoft' as const,
+    label: 'Outlook',
+    authType: 'oauth' as const,
+    getAuthorizationUrl: () => '',
+    exchangeCodeForTokens: async () => { throw new Error('unused'); },
+    connectWithPassword: async () => { throw new Error('unused'); },
+    refreshAccessToken: async (c: any) => {
+      refreshedWith = c.refreshToken;
+      return { ...c, accessToken: 'fresh', expiresAt: new Date(Date.now() + 3600_000) };
+    },
+    getAccountEmail: async () => null,
+    getBusyTimes: async () => [{ start: '2030-01-01T09:00:00.000Z', end: '2030-01-01T10:00:00.000Z' }],
+    createEvent: async () => ({ id: 'evt-1' }),
+    updateEvent: async () => ({ id: 'evt-1' }),
+    deleteEvent: async () => {},
+  };
+  setCalendarProviders([stub]);
+
+  const manager = new CalendarConnectionManager(supabase);
+  await manager.storeCredentials('user-ms', {
+    provider: 'microsoft',
+    accessToken: 'stale',
+    refreshToken: 'refresh-1',
+    expiresAt: new Date(Date.now() - 1000),
+    scope: 'Calendars.ReadWrite',
+  });
+  const credentials = await manager.getCredentials('user-ms');
+  check(refreshedWith === 'refresh-1' && credentials?.accessToken === 'fresh', 'expired token is refreshed through its provider');
+  check((await manager.getCredentials('user-ms'))?.accessToken === 'fresh', 'refreshed token is stored');
+
+  await manager.storeCredentials('user-ms', {
+    provider: 'caldav',
+    accessToken: 'pw',
+    scope: '',
+    accountUrl: 'https://dav.example/cal/',
+    username: 'ms@example.com',
+  });
+  const switched = await manager.getCredentials('user-ms');
+  check(switched?.provider === 'caldav' && switched.accountUrl === 'https://dav.example/cal/' && switched.username === 'ms@example.com',
+    'connecting another provider replaces the stored connection');
+
+  const busy = await new CalendarService(supabase).getBusyTimes('user-ms', { ...credentials!, provider: 'microsoft' }, '2030-01-01T00:00:00.000Z', '2030-01-02T00:00:00.000Z');
+  check(busy.length === 1 && busy[0].start === '2030-01-01T09:00:00.000Z', 'CalendarService dispatches on the stored provider');
+
+  await manager.deleteCredentials('user-ms');
+  check((await manager.getCredentials('user-ms')) === null, 'disconnect removes the connection');
+  setCalendarProviders(null);
+}
+
+/**
+ * Test Case 4: CalDAV URLs the server refuses to connect to
+ */
+async function testCalDavUrlChecks() {
+  console.log('\n=== TEST 4: CalDAV URL checks ===');
+  const { CalDavCalendarProvider, checkCalDavUrl, isInternalAddress } = await import('./caldavCalendarProvider');
+  const provider = new CalDavCalendarProvider();
+  const nodeEnv = process.env.NODE_ENV;
+  process.env.NODE_ENV = 'production';
+
+  const refusal = async (url: string) => {
+    try {
+      await checkCalDavUrl(new URL(url));
+      return null;
+    } catch (e: any) {
+      return e.status === 400 ? e.message : `unexpected: ${e.message}`;
+    }
+  };
+
+  try {
+    check(/https/.test(await refusal('http://93.184.216.34/cal/') ?? ''), 'plain http is refused outside development');
+    const internal = ['https://127.0.0.1/', 'https://localhost:8080/', 'https://10.1.2.3/', 'https://172.20.0.5/', 'https://192.168.1.10/',
+      'https://169.254.169.254/latest/meta-data/', 'https://[::1]/', 'https://[::ffff:127.0.0.1]/', 'https://[fd00::1]/', 'https://0.0.0.0/'];
+    const reached: string[] = [];
+    for (const url of internal) if ((await refusal(url)) === null) reached.push(url);
+    check(reached.length === 0, `loopback, private and link-local hosts are refused${reached.length ? ` (allowed: ${reached.join(', ')})` : ''}`);
+    check(await refusal('https://93.184.216.34/cal/') === null, 'a public https server is allowed');
+    check(isInternalAddress('100.64.0.1') && !isInternalAddress('8.8.8.8') && !isInternalAddress('2606:4700::1111'), 'address ranges are classified');
+
+    let connectRefused = false;
+    try {
+      await provider.connectWithPassword({ serverUrl: 'https://127.0.0.1:22/', username: 'a', password: 'b' });
+    } catch (e: any) {
+      connectRefused = e.status === 400 && /internal address/.test(e.message);
+    }
+    check(connectRefused, 'connecting refuses internal URLs before sending anything');
+
+    let requestRefused = false;
+    try {
+      await provider.deleteEvent({ provider: 'caldav', accessToken: 'pw', scope: '', accountUrl: 'https://dav.example/cal/', username: 'a' }, 'primary', 'https://10.0.0.1/cal/evt.ics');
+    } catch (e: any) {
+      requestRefused = /internal address/.test(e.message);
+    }
+    check(requestRefused, 'stored and event URLs are checked on every request');
+
+    process.env.CALDAV_ALLOWED_HOSTS = 'dav.internal.example, 10.0.0.7';
+    check(await refusal('https://10.0.0.7/cal/') === null, 'allowed hosts may be internal');
+    check(/not allowed/.test(await refusal('https://93.184.216.34/cal/') ?? ''), 'with an allowlist other hosts are refused');
+    check(/https/.test(await refusal('http://10.0.0.7/cal/') ?? ''), 'allowed hosts still need https');
+  } finally {
+    delete process.env.CALDAV_ALLOWED_HOSTS;
+    process.env.NODE_ENV = nodeEnv;
+  }
+}
+
+// ============================================
+// RUN ALL TESTS
+// ============================================
+
+async function runAllTests() {
+  console.log('╔════════════════════════════════════════════╗');
+  console.log('║   Calendar Providers Test Suite            ║');
+  console.log('╚════════════════════════════════════════════╝');
+
+  try {
+    await testParseCalendar();
+    await testCalDav();
+    await testConnections();
+    await testCalDavUrlChecks();
+  } catch (error) {
+    console.error('\n✗ Test suite failed:', error);
+    process.exit(1);
+  }
+
+  console.log(failures === 0 ? '\nAll tests passed.\n' : `\n${failures} test(s) failed.\n`);
+  if (failures > 0) process.exit(1);
+}
+
+// Run tests if this is executed directly
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runAllTests();
+}
+
+export { runAllTests };
@@ -0,0 +1,43 @@
+import type { CalendarProvider, CalendarProviderName } from './calendarProvider.js';
+import { GoogleCalendarProvider } from './googleCalendarProvider.js';
+import { MicrosoftCalendarProvider } from './microsoftCalendarProvider.js';
+import { CalDavCalendarProvider } from './caldavCalendarProvider.js';
+
+let providers: Map<CalendarProviderName, CalendarProvider> | null = null;
+
+function loadProviders(): Map<CalendarProviderName, CalendarProvider> {
+  if (!providers) {
+    providers = new Map();
+    const configured: Array<CalendarProvider | null> = [
+      GoogleCalendarProvider.fromEnv(),
+      MicrosoftCalendarProvider.fromEnv(),
+      // CalDAV needs no app registration, so it is always available
+      new CalDavCalendarProvider(),
+    ];
+    for (const provider of configured) {
+      if (provider) providers.set(provider.name, provider);
+    }
+  }
+  return providers;
+}
+
+/**
+ * Provider implementation by name, or null when it is not configured on this server
+ */
+export function getCalendarProvider(name: CalendarProviderName): CalendarProvider | null {
+  return loadProviders().get(name) ?? null;
+}
+
+/**
+ * Providers users can connect on this server
+ */
+export function listCalendarProviders(): CalendarProvider[] {
+  return Array.from(loadProviders().values());
+}
+
+/**
+ * Replace the provider set (tests)
+ */
+export function setCalendarProviders(list: CalendarProvider[] | null): void {
+  providers = list ? new Map(list.map(provider => [provider.name, provider])) : null;
+}
@@ -1,97 +1,77 @@
-import { google } from 'googleapis';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { OAuthCredentials } from './oauthManager.js';
+import type { BusyTime, CalendarProvider, CalendarProviderName, ProviderEvent, ProviderEventResult } from './calendarProvider.js';
+import { getCalendarProvider } from './calendarProviders.js';
+import { isSlotAvailable, loadAvailabilityProfile } from './availability.js';
 
-export interface CalendarEvent {
-  id?: string;
-  summary: string;
-  description?: string;
-  start: string; // ISO string
-  end: string; // ISO string
-  attendees?: string[]; // emails
-  conferenceData?: any;
-}
+export type { BusyTime } from './calendarProvider.js';
 
-export interface BusyTime {
-  start: string; // ISO string
-  end: string; // ISO string
+export interface CalendarEvent extends ProviderEvent {
+  id?: string;
 }
 
 /**
- * Calendar service for per-user calendar operations
+ * Calendar service for per-user calendar operations, on whichever provider the user connected
  */
 export class CalendarService {
   private supabase: SupabaseClient;
+  private resolveProvider: (name: CalendarProviderName) => CalendarProvider | null;
 
-  constructor(supabase: SupabaseClient) {
+  constructor(supabase: SupabaseClient, resolveProvider: (name: CalendarProviderName) => CalendarProvider | null = getCalendarProvider) {
     this.supabase = supabase;
+    this.resolveProvider = resolveProvider;
   }
 
-  /**
-   * Create an event on user's calendar using OAuth credentials
-   */
-  async createEvent(userId: string, credentials: OAuthCredentials, event: CalendarEvent): Promise<{ id?: string; htmlLink?: string; conferenceLink?: string }> {
-    const oauth2Client = new google.auth.OAuth2(
-      process.env.GOOGLE_OAUTH_CLIENT_ID!,
-      process.env.GOOGLE_OAUTH_CLIENT_SECRET!,
-      process.env.GOOGLE_OAUTH_REDIRECT_URI!
-    );
-
-    oauth2Client.setCredentials({
-      access_token: credentials.accessToken,
-      refresh_token: credentials.refreshToken,
-    });
-
-    const calendar = google.calendar({ version: 'v3', auth: oauth2Client });
+  private provider(credentials: OAuthCredentials): CalendarProvider {
+    const name = credentials.provider ?? 'google';
+    const provider = this.resolveProvider(name);
+    if (!provider) throw new Error(`Calendar provider ${name} is not configured`);
+    return provider;
+  }
 
+  private async calendarId(userId: string): Promise<string> {
     const calendarSettings = await this.supabase
       .from('user_calendar_settings_eif')
       .select('calendar_id')
       .eq('user_id', userId)
       .maybeSingle();
 
-    const calendarId = calendarSettings.data?.calendar_id || 'primary';
-
-    const eventBody: any = {
-      summary: event.summary,
-      description: event.description || '',
-      start: { dateTime: event.start },
-      end: { dateTime: event.end },
-      attendees: (event.attendees || []).map(email => ({ email })),
-    };
+    return calendarSettings.data?.calendar_id || 'primary';
+  }
 
-    // Add conference data (Google Meet) if needed
-    if (event.conferenceData) {
-      eventBody.conferenceData = event.conferenceData;
+  /**
+   * Create an event on user's calendar
+   */
+  async createEvent(userId: string, credentials: OAuthCredentials, event: CalendarEvent): Promise<ProviderEventResult> {
+    try {
+      return await this.provider(credentials).createEvent(credentials, await this.calendarId(userId), event);
+    } catch (error: any) {
+      console.error('Failed to create calendar event:', error.message);
+      throw new Error(`Failed to create calendar event: ${error.message}`);
     }
+  }
 
+  /**
+   * Update an event previously created on user's calendar
+   */
+  async updateEvent(userId: string, credentials: OAuthCredentials, eventId: string, event: CalendarEvent): Promise<ProviderEventResult> {
     try {
-      const res = await calendar.events.insert({
-        calendarId,
-        requestBody: eventBody,
-        conferenceDataVersion: 1,
-        sendUpdates: 'all',
-      } as any);
-
-      const eventData = res.data as any;
-      let conferenceLink: string | undefined;
-
-      // Extract Meet URL from conference data
-      if (eventData.conferenceData?.entryPoints) {
-        const meetEntry = eventData.conferenceData.entryPoints.find(
-          (e: any) => e.entryPointType === 'video' || e.entryPointType === 'hangoutsMeet'
-        );
-        if (meetEntry?.uri) conferenceLink = meetEntry.uri;
-      }
+      return await this.provider(credentials).updateEvent(credentials, await this.calendarId(userId), eventId, event);
+    } catch (error: any) {
+      console.error('Failed to update calendar event:', error.message);
+      throw new Error(`Failed to update calendar event: ${error.message}`);
+    }
+  }
 
-      return {
-        id: eventData.id,
-        htmlLink: eventData.htmlLink,
-        conferenceLink,
-      };
+  /**
+   * Delete an event from user's calendar (already-deleted events are ignored)
+   */
+  async deleteEvent(userId: string, credentials: OAuthCredentials, eventId: string): Promise<void> {
+    try {
+      await this.provider(credentials).deleteEvent(credentials, await this.calendarId(userId), eventId);
     } catch (error: any) {
-      console.error('Failed to create calendar event:', error.message);
-      throw new Error(`Failed to create calendar event: ${error.message}`);
+      console.error('Failed to delete calendar event:', error.message);
+      throw new Error(`Failed to delete calendar event: ${error.message}`);
     }
   }
 
@@ -99,41 +79,8 @@ export class CalendarService {
    * Get busy times from user's calendar for a date range
    */
   async getBusyTimes(userId: string, credentials: OAuthCredentials, startTime: string, endTime: string): Promise<BusyTime[]> {
-    const oauth2Client = new google.auth.OAuth2(
-      process.env.GOOGLE_OAUTH_CLIENT_ID!,
-      process.env.GOOGLE_OAUTH_CLIENT_SECRET!,
-      process.env.GOOGLE_OAUTH_REDIRECT_URI!
-    );
-
-    oauth2Client.setCredentials({
-      access_token: credentials.accessToken,
-      refresh_token: credentials.refreshToken,
-    });
-
-    const calendar = google.calendar({ version: 'v3', auth: oauth2Client });
-
-    const calendarSettings = await this.supabase
-      .from('user_calendar_settings_eif')
-      .select('calendar_id')
-      .eq('user_id', userId)
-      .maybeSingle();
-
-    const calendarId = calendarSettings.data?.calendar_id || 'primary';
-
     try {
-      const res = await calendar.freebusy.query({
-        requestBody: {
-          timeMin: startTime,
-          timeMax: endTime,
-          items: [{ id: calendarId }],
-        },
-      } as any);
-
-      const busy = res.data?.calendars?.[calendarId]?.busy || [];
-      return busy.map((b: any) => ({
-        start: b.start,
-        end: b.end,
-      }));
+      return await this.provider(credentials).getBusyTimes(credentials, await this.calendarId(userId), startTime, endTime);
     } catch (error: any) {
       console.error('Failed to get busy times:', error.message);
       // Return empty array on error (don't block scheduling)
@@ -142,7 +89,8 @@ export class CalendarService {
   }
 
   /**
-   * Check if a time slot conflicts with user's calendar and availability
+   * Check if a time slot conflicts with user's calendar and availability: external busy times,
+   * weekly windows, overrides, blackouts, buffers and the daily meeting limit
    */
   async isTimeAvailable(
     userId: string,
@@ -171,25 +119,14 @@ export class CalendarService {
       }
     }
 
-    // 2. Check internal DB meeting conflicts
-    const { data: meetings, error } = await this.supabase
-      .from('meetings_eif')
-      .select('start_time, end_time')
-      .or(`participant_a_id.eq.${userId},participant_b_id.eq.${userId}`)
-      .gte('start_time', startTime.toISOString())
-      .lt('start_time', endTime.toISOString());
-
-    if (error) {
-      console.error('Error checking meeting conflicts:', error);
+    // 2. Check the user's own availability rules and their meetings in the portal
+    try {
+      const profile = await loadAvailabilityProfile(this.supabase, userId, startTime, endTime);
+      return isSlotAvailable(profile, startTime, endTime);
+    } catch (error) {
+      console.error('Error checking availability rules:', error);
       return true; // Assume available on error (conservative)
     }
-
-    // If any meeting overlaps, return false
-    if ((meetings || []).length > 0) {
-      return false;
-    }
-
-    return true;
   }
 
   /**
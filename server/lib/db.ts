@@ -1,17 +1,36 @@
 import supabase from "../supabase.js";
+import crypto from "crypto";
 import type { SupabaseClient } from "@supabase/supabase-js";
+import { sectorFamilyTerms } from "@shared/sectors";
+import { normalizeTimeZone } from "@shared/timezone";
+import { matchEngine, touchesScoringFields, INVESTOR_SCORING_FIELDS, COMPANY_SCORING_FIELDS } from "./matchEngine.js";
+import { DatabaseMatchCacheStore, resolveMatchCacheBackend } from "./matchCache.js";
+import { loadAvailabilitySettings, saveAvailabilitySettings, type AvailabilitySettings } from "./availability.js";
+import { proposalExpiry, type ProposalSlot } from "./proposals.js";
+import { SCHEDULED_STATUSES } from "./meetingRequestStates.js";
 
 const supabaseClient: SupabaseClient = supabase;
 
+// `MATCH_CACHE_BACKEND=database` shares match scores between processes through `match_scores_eif`
+if (resolveMatchCacheBackend() === 'database' && supabaseClient) {
+  matchEngine.useSharedStore(new DatabaseMatchCacheStore(supabaseClient));
+}
+
 function ensureSupabase() {
   if (!supabaseClient) {
     throw new Error(
-      "Supabase client not configured. Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (or SUPABASE_KEY) in your environment.",
+      "Supabase client not configured. Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (or SUPABASE_KEY) in your environment, or DATA_BACKEND=memory for the in-memory backend.",
     );
   }
   return supabaseClient;
 }
 
+// An ilike pattern for free text inside an `.or()` filter. `%` is escaped; a comma or parenthesis
+// would end the filter, so those match any single character instead.
+function searchPattern(search: string) {
+  return `%${search.replace(/%/g, '\\%').replace(/[,()]/g, '_')}%`;
+}
+
 export async function listInvestorProfiles(limit = 100) {
   const { data, error } = await ensureSupabase()
     .from("investor_profiles_eif")
@@ -21,6 +40,31 @@ export async function listInvestorProfiles(limit = 100) {
   return data;
 }
 
+export async function searchInvestorProfiles(opts: {
+  search?: string | null;
+  investorType?: string | null;
+  stage?: string | null;
+  limit?: number;
+}) {
+  const { search, investorType, stage, limit = 500 } = opts || {};
+  let query = ensureSupabase().from('investor_profiles_eif').select('*');
+
+  if (search) {
+    const like = searchPattern(search);
+    // search firm, name and bio, or an exact focus sector; the sector is quoted so
+    // commas and parentheses in it stay inside the array element
+    const sector = search.replace(/[{}"\\]/g, '').trim();
+    query = query.or(`firm.ilike.${like},full_name.ilike.${like},bio.ilike.${like}${sector ? `,sectors.cs.{"${sector}"}` : ''}`);
+  }
+
+  if (investorType) query = query.eq('investor_type', investorType);
+  if (stage) query = query.contains('stages', [stage]);
+
+  const { data, error } = await query.order('created_at', { ascending: false }).limit(limit);
+  if (error) throw error;
+  return data ?? [];
+}
+
 export async function getInvestorProfileByUserId(userId: string) {
   console.log(`[getInvestorProfileByUserId] Fetching profile for userId: ${userId}`);
   const { data, error } = await ensureSupabase()
@@ -52,7 +96,8 @@ export async function searchCompanyProfiles(opts: {
   sector?: string | null;
   stage?: string | null;
   page?: number;
-  pageSize?: number;
+  /** Null returns every match (callers that filter or rank the full list paginate themselves) */
+  pageSize?: number | null;
 }) {
   const { search, sector, stage, page = 1, pageSize = 12 } = opts || {};
   const sup = ensureSupabase();
@@ -60,17 +105,23 @@ export async function searchCompanyProfiles(opts: {
   let query = sup.from('company_profiles_eif').select('*', { count: 'exact' });
 
   if (search) {
-    const like = `%${search.replace(/%/g, '\\%')}%`;
+    const like = searchPattern(search);
     // search name or description
     query = query.or(`name.ilike.${like},description.ilike.${like}`);
   }
 
-  if (sector) query = query.eq('sector', sector);
+  if (sector) {
+    // A sector filter also matches its sub-sectors and synonyms ("Renewables" -> Solar, wind power, ...)
+    const terms = sectorFamilyTerms(sector).filter(term => !/[,()]/.test(term));
+    query = query.or(terms.map(term => `sector.ilike.${term}`).join(','));
+  }
   if (stage) query = query.eq('stage', stage);
 
-  const from = (Math.max(1, page) - 1) * pageSize;
-  const to = from + pageSize - 1;
-  query = query.range(from, to).order('created_at', { ascending: false });
+  if (pageSize !== null) {
+    const from = (Math.max(1, page) - 1) * pageSize;
+    query = query.range(from, from + pageSize - 1);
+  }
+  query = query.order('created_at', { ascending: false });
 
   const res = await query;
   if ((res as any).error) throw (res as any).error;
@@ -88,6 +139,7 @@ export async function getCompanyProfileByUserId(userId: string) {
 }
 
 export async function upsertCompanyProfile(userId: string, updates: Record<string, any>) {
+  const current = await getCompanyProfileByUserId(userId);
   const payload = { user_id: userId, ...updates };
   const { data, error } = await ensureSupabase()
     .from('company_profiles_eif')
@@ -95,6 +147,10 @@ export async function upsertCompanyProfile(userId: string, updates: Record<strin
     .select('*')
     .maybeSingle();
   if (error) throw error;
+  // Cached match scores for this company are stale once a scoring field changes
+  if (current && touchesScoringFields(COMPANY_SCORING_FIELDS, updates, current)) {
+    await matchEngine.invalidate({ companyId: userId });
+  }
   return data;
 }
 
@@ -104,7 +160,7 @@ export async function upsertInvestorProfile(userId: string, updates: Record<stri
   // First check if profile exists
   const { data: existingProfile, error: checkError } = await sup
     .from('investor_profiles_eif')
-    .select('user_id')
+    .select('*')
     .eq('user_id', userId)
     .maybeSingle();
 
@@ -154,6 +210,10 @@ export async function upsertInvestorProfile(userId: string, updates: Record<stri
     // If no error, return the data
     if (!(res as any).error) {
       console.log(`[upsertInvestorProfile] Update successful, returned data:`, (res as any).data);
+      // Cached match scores for this investor are stale once a scoring field changes
+      if (touchesScoringFields(INVESTOR_SCORING_FIELDS, payload, existingProfile)) {
+        await matchEngine.invalidate({ investorId: userId });
+      }
       return (res as any).data;
     }
 
@@ -195,10 +255,28 @@ export async function createMeetingRequest(fromUserId: string, toUserId: string,
   return data;
 }
 
-export async function createTimeProposal(meetingRequestId: string, proposedByUserId: string, startTime: string, endTime: string, timezone = 'UTC') {
-  const { data, error } = await ensureSupabase()
+// A proposal with candidate slots in rank order; earlier pending proposals on the request are superseded
+export async function createTimeProposal(meetingRequestId: string, proposedByUserId: string, slots: ProposalSlot[], timezone = 'UTC', counterToProposalId: string | null = null) {
+  const sup = ensureSupabase();
+  const { error: supersedeError } = await sup
+    .from('time_proposals_eif')
+    .update({ status: 'SUPERSEDED' })
+    .eq('meeting_request_id', meetingRequestId)
+    .eq('status', 'PENDING');
+  if (supersedeError) throw supersedeError;
+
+  const { data, error } = await sup
     .from('time_proposals_eif')
-    .insert({ meeting_request_id: meetingRequestId, proposed_by_user_id: proposedByUserId, start_time: startTime, end_time: endTime, timezone })
+    .insert({
+      meeting_request_id: meetingRequestId,
+      proposed_by_user_id: proposedByUserId,
+      start_time: slots[0].start_time,
+      end_time: slots[0].end_time,
+      slots,
+      timezone,
+      expires_at: proposalExpiry(slots),
+      counter_to_proposal_id: counterToProposalId,
+    })
     .select('*')
     .maybeSingle();
   if (error) throw error;
@@ -219,6 +297,80 @@ export async function updateTimeProposalStatus(proposalId: string, status: strin
   return data;
 }
 
+// Accept one of the proposal's slots; start_time/end_time become the accepted slot
+export async function acceptTimeProposalSlot(proposalId: string, slot: ProposalSlot, slotIndex: number) {
+  const sup = ensureSupabase();
+  const { data, error } = await sup
+    .from('time_proposals_eif')
+    .update({ status: 'ACCEPTED', accepted_slot: slotIndex, start_time: slot.start_time, end_time: slot.end_time })
+    .eq('id', proposalId)
+    .select('*')
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+// Mark pending proposals past their expiry as EXPIRED; returns the rows that just expired
+export async function expireStaleProposals(now: Date = new Date()) {
+  const { data, error } = await ensureSupabase()
+    .from('time_proposals_eif')
+    .update({ status: 'EXPIRED' })
+    .eq('status', 'PENDING')
+    .lte('expires_at', now.toISOString())
+    .select('*');
+  if (error) throw error;
+  return data ?? [];
+}
+
+// Move a meeting request from `fromStatus` (the stored value; null for rows from before statuses,
+// which count as PENDING) to `toStatus` and record it in the audit trail. Returns null when the
+// request is no longer in `fromStatus` (someone else changed it first).
+export async function transitionMeetingRequest(
+  meetingId: string,
+  fromStatus: string | null,
+  toStatus: string,
+  actorUserId: string | null,
+  options: { reason?: string | null; updates?: Record<string, any> } = {},
+) {
+  const sup = ensureSupabase();
+  let query = sup
+    .from('meeting_requests_eif')
+    .update({ ...(options.updates ?? {}), status: toStatus, updated_at: new Date().toISOString() })
+    .eq('id', meetingId);
+  query = fromStatus === null ? query.is('status', null) : query.eq('status', fromStatus);
+  const { data, error } = await query.select('*').maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+
+  const { error: auditError } = await sup
+    .from('meeting_request_transitions_eif')
+    .insert({ meeting_request_id: meetingId, from_status: fromStatus ?? 'PENDING', to_status: toStatus, actor_user_id: actorUserId, reason: options.reason ?? null });
+  if (auditError) throw auditError;
+  return data;
+}
+
+// Audit trail of a meeting request's status changes, oldest first
+export async function listMeetingRequestTransitions(meetingId: string) {
+  const { data, error } = await ensureSupabase()
+    .from('meeting_request_transitions_eif')
+    .select('*')
+    .eq('meeting_request_id', meetingId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return data ?? [];
+}
+
+// Pending requests created before `cutoff`, which expire unanswered
+export async function listStalePendingMeetingRequests(cutoff: Date) {
+  const { data, error } = await ensureSupabase()
+    .from('meeting_requests_eif')
+    .select('*')
+    .or('status.eq.PENDING,status.is.null')
+    .lt('created_at', cutoff.toISOString());
+  if (error) throw error;
+  return data ?? [];
+}
+
 export async function listMeetingRequestsForUser(userId: string) {
   // Include time proposals as a nested relation so the UI can show proposed times
   const { data, error } = await ensureSupabase()
@@ -251,16 +403,42 @@ export async function updateMeetingRequest(meetingId: string, updates: Record<st
   return data;
 }
 
-// Delete upcoming meetings between a pair of participants (if any)
-export async function deleteFutureMeetingsForParticipants(participantA: string, participantB: string) {
+// Cancel upcoming meetings between a pair of participants (if any). Rows are kept with
+// status CANCELLED and a bumped sequence so calendar feeds can publish the cancellation.
+export async function cancelFutureMeetingsForParticipants(participantA: string, participantB: string) {
   const sup = ensureSupabase();
   const now = new Date().toISOString();
-  // Delete meetings where the pair matches either ordering
-  const { data, error } = await sup.from('meetings_eif').delete().or(
+  // Match meetings where the pair matches either ordering
+  const { data, error } = await sup.from('meetings_eif').select('*').or(
     `and(participant_a_id.eq.${participantA},participant_b_id.eq.${participantB}),and(participant_a_id.eq.${participantB},participant_b_id.eq.${participantA})`
-  ).gte('start_time', now).select('*');
+  ).or('status.is.null,status.neq.CANCELLED').gte('start_time', now);
   if (error) throw error;
-  return data ?? [];
+  return cancelMeetings(data ?? []);
+}
+
+// Cancel every active meeting created from a meeting request (request cancelled or declined)
+export async function cancelMeetingsForRequest(meetingRequestId: string) {
+  const { data, error } = await ensureSupabase().from('meetings_eif')
+    .select('*')
+    .eq('meeting_request_id', meetingRequestId)
+    .or('status.is.null,status.neq.CANCELLED');
+  if (error) throw error;
+  return cancelMeetings(data ?? []);
+}
+
+async function cancelMeetings(meetings: any[]) {
+  const sup = ensureSupabase();
+  const cancelled = [];
+  for (const meeting of meetings) {
+    const { data, error } = await sup.from('meetings_eif')
+      .update({ status: 'CANCELLED', sequence: Number(meeting.sequence ?? 0) + 1 })
+      .eq('id', meeting.id)
+      .select('*')
+      .maybeSingle();
+    if (error) throw error;
+    if (data) cancelled.push(data);
+  }
+  return cancelled;
 }
 
 // Record a profile view event
@@ -285,6 +463,67 @@ export async function recordDeckDownload(downloaderUserId: string | null, target
   return data;
 }
 
+// Favorites (investor watchlist). `user_id` is the investor, `favorite_user_id` the saved company.
+
+// Save a company to an investor's watchlist. Returns the favorite row and whether it was newly created.
+export async function addFavorite(userId: string, favoriteUserId: string) {
+  const sup = ensureSupabase();
+  const { data: existing, error: findErr } = await sup.from('favorites_eif')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('favorite_user_id', favoriteUserId)
+    .maybeSingle();
+  if (findErr) throw findErr;
+  if (existing) return { favorite: existing, created: false };
+
+  const { data, error } = await sup.from('favorites_eif')
+    .insert({ user_id: userId, favorite_user_id: favoriteUserId })
+    .select('*')
+    .maybeSingle();
+  if (error) throw error;
+  return { favorite: data, created: true };
+}
+
+// Remove a company from an investor's watchlist
+export async function removeFavorite(userId: string, favoriteUserId: string) {
+  const { data, error } = await ensureSupabase()
+    .from('favorites_eif')
+    .delete()
+    .eq('user_id', userId)
+    .eq('favorite_user_id', favoriteUserId)
+    .select('*');
+  if (error) throw error;
+  return data ?? [];
+}
+
+// List saved companies for an investor, with their current match score
+export async function listFavoriteCompaniesForUser(userId: string) {
+  const sup = ensureSupabase();
+  const { data: favorites, error } = await sup.from('favorites_eif')
+    .select('favorite_user_id, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  if (!favorites || favorites.length === 0) return [];
+
+  const ids = favorites.map((f: any) => f.favorite_user_id);
+  const { data: companies, error: compErr } = await sup.from('company_profiles_eif').select('*').in('user_id', ids);
+  if (compErr) throw compErr;
+
+  const { data: investor } = await sup.from('investor_profiles_eif').select('*').eq('user_id', userId).maybeSingle();
+
+  const byUserId = new Map((companies ?? []).map((c: any) => [c.user_id, c]));
+  const saved = favorites.filter((f: any) => byUserId.has(f.favorite_user_id));
+  const scores = investor
+    ? await matchEngine.calculateMatches(saved.map((f: any) => ({ investor, company: byUserId.get(f.favorite_user_id) })))
+    : [];
+  return saved.map((f: any, i: number) => ({
+    ...byUserId.get(f.favorite_user_id),
+    saved_at: f.created_at,
+    matchScore: scores[i],
+  }));
+}
+
 // Compute overview metrics for a company (profile owner)
 export async function getCompanyOverviewMetrics(userId: string) {
   const sup = ensureSupabase();
@@ -392,17 +631,17 @@ export async function getRecommendedCompanies(investorUserId: string, limit = 4)
   if (error) throw error;
   if (!companies || companies.length === 0) return [];
 
-  // Import match engine
-  const { matchEngine } = await import('./matchEngine.js');
-
   // Calculate match scores for each company
-  const companiesWithScores = companies.map(company => ({
+  const scores = await matchEngine.calculateMatches(companies.map(company => ({ investor, company })));
+  const companiesWithScores = companies.map((company, i) => ({
     ...company,
-    matchScore: matchEngine.calculateMatch(investor, company),
+    matchScore: scores[i],
   }));
 
-  // Sort by overall match score (descending) then by creation date
+  // Drop companies that hit one of the investor's deal breakers, then sort by
+  // overall match score (descending) and creation date
   const sorted = companiesWithScores
+    .filter(company => !company.matchScore.excluded)
     .sort((a, b) => {
       const scoreDiff = b.matchScore.overall - a.matchScore.overall;
       if (scoreDiff !== 0) return scoreDiff;
@@ -414,6 +653,24 @@ export async function getRecommendedCompanies(investorUserId: string, limit = 4)
   return sorted;
 }
 
+// Score investors against a company (the reverse direction of getRecommendedCompanies).
+// Investors whose deal breakers exclude the company are dropped.
+export async function getRecommendedInvestors(companyUserId: string, filters: { search?: string | null; investorType?: string | null; stage?: string | null } = {}) {
+  const company = await getCompanyProfileByUserId(companyUserId);
+  if (!company) return null;
+
+  const investors = await searchInvestorProfiles(filters);
+  const scores = await matchEngine.calculateMatches(investors.map(investor => ({ investor, company })));
+
+  return investors
+    .map((investor, i) => ({
+      ...investor,
+      matchScore: scores[i],
+    }))
+    .filter(investor => !investor.matchScore.excluded)
+    .sort((a, b) => b.matchScore.overall - a.matchScore.overall);
+}
+
 // Get upcoming meetings for an investor
 export async function getUpcomingMeetings(userId: string, limit = 5) {
   const sup = ensureSupabase();
@@ -421,7 +678,7 @@ export async function getUpcomingMeetings(userId: string, limit = 5) {
   const { data, error } = await sup.from('meeting_requests_eif')
     .select('*, time_proposals_eif(*)')
     .or(`from_user_id.eq.${userId},to_user_id.eq.${userId}`)
-    .eq('status', 'CONFIRMED')
+    .in('status', SCHEDULED_STATUSES)
     .order('updated_at', { ascending: false })
     .limit(limit);
   
@@ -510,7 +767,17 @@ export async function createMeetingFromRequest(meetingRequestId: string, startTi
   const participantA = reqData.from_user_id;
   const participantB = reqData.to_user_id;
 
+  // Meetings for the same request share a calendar UID; each new one gets a higher sequence
+  const { data: previous, error: prevErr } = await sup.from('meetings_eif')
+    .select('sequence')
+    .eq('meeting_request_id', meetingRequestId)
+    .order('sequence', { ascending: false })
+    .limit(1);
+  if (prevErr) throw prevErr;
+  const sequence = previous && previous.length > 0 ? Number(previous[0].sequence ?? 0) + 1 : 0;
+
   const payload: any = {
+    meeting_request_id: meetingRequestId,
     participant_a_id: participantA,
     participant_b_id: participantB,
     start_time: startTime,
@@ -518,6 +785,8 @@ export async function createMeetingFromRequest(meetingRequestId: string, startTi
     timezone,
     location_type: location_type ?? null,
     location_url: location_url ?? null,
+    status: 'CONFIRMED',
+    sequence,
   };
 
   const { data, error } = await sup.from('meetings_eif').insert(payload).select('*').maybeSingle();
@@ -526,23 +795,70 @@ export async function createMeetingFromRequest(meetingRequestId: string, startTi
 }
 
 // List upcoming meetings for a user (as participant A or B)
-export async function listMeetingsForUser(userId: string, limit = 50) {
+export async function listMeetingsForUser(userId: string, limit = 50, opts: { includeCancelled?: boolean; since?: string } = {}) {
   const sup = ensureSupabase();
-  const now = new Date().toISOString();
-  const { data, error } = await sup.from('meetings_eif')
+  const since = opts.since ?? new Date().toISOString();
+  let query = sup.from('meetings_eif')
     .select('*')
     .or(`participant_a_id.eq.${userId},participant_b_id.eq.${userId}`)
-    .gte('start_time', now)
+    .gte('start_time', since);
+  if (!opts.includeCancelled) query = query.or('status.is.null,status.neq.CANCELLED');
+  const { data, error } = await query
     .order('start_time', { ascending: true })
     .limit(limit);
   if (error) throw error;
   return data ?? [];
 }
 
-// Optional: update an existing meeting record's location/url
+export async function getMeetingById(meetingId: string) {
+  const { data, error } = await ensureSupabase().from('meetings_eif').select('*').eq('id', meetingId).maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+// The active meeting for a meeting request (the latest one after reschedules), if any
+export async function getCurrentMeetingForRequest(meetingRequestId: string) {
+  const { data, error } = await ensureSupabase().from('meetings_eif')
+    .select('*')
+    .eq('meeting_request_id', meetingRequestId)
+    .or('status.is.null,status.neq.CANCELLED')
+    .order('sequence', { ascending: false })
+    .limit(1);
+  if (error) throw error;
+  return data?.[0] ?? null;
+}
+
+// Calendar subscription tokens (one per user; rotating replaces the old token)
+export async function getCalendarFeedToken(userId: string, opts: { rotate?: boolean } = {}) {
+  const sup = ensureSupabase();
+  if (!opts.rotate) {
+    const { data, error } = await sup.from('calendar_feed_tokens_eif').select('token').eq('user_id', userId).maybeSingle();
+    if (error) throw error;
+    if (data?.token) return data.token as string;
+  }
+  const token = crypto.randomBytes(24).toString('hex');
+  const { error } = await sup.from('calendar_feed_tokens_eif')
+    .upsert({ user_id: userId, token, created_at: new Date().toISOString() }, { onConflict: 'user_id' });
+  if (error) throw error;
+  return token;
+}
+
+export async function getUserIdByCalendarFeedToken(token: string) {
+  const { data, error } = await ensureSupabase().from('calendar_feed_tokens_eif').select('user_id').eq('token', token).maybeSingle();
+  if (error) throw error;
+  return (data?.user_id as string | undefined) ?? null;
+}
+
+// Update an existing meeting record's location/url (bumps the sequence so calendars pick up the change)
 export async function updateMeetingLocation(meetingId: string, location_type?: string, location_url?: string) {
   const sup = ensureSupabase();
-  const { data, error } = await sup.from('meetings_eif').update({ location_type: location_type ?? null, location_url: location_url ?? null }).eq('id', meetingId).select('*').maybeSingle();
+  const current = await getMeetingById(meetingId);
+  if (!current) return null;
+  const { data, error } = await sup.from('meetings_eif').update({
+    location_type: location_type ?? null,
+    location_url: location_url ?? null,
+    sequence: Number(current.sequence ?? 0) + 1,
+  }).eq('id', meetingId).select('*').maybeSingle();
   if (error) throw error;
   return data;
 }
@@ -555,16 +871,20 @@ export async function deleteMeetingById(meetingId: string) {
   return data;
 }
 
-// Find a meeting_request that matches the given participant ids and start_time (optional)
-export async function findMeetingRequestByParticipants(participantA: string, participantB: string, startTime?: string | null) {
+// Find the latest meeting_request between two users, whichever of them sent it
+export async function findMeetingRequestByParticipants(participantA: string, participantB: string) {
   const sup = ensureSupabase();
-  // Search for meeting_requests where the pair of users match either ordering. Optionally match start_time in proposals or created
-  let q = sup.from('meeting_requests_eif').select('*').or(
-    `and(from_user_id.eq.${participantA},to_user_id.eq.${participantB}),and(from_user_id.eq.${participantB},to_user_id.eq.${participantA})`
-  );
-  const { data, error } = await q.order('created_at', { ascending: false }).limit(1);
-  if (error) throw error;
-  return (data && data.length > 0) ? data[0] : null;
+  // One query per direction: ids are never spliced into a filter string
+  const latest = async (from: string, to: string) => {
+    const { data, error } = await sup.from('meeting_requests_eif').select('*')
+      .eq('from_user_id', from).eq('to_user_id', to)
+      .order('created_at', { ascending: false }).limit(1);
+    if (error) throw error;
+    return data?.[0] ?? null;
+  };
+  const [sent, received] = await Promise.all([latest(participantA, participantB), latest(participantB, participantA)]);
+  if (!sent || !received) return sent ?? received;
+  return String(sent.created_at) >= String(received.created_at) ? sent : received;
 }
 
 // Delete a time proposal by id
@@ -583,25 +903,90 @@ export async function createMessage(fromUserId: string, toUserId: string, conten
   return data;
 }
 
-// List messages between two users
-export async function listMessagesBetweenUsers(userA: string, userB: string, limit = 100) {
+// List messages between two users (oldest first). Pass `before` (a created_at
+// timestamp) to page backwards through older messages.
+export async function listMessagesBetweenUsers(userA: string, userB: string, limit = 100, before?: string | null, beforeId?: string | null) {
+  const sup = ensureSupabase();
+  // One query per direction (ids are never spliced into a filter string), each taking the newest
+  // `limit` ordered by (created_at, id); the newest `limit` of both are then returned in
+  // chronological order. With `beforeId` the cursor is compound, so messages sharing the
+  // cursor's timestamp but with a lower id are not skipped.
+  const newest = async (from: string, to: string, filter: (query: any) => any) => {
+    const { data, error } = await filter(sup.from('messages_eif').select('*').eq('from_user_id', from).eq('to_user_id', to))
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit);
+    if (error) throw error;
+    return data ?? [];
+  };
+  const page = async (from: string, to: string) => {
+    if (!before) return newest(from, to, query => query);
+    const older = await newest(from, to, query => query.lt('created_at', before));
+    if (!beforeId) return older;
+    const sameTime = await newest(from, to, query => query.eq('created_at', before).lt('id', beforeId));
+    return [...sameTime, ...older];
+  };
+  const newestFirst = (a: any, b: any) =>
+    String(b.created_at).localeCompare(String(a.created_at)) || String(b.id).localeCompare(String(a.id));
+  const [sent, received] = await Promise.all([page(userA, userB), page(userB, userA)]);
+  return [...sent, ...received]
+    .sort(newestFirst)
+    .slice(0, limit)
+    .reverse();
+}
+
+// Summarize a user's conversations: one entry per counterpart with the last message and unread count
+export async function listConversationsForUser(userId: string, scanLimit = 1000) {
+  const sup = ensureSupabase();
+  const { data, error } = await sup.from('messages_eif')
+    .select('*')
+    .or(`from_user_id.eq.${userId},to_user_id.eq.${userId}`)
+    .order('created_at', { ascending: false })
+    .limit(scanLimit);
+  if (error) throw error;
+
+  const conversations = new Map<string, { other_user_id: string; last_message: any; unread_count: number }>();
+  for (const message of data ?? []) {
+    const otherUserId = message.from_user_id === userId ? message.to_user_id : message.from_user_id;
+    let conversation = conversations.get(otherUserId);
+    if (!conversation) {
+      // rows are newest first, so the first one seen is the last message
+      conversation = { other_user_id: otherUserId, last_message: message, unread_count: 0 };
+      conversations.set(otherUserId, conversation);
+    }
+    if (message.to_user_id === userId && !message.is_read) conversation.unread_count++;
+  }
+  return Array.from(conversations.values());
+}
+
+// Mark every unread message from `otherUserId` to `userId` as read
+export async function markMessagesRead(userId: string, otherUserId: string) {
   const sup = ensureSupabase();
-  const { data, error } = await sup.from('messages_eif').select('*').or(`and(from_user_id.eq.${userA},to_user_id.eq.${userB}),and(from_user_id.eq.${userB},to_user_id.eq.${userA})`).order('created_at', { ascending: true }).limit(limit);
+  const { data, error } = await sup.from('messages_eif')
+    .update({ is_read: true, read_at: new Date().toISOString() })
+    .eq('to_user_id', userId)
+    .eq('from_user_id', otherUserId)
+    .eq('is_read', false)
+    .select('*');
   if (error) throw error;
   return data ?? [];
 }
 
 // Availability and Meeting Arrangement Functions
 
+// Replace the user's windows for one weekday with a single window (the editor saves through saveUserAvailability)
 export async function createUserAvailabilitySchedule(userId: string, dayOfWeek: number, availableFrom: string, availableTo: string, timezone: string = 'UTC') {
   const sup = ensureSupabase();
+  const { error: deleteError } = await sup
+    .from('user_availability_schedules_eif')
+    .delete()
+    .eq('user_id', userId)
+    .eq('day_of_week', dayOfWeek);
+  if (deleteError) throw deleteError;
   const { data, error } = await sup
     .from('user_availability_schedules_eif')
-    .upsert(
-      // schema fields are `start_time` / `end_time` (type `time`) — ensure payload matches
-      { user_id: userId, day_of_week: dayOfWeek, start_time: availableFrom, end_time: availableTo, timezone },
-      { onConflict: 'user_id, day_of_week' }
-    )
+    // schema fields are `start_time` / `end_time` (type `time`) — ensure payload matches
+    .insert({ user_id: userId, day_of_week: dayOfWeek, start_time: availableFrom, end_time: availableTo, timezone: normalizeTimeZone(timezone) })
     .select('*')
     .maybeSingle();
   if (error) throw error;
@@ -619,6 +1004,26 @@ export async function getUserAvailabilitySchedule(userId: string) {
   return data ?? [];
 }
 
+// Weekly windows, date overrides, blackouts, buffer and daily limit as edited in settings
+export async function getUserAvailability(userId: string) {
+  return loadAvailabilitySettings(ensureSupabase(), userId);
+}
+
+export async function saveUserAvailability(userId: string, settings: AvailabilitySettings) {
+  return saveAvailabilitySettings(ensureSupabase(), userId, settings);
+}
+
+// IANA timezone of each user (legacy abbreviations mapped, unknown values as UTC), keyed by id
+export async function getUserTimezones(userIds: string[]): Promise<Record<string, string>> {
+  const ids = Array.from(new Set(userIds.filter(Boolean)));
+  if (ids.length === 0) return {};
+  const { data, error } = await ensureSupabase().from('users_eif').select('id, availability_timezone').in('id', ids);
+  if (error) throw error;
+  const zones: Record<string, string> = {};
+  for (const row of data ?? []) zones[row.id] = normalizeTimeZone(row.availability_timezone);
+  return zones;
+}
+
 export async function recordIdleHours(userId: string, startTime: string, endTime: string, timezone: string = 'UTC', notes?: string) {
   const sup = ensureSupabase();
   const { data, error } = await sup
@@ -715,3 +1120,223 @@ export async function updateAutomaticMeetingMatch(matchId: string, updates: Reco
   return data;
 }
 
+
+// Email outbox (see lib/mailer.ts)
+export async function createOutboxEmail(row: Record<string, any>) {
+  const { data, error } = await ensureSupabase().from('email_outbox_eif').insert(row).select('*').maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+export async function updateOutboxEmail(id: string, updates: Record<string, any>) {
+  const { data, error } = await ensureSupabase()
+    .from('email_outbox_eif')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select('*')
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+export async function getOutboxEmailById(id: string) {
+  const { data, error } = await ensureSupabase().from('email_outbox_eif').select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+// Pending emails whose next attempt is due, oldest first
+export async function listDueOutboxEmails(limit = 20) {
+  const { data, error } = await ensureSupabase()
+    .from('email_outbox_eif')
+    .select('*')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(limit);
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function listOutboxEmails(opts: { status?: string | null; limit?: number } = {}) {
+  const { status, limit = 100 } = opts;
+  let query = ensureSupabase()
+    .from('email_outbox_eif')
+    .select('id, to_address, template, subject, status, transport, attempts, max_attempts, last_error, next_attempt_at, sent_at, created_at, updated_at');
+  if (status) query = query.eq('status', status);
+  const { data, error } = await query.order('created_at', { ascending: false }).limit(limit);
+  if (error) throw error;
+  return data ?? [];
+}
+
+// Platform settings, one row per key (see platformSettings.ts)
+export async function listPlatformSettings() {
+  const { data, error } = await ensureSupabase().from('platform_settings_eif').select('*');
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function savePlatformSettings(values: Record<string, any>, updatedBy: string | null) {
+  const now = new Date().toISOString();
+  const rows = Object.entries(values).map(([key, value]) => ({ key, value, updated_by: updatedBy, updated_at: now }));
+  if (rows.length === 0) return [];
+  const { data, error } = await ensureSupabase().from('platform_settings_eif').upsert(rows, { onConflict: 'key' }).select('*');
+  if (error) throw error;
+  return data ?? [];
+}
+
+// Sign-in sessions (see sessions.ts). Only hashes of refresh tokens are stored.
+export async function createSession(values: { user_id: string; refresh_token_hash: string; user_agent: string | null; ip: string | null; expires_at: string }) {
+  const now = new Date().toISOString();
+  const { data, error } = await ensureSupabase().from('sessions_eif').insert({ ...values, last_seen_at: now }).select('*').maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+export async function getSessionById(sessionId: string) {
+  const { data, error } = await ensureSupabase().from('sessions_eif').select('*').eq('id', sessionId).maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+// Replace the refresh token, unless another request rotated it first (then null)
+export async function rotateSessionToken(sessionId: string, currentHash: string, updates: { refresh_token_hash: string; user_agent: string | null; ip: string | null; expires_at: string }) {
+  const now = new Date().toISOString();
+  const { data, error } = await ensureSupabase()
+    .from('sessions_eif')
+    .update({ ...updates, previous_token_hash: currentHash, rotated_at: now, last_seen_at: now, updated_at: now })
+    .eq('id', sessionId)
+    .eq('refresh_token_hash', currentHash)
+    .is('revoked_at', null)
+    .select('*')
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+// Active sessions of a user, most recently used first
+export async function listActiveSessionsForUser(userId: string) {
+  const { data, error } = await ensureSupabase()
+    .from('sessions_eif')
+    .select('id, user_agent, ip, created_at, last_seen_at, expires_at')
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .order('last_seen_at', { ascending: false });
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function revokeSession(sessionId: string, reason: string) {
+  const now = new Date().toISOString();
+  const { data, error } = await ensureSupabase()
+    .from('sessions_eif')
+    .update({ revoked_at: now, revoked_reason: reason, updated_at: now })
+    .eq('id', sessionId)
+    .is('revoked_at', null)
+    .select('*')
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+// Revoke every session of a user, optionally keeping one (the caller's own)
+export async function revokeSessionsForUser(userId: string, reason: string, exceptSessionId?: string | null) {
+  const now = new Date().toISOString();
+  let query = ensureSupabase()
+    .from('sessions_eif')
+    .update({ revoked_at: now, revoked_reason: reason, updated_at: now })
+    .eq('user_id', userId)
+    .is('revoked_at', null);
+  if (exceptSessionId) query = query.neq('id', exceptSessionId);
+  const { data, error } = await query.select('id');
+  if (error) throw error;
+  return data ?? [];
+}
+
+// Two-factor authentication (see twoFactor.ts), one row per user that started enrolling
+export async function getTwoFactorByUserId(userId: string) {
+  const { data, error } = await ensureSupabase().from('two_factor_eif').select('*').eq('user_id', userId).maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+export async function saveTwoFactor(userId: string, values: Record<string, any>) {
+  const now = new Date().toISOString();
+  const { data, error } = await ensureSupabase()
+    .from('two_factor_eif')
+    .upsert({ user_id: userId, ...values, updated_at: now }, { onConflict: 'user_id' })
+    .select('*')
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+// Update the row only if `failed_attempts` is still `expectedAttempts` (null when another request got there first)
+export async function updateTwoFactorAttempts(userId: string, expectedAttempts: number, values: { failed_attempts: number; locked_until: string | null }) {
+  const { data, error } = await ensureSupabase()
+    .from('two_factor_eif')
+    .update({ ...values, updated_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('failed_attempts', expectedAttempts)
+    .select('*')
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+// Record the time step of an accepted code, unless it was already used (then null)
+export async function recordTwoFactorStep(userId: string, step: number, previousStep: number | null) {
+  let query = ensureSupabase()
+    .from('two_factor_eif')
+    .update({ last_used_step: step, failed_attempts: 0, locked_until: null, updated_at: new Date().toISOString() })
+    .eq('user_id', userId);
+  query = previousStep === null ? query.is('last_used_step', null) : query.eq('last_used_step', previousStep);
+  const { data, error } = await query.select('*').maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteTwoFactor(userId: string) {
+  const { error: codesError } = await ensureSupabase().from('two_factor_recovery_codes_eif').delete().eq('user_id', userId);
+  if (codesError) throw codesError;
+  const { data, error } = await ensureSupabase().from('two_factor_eif').delete().eq('user_id', userId).select('user_id');
+  if (error) throw error;
+  return data ?? [];
+}
+
+// Only hashes of recovery codes are stored
+export async function replaceRecoveryCodes(userId: string, codeHashes: string[]) {
+  const { error: deleteError } = await ensureSupabase().from('two_factor_recovery_codes_eif').delete().eq('user_id', userId);
+  if (deleteError) throw deleteError;
+  const { error } = await ensureSupabase().from('two_factor_recovery_codes_eif').insert(codeHashes.map(code_hash => ({ user_id: userId, code_hash })));
+  if (error) throw error;
+}
+
+// Mark a recovery code used, unless it is unknown or already used (then null)
+export async function useRecoveryCode(userId: string, codeHash: string) {
+  const { data, error } = await ensureSupabase()
+    .from('two_factor_recovery_codes_eif')
+    .update({ used_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('code_hash', codeHash)
+    .is('used_at', null)
+    .select('id')
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+export async function countUnusedRecoveryCodes(userId: string): Promise<number> {
+  const { data, error } = await ensureSupabase().from('two_factor_recovery_codes_eif').select('id').eq('user_id', userId).is('used_at', null);
+  if (error) throw error;
+  return (data ?? []).length;
+}
+
+// Which of these users have two-factor authentication turned on
+export async function listTwoFactorEnabledUserIds(userIds: string[]): Promise<string[]> {
+  if (userIds.length === 0) return [];
+  const { data, error } = await ensureSupabase().from('two_factor_eif').select('user_id, enabled_at').in('user_id', userIds);
+  if (error) throw error;
+  return (data ?? []).filter((row: any) => row.enabled_at).map((row: any) => row.user_id);
+}
@@ -0,0 +1,178 @@
+import { normalizeTimeZone } from '@shared/timezone';
+import type { CalendarEvent } from './ical.js';
+import { buildInvite, formatMeetingTime, type InviteMethod } from './meetingInvites.js';
+
+/**
+ * Named email templates. Each template takes typed data and renders a subject, an HTML
+ * body and a plain-text body; `mailer.sendEmail` renders by name and queues the result.
+ */
+
+export interface EmailTemplateData {
+  verifyEmail: { verifyLink: string; welcome?: boolean };
+  passwordReset: { resetLink: string };
+  accountInvite: { setPasswordLink: string; email: string };
+  accountApproved: { loginLink: string; note?: string | null };
+  accountRejected: { reason: string };
+  twoFactorReset: { loginLink: string };
+  /** `timezone` is the recipient's; `otherTimezone` (the other participant's) adds a second rendering of the time */
+  rescheduleRequested: {
+    start: string;
+    end: string;
+    /** Candidate slots in the proposer's order of preference; `start`/`end` is the first */
+    slots?: { start: string; end: string }[];
+    /** The proposal answers one of the recipient's own */
+    counter?: boolean;
+    timezone?: string;
+    otherTimezone?: string;
+    acceptUrl: string;
+    declineUrl: string;
+  };
+  rescheduleDeclined: { start: string; timezone?: string };
+  meetingInvite: { event: CalendarEvent; method: InviteMethod; timezone?: string; otherTimezone?: string };
+}
+
+export type EmailTemplateName = keyof EmailTemplateData;
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+  /** iTIP calendar part, sent as a text/calendar alternative */
+  icalEvent?: { method: string; filename: string; content: string };
+}
+
+export function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function layout(body: string): string {
+  return `<div style="font-family:Arial,Helvetica,sans-serif;font-size:14px;line-height:1.5;color:#111">${body}`
+    + '<p style="color:#666;font-size:12px;margin-top:24px">EIF Portal</p></div>';
+}
+
+/**
+ * "... for the other participant" line when they are in a different timezone
+ */
+function otherZoneLine(start: string | Date, timezone?: string, otherTimezone?: string): string | null {
+  if (!otherTimezone || normalizeTimeZone(otherTimezone) === normalizeTimeZone(timezone)) return null;
+  return `For the other participant: ${formatMeetingTime(start, otherTimezone)}`;
+}
+
+function link(href: string, label: string): string {
+  return `<a href="${escapeHtml(href)}">${escapeHtml(label)}</a>`;
+}
+
+const templates: { [K in EmailTemplateName]: (data: EmailTemplateData[K]) => RenderedEmail } = {
+  verifyEmail: ({ verifyLink, welcome }) => ({
+    subject: 'Verify your email',
+    html: layout(`<p>${welcome ? 'Welcome to EIF. ' : ''}Please verify your email by clicking ${link(verifyLink, 'this link')}.</p>`),
+    text: `${welcome ? 'Welcome to EIF. ' : ''}Please verify your email by opening this link:\n${verifyLink}`,
+  }),
+
+  passwordReset: ({ resetLink }) => ({
+    subject: 'Reset your EIF password',
+    html: layout(`<p>Reset your password by clicking ${link(resetLink, 'this link')}.</p><p>If you did not ask for a reset, you can ignore this email.</p>`),
+    text: `Reset your password by opening this link:\n${resetLink}\n\nIf you did not ask for a reset, you can ignore this email.`,
+  }),
+
+  accountInvite: ({ setPasswordLink, email }) => ({
+    subject: 'You are invited to EIF',
+    html: layout(`<p>An account has been created for ${escapeHtml(email)}. Choose your password by clicking ${link(setPasswordLink, 'this link')}.</p>`
+      + '<p>The link works once and expires after 24 hours. After that, use "Forgot password" on the sign-in page.</p>'),
+    text: `An account has been created for ${email}. Choose your password by opening this link:\n${setPasswordLink}\n\nThe link works once and expires after 24 hours. After that, use "Forgot password" on the sign-in page.`,
+  }),
+
+  accountApproved: ({ loginLink, note }) => ({
+    subject: 'Your EIF account is approved',
+    html: layout(`<p>Your account has been approved. You can now sign in at ${link(loginLink, loginLink)}.</p>`
+      + (note ? `<p>${escapeHtml(note)}</p>` : '')),
+    text: `Your account has been approved. You can now sign in at ${loginLink}${note ? `\n\n${note}` : ''}`,
+  }),
+
+  accountRejected: ({ reason }) => ({
+    subject: 'Your EIF account application',
+    html: layout(`<p>Your account application was not approved.</p><p>Reason: ${escapeHtml(reason)}</p>`),
+    text: `Your account application was not approved.\n\nReason: ${reason}`,
+  }),
+
+  twoFactorReset: ({ loginLink }) => ({
+    subject: 'Two-factor authentication was reset',
+    html: layout(`<p>An administrator turned off two-factor authentication for your EIF account and signed you out everywhere.</p>`
+      + `<p>Sign in at ${link(loginLink, loginLink)} to set it up again. If you did not ask for this, contact the administrator.</p>`),
+    text: `An administrator turned off two-factor authentication for your EIF account and signed you out everywhere.\n\nSign in at ${loginLink} to set it up again. If you did not ask for this, contact the administrator.`,
+  }),
+
+  rescheduleRequested: ({ start, end, slots, counter, timezone, otherTimezone, acceptUrl, declineUrl }) => {
+    const options = slots && slots.length > 0 ? slots : [{ start, end }];
+    const subject = counter ? 'Meeting reschedule counter-proposal' : 'Meeting reschedule requested';
+    const intro = counter ? 'The other participant answered your proposal with' : 'The meeting has';
+
+    if (options.length === 1) {
+      const from = formatMeetingTime(options[0].start, timezone);
+      const to = formatMeetingTime(options[0].end, timezone);
+      const other = otherZoneLine(options[0].start, timezone, otherTimezone);
+      return {
+        subject,
+        html: layout(`<p>${intro} a new reschedule proposal for <strong>${escapeHtml(from)}</strong> to <strong>${escapeHtml(to)}</strong>.</p>`
+          + (other ? `<p>${escapeHtml(other)}</p>` : '')
+          + `<p>${link(acceptUrl, 'Accept')} | ${link(declineUrl, 'Decline')}</p>`),
+        text: `${intro} a new reschedule proposal for ${from} to ${to}.${other ? `\n${other}` : ''}\n\nAccept: ${acceptUrl}\nDecline: ${declineUrl}`,
+      };
+    }
+
+    // Several candidates: list them in order of preference and let the recipient pick in the portal
+    const items = options.map(slot => {
+      const other = otherZoneLine(slot.start, timezone, otherTimezone);
+      return `${formatMeetingTime(slot.start, timezone)} to ${formatMeetingTime(slot.end, timezone)}${other ? ` (${other})` : ''}`;
+    });
+    return {
+      subject,
+      html: layout(`<p>${intro} a new reschedule proposal with ${options.length} possible times, in order of preference:</p>`
+        + `<ol>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ol>`
+        + `<p>${link(acceptUrl, 'Choose a time')} | ${link(declineUrl, 'Decline')}</p>`),
+      text: `${intro} a new reschedule proposal with ${options.length} possible times, in order of preference:\n${items.map((item, i) => `${i + 1}. ${item}`).join('\n')}\n\nChoose a time: ${acceptUrl}\nDecline: ${declineUrl}`,
+    };
+  },
+
+  rescheduleDeclined: ({ start, timezone }) => {
+    const when = formatMeetingTime(start, timezone);
+    return {
+      subject: 'Reschedule declined',
+      html: layout(`<p>Your reschedule proposal for <strong>${escapeHtml(when)}</strong> was declined.</p>`),
+      text: `Your reschedule proposal for ${when} was declined.`,
+    };
+  },
+
+  meetingInvite: ({ event, method, timezone = 'UTC', otherTimezone }) => {
+    const { event: invite, ics } = buildInvite(event, method);
+    const when = formatMeetingTime(invite.start, timezone);
+    const updated = (invite.sequence ?? 0) > 0;
+
+    const subject = method === 'CANCEL'
+      ? `Cancelled: ${invite.summary}`
+      : `${updated ? 'Updated invitation' : 'Invitation'}: ${invite.summary} @ ${when}`;
+    const lead = method === 'CANCEL'
+      ? 'This meeting has been cancelled.'
+      : updated ? 'This meeting has been rescheduled.' : 'You have a new meeting.';
+
+    const lines = [lead, invite.summary, `When: ${when}`];
+    const other = otherZoneLine(invite.start, timezone, otherTimezone);
+    if (other) lines.push(other);
+    if (invite.location) lines.push(`Where: ${invite.location}`);
+
+    return {
+      subject,
+      html: layout(lines.map(line => `<p>${escapeHtml(line)}</p>`).join('')),
+      text: lines.join('\n'),
+      icalEvent: { method, filename: method === 'CANCEL' ? 'cancel.ics' : 'invite.ics', content: ics },
+    };
+  },
+};
+
+export const EMAIL_TEMPLATE_NAMES = Object.keys(templates) as EmailTemplateName[];
+
+export function renderEmail<K extends EmailTemplateName>(name: K, data: EmailTemplateData[K]): RenderedEmail {
+  const render = templates[name] as (data: EmailTemplateData[K]) => RenderedEmail;
+  if (!render) throw new Error(`Unknown email template '${String(name)}'`);
+  return render(data);
+}
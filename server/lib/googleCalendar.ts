@@ -7,18 +7,13 @@ type CreateEventOpts = {
   start: string; // ISO string
   end: string; // ISO string
   attendees?: string[]; // emails
+  location?: string;
 };
 
 /**
- * Create a Google Calendar event with conferenceData (Google Meet) using a service account.
- *
- * Environment variables expected:
- * - GOOGLE_SERVICE_ACCOUNT_JSON: the full JSON of the service account key (or path to JSON file not supported here)
- * - GOOGLE_CALENDAR_ID: the calendar email or 'primary' to create the event on
- *
- * Returns: { htmlLink, meetUrl, eventId }
+ * Calendar client for the service account, plus the calendar it writes to
  */
-export async function createGoogleMeetEvent(opts: CreateEventOpts) {
+function serviceAccountCalendar() {
   const keyJson = process.env.GOOGLE_SERVICE_ACCOUNT_JSON;
   const calendarId = process.env.GOOGLE_CALENDAR_ID || 'primary';
   if (!keyJson) throw new Error('GOOGLE_SERVICE_ACCOUNT_JSON not configured');
@@ -36,7 +31,20 @@ export async function createGoogleMeetEvent(opts: CreateEventOpts) {
     scopes: ['https://www.googleapis.com/auth/calendar'],
   });
 
-  const calendar = google.calendar({ version: 'v3', auth: jwtClient });
+  return { calendar: google.calendar({ version: 'v3', auth: jwtClient }), calendarId };
+}
+
+/**
+ * Create a Google Calendar event with conferenceData (Google Meet) using a service account.
+ *
+ * Environment variables expected:
+ * - GOOGLE_SERVICE_ACCOUNT_JSON: the full JSON of the service account key (or path to JSON file not supported here)
+ * - GOOGLE_CALENDAR_ID: the calendar email or 'primary' to create the event on
+ *
+ * Returns: { htmlLink, meetUrl, eventId }
+ */
+export async function createGoogleMeetEvent(opts: CreateEventOpts) {
+  const { calendar, calendarId } = serviceAccountCalendar();
 
   // Build attendees
   const attendees = (opts.attendees || []).map(email => ({ email }));
@@ -52,6 +60,7 @@ export async function createGoogleMeetEvent(opts: CreateEventOpts) {
     attendees,
     conferenceData: { createRequest: { requestId } },
   };
+  if (opts.location) eventBody.location = opts.location;
 
   const res = await calendar.events.insert({
     calendarId,
@@ -86,4 +95,44 @@ export async function createGoogleMeetEvent(opts: CreateEventOpts) {
   return { htmlLink, meetUrl, eventId: event?.id };
 }
 
-export default { createGoogleMeetEvent };
+/**
+ * Move or edit an event created by `createGoogleMeetEvent`. The Meet conference is kept.
+ */
+export async function updateGoogleMeetEvent(eventId: string, opts: CreateEventOpts) {
+  const { calendar, calendarId } = serviceAccountCalendar();
+
+  const eventBody: any = {
+    summary: opts.summary,
+    start: { dateTime: opts.start },
+    end: { dateTime: opts.end },
+    attendees: (opts.attendees || []).map(email => ({ email })),
+  };
+  // Leave the original description (the request message) unless a new one is given
+  if (opts.description !== undefined) eventBody.description = opts.description;
+  if (opts.location) eventBody.location = opts.location;
+
+  const res = await calendar.events.patch({
+    calendarId,
+    eventId,
+    requestBody: eventBody,
+    sendUpdates: 'all',
+  } as any);
+
+  return { htmlLink: (res.data as any)?.htmlLink, eventId: (res.data as any)?.id ?? eventId };
+}
+
+/**
+ * Delete an event created by `createGoogleMeetEvent` (attendees get a cancellation).
+ * Events that are already gone are ignored.
+ */
+export async function deleteGoogleMeetEvent(eventId: string) {
+  const { calendar, calendarId } = serviceAccountCalendar();
+  try {
+    await calendar.events.delete({ calendarId, eventId, sendUpdates: 'all' } as any);
+  } catch (error: any) {
+    if (error?.code === 404 || error?.code === 410) return;
+    throw error;
+  }
+}
+
+export default { createGoogleMeetEvent, updateGoogleMeetEvent, deleteGoogleMeetEvent };
@@ -0,0 +1,183 @@
+import { google } from 'googleapis';
+import type { OAuthCredentials } from './oauthManager.js';
+import {
+  CalendarProviderError,
+  type BusyTime,
+  type CalendarProvider,
+  type PasswordConnection,
+  type ProviderEvent,
+  type ProviderEventResult,
+} from './calendarProvider.js';
+
+export interface GoogleAuthConfig {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+}
+
+/**
+ * Google Calendar through the user's own OAuth grant
+ */
+export class GoogleCalendarProvider implements CalendarProvider {
+  readonly name = 'google' as const;
+  readonly label = 'Google Calendar';
+  readonly authType = 'oauth' as const;
+
+  constructor(private config: GoogleAuthConfig) {}
+
+  /**
+   * Provider from GOOGLE_OAUTH_CLIENT_ID / _CLIENT_SECRET / _REDIRECT_URI, or null when not configured
+   */
+  static fromEnv(): GoogleCalendarProvider | null {
+    const { GOOGLE_OAUTH_CLIENT_ID, GOOGLE_OAUTH_CLIENT_SECRET, GOOGLE_OAUTH_REDIRECT_URI } = process.env;
+    if (!GOOGLE_OAUTH_CLIENT_ID || !GOOGLE_OAUTH_CLIENT_SECRET || !GOOGLE_OAUTH_REDIRECT_URI) return null;
+    return new GoogleCalendarProvider({
+      clientId: GOOGLE_OAUTH_CLIENT_ID,
+      clientSecret: GOOGLE_OAUTH_CLIENT_SECRET,
+      redirectUri: GOOGLE_OAUTH_REDIRECT_URI,
+    });
+  }
+
+  private client(credentials?: OAuthCredentials) {
+    const oauth2Client = new google.auth.OAuth2(this.config.clientId, this.config.clientSecret, this.config.redirectUri);
+    if (credentials) {
+      oauth2Client.setCredentials({
+        access_token: credentials.accessToken,
+        refresh_token: credentials.refreshToken,
+      });
+    }
+    return oauth2Client;
+  }
+
+  getAuthorizationUrl(state: string): string {
+    const scopes = [
+      'https://www.googleapis.com/auth/calendar',
+      'https://www.googleapis.com/auth/calendar.events',
+      'https://www.googleapis.com/auth/userinfo.email',
+    ];
+
+    return this.client().generateAuthUrl({
+      access_type: 'offline',
+      scope: scopes,
+      state,
+      prompt: 'consent', // Force consent screen to get refresh token
+    });
+  }
+
+  async exchangeCodeForTokens(code: string): Promise<OAuthCredentials> {
+    const { tokens } = await this.client().getToken(code);
+
+    return {
+      provider: this.name,
+      accessToken: tokens.access_token!,
+      refreshToken: tokens.refresh_token || undefined,
+      expiresAt: tokens.expiry_date ? new Date(tokens.expiry_date) : undefined,
+      scope: tokens.scope || '',
+    };
+  }
+
+  async connectWithPassword(_connection: PasswordConnection): Promise<OAuthCredentials> {
+    throw new CalendarProviderError(this.name, 'Google Calendar is connected through OAuth');
+  }
+
+  async refreshAccessToken(credentials: OAuthCredentials): Promise<OAuthCredentials> {
+    if (!credentials.refreshToken) return credentials;
+    const oauth2Client = this.client();
+    oauth2Client.setCredentials({ refresh_token: credentials.refreshToken });
+
+    const { credentials: refreshed } = await oauth2Client.refreshAccessToken();
+
+    return {
+      provider: this.name,
+      accessToken: refreshed.access_token!,
+      refreshToken: refreshed.refresh_token || credentials.refreshToken,
+      expiresAt: refreshed.expiry_date ? new Date(refreshed.expiry_date) : undefined,
+      scope: refreshed.scope || credentials.scope,
+    };
+  }
+
+  async getAccountEmail(credentials: OAuthCredentials): Promise<string | null> {
+    const people = google.people({ version: 'v1', auth: this.client(credentials) });
+    const profile = await people.people.get({ resourceName: 'people/me', personFields: 'emailAddresses' });
+    return profile.data.emailAddresses?.[0]?.value ?? null;
+  }
+
+  async getBusyTimes(credentials: OAuthCredentials, calendarId: string, startTime: string, endTime: string): Promise<BusyTime[]> {
+    const calendar = google.calendar({ version: 'v3', auth: this.client(credentials) });
+    const res = await calendar.freebusy.query({
+      requestBody: {
+        timeMin: startTime,
+        timeMax: endTime,
+        items: [{ id: calendarId }],
+      },
+    } as any);
+
+    const busy = res.data?.calendars?.[calendarId]?.busy || [];
+    return busy.map((b: any) => ({ start: b.start, end: b.end }));
+  }
+
+  private eventBody(event: ProviderEvent) {
+    const body: any = {
+      summary: event.summary,
+      description: event.description || '',
+      start: { dateTime: event.start },
+      end: { dateTime: event.end },
+      attendees: (event.attendees || []).map(email => ({ email })),
+    };
+    if (event.location) body.location = event.location;
+    if (event.conference) {
+      body.conferenceData = { createRequest: { requestId: event.conference.requestId } };
+    }
+    return body;
+  }
+
+  private toResult(eventData: any): ProviderEventResult {
+    let conferenceLink: string | undefined;
+
+    // Extract Meet URL from conference data
+    if (eventData.conferenceData?.entryPoints) {
+      const meetEntry = eventData.conferenceData.entryPoints.find(
+        (e: any) => e.entryPointType === 'video' || e.entryPointType === 'hangoutsMeet'
+      );
+      if (meetEntry?.uri) conferenceLink = meetEntry.uri;
+    }
+
+    return { id: eventData.id, htmlLink: eventData.htmlLink, conferenceLink };
+  }
+
+  async createEvent(credentials: OAuthCredentials, calendarId: string, event: ProviderEvent): Promise<ProviderEventResult> {
+    const calendar = google.calendar({ version: 'v3', auth: this.client(credentials) });
+    const res = await calendar.events.insert({
+      calendarId,
+      requestBody: this.eventBody(event),
+      conferenceDataVersion: 1,
+      sendUpdates: 'all',
+    } as any);
+    return this.toResult(res.data);
+  }
+
+  async updateEvent(credentials: OAuthCredentials, calendarId: string, eventId: string, event: ProviderEvent): Promise<ProviderEventResult> {
+    const calendar = google.calendar({ version: 'v3', auth: this.client(credentials) });
+    const body = this.eventBody(event);
+    // Keep the existing conference when patching
+    delete body.conferenceData;
+    const res = await calendar.events.patch({
+      calendarId,
+      eventId,
+      requestBody: body,
+      sendUpdates: 'all',
+    } as any);
+    return this.toResult(res.data);
+  }
+
+  async deleteEvent(credentials: OAuthCredentials, calendarId: string, eventId: string): Promise<void> {
+    const calendar = google.calendar({ version: 'v3', auth: this.client(credentials) });
+    try {
+      await calendar.events.delete({ calendarId, eventId, sendUpdates: 'all' } as any);
+    } catch (error: any) {
+      // Already gone
+      if (error?.code === 404 || error?.code === 410) return;
+      throw error;
+    }
+  }
+}
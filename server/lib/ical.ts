@@ -0,0 +1,225 @@
+import { zonedTimeToUtc } from '@shared/timezone';
+
+/**
+ * Minimal iCalendar (RFC 5545) support for meetings: a writer for single-event downloads,
+ * subscription feeds and invitations (times always written in UTC), and a reader for the
+ * VEVENTs a CalDAV server returns.
+ */
+
+export interface CalendarAttendee {
+  email: string;
+  name?: string | null;
+}
+
+export interface CalendarEvent {
+  uid: string;
+  start: string | Date;
+  end: string | Date;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  status?: 'CONFIRMED' | 'CANCELLED' | 'TENTATIVE';
+  sequence?: number;
+  /** Last change to the event; defaults to now */
+  updatedAt?: string | Date | null;
+  organizer?: CalendarAttendee | null;
+  attendees?: CalendarAttendee[];
+}
+
+export interface CalendarOptions {
+  name?: string;
+  /** iTIP method (e.g. REQUEST, CANCEL); omitted for plain downloads and feeds */
+  method?: string;
+  /** Suggested refresh interval for subscribed feeds, in minutes */
+  refreshMinutes?: number;
+}
+
+const PRODID = '-//EIF Portal//Meetings//EN';
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma, newline)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function formatDateTime(value: string | Date): string {
+  return new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Fold content lines longer than 75 octets (continuation lines start with a space)
+ */
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + size > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function person(property: 'ORGANIZER' | 'ATTENDEE', who: CalendarAttendee, extra = ''): string {
+  const cn = who.name ? `;CN=${JSON.stringify(who.name.replace(/"/g, "'"))}` : '';
+  return `${property}${cn}${extra}:mailto:${who.email}`;
+}
+
+function eventLines(event: CalendarEvent, method?: string): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatDateTime(new Date())}`,
+    `DTSTART:${formatDateTime(event.start)}`,
+    `DTEND:${formatDateTime(event.end)}`,
+    `SEQUENCE:${event.sequence ?? 0}`,
+    `STATUS:${event.status ?? 'CONFIRMED'}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+  if (event.updatedAt) lines.push(`LAST-MODIFIED:${formatDateTime(event.updatedAt)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.organizer) lines.push(person('ORGANIZER', event.organizer));
+  for (const attendee of event.attendees ?? []) {
+    const rsvp = method === 'REQUEST' ? ';ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE' : ';ROLE=REQ-PARTICIPANT';
+    lines.push(person('ATTENDEE', attendee, rsvp));
+  }
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Serialize events into a VCALENDAR document (CRLF line endings, folded lines)
+ */
+export function buildCalendar(events: CalendarEvent[], options: CalendarOptions = {}): string {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODID}`, 'CALSCALE:GREGORIAN'];
+  if (options.method) lines.push(`METHOD:${options.method}`);
+  if (options.name) lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+  if (options.refreshMinutes) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshMinutes}M`);
+    lines.push(`X-PUBLISHED-TTL:PT${options.refreshMinutes}M`);
+  }
+  for (const event of events) lines.push(...eventLines(event, options.method));
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Stable UID for a meeting. Meetings created from the same request share it, so a
+ * reschedule (new meeting row, higher SEQUENCE) updates the existing calendar entry.
+ */
+export function meetingUid(meeting: { id: string; meeting_request_id?: string | null }): string {
+  return `${meeting.meeting_request_id ?? meeting.id}@eif-portal`;
+}
+
+export interface ParsedCalendarEvent {
+  uid: string | null;
+  start: Date;
+  end: Date;
+  summary: string | null;
+  status: string | null;
+  /** TRANSP:TRANSPARENT events do not block time */
+  transparent: boolean;
+}
+
+function unfold(text: string): string[] {
+  return text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+}
+
+function parseProperty(line: string): { name: string; params: Record<string, string>; value: string } | null {
+  const colon = line.search(/:(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  if (colon < 0) return null;
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, value = ''] = part.split('=');
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/**
+ * Parse a DATE or DATE-TIME value: UTC ("...Z"), local time in a TZID, or floating (read as UTC)
+ */
+function parseDateValue(value: string, params: Record<string, string>): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h = '0', mi = '0', sec = '0', utc] = match;
+  const local = { year: +y, month: +mo, day: +d, hour: +h, minute: +mi, second: +sec };
+  if (!utc && params.TZID) {
+    try {
+      return zonedTimeToUtc(local, params.TZID);
+    } catch {
+      // Unknown TZID (e.g. a Windows zone name): fall through to UTC
+    }
+  }
+  return new Date(Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second));
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+}
+
+/**
+ * Read the VEVENTs of an iCalendar document. Recurrence rules are not expanded; all-day
+ * events without DTEND last one day.
+ */
+export function parseCalendar(text: string): ParsedCalendarEvent[] {
+  const events: ParsedCalendarEvent[] = [];
+  let current: Record<string, { params: Record<string, string>; value: string }> | null = null;
+  let depth = 0;
+
+  for (const line of unfold(text)) {
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+      depth = 0;
+      continue;
+    }
+    if (!current) continue;
+    // Skip nested components such as VALARM
+    if (line.startsWith('BEGIN:')) { depth++; continue; }
+    if (line.startsWith('END:') && depth > 0) { depth--; continue; }
+    if (depth > 0) continue;
+
+    if (line === 'END:VEVENT') {
+      const start = current.DTSTART && parseDateValue(current.DTSTART.value, current.DTSTART.params);
+      if (start) {
+        const allDay = current.DTSTART.params.VALUE === 'DATE' || /^\d{8}$/.test(current.DTSTART.value);
+        const end = (current.DTEND && parseDateValue(current.DTEND.value, current.DTEND.params))
+          || new Date(start.getTime() + (allDay ? 24 * 60 * 60 * 1000 : 0));
+        events.push({
+          uid: current.UID?.value ?? null,
+          start,
+          end,
+          summary: current.SUMMARY ? unescapeText(current.SUMMARY.value) : null,
+          status: current.STATUS?.value.toUpperCase() ?? null,
+          transparent: current.TRANSP?.value.toUpperCase() === 'TRANSPARENT',
+        });
+      }
+      current = null;
+      continue;
+    }
+
+    const property = parseProperty(line);
+    if (property) current[property.name] = { params: property.params, value: property.value };
+  }
+  return events;
+}
@@ -0,0 +1,158 @@
+#!/usr/bin/env tsx
+/**
+ * Mailer - Test Suite
+ *
+ * Covers template rendering, the outbox (on the in-memory backend) with retry/backoff,
+ * and the file transport.
+ *
+ * Run with: npx tsx server/lib/mailer.test.ts
+ */
+
+import { pathToFileURL } from 'url';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+process.env.DATA_BACKEND = 'memory';
+delete process.env.MEMORY_DB_FILE;
+
+let failures = 0;
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✓ PASS: ${message}`);
+  } else {
+    failures++;
+    console.log(`✗ FAIL: ${message}`);
+  }
+}
+
+/**
+ * Test Case 1: Templates render HTML and plain text
+ */
+async function testTemplates() {
+  console.log('\n=== TEST 1: Templates ===');
+  const { renderEmail } = await import('./emailTemplates');
+
+  const reset = renderEmail('passwordReset', { resetLink: 'https://eif.example/auth?token=a&b' });
+  check(reset.subject === 'Reset your EIF password', 'subject comes from the template');
+  check(reset.html.includes('href="https://eif.example/auth?token=a&amp;b"'), 'links are escaped in HTML');
+  check(reset.text.includes('https://eif.example/auth?token=a&b'), 'plain text carries the raw link');
+
+  const invite = renderEmail('accountInvite', { setPasswordLink: 'https://eif.example/auth?token=t', email: '<a>@example.com' });
+  check(invite.html.includes('&lt;a&gt;@example.com') && invite.text.includes('<a>@example.com'), 'data is escaped only in HTML');
+  check(invite.text.includes('https://eif.example/auth?token=t') && !/password:/i.test(invite.text), 'invites link to choosing a password instead of carrying one');
+}
+
+/**
+ * Test Case 2: Outbox delivery, backoff and failure
+ */
+async function testOutbox() {
+  console.log('\n=== TEST 2: Outbox ===');
+  const mailer = await import('./mailer');
+  const db = await import('./db');
+
+  const sent: string[] = [];
+  let failNext = 0;
+  mailer.setMailTransport({
+    name: 'log',
+    async send(mail) {
+      if (failNext > 0) {
+        failNext--;
+        throw new Error('connection refused');
+      }
+      sent.push(mail.to);
+      return 'msg-1';
+    },
+  });
+
+  try {
+    const ok = await mailer.sendEmail('ok@example.com', 'verifyEmail', { verifyLink: 'https://eif.example/v' });
+    check(ok.status === 'sent' && ok.attempts === 1 && sent[0] === 'ok@example.com', 'email is delivered immediately and recorded as sent');
+    const stored = await db.getOutboxEmailById(ok.id);
+    check(stored.message.subject === 'Verify your email' && !JSON.stringify(stored.message).includes('eif.example/v'), 'only the subject of a sent email is kept');
+
+    failNext = 1;
+    const retried = await mailer.sendEmail('retry@example.com', 'rescheduleDeclined', { start: '2026-11-02T10:00:00Z' });
+    check(retried.status === 'pending' && retried.last_error === 'connection refused', 'a failed delivery stays pending with the error');
+    check(retried.message.text.includes('declined'), 'a pending email keeps its body for the retry');
+    const delay = new Date(retried.next_attempt_at).getTime() - Date.now();
+    check(delay > 50_000 && delay <= 60_000, 'the first retry is scheduled about a minute later');
+
+    check((await mailer.processOutbox()).processed === 0, 'emails are not retried before they are due');
+    await db.updateOutboxEmail(retried.id, { next_attempt_at: new Date(Date.now() - 1000).toISOString() });
+    const run = await mailer.processOutbox();
+    check(run.sent === 1 && sent.includes('retry@example.com'), 'due emails are retried by processOutbox');
+
+    process.env.MAIL_MAX_ATTEMPTS = '2';
+    failNext = 2;
+    const doomed = await mailer.sendEmail('doomed@example.com', 'verifyEmail', { verifyLink: 'https://eif.example/v' });
+    await db.updateOutboxEmail(doomed.id, { next_attempt_at: new Date(Date.now() - 1000).toISOString() });
+    await mailer.processOutbox();
+    const final = await db.getOutboxEmailById(doomed.id);
+    check(final.status === 'failed' && final.attempts === 2 && final.next_attempt_at === null, 'email is marked failed after max attempts');
+
+    const manual = await mailer.retryOutboxEmail(doomed.id);
+    check(manual?.status === 'sent', 'admins can retry a failed email');
+
+    check(mailer.retryDelayMs(1) === 60_000 && mailer.retryDelayMs(3) === 240_000 && mailer.retryDelayMs(20) === 6 * 60 * 60 * 1000, 'backoff doubles up to a cap');
+
+    const listed = await db.listOutboxEmails({ status: 'sent' });
+    check(listed.length === 3 && !('message' in listed[0]), 'admin listing filters by status and omits bodies');
+  } finally {
+    delete process.env.MAIL_MAX_ATTEMPTS;
+    mailer.setMailTransport(null);
+  }
+}
+
+/**
+ * Test Case 3: File transport writes .eml files
+ */
+async function testFileTransport() {
+  console.log('\n=== TEST 3: File transport ===');
+  const mailer = await import('./mailer');
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'eif-mail-'));
+  process.env.MAIL_TRANSPORT = 'file';
+  process.env.MAIL_FILE_DIR = dir;
+
+  try {
+    const row = await mailer.sendEmail('file@example.com', 'passwordReset', { resetLink: 'https://eif.example/r' });
+    const files = await fs.readdir(dir);
+    check(row.status === 'sent' && row.transport === 'file' && files.length === 1 && files[0].endsWith('.eml'), 'message is written as an .eml file');
+    const eml = await fs.readFile(path.join(dir, files[0]), 'utf8');
+    check(eml.includes('Subject: Reset your EIF password') && eml.includes('To: file@example.com'), 'the file is a complete MIME message');
+  } finally {
+    delete process.env.MAIL_TRANSPORT;
+    delete process.env.MAIL_FILE_DIR;
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+// ============================================
+// RUN ALL TESTS
+// ============================================
+
+async function runAllTests() {
+  console.log('╔════════════════════════════════════════════╗');
+  console.log('║   Mailer Test Suite                        ║');
+  console.log('╚════════════════════════════════════════════╝');
+
+  try {
+    await testTemplates();
+    await testOutbox();
+    await testFileTransport();
+  } catch (error) {
+    console.error('\n✗ Test suite failed:', error);
+    process.exit(1);
+  }
+
+  console.log(failures === 0 ? '\nAll tests passed.\n' : `\n${failures} test(s) failed.\n`);
+  if (failures > 0) process.exit(1);
+}
+
+// Run tests if this is executed directly
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runAllTests();
+}
+
+export { runAllTests };
@@ -0,0 +1,263 @@
+import nodemailer from 'nodemailer';
+import fs from 'fs/promises';
+import path from 'path';
+import { renderEmail, type EmailTemplateData, type EmailTemplateName, type RenderedEmail } from './emailTemplates.js';
+import {
+  createOutboxEmail,
+  updateOutboxEmail,
+  getOutboxEmailById,
+  listDueOutboxEmails,
+} from './db.js';
+import { getPlatformSettings, senderAddress, type PlatformSettings } from './platformSettings.js';
+
+/**
+ * Outgoing email.
+ *
+ * `sendEmail` renders a named template, records it in the `email_outbox_eif` table and
+ * tries to deliver it right away. Failed deliveries stay `pending` with an exponential
+ * backoff (`next_attempt_at`) and are retried by `processOutbox` until `max_attempts`,
+ * after which they are marked `failed`. Once an email is sent only its subject is kept: bodies
+ * carry sign-in and reset links that should not outlive the delivery.
+ *
+ * Transport selection: `MAIL_TRANSPORT=smtp` (the SMTP_* settings), `file` (write .eml
+ * files to `MAIL_FILE_DIR` instead of sending) or `log` (print to the console). Defaults
+ * to `smtp` when SMTP is configured and `log` otherwise. The SMTP host, port and sender come
+ * from the platform settings, which fall back to `SMTP_HOST`, `SMTP_PORT` and `SMTP_FROM`.
+ */
+
+type SmtpSettings = Pick<PlatformSettings, 'smtp_host' | 'smtp_port'>;
+
+function envSmtpSettings(): SmtpSettings {
+  return { smtp_host: process.env.SMTP_HOST || null, smtp_port: Number(process.env.SMTP_PORT || 587) };
+}
+
+export type MailTransportName = 'smtp' | 'file' | 'log';
+
+export interface OutgoingMail extends RenderedEmail {
+  from: string;
+  to: string;
+}
+
+export interface MailTransport {
+  readonly name: MailTransportName;
+  /** Deliver the message; resolves to the transport's message id when it has one */
+  send(mail: OutgoingMail): Promise<string | null>;
+}
+
+export function smtpConfigured(settings: SmtpSettings = envSmtpSettings()): boolean {
+  return Boolean(settings.smtp_host && process.env.SMTP_USER && process.env.SMTP_PASS);
+}
+
+export function resolveMailTransport(settings: SmtpSettings = envSmtpSettings()): MailTransportName {
+  const configured = (process.env.MAIL_TRANSPORT || '').trim().toLowerCase();
+  if (!configured) return smtpConfigured(settings) ? 'smtp' : 'log';
+  if (configured !== 'smtp' && configured !== 'file' && configured !== 'log') {
+    throw new Error(`Unknown MAIL_TRANSPORT '${configured}'. Expected 'smtp', 'file' or 'log'.`);
+  }
+  return configured;
+}
+
+function toNodemailer(mail: OutgoingMail) {
+  return {
+    from: mail.from,
+    to: mail.to,
+    subject: mail.subject,
+    html: mail.html,
+    text: mail.text,
+    icalEvent: mail.icalEvent,
+  };
+}
+
+function createSmtpTransporter(settings: SmtpSettings) {
+  return nodemailer.createTransport({
+    host: settings.smtp_host ?? undefined,
+    port: settings.smtp_port,
+    secure: (process.env.SMTP_SECURE || 'false') === 'true',
+    auth: { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+  });
+}
+
+function createTransport(name: MailTransportName, settings: SmtpSettings): MailTransport {
+  if (name === 'smtp') {
+    const transporter = createSmtpTransporter(settings);
+    return {
+      name,
+      async send(mail) {
+        const info = await transporter.sendMail(toNodemailer(mail));
+        return info?.messageId ?? null;
+      },
+    };
+  }
+
+  if (name === 'file') {
+    // Build the full MIME message without sending it
+    const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'windows' });
+    return {
+      name,
+      async send(mail) {
+        const info = await transporter.sendMail(toNodemailer(mail));
+        const dir = path.resolve(process.env.MAIL_FILE_DIR || 'mail-outbox');
+        await fs.mkdir(dir, { recursive: true });
+        const safeTo = mail.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+        const file = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${safeTo}.eml`);
+        await fs.writeFile(file, info.message as Buffer);
+        return file;
+      },
+    };
+  }
+
+  return {
+    name,
+    async send(mail) {
+      console.log(`[mailer] to=${mail.to} subject="${mail.subject}"\n${mail.text}`);
+      return null;
+    },
+  };
+}
+
+let transportOverride: MailTransport | null = null;
+
+/**
+ * Replace the transport (tests); pass null to go back to `MAIL_TRANSPORT`
+ */
+export function setMailTransport(transport: MailTransport | null) {
+  transportOverride = transport;
+}
+
+async function currentTransport(): Promise<MailTransport> {
+  if (transportOverride) return transportOverride;
+  const settings = await getPlatformSettings();
+  return createTransport(resolveMailTransport(settings), settings);
+}
+
+/**
+ * Check that the configured SMTP server accepts a connection and the credentials (admin
+ * "Test Connection"). Throws with the server's error.
+ */
+export async function verifySmtpConnection(): Promise<void> {
+  const settings = await getPlatformSettings();
+  if (!smtpConfigured(settings)) throw new Error('SMTP is not configured (host, SMTP_USER and SMTP_PASS are required)');
+  await createSmtpTransporter(settings).verify();
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Delay before the next attempt after `attempts` failures: 1m, 2m, 4m, ... capped at 6h
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+function maxAttempts(): number {
+  const configured = Number(process.env.MAIL_MAX_ATTEMPTS);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_MAX_ATTEMPTS;
+}
+
+/**
+ * What the outbox keeps of a delivered message
+ */
+export function redactMessage(message: RenderedEmail): RenderedEmail {
+  return { subject: message.subject, html: '', text: '' };
+}
+
+/**
+ * Attempt delivery of an outbox row and record the outcome. Never throws for delivery
+ * errors; the returned row carries the new status.
+ */
+export async function deliverOutboxEmail(row: any) {
+  const transport = await currentTransport();
+  const attempts = Number(row.attempts ?? 0) + 1;
+  try {
+    const messageId = await transport.send({ from: row.from_address, to: row.to_address, ...row.message });
+    return await updateOutboxEmail(row.id, {
+      status: 'sent',
+      message: redactMessage(row.message),
+      transport: transport.name,
+      attempts,
+      sent_at: new Date().toISOString(),
+      provider_message_id: messageId,
+      last_error: null,
+      next_attempt_at: null,
+    });
+  } catch (e) {
+    const error = (e as any)?.message ?? String(e);
+    const exhausted = attempts >= Number(row.max_attempts ?? DEFAULT_MAX_ATTEMPTS);
+    console.error(`[mailer] delivery of ${row.template} to ${row.to_address} failed (attempt ${attempts}): ${error}`);
+    return await updateOutboxEmail(row.id, {
+      status: exhausted ? 'failed' : 'pending',
+      transport: transport.name,
+      attempts,
+      last_error: error,
+      next_attempt_at: exhausted ? null : new Date(Date.now() + retryDelayMs(attempts)).toISOString(),
+    });
+  }
+}
+
+/**
+ * Render a template, queue it in the outbox and try to deliver it immediately
+ */
+export async function sendEmail<K extends EmailTemplateName>(to: string, template: K, data: EmailTemplateData[K]) {
+  const message = renderEmail(template, data);
+  const row = await createOutboxEmail({
+    to_address: to,
+    from_address: senderAddress(await getPlatformSettings()),
+    template,
+    subject: message.subject,
+    message,
+    status: 'pending',
+    attempts: 0,
+    max_attempts: maxAttempts(),
+    next_attempt_at: new Date().toISOString(),
+  });
+  return deliverOutboxEmail(row);
+}
+
+/**
+ * Retry due pending emails
+ */
+export async function processOutbox(limit = 20) {
+  const due = await listDueOutboxEmails(limit);
+  let sent = 0;
+  let failed = 0;
+  for (const row of due) {
+    const result = await deliverOutboxEmail(row);
+    if (result?.status === 'sent') sent++;
+    else if (result?.status === 'failed') failed++;
+  }
+  return { processed: due.length, sent, failed };
+}
+
+/**
+ * Manually retry one email (admin), whatever its current status
+ */
+export async function retryOutboxEmail(id: string) {
+  const row = await getOutboxEmailById(id);
+  if (!row) return null;
+  if (row.status === 'sent') return row;
+  // A failed email gets one more attempt on top of the ones already made
+  const max_attempts = Math.max(Number(row.max_attempts ?? DEFAULT_MAX_ATTEMPTS), Number(row.attempts ?? 0) + 1);
+  return deliverOutboxEmail({ ...row, max_attempts });
+}
+
+/**
+ * Retry due emails in the background every `intervalMs`. Returns a function that stops the worker.
+ */
+export function startOutboxWorker(intervalMs = 60 * 1000): () => void {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await processOutbox();
+    } catch (e) {
+      console.error('[mailer] outbox processing failed:', (e as any)?.message ?? e);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref?.();
+  return () => clearInterval(timer);
+}
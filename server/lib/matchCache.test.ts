@@ -0,0 +1,155 @@
+#!/usr/bin/env tsx
+/**
+ * Match score cache - Test Suite
+ *
+ * Covers the in-process LRU, the `match_scores_eif` shared store (on the in-memory
+ * backend) and invalidation from the `db.ts` profile upserts.
+ *
+ * Run with: npx tsx server/lib/matchCache.test.ts
+ */
+
+import { pathToFileURL } from 'url';
+import { createMemoryClient, MemoryDatabase } from './memoryClient';
+import { DatabaseMatchCacheStore, LruMatchCache, type MatchCacheEntry } from './matchCache';
+import { matchEngine, type InvestorProfile, type CompanyProfile, type MatchScore } from './matchEngine';
+
+let failures = 0;
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✓ PASS: ${message}`);
+  } else {
+    failures++;
+    console.log(`✗ FAIL: ${message}`);
+  }
+}
+
+const entry = (key: string, investorId = 'i1', companyId = key): MatchCacheEntry => ({
+  key,
+  investorId,
+  companyId,
+  score: { overall: 50 } as MatchScore,
+  timestamp: Date.now(),
+});
+
+/**
+ * Test Case 1: LRU size cap, recency and invalidation
+ */
+async function testLru() {
+  console.log('\n=== TEST 1: LRU ===');
+  const cache = new LruMatchCache(2);
+
+  cache.set(entry('a'));
+  cache.set(entry('b'));
+  cache.get('a'); // a is now the most recently used
+  cache.set(entry('c'));
+
+  check(cache.size() === 2, 'size stays within the cap');
+  check(cache.get('b') === null && cache.get('a') !== null, 'least recently used entry is evicted');
+
+  cache.set(entry('d', 'i2', 'a'));
+  check(cache.invalidate({ companyId: 'a' }) === 2, 'invalidate drops every entry for the company');
+
+  const expiring = new LruMatchCache(10, -1);
+  expiring.set(entry('x'));
+  check(expiring.get('x') === null, 'expired entries are not returned');
+}
+
+/**
+ * Test Case 2: Shared store behind the match engine
+ */
+async function testSharedStore() {
+  console.log('\n=== TEST 2: Shared store ===');
+  const client = createMemoryClient(new MemoryDatabase());
+  const store = new DatabaseMatchCacheStore(client);
+
+  const investor: InvestorProfile = { user_id: 'inv-1', sectors: ['Solar'], stages: ['Seed'] };
+  const companies: CompanyProfile[] = [
+    { user_id: 'co-1', sector: 'Solar', stage: 'Seed' },
+    { user_id: 'co-2', sector: 'Fintech', stage: 'Growth' },
+  ];
+  const pairs = companies.map(company => ({ investor, company }));
+
+  matchEngine.useSharedStore(store);
+  matchEngine.clearCache();
+  matchEngine.resetCacheStats();
+  try {
+    const first = await matchEngine.calculateMatches(pairs);
+    const { count } = await client.from('match_scores_eif').select('*', { count: 'exact', head: true });
+    check(count === 2, 'computed scores are written to the shared store');
+
+    // A fresh process: empty local cache, same shared store
+    matchEngine.clearCache();
+    const second = await matchEngine.calculateMatches(pairs);
+    const stats = matchEngine.getCacheStats();
+    check(stats.sharedHits === 2 && stats.misses === 2, 'second process reuses the shared scores instead of recomputing');
+    check(second[0].overall === first[0].overall && stats.backend === 'database', 'shared scores match the computed ones');
+
+    await matchEngine.invalidate({ companyId: 'co-1' });
+    const { data: remaining } = await client.from('match_scores_eif').select('company_user_id');
+    check(remaining?.length === 1 && remaining[0].company_user_id === 'co-2', 'invalidation removes shared entries');
+  } finally {
+    matchEngine.useSharedStore(null);
+    matchEngine.clearCache();
+  }
+}
+
+/**
+ * Test Case 3: Profile upserts invalidate cached scores
+ */
+async function testUpsertInvalidation() {
+  console.log('\n=== TEST 3: Invalidation on profile edits ===');
+  process.env.DATA_BACKEND = 'memory';
+  delete process.env.MEMORY_DB_FILE;
+
+  const db = await import('./db');
+  const investorId = '00000000-0000-0000-0000-0000000000a1';
+  const companyId = '00000000-0000-0000-0000-0000000000c1';
+
+  await db.upsertInvestorProfile(investorId, { firm: 'Sun Capital', sectors: ['Solar'] });
+  await db.upsertCompanyProfile(companyId, { company_name: 'Helio', sector: 'Solar' });
+
+  const [before] = await db.getRecommendedCompanies(investorId, 1);
+  matchEngine.resetCacheStats();
+
+  await db.upsertCompanyProfile(companyId, { tagline: 'Rooftop solar for everyone' });
+  check(matchEngine.getCacheStats().invalidations === 0, 'non-scoring edits keep cached scores');
+
+  await db.upsertCompanyProfile(companyId, { sector: 'Payments' });
+  const [after] = await db.getRecommendedCompanies(investorId, 1);
+  check(matchEngine.getCacheStats().invalidations === 1, 'editing a scoring field invalidates the company');
+  check(after.matchScore.factors.sector < before.matchScore.factors.sector, 'the next score reflects the edit');
+
+  await db.upsertInvestorProfile(investorId, { sectors: ['Fintech'] });
+  const [again] = await db.getRecommendedCompanies(investorId, 1);
+  check(again.matchScore.factors.sector > after.matchScore.factors.sector, 'investor edits invalidate too');
+}
+
+// ============================================
+// RUN ALL TESTS
+// ============================================
+
+async function runAllTests() {
+  console.log('╔════════════════════════════════════════════╗');
+  console.log('║   Match Cache Test Suite                   ║');
+  console.log('╚════════════════════════════════════════════╝');
+
+  try {
+    await testLru();
+    await testSharedStore();
+    await testUpsertInvalidation();
+  } catch (error) {
+    console.error('\n✗ Test suite failed:', error);
+    process.exit(1);
+  }
+
+  console.log(failures === 0 ? '\nAll tests passed.\n' : `\n${failures} test(s) failed.\n`);
+  if (failures > 0) process.exit(1);
+}
+
+// Run tests if this is executed directly
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runAllTests();
+}
+
+export { runAllTests };
@@ -0,0 +1,169 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { MatchScore } from './matchEngine.js';
+
+/**
+ * Match score caching.
+ *
+ * Every process keeps a size-capped LRU (`LruMatchCache`) that `calculateMatch` reads
+ * synchronously. A `MatchCacheStore` can be plugged in behind it to share scores between
+ * processes (e.g. serverless instances): entries are prefetched from the store before a
+ * batch is scored and new scores are written back afterwards.
+ *
+ * Backend selection: `MATCH_CACHE_BACKEND=memory` (default, LRU only) or `database`
+ * (LRU + the `match_scores_eif` table).
+ */
+
+export interface MatchCacheEntry {
+  key: string;
+  investorId: string;
+  companyId: string;
+  score: MatchScore;
+  timestamp: number;
+}
+
+export interface MatchCacheFilter {
+  investorId?: string;
+  companyId?: string;
+}
+
+/**
+ * Shared (cross-process) cache backend
+ */
+export interface MatchCacheStore {
+  readonly name: string;
+  getMany(keys: string[]): Promise<MatchCacheEntry[]>;
+  setMany(entries: MatchCacheEntry[]): Promise<void>;
+  /** Remove every entry for the given investor and/or company; resolves to the number removed */
+  invalidate(filter: MatchCacheFilter): Promise<number>;
+  clear(): Promise<void>;
+}
+
+export const DEFAULT_MAX_ENTRIES = 10_000;
+
+/**
+ * In-process LRU with a TTL. `Map` keeps insertion order, so re-inserting on read moves
+ * an entry to the most-recent end and the first key is always the least recently used.
+ */
+export class LruMatchCache {
+  private entries = new Map<string, MatchCacheEntry>();
+
+  constructor(public maxEntries = DEFAULT_MAX_ENTRIES, public ttlMs = 24 * 60 * 60 * 1000) {}
+
+  get(key: string): MatchCacheEntry | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    // Check if cache has expired
+    if (Date.now() - entry.timestamp > this.ttlMs) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  set(entry: MatchCacheEntry): void {
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  invalidate(filter: MatchCacheFilter): number {
+    let removed = 0;
+    this.entries.forEach((entry, key) => {
+      if ((filter.investorId && entry.investorId === filter.investorId)
+        || (filter.companyId && entry.companyId === filter.companyId)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    });
+    return removed;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+}
+
+// PostgREST puts `in` filters in the URL, so look keys up in chunks
+const KEY_CHUNK_SIZE = 100;
+
+/**
+ * Shared cache in the `match_scores_eif` table (`cache_key` primary key,
+ * `investor_user_id`, `company_user_id`, `score` jsonb, `created_at`)
+ */
+export class DatabaseMatchCacheStore implements MatchCacheStore {
+  readonly name = 'database';
+
+  constructor(private client: SupabaseClient, private ttlMs = 24 * 60 * 60 * 1000) {}
+
+  async getMany(keys: string[]): Promise<MatchCacheEntry[]> {
+    const cutoff = new Date(Date.now() - this.ttlMs).toISOString();
+    const entries: MatchCacheEntry[] = [];
+    for (let i = 0; i < keys.length; i += KEY_CHUNK_SIZE) {
+      const { data, error } = await this.client.from('match_scores_eif')
+        .select('cache_key, investor_user_id, company_user_id, score, created_at')
+        .in('cache_key', keys.slice(i, i + KEY_CHUNK_SIZE))
+        .gte('created_at', cutoff);
+      if (error) throw error;
+      for (const row of data ?? []) {
+        entries.push({
+          key: row.cache_key,
+          investorId: row.investor_user_id,
+          companyId: row.company_user_id,
+          score: row.score,
+          timestamp: new Date(row.created_at).getTime(),
+        });
+      }
+    }
+    return entries;
+  }
+
+  async setMany(entries: MatchCacheEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    const rows = entries.map(entry => ({
+      cache_key: entry.key,
+      investor_user_id: entry.investorId,
+      company_user_id: entry.companyId,
+      score: entry.score,
+      created_at: new Date(entry.timestamp).toISOString(),
+    }));
+    const { error } = await this.client.from('match_scores_eif').upsert(rows, { onConflict: 'cache_key' });
+    if (error) throw error;
+  }
+
+  async invalidate(filter: MatchCacheFilter): Promise<number> {
+    let removed = 0;
+    for (const [column, value] of [['investor_user_id', filter.investorId], ['company_user_id', filter.companyId]] as const) {
+      if (!value) continue;
+      const { data, error } = await this.client.from('match_scores_eif').delete().eq(column, value).select('cache_key');
+      if (error) throw error;
+      removed += data?.length ?? 0;
+    }
+    return removed;
+  }
+
+  async clear(): Promise<void> {
+    const { error } = await this.client.from('match_scores_eif').delete().neq('cache_key', '');
+    if (error) throw error;
+  }
+}
+
+export type MatchCacheBackend = 'memory' | 'database';
+
+export function resolveMatchCacheBackend(): MatchCacheBackend {
+  const backend = (process.env.MATCH_CACHE_BACKEND || 'memory').toLowerCase();
+  if (backend !== 'memory' && backend !== 'database') {
+    throw new Error(`Unknown MATCH_CACHE_BACKEND '${backend}'. Expected 'memory' or 'database'.`);
+  }
+  return backend;
+}
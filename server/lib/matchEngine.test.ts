@@ -1,11 +1,14 @@
-#!/usr/bin/env ts-node
+#!/usr/bin/env tsx
 /**
  * Match Engine Implementation - Test Suite
  * 
  * Tests the complete match engine functionality end-to-end
  */
 
-import { matchEngine, InvestorProfile, CompanyProfile, MatchScore } from '../server/lib/matchEngine';
+import { pathToFileURL } from 'url';
+import { matchEngine, validateScoringWeights, validateDealBreakers, InvestorProfile, CompanyProfile, MatchScore } from './matchEngine';
+import { normalizeSectors } from '@shared/sectors';
+import { parseMoney } from '@shared/money';
 
 // ============================================
 // TEST CASES
@@ -261,6 +264,252 @@ function testMissingDataHandling() {
   }
 }
 
+/**
+ * Test Case 7: Per-investor Scoring Weights
+ */
+function testCustomWeights() {
+  console.log('\n=== TEST 7: Custom Scoring Weights ===');
+
+  const company: CompanyProfile = {
+    user_id: 'company-7',
+    sector: 'Retail',
+    stage: 'Series A',
+    capital_sought: '$2M',
+  };
+
+  const investor: InvestorProfile = {
+    user_id: 'investor-7',
+    firm: 'Stage First VC',
+    sectors: ['SaaS'],
+    stages: ['Series A'],
+    check_size_min: 1000000,
+    check_size_max: 5000000,
+  };
+
+  matchEngine.clearCache();
+  const defaultScore = matchEngine.calculateMatch(investor, company);
+
+  // Sector mismatch matters far less for an investor who ranks stage and ticket size first
+  const weighted = matchEngine.calculateMatch(
+    { ...investor, scoring_weights: { sector: 0, stage: 50, ticketSize: 50, geography: 0, investorType: 0 }, scoring_weights_version: 1 },
+    company
+  );
+  console.log('Default vs custom weights:', { default: defaultScore.overall, custom: weighted.overall });
+
+  if (weighted.overall === 100 && weighted.overall > defaultScore.overall) {
+    console.log('✓ PASS: Custom weights are applied and not served from the default-weights cache');
+  } else {
+    console.log(`✗ FAIL: Expected custom-weighted score of 100, got ${weighted.overall}%`);
+  }
+
+  const invalid = validateScoringWeights({ sector: 50, stage: 50, ticketSize: 10, geography: 0, investorType: 0 });
+  const valid = validateScoringWeights({ sector: 20, stage: 20, ticketSize: 20, geography: 20, investorType: 20 });
+  if (invalid.error && valid.weights) {
+    console.log('✓ PASS: Weight profiles must sum to 100');
+  } else {
+    console.log('✗ FAIL: Weight validation issue detected');
+  }
+}
+
+/**
+ * Test Case 8: Deal Breakers
+ */
+function testDealBreakers() {
+  console.log('\n=== TEST 8: Deal Breakers ===');
+
+  const investor: InvestorProfile = {
+    user_id: 'investor-8',
+    firm: 'Picky VC',
+    sectors: ['Energy'],
+    stages: ['Series A'],
+    check_size_min: 1000000,
+    check_size_max: 5000000,
+    deal_breakers: { excluded_sectors: ['Oil'], excluded_stages: ['Seed'], min_raise: 1000000 },
+  };
+
+  const companies: CompanyProfile[] = [
+    { user_id: 'company-8a', sector: 'Energy', stage: 'Series A', capital_sought: '$2M' },
+    { user_id: 'company-8b', sector: 'Oil & Gas', stage: 'Series A', capital_sought: '$2M' },
+    { user_id: 'company-8c', sector: 'Energy', stage: 'Seed', capital_sought: '$500k' },
+  ];
+
+  matchEngine.clearCache();
+  const [clean, oil, seed] = matchEngine.batchCalculateMatches(investor, companies).map(r => r.matchScore);
+  console.log('Fired rules:', {
+    clean: clean.dealBreakers.map(d => d.rule),
+    oil: oil.dealBreakers.map(d => d.rule),
+    seed: seed.dealBreakers.map(d => d.rule),
+  });
+
+  if (!clean.excluded && clean.overall > 0
+    && oil.excluded && oil.overall === 0 && oil.dealBreakers[0].rule === 'excluded_sector'
+    && seed.excluded && seed.dealBreakers.map(d => d.rule).join(',') === 'excluded_stage,below_min_raise') {
+    console.log('✓ PASS: Deal breakers zero the score and report the rules that fired');
+  } else {
+    console.log('✗ FAIL: Deal breaker issue detected');
+  }
+
+  const picky: InvestorProfile = {
+    ...investor,
+    user_id: 'investor-8b',
+    deal_breakers: { excluded_sectors: ['AI'], excluded_geographies: ['US', 'South Korea'] },
+  };
+  const nearMisses: CompanyProfile[] = [
+    { user_id: 'company-8d', sector: 'Retail', stage: 'Series A', hq_location: 'Sydney, Australia' },
+    { user_id: 'company-8e', sector: 'Supply Chain', stage: 'Series A', hq_location: 'Moscow, Russia' },
+    { user_id: 'company-8f', sector: 'AI', stage: 'Series A', hq_location: 'Berlin, Germany' },
+    { user_id: 'company-8g', sector: 'Energy', stage: 'Series A', hq_location: 'Austin, TX (US)' },
+    { user_id: 'company-8h', sector: 'Energy', stage: 'Series A', hq_location: 'Seoul, South Korea' },
+  ];
+  matchEngine.clearCache();
+  const fired = matchEngine.batchCalculateMatches(picky, nearMisses).map(r => r.matchScore.dealBreakers.map(d => d.rule).join(','));
+  console.log('Whole-word rules:', fired);
+
+  if (fired.join('|') === '||excluded_sector|excluded_geography|excluded_geography') {
+    console.log('✓ PASS: Exclusions match whole words, not parts of other words');
+  } else {
+    console.log('✗ FAIL: Expected "AI" and "US" to only exclude whole-word matches');
+  }
+
+  const invalid = validateDealBreakers({ min_raise: 5000000, max_raise: 1000000 });
+  if (invalid.error) {
+    console.log('✓ PASS: Inconsistent raise bounds are rejected');
+  } else {
+    console.log('✗ FAIL: Expected min_raise > max_raise to be rejected');
+  }
+}
+
+/**
+ * Test Case 9: Match Reasons
+ */
+function testMatchReasons() {
+  console.log('\n=== TEST 9: Match Reasons ===');
+
+  const investor: InvestorProfile = {
+    user_id: 'investor-9',
+    firm: 'Reasoned VC',
+    sectors: ['Fintech'],
+    stages: ['Seed'],
+    check_size_min: 500000,
+    check_size_max: 2000000,
+  };
+
+  const company: CompanyProfile = {
+    user_id: 'company-9',
+    sector: 'Fintech',
+    stage: 'Seed',
+    capital_sought: '$5M',
+  };
+
+  matchEngine.clearCache();
+  const score = matchEngine.calculateMatch(investor, company);
+  const messages = score.reasons.map(r => r.message);
+  console.log('Reasons:', messages);
+
+  if (score.reasons.length === 5
+    && messages.includes('Sector exact match: Fintech')
+    && messages.includes('Raise $5M is above your max check $2M')
+    && messages.includes('No geography data for company')) {
+    console.log('✓ PASS: Every factor carries a human-readable reason');
+  } else {
+    console.log('✗ FAIL: Unexpected match reasons');
+  }
+}
+
+/**
+ * Test Case 10: Sector Taxonomy
+ */
+function testSectorTaxonomy() {
+  console.log('\n=== TEST 10: Sector Taxonomy ===');
+
+  const investor: InvestorProfile = {
+    user_id: 'investor-10',
+    firm: 'Taxonomy Partners',
+    sectors: ['Renewables'],
+  };
+  const score = (sector: string) => {
+    matchEngine.clearCache();
+    return matchEngine.calculateMatch(investor, { user_id: `company-${sector}`, sector }).factors.sector;
+  };
+
+  const scores = {
+    synonym: score('renewable energy'),
+    child: score('Solar'),
+    parent: score('Energy'),
+    sibling: score('Storage'),
+    unrelated: score('Payments'),
+  };
+  console.log('Sector scores:', scores);
+
+  if (scores.synonym === 100 && scores.child > scores.parent && scores.parent > scores.sibling
+    && scores.sibling > scores.unrelated) {
+    console.log('✓ PASS: Synonyms match exactly and related sectors get partial credit');
+  } else {
+    console.log('✗ FAIL: Unexpected taxonomy scoring');
+  }
+
+  const excluded = matchEngine.calculateMatch(
+    { ...investor, user_id: 'investor-10b', deal_breakers: { excluded_sectors: ['Energy'] } },
+    { user_id: 'company-wind', sector: 'Wind' }
+  );
+  if (excluded.excluded) {
+    console.log('✓ PASS: Excluding a sector excludes its sub-sectors');
+  } else {
+    console.log('✗ FAIL: Expected Wind to be excluded by Energy');
+  }
+
+  const normalized = normalizeSectors([' fintech ', 'Financial Services', 'Solar Power', 'Space']);
+  if (normalized.join(',') === 'Fintech,Solar,Space') {
+    console.log('✓ PASS: Free-text sectors normalize to canonical labels');
+  } else {
+    console.log('✗ FAIL: Unexpected normalization', normalized);
+  }
+}
+
+/**
+ * Test Case 11: Currency-Aware Ticket Size
+ */
+function testCurrencyAwareTicketSize() {
+  console.log('\n=== TEST 11: Currency-Aware Ticket Size ===');
+
+  const investor: InvestorProfile = {
+    user_id: 'investor-11',
+    firm: 'Euro Ventures',
+    check_size_min: 1,
+    check_size_max: 5,
+    check_size_unit: 'M',
+    check_size_currency: 'EUR',
+  };
+  const ticket = (company: Partial<CompanyProfile>) => {
+    matchEngine.clearCache();
+    const score = matchEngine.calculateMatch(investor, { user_id: 'company-11', ...company });
+    return { score: score.factors.ticketSize, reason: score.reasons.find(r => r.factor === 'ticketSize')?.message };
+  };
+
+  const rupees = ticket({ funding_ask: { min: 400_000_000, max: 400_000_000, currency: 'INR' } });
+  const dollars = ticket({ capital_sought: '$10M' });
+  const range = ticket({ capital_sought: '$4-7M' });
+  console.log('Ticket sizes:', { rupees, dollars, range });
+
+  if (rupees.score === 100 && dollars.score < 100 && dollars.reason?.includes('€5M')
+    && range.score === 85) {
+    console.log('✓ PASS: Asks and check sizes are compared in a common currency');
+  } else {
+    console.log('✗ FAIL: Unexpected currency-aware ticket size scoring');
+  }
+
+  const parsed = ['$2-3M', '€500k', '₹40 Cr', '10 lakh', 'USD 1.5 million', 'soon'].map(s => parseMoney(s));
+  if (parsed[0]?.min === 2_000_000 && parsed[0]?.max === 3_000_000
+    && parsed[1]?.currency === 'EUR' && parsed[1]?.min === 500_000
+    && parsed[2]?.currency === 'INR' && parsed[2]?.min === 400_000_000
+    && parsed[3]?.currency === 'INR' && parsed[3]?.min === 1_000_000
+    && parsed[4]?.min === 1_500_000 && parsed[5] === null) {
+    console.log('✓ PASS: Amounts parse with currencies, ranges and k/M/Cr/Lakh suffixes');
+  } else {
+    console.log('✗ FAIL: Unexpected parsed amounts', parsed);
+  }
+}
+
 // ============================================
 // RUN ALL TESTS
 // ============================================
@@ -277,6 +526,11 @@ function runAllTests() {
     testCaching();
     testBatchProcessing();
     testMissingDataHandling();
+    testCustomWeights();
+    testDealBreakers();
+    testMatchReasons();
+    testSectorTaxonomy();
+    testCurrencyAwareTicketSize();
 
     console.log('\n╔════════════════════════════════════════════╗');
     console.log('║   All tests completed!                     ║');
@@ -288,7 +542,7 @@ function runAllTests() {
 }
 
 // Run tests if this is executed directly
-if (require.main === module) {
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
   runAllTests();
 }
 
@@ -6,12 +6,16 @@
  * 
  * Design Principles:
  * - Pluggable scoring factors (Sector, Stage, Ticket Size, Geography, etc.)
- * - Cached results with TTL for O(1) lookups
+ * - Cached results with TTL for O(1) lookups (LRU, optionally shared; see matchCache.ts)
  * - Weighted scoring system (0-100%)
  * - Normalized input handling
  * - Type-safe implementation
  */
 
+import { normalizeSector, sectorRelation } from '@shared/sectors';
+import { DEFAULT_MAX_ENTRIES, LruMatchCache, type MatchCacheEntry, type MatchCacheFilter, type MatchCacheStore } from './matchCache.js';
+import { checkSizeAmount, formatMoney, formatMoneyRange, parseMoney, toUsd, type MoneyRange } from '@shared/money';
+
 export interface InvestorProfile {
   user_id: string;
   firm?: string;
@@ -20,8 +24,42 @@ export interface InvestorProfile {
   check_size_min?: number;
   check_size_max?: number;
   check_size_unit?: string;
+  check_size_currency?: string | null;
   geographies?: string[];
   aum?: string;
+  scoring_weights?: ScoringWeights | null;
+  scoring_weights_version?: number | null;
+  deal_breakers?: DealBreakers | null;
+}
+
+/**
+ * Hard filters an investor never wants to see, regardless of the weighted score.
+ * Raise bounds are raw amounts in USD.
+ */
+export interface DealBreakers {
+  excluded_sectors?: string[];
+  excluded_geographies?: string[];
+  excluded_stages?: string[];
+  min_raise?: number | null;
+  max_raise?: number | null;
+}
+
+export type DealBreakerRule = 'excluded_sector' | 'excluded_geography' | 'excluded_stage' | 'below_min_raise' | 'above_max_raise';
+
+export interface DealBreakerHit {
+  rule: DealBreakerRule;
+  message: string;
+}
+
+/**
+ * Per-factor weights in whole percentages (must sum to 100)
+ */
+export interface ScoringWeights {
+  sector: number;
+  stage: number;
+  ticketSize: number;
+  geography: number;
+  investorType: number;
 }
 
 export interface CompanyProfile {
@@ -29,10 +67,22 @@ export interface CompanyProfile {
   sector?: string;
   stage?: string;
   capital_sought?: string;
+  funding_ask?: MoneyRange | null;
   hq_location?: string;
   preferred_investor_types?: string[];
 }
 
+export type MatchFactor = 'sector' | 'stage' | 'ticketSize' | 'geography' | 'investorType';
+
+/**
+ * Why a factor scored the way it did, e.g. "Sector exact match: Fintech"
+ */
+export interface MatchReason {
+  factor: MatchFactor;
+  impact: 'positive' | 'neutral' | 'negative';
+  message: string;
+}
+
 export interface MatchScore {
   overall: number; // 0-100
   factors: {
@@ -43,91 +93,270 @@ export interface MatchScore {
     investorType: number;
   };
   confidence: 'high' | 'medium' | 'low';
+  reasons: MatchReason[]; // one per factor, in factor order
+  excluded: boolean; // true when a deal breaker fired; overall is then 0
+  dealBreakers: DealBreakerHit[];
 }
 
-interface CachedMatch {
-  score: MatchScore;
-  timestamp: number;
+interface FactorResult {
+  score: number;
+  reason: MatchReason;
 }
 
+const positive = (factor: MatchFactor, score: number, message: string): FactorResult => ({ score, reason: { factor, impact: 'positive', message } });
+const neutral = (factor: MatchFactor, score: number, message: string): FactorResult => ({ score, reason: { factor, impact: 'neutral', message } });
+const negative = (factor: MatchFactor, score: number, message: string): FactorResult => ({ score, reason: { factor, impact: 'negative', message } });
+const listSuffix = (items: string[]) => (items.length ? ` (${items.join(', ')})` : '');
+
 /**
- * Scoring weights - adjustable for different use cases
+ * Default scoring weights, used unless the investor stored their own profile
  * Sum should equal 100 for normalized percentages
  */
-const SCORING_WEIGHTS = {
-  sector: 0.30,    // 30% - most important
-  stage: 0.25,     // 25%
-  ticketSize: 0.25, // 25%
-  geography: 0.15,  // 15%
-  investorType: 0.05, // 5% - least important
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  sector: 30,    // 30% - most important
+  stage: 25,     // 25%
+  ticketSize: 25, // 25%
+  geography: 15,  // 15%
+  investorType: 5, // 5% - least important
 };
 
-const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const WEIGHT_KEYS: Array<keyof ScoringWeights> = ['sector', 'stage', 'ticketSize', 'geography', 'investorType'];
 
 /**
- * Simple in-memory cache for match scores
- * In production, use Redis for distributed caching
+ * Validate a weight profile submitted by an investor.
+ * Every factor must be present as a number between 0 and 100 and the total must be 100.
  */
-class MatchCache {
-  private cache = new Map<string, CachedMatch>();
-
-  getCacheKey(investorId: string, companyId: string): string {
-    return `${investorId}:${companyId}`;
+export function validateScoringWeights(input: unknown): { weights?: ScoringWeights; error?: string } {
+  if (!input || typeof input !== 'object') return { error: 'scoring_weights must be an object' };
+  const raw = input as Record<string, unknown>;
+  const unknownKeys = Object.keys(raw).filter(k => !WEIGHT_KEYS.includes(k as keyof ScoringWeights));
+  if (unknownKeys.length) return { error: `unknown scoring weight(s): ${unknownKeys.join(', ')}` };
+
+  const weights = {} as ScoringWeights;
+  for (const key of WEIGHT_KEYS) {
+    const value = Number(raw[key]);
+    if (raw[key] === undefined || raw[key] === null || !Number.isFinite(value)) return { error: `scoring_weights.${key} is required` };
+    if (value < 0 || value > 100) return { error: `scoring_weights.${key} must be between 0 and 100` };
+    weights[key] = value;
   }
 
-  get(investorId: string, companyId: string): MatchScore | null {
-    const key = this.getCacheKey(investorId, companyId);
-    const cached = this.cache.get(key);
+  const total = WEIGHT_KEYS.reduce((sum, key) => sum + weights[key], 0);
+  if (Math.abs(total - 100) > 0.001) return { error: `scoring weights must sum to 100 (got ${total})` };
+  return { weights };
+}
 
-    if (!cached) return null;
+/**
+ * Version of the investor's weight profile that goes into the cache key (0 = defaults)
+ */
+function weightsVersion(investor: InvestorProfile): number {
+  return investor.scoring_weights ? Number(investor.scoring_weights_version ?? 0) : 0;
+}
 
-    // Check if cache has expired
-    if (Date.now() - cached.timestamp > CACHE_TTL_MS) {
-      this.cache.delete(key);
-      return null;
-    }
+/**
+ * Weights to apply for an investor, as fractions of 1. Invalid stored profiles fall back to the defaults.
+ */
+function resolveWeights(investor: InvestorProfile): ScoringWeights {
+  const { weights } = investor.scoring_weights ? validateScoringWeights(investor.scoring_weights) : { weights: undefined };
+  const percentages = weights ?? DEFAULT_SCORING_WEIGHTS;
+  return {
+    sector: percentages.sector / 100,
+    stage: percentages.stage / 100,
+    ticketSize: percentages.ticketSize / 100,
+    geography: percentages.geography / 100,
+    investorType: percentages.investorType / 100,
+  };
+}
 
-    return cached.score;
+/**
+ * Validate deal breakers submitted by an investor. Lists are trimmed and de-duplicated.
+ */
+export function validateDealBreakers(input: unknown): { dealBreakers?: DealBreakers; error?: string } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return { error: 'deal_breakers must be an object' };
+  const raw = input as Record<string, unknown>;
+  const allowed = ['excluded_sectors', 'excluded_geographies', 'excluded_stages', 'min_raise', 'max_raise'];
+  const unknownKeys = Object.keys(raw).filter(k => !allowed.includes(k));
+  if (unknownKeys.length) return { error: `unknown deal breaker(s): ${unknownKeys.join(', ')}` };
+
+  const dealBreakers: DealBreakers = {};
+  for (const key of ['excluded_sectors', 'excluded_geographies', 'excluded_stages'] as const) {
+    const value = raw[key];
+    if (value === undefined || value === null) continue;
+    if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) return { error: `deal_breakers.${key} must be a list of strings` };
+    dealBreakers[key] = Array.from(new Set(value.map(v => v.trim()).filter(Boolean)));
   }
-
-  set(investorId: string, companyId: string, score: MatchScore): void {
-    const key = this.getCacheKey(investorId, companyId);
-    this.cache.set(key, { score, timestamp: Date.now() });
+  for (const key of ['min_raise', 'max_raise'] as const) {
+    const value = raw[key];
+    if (value === undefined || value === null || value === '') continue;
+    const n = Number(value);
+    if (!Number.isFinite(n) || n < 0) return { error: `deal_breakers.${key} must be a non-negative number` };
+    dealBreakers[key] = n;
   }
+  if (dealBreakers.min_raise != null && dealBreakers.max_raise != null && dealBreakers.min_raise > dealBreakers.max_raise) {
+    return { error: 'deal_breakers.min_raise cannot be greater than max_raise' };
+  }
+  return { dealBreakers };
+}
 
-  clear(): void {
-    this.cache.clear();
+function formatAmount(value: number): string {
+  return formatMoney(value, 'USD');
+}
+
+/**
+ * The company's raise in its own currency: the structured `funding_ask` when present,
+ * otherwise parsed from the free-text `capital_sought`
+ */
+function resolveFundingAsk(company: CompanyProfile): MoneyRange | null {
+  if (company.funding_ask) return company.funding_ask;
+  return parseMoney(company.capital_sought);
+}
+
+/**
+ * The raise as a USD range plus a label in the original currency, e.g. "₹40Cr (~$4.8M)"
+ */
+function describeAsk(ask: MoneyRange): { min: number; max: number; label: string } | null {
+  const min = toUsd(ask.min, ask.currency);
+  const max = toUsd(ask.max, ask.currency);
+  if (min === null || max === null) return null;
+  const label = ask.currency === 'USD'
+    ? formatMoneyRange(ask)
+    : `${formatMoneyRange(ask)} (~${formatMoneyRange({ min: Math.round(min), max: Math.round(max), currency: 'USD' })})`;
+  return { min, max, label };
+}
+
+/**
+ * Lowercase words of a free-text value: "Austin, TX (US)" -> ["austin", "tx", "us"]
+ */
+function words(value: string): string[] {
+  return value.toLowerCase().split(/[^a-z0-9\u00c0-\u024f]+/).filter(Boolean);
+}
+
+/**
+ * True when `term` appears in `value` as whole words, so "US" matches "Austin, US" but not
+ * "Sydney, Australia", and "AI" does not match "Retail"
+ */
+function containsTerm(value: string, term: string): boolean {
+  const haystack = words(value);
+  const needle = words(term);
+  if (needle.length === 0) return false;
+  for (let i = 0; i + needle.length <= haystack.length; i++) {
+    if (needle.every((word, j) => haystack[i + j] === word)) return true;
   }
+  return false;
+}
+
+/**
+ * Evaluate an investor's deal breakers against a company. Unknown company data never fires a rule.
+ */
+function evaluateDealBreakers(dealBreakers: DealBreakers | null | undefined, company: CompanyProfile): DealBreakerHit[] {
+  if (!dealBreakers) return [];
+  const hits: DealBreakerHit[] = [];
+  const matchesAny = (list: string[] | undefined, value: string | undefined) => {
+    if (!list?.length || !value) return null;
+    return list.find(item => containsTerm(value, item)) ?? null;
+  };
+
+  // Excluding a sector also excludes its sub-sectors (e.g. "Energy" excludes "Solar")
+  const sector = dealBreakers.excluded_sectors?.find(item => company.sector && ['same', 'ancestor'].includes(sectorRelation(item, company.sector)))
+    ?? matchesAny(dealBreakers.excluded_sectors, company.sector);
+  if (sector) hits.push({ rule: 'excluded_sector', message: `Sector "${company.sector}" is excluded (${sector})` });
 
-  size(): number {
-    return this.cache.size;
+  const geography = matchesAny(dealBreakers.excluded_geographies, company.hq_location);
+  if (geography) hits.push({ rule: 'excluded_geography', message: `Location "${company.hq_location}" is excluded (${geography})` });
+
+  const stage = dealBreakers.excluded_stages?.find(s => s.toLowerCase().trim() === company.stage?.toLowerCase().trim());
+  if (stage) hits.push({ rule: 'excluded_stage', message: `Never invests at the ${company.stage} stage` });
+
+  const fundingAsk = resolveFundingAsk(company);
+  const ask = fundingAsk ? describeAsk(fundingAsk) : null;
+  if (ask !== null) {
+    if (dealBreakers.min_raise != null && ask.max < dealBreakers.min_raise) {
+      hits.push({ rule: 'below_min_raise', message: `Raise of ${ask.label} is below the minimum of ${formatAmount(dealBreakers.min_raise)}` });
+    }
+    if (dealBreakers.max_raise != null && ask.min > dealBreakers.max_raise) {
+      hits.push({ rule: 'above_max_raise', message: `Raise of ${ask.label} is above the maximum of ${formatAmount(dealBreakers.max_raise)}` });
+    }
   }
+  return hits;
 }
 
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+// With a shared store the local copy is only a short-lived front for it, so an
+// invalidation made by another process is picked up quickly
+const SHARED_LOCAL_TTL_MS = 60 * 1000;
+
+/**
+ * Profile fields that feed the weighted score. Changing any of them invalidates cached
+ * scores for that profile (deal breakers are applied after the cache, so they are not listed).
+ */
+export const INVESTOR_SCORING_FIELDS = [
+  'sectors', 'stages', 'check_size_min', 'check_size_max', 'check_size_unit', 'check_size_currency',
+  'geographies', 'firm', 'scoring_weights', 'scoring_weights_version',
+] as const;
+export const COMPANY_SCORING_FIELDS = [
+  'sector', 'stage', 'capital_sought', 'funding_ask', 'hq_location', 'preferred_investor_types',
+] as const;
+
+/**
+ * True when `updates` changes a scoring field compared to the stored profile
+ */
+export function touchesScoringFields(fields: readonly string[], updates: Record<string, any>, current: Record<string, any> | null | undefined): boolean {
+  return fields.some(field => field in updates && JSON.stringify(updates[field] ?? null) !== JSON.stringify(current?.[field] ?? null));
+}
+
+const getCacheKey = (investorId: string, companyId: string, weightsVersion = 0) => `${investorId}:${companyId}:w${weightsVersion}`;
+
 /**
  * Sector Matching - Exact or close match
  */
 function scoreSector(
   investorSectors: string[] | undefined,
   companySector: string | undefined
-): number {
-  if (!investorSectors || !companySector) return 50; // neutral score
+): FactorResult {
+  if (!companySector) return neutral('sector', 50, 'No sector data for company');
+  if (!investorSectors) return neutral('sector', 50, 'No sector preferences set');
+
+  // Taxonomy match: exact/synonym, then sub-sector, broader sector, sibling (best wins)
+  let best: FactorResult | null = null;
+  for (const investorSector of investorSectors) {
+    const label = normalizeSector(investorSector);
+    let result: FactorResult | null = null;
+    switch (sectorRelation(investorSector, companySector)) {
+      case 'same':
+        result = positive('sector', 100, `Sector exact match: ${companySector}`);
+        break;
+      case 'ancestor':
+        result = positive('sector', 90, `Sector ${companySector} is part of your ${label} focus`);
+        break;
+      case 'descendant':
+        result = positive('sector', 70, `Sector ${companySector} is broader than your ${label} focus`);
+        break;
+      case 'sibling':
+        result = neutral('sector', 60, `Sector ${companySector} is related to your ${label} focus`);
+        break;
+    }
+    if (result && (!best || result.score > best.score)) best = result;
+  }
+  if (best) return best;
 
   const normalizedInvestorSectors = investorSectors.map(s => s.toLowerCase().trim());
   const normalizedCompanySector = companySector.toLowerCase().trim();
 
   // Exact match
   if (normalizedInvestorSectors.includes(normalizedCompanySector)) {
-    return 100;
+    return positive('sector', 100, `Sector exact match: ${companySector}`);
   }
 
-  // Partial match (e.g., "Solar" matches "Solar Energy")
-  if (normalizedInvestorSectors.some(s => normalizedCompanySector.includes(s) || s.includes(normalizedCompanySector))) {
-    return 75;
+  // Partial match for sectors outside the taxonomy (e.g., "Solar" matches "Solar Farms")
+  const partial = investorSectors.find(s => {
+    const n = s.toLowerCase().trim();
+    return normalizedCompanySector.includes(n) || n.includes(normalizedCompanySector);
+  });
+  if (partial) {
+    return positive('sector', 75, `Sector close match: ${companySector} ~ ${partial}`);
   }
 
   // No match
-  return 20;
+  return negative('sector', 20, `Sector ${companySector} is outside your focus${listSuffix(investorSectors)}`);
 }
 
 /**
@@ -136,22 +365,23 @@ function scoreSector(
 function scoreStage(
   investorStages: string[] | undefined,
   companyStage: string | undefined
-): number {
-  if (!investorStages || !companyStage) return 60; // neutral score
+): FactorResult {
+  if (!companyStage) return neutral('stage', 60, 'No stage data for company');
+  if (!investorStages) return neutral('stage', 60, 'No stage preferences set');
 
   const normalizedInvestorStages = investorStages.map(s => s.toLowerCase().trim());
   const normalizedCompanyStage = companyStage.toLowerCase().trim();
 
   // Exact match
   if (normalizedInvestorStages.includes(normalizedCompanyStage)) {
-    return 100;
+    return positive('stage', 100, `Stage exact match: ${companyStage}`);
   }
 
   // Stage progression logic: Seed < Series A < Series B < Growth
   const stageOrder = ['seed', 'series a', 'series b', 'growth', 'late stage'];
   const companyStageIndex = stageOrder.findIndex(s => normalizedCompanyStage.includes(s));
   
-  if (companyStageIndex === -1) return 50;
+  if (companyStageIndex === -1) return neutral('stage', 50, `Stage ${companyStage} could not be compared`);
 
   // Check if investor covers the company stage or nearby stages
   for (const investorStage of normalizedInvestorStages) {
@@ -160,46 +390,62 @@ function scoreStage(
 
     // Same or adjacent stage = high score
     if (Math.abs(investorStageIndex - companyStageIndex) <= 1) {
-      return 90;
+      return positive('stage', 90, `Stage ${companyStage} is adjacent to your focus${listSuffix(investorStages)}`);
     }
     // Within 2 stages = medium score
     if (Math.abs(investorStageIndex - companyStageIndex) <= 2) {
-      return 60;
+      return neutral('stage', 60, `Stage ${companyStage} is two stages from your focus${listSuffix(investorStages)}`);
     }
   }
 
-  return 30;
+  return negative('stage', 30, `Stage ${companyStage} is far from your focus${listSuffix(investorStages)}`);
 }
 
 /**
- * Ticket Size Matching - Check if company's ask fits investor's range
+ * Ticket Size Matching - Check if company's ask fits investor's range.
+ * Both sides are converted to USD so asks and check sizes in different currencies compare like with like.
  */
 function scoreTicketSize(
   investor: InvestorProfile,
-  capitalSought: string | undefined
-): number {
-  if (!capitalSought) return 60; // neutral if unknown
-
-  // Parse capital sought (e.g., "$5M" -> 5,000,000)
-  const companyAsk = parseCapitalAmount(capitalSought);
-  if (companyAsk === null) return 50;
-
-  // Parse investor check size range
-  const investorMin = investor.check_size_min ?? 0;
-  const investorMax = investor.check_size_max ?? Infinity;
+  company: CompanyProfile
+): FactorResult {
+  const fundingAsk = resolveFundingAsk(company);
+  if (!fundingAsk) {
+    if (!company.capital_sought) return neutral('ticketSize', 60, 'No raise amount for company'); // neutral if unknown
+    return neutral('ticketSize', 50, `Raise "${company.capital_sought}" could not be parsed`);
+  }
+  const ask = describeAsk(fundingAsk);
+  if (!ask) return neutral('ticketSize', 50, `No exchange rate for ${fundingAsk.currency}`);
+
+  // Investor check size range, scaled by its unit and converted from its currency
+  const checkCurrency = investor.check_size_currency || 'USD';
+  const toCheckUsd = (value: number | undefined) => value == null ? null : toUsd(checkSizeAmount(value, investor.check_size_unit), checkCurrency);
+  const investorMin = toCheckUsd(investor.check_size_min) ?? 0;
+  const investorMax = toCheckUsd(investor.check_size_max) ?? Infinity;
+  const formatCheck = (usd: number) => checkCurrency === 'USD'
+    ? formatAmount(usd)
+    : formatMoney(usd / (toUsd(1, checkCurrency) ?? 1), checkCurrency);
 
   // Perfect fit in range
-  if (companyAsk >= investorMin && companyAsk <= investorMax) {
-    return 100;
+  if (ask.min >= investorMin && ask.max <= investorMax) {
+    if (investor.check_size_min == null && investor.check_size_max == null) {
+      return positive('ticketSize', 100, `Raise ${ask.label} (no check size range set)`);
+    }
+    return positive('ticketSize', 100, `Raise ${ask.label} fits your check size`);
+  }
+
+  // A range ask that straddles one end of the check size range
+  if (ask.min <= investorMax && ask.max >= investorMin) {
+    return positive('ticketSize', 85, `Raise ${ask.label} partly overlaps your check size`);
   }
 
   // Outside range - calculate how far off
-  if (companyAsk < investorMin) {
-    const ratio = companyAsk / investorMin;
-    return Math.max(30, 100 * ratio); // At least 30%
+  if (ask.max < investorMin) {
+    const ratio = ask.max / investorMin;
+    return negative('ticketSize', Math.max(30, 100 * ratio), `Raise ${ask.label} is below your min check ${formatCheck(investorMin)}`); // At least 30%
   } else {
-    const ratio = investorMax / companyAsk;
-    return Math.max(30, 100 * ratio); // At least 30%
+    const ratio = investorMax / ask.min;
+    return negative('ticketSize', Math.max(30, 100 * ratio), `Raise ${ask.label} is above your max check ${formatCheck(investorMax)}`); // At least 30%
   }
 }
 
@@ -209,21 +455,23 @@ function scoreTicketSize(
 function scoreGeography(
   investorGeographies: string[] | undefined,
   companyLocation: string | undefined
-): number {
-  if (!investorGeographies || !companyLocation) return 70; // neutral score
+): FactorResult {
+  if (!companyLocation) return neutral('geography', 70, 'No geography data for company');
+  if (!investorGeographies) return neutral('geography', 70, 'No geography preferences set');
 
-  const normalizedInvestorGeographies = investorGeographies.map(g => g.toLowerCase().trim());
   const normalizedCompanyLocation = companyLocation.toLowerCase().trim();
 
   // Exact or contains match
-  if (normalizedInvestorGeographies.some(g => 
-    normalizedCompanyLocation.includes(g) || g.includes(normalizedCompanyLocation)
-  )) {
-    return 100;
+  const matched = investorGeographies.find(g => {
+    const n = g.toLowerCase().trim();
+    return normalizedCompanyLocation.includes(n) || n.includes(normalizedCompanyLocation);
+  });
+  if (matched) {
+    return positive('geography', 100, `Located in ${companyLocation} (${matched})`);
   }
 
   // Different region = medium score (assume they can invest)
-  return 50;
+  return neutral('geography', 50, `${companyLocation} is outside your geographies${listSuffix(investorGeographies)}`);
 }
 
 /**
@@ -232,39 +480,23 @@ function scoreGeography(
 function scoreInvestorType(
   preferredTypes: string[] | undefined,
   investorFirm: string | undefined
-): number {
-  if (!preferredTypes || !investorFirm) return 70; // neutral score
+): FactorResult {
+  if (!preferredTypes) return neutral('investorType', 70, 'Company has no investor type preference');
+  if (!investorFirm) return neutral('investorType', 70, 'No firm set on your profile');
 
-  const normalizedPreferredTypes = preferredTypes.map(t => t.toLowerCase().trim());
   const normalizedFirm = investorFirm.toLowerCase().trim();
 
   // Check for keywords like "VC", "PE", "Angel", "Strategic"
-  if (normalizedPreferredTypes.some(t => normalizedFirm.includes(t) || t.includes(normalizedFirm))) {
-    return 100;
+  const matched = preferredTypes.find(t => {
+    const n = t.toLowerCase().trim();
+    return normalizedFirm.includes(n) || n.includes(normalizedFirm);
+  });
+  if (matched) {
+    return positive('investorType', 100, `Company prefers ${matched} investors`);
   }
 
   // Not explicitly mentioned
-  return 60;
-}
-
-/**
- * Parse capital amount from strings like "$5M", "5 million", "500k"
- */
-function parseCapitalAmount(amount: string): number | null {
-  if (!amount) return null;
-
-  const normalized = amount.toLowerCase().replace(/\s+/g, '');
-  
-  // Match patterns like 5m, 5M, 5 million, 500k, etc.
-  const match = normalized.match(/^[\$]?(\d+(?:\.\d+)?)\s*([mk]|million|thousand)?/);
-  if (!match) return null;
-
-  const value = parseFloat(match[1]);
-  const unit = match[2]?.toLowerCase() || '';
-
-  if (unit === 'm' || unit === 'million') return value * 1_000_000;
-  if (unit === 'k' || unit === 'thousand') return value * 1_000;
-  return value;
+  return neutral('investorType', 60, preferredTypes.length ? `Company prefers ${preferredTypes.join(', ')} investors` : 'Company has no investor type preference');
 }
 
 /**
@@ -280,7 +512,7 @@ function assessConfidence(investor: InvestorProfile, company: CompanyProfile): '
   if (investor.geographies?.length) dataPoints++;
   if (company.sector) dataPoints++;
   if (company.stage) dataPoints++;
-  if (company.capital_sought) dataPoints++;
+  if (company.funding_ask || company.capital_sought) dataPoints++;
 
   const completeness = dataPoints / maxDataPoints;
   if (completeness >= 0.75) return 'high';
@@ -292,30 +524,65 @@ function assessConfidence(investor: InvestorProfile, company: CompanyProfile): '
  * Main Match Engine - Calculate compatibility score
  */
 class MatchEngine {
-  private cache = new MatchCache();
+  private cache = new LruMatchCache(Number(process.env.MATCH_CACHE_MAX_ENTRIES) || DEFAULT_MAX_ENTRIES, CACHE_TTL_MS);
+  private sharedStore: MatchCacheStore | null = null;
+  private stats = { hits: 0, misses: 0, sharedHits: 0, sharedMisses: 0, invalidations: 0 };
+
+  /**
+   * Put a shared store behind the in-process cache (see matchCache.ts)
+   */
+  useSharedStore(store: MatchCacheStore | null): void {
+    this.sharedStore = store;
+    this.cache.ttlMs = store ? SHARED_LOCAL_TTL_MS : CACHE_TTL_MS;
+  }
+
+  hasSharedStore(): boolean {
+    return this.sharedStore !== null;
+  }
 
   /**
-   * Calculate match score between investor and company
+   * Calculate match score between investor and company.
+   * Uses the investor's own weight profile when set; the cache key includes its version.
+   * Deal breakers are applied on top of the (cached) weighted score.
    */
   calculateMatch(investor: InvestorProfile, company: CompanyProfile): MatchScore {
+    const score = this.calculateWeightedMatch(investor, company);
+    const dealBreakers = evaluateDealBreakers(investor.deal_breakers, company);
+    if (dealBreakers.length === 0) return score;
+    return { ...score, overall: 0, excluded: true, dealBreakers };
+  }
+
+  private calculateWeightedMatch(investor: InvestorProfile, company: CompanyProfile): MatchScore {
     // Check cache first
-    const cached = this.cache.get(investor.user_id, company.user_id);
-    if (cached) return cached;
+    const key = getCacheKey(investor.user_id, company.user_id, weightsVersion(investor));
+    const cached = this.cache.get(key);
+    if (cached) {
+      this.stats.hits++;
+      return cached.score;
+    }
+    this.stats.misses++;
+
+    const weights = resolveWeights(investor);
 
     // Calculate individual factor scores
-    const sectorScore = scoreSector(investor.sectors, company.sector);
-    const stageScore = scoreStage(investor.stages, company.stage);
-    const ticketSizeScore = scoreTicketSize(investor, company.capital_sought);
-    const geographyScore = scoreGeography(investor.geographies, company.hq_location);
-    const investorTypeScore = scoreInvestorType(company.preferred_investor_types, investor.firm);
+    const sector = scoreSector(investor.sectors, company.sector);
+    const stage = scoreStage(investor.stages, company.stage);
+    const ticketSize = scoreTicketSize(investor, company);
+    const geography = scoreGeography(investor.geographies, company.hq_location);
+    const investorType = scoreInvestorType(company.preferred_investor_types, investor.firm);
+    const sectorScore = sector.score;
+    const stageScore = stage.score;
+    const ticketSizeScore = ticketSize.score;
+    const geographyScore = geography.score;
+    const investorTypeScore = investorType.score;
 
     // Calculate weighted overall score
     const overallScore = Math.round(
-      sectorScore * SCORING_WEIGHTS.sector +
-      stageScore * SCORING_WEIGHTS.stage +
-      ticketSizeScore * SCORING_WEIGHTS.ticketSize +
-      geographyScore * SCORING_WEIGHTS.geography +
-      investorTypeScore * SCORING_WEIGHTS.investorType
+      sectorScore * weights.sector +
+      stageScore * weights.stage +
+      ticketSizeScore * weights.ticketSize +
+      geographyScore * weights.geography +
+      investorTypeScore * weights.investorType
     );
 
     const score: MatchScore = {
@@ -328,10 +595,13 @@ class MatchEngine {
         investorType: Math.round(investorTypeScore),
       },
       confidence: assessConfidence(investor, company),
+      reasons: [sector.reason, stage.reason, ticketSize.reason, geography.reason, investorType.reason],
+      excluded: false,
+      dealBreakers: [],
     };
 
     // Cache result
-    this.cache.set(investor.user_id, company.user_id, score);
+    this.cache.set({ key, investorId: investor.user_id, companyId: company.user_id, score, timestamp: Date.now() });
 
     return score;
   }
@@ -351,21 +621,100 @@ class MatchEngine {
   }
 
   /**
-   * Clear cache - useful for testing or on-demand refresh
+   * Score many investor/company pairs, going through the shared store when one is configured:
+   * missing entries are loaded from it first and newly computed scores are written back.
+   * Store failures are logged and fall back to computing the score.
+   */
+  async calculateMatches(pairs: Array<{ investor: InvestorProfile; company: CompanyProfile }>): Promise<MatchScore[]> {
+    const store = this.sharedStore;
+    if (!store) return pairs.map(({ investor, company }) => this.calculateMatch(investor, company));
+
+    const keyOf = ({ investor, company }: { investor: InvestorProfile; company: CompanyProfile }) =>
+      getCacheKey(investor.user_id, company.user_id, weightsVersion(investor));
+    const missing = Array.from(new Set(pairs.map(keyOf).filter(key => !this.cache.get(key))));
+    const found = new Set<string>();
+    if (missing.length > 0) {
+      try {
+        for (const entry of await store.getMany(missing)) {
+          this.cache.set({ ...entry, timestamp: Date.now() });
+          found.add(entry.key);
+        }
+        this.stats.sharedHits += found.size;
+        this.stats.sharedMisses += missing.length - found.size;
+      } catch (err: any) {
+        console.warn(`[matchEngine] shared cache read failed: ${err?.message ?? String(err)}`);
+      }
+    }
+
+    const scores = pairs.map(({ investor, company }) => this.calculateMatch(investor, company));
+
+    // Write back what was computed locally
+    const fresh = missing
+      .filter(key => !found.has(key))
+      .map(key => this.cache.get(key))
+      .filter((entry): entry is MatchCacheEntry => entry !== null);
+    if (fresh.length > 0) {
+      try {
+        await store.setMany(fresh);
+      } catch (err: any) {
+        console.warn(`[matchEngine] shared cache write failed: ${err?.message ?? String(err)}`);
+      }
+    }
+    return scores;
+  }
+
+  /**
+   * Drop cached scores for an investor and/or company, locally and in the shared store
+   */
+  async invalidate(filter: MatchCacheFilter): Promise<void> {
+    if (!filter.investorId && !filter.companyId) return;
+    this.stats.invalidations++;
+    this.cache.invalidate(filter);
+    if (this.sharedStore) await this.sharedStore.invalidate(filter);
+  }
+
+  /**
+   * Clear cache - useful for testing or on-demand refresh.
+   * Only the in-process cache; use `clearSharedCache` for the shared store.
    */
   clearCache(): void {
     this.cache.clear();
   }
 
+  async clearSharedCache(): Promise<void> {
+    this.cache.clear();
+    if (this.sharedStore) await this.sharedStore.clear();
+  }
+
   /**
    * Get cache stats for monitoring
    */
-  getCacheStats(): { size: number; ttlMs: number } {
+  getCacheStats(): {
+    size: number;
+    maxEntries: number;
+    ttlMs: number;
+    backend: string;
+    hits: number;
+    misses: number;
+    hitRate: number;
+    sharedHits: number;
+    sharedMisses: number;
+    invalidations: number;
+  } {
+    const lookups = this.stats.hits + this.stats.misses;
     return {
       size: this.cache.size(),
+      maxEntries: this.cache.maxEntries,
       ttlMs: CACHE_TTL_MS,
+      backend: this.sharedStore?.name ?? 'memory',
+      ...this.stats,
+      hitRate: lookups ? Math.round((this.stats.hits / lookups) * 1000) / 1000 : 0,
     };
   }
+
+  resetCacheStats(): void {
+    this.stats = { hits: 0, misses: 0, sharedHits: 0, sharedMisses: 0, invalidations: 0 };
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,213 @@
+#!/usr/bin/env tsx
+/**
+ * Meeting Calendar Sync - Test Suite
+ *
+ * External calendar events follow their meeting through reschedule, location change and
+ * cancellation (in-memory backend, recording providers; no network).
+ *
+ * Run with: npx tsx server/lib/meetingCalendarSync.test.ts
+ */
+
+import { pathToFileURL } from 'url';
+
+process.env.DATA_BACKEND = 'memory';
+delete process.env.MEMORY_DB_FILE;
+
+let failures = 0;
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✓ PASS: ${message}`);
+  } else {
+    failures++;
+    console.log(`✗ FAIL: ${message}`);
+  }
+}
+
+let setups = 0;
+
+type Call = { op: 'update' | 'delete'; owner: string; eventId: string; event?: any };
+
+/**
+ * Sync wired to a recording provider (as `microsoft`) and a recording service calendar
+ */
+async function setup() {
+  const { default: supabase } = await import('../supabase');
+  const { setCalendarProviders } = await import('./calendarProviders');
+  const { CalendarConnectionManager } = await import('./oauthManager');
+  const { MeetingCalendarSync } = await import('./meetingCalendarSync');
+
+  const calls: Call[] = [];
+  let failDeletes = false;
+  setCalendarProviders([{
+    name: 'microsoft',
+    label: 'Recording',
+    authType: 'oauth',
+    getAuthorizationUrl: () => '',
+    exchangeCodeForTokens: async () => { throw new Error('unused'); },
+    connectWithPassword: async () => { throw new Error('unused'); },
+    refreshAccessToken: async c => c,
+    getAccountEmail: async () => null,
+    getBusyTimes: async () => [],
+    createEvent: async () => ({ id: 'unused' }),
+    updateEvent: async (c, _cal, eventId, event) => {
+      calls.push({ op: 'update', owner: c.accessToken, eventId, event });
+      return { id: eventId };
+    },
+    deleteEvent: async (c, _cal, eventId) => {
+      if (failDeletes) throw new Error('provider unavailable');
+      calls.push({ op: 'delete', owner: c.accessToken, eventId });
+    },
+  }]);
+
+  const sync = new MeetingCalendarSync(supabase, {
+    serviceCalendar: {
+      update: async (eventId, event) => { calls.push({ op: 'update', owner: 'service', eventId, event }); },
+      delete: async eventId => { calls.push({ op: 'delete', owner: 'service', eventId }); },
+    },
+  });
+
+  const n = ++setups;
+  const [{ data: investor }, { data: company }] = await Promise.all([
+    supabase.from('users_eif').insert({ email: `ivy${n}@investor.example`, name: 'Ivy Investor', role: 'investor' }).select('*').maybeSingle(),
+    supabase.from('users_eif').insert({ email: `cole${n}@company.example`, name: 'Cole Company', role: 'company' }).select('*').maybeSingle(),
+  ]);
+  const connections = new CalendarConnectionManager(supabase);
+  // The access token doubles as the owner marker in recorded calls
+  await connections.storeCredentials(investor.id, { provider: 'microsoft', accessToken: `token-${investor.id}`, scope: '' });
+
+  const { data: request } = await supabase.from('meeting_requests_eif')
+    .insert({ from_user_id: investor.id, to_user_id: company.id, status: 'CONFIRMED' })
+    .select('*').maybeSingle();
+
+  const insertMeeting = async (start: string, extra: Record<string, any> = {}) => {
+    const { data } = await supabase.from('meetings_eif').insert({
+      meeting_request_id: request.id,
+      participant_a_id: investor.id,
+      participant_b_id: company.id,
+      start_time: start,
+      end_time: new Date(new Date(start).getTime() + 30 * 60 * 1000).toISOString(),
+      ...extra,
+    }).select('*').maybeSingle();
+    return data;
+  };
+
+  return {
+    supabase, sync, calls, investor, company, connections, insertMeeting,
+    setFailDeletes: (value: boolean) => { failDeletes = value; },
+    teardown: () => setCalendarProviders(null),
+  };
+}
+
+/**
+ * Test Case 1: Reschedule moves every event to the new time
+ */
+async function testReschedule() {
+  console.log('\n=== TEST 1: Reschedule ===');
+  const { supabase, sync, calls, investor, insertMeeting, teardown } = await setup();
+
+  const original = await insertMeeting('2030-05-01T09:00:00.000Z', {
+    location_url: 'https://meet.example/abc',
+    external_events: [
+      { owner: 'service', eventId: 'svc-1' },
+      { owner: investor.id, eventId: 'ms-1', provider: 'microsoft' },
+    ],
+  });
+  const replacement = await insertMeeting('2030-05-02T14:00:00.000Z', { location_url: 'https://meet.example/abc', sequence: 1 });
+
+  const moved = await sync.moveEvents([original], replacement);
+  const updates = calls.filter(c => c.op === 'update');
+  check(updates.length === 2, 'both events are patched');
+  check(updates.every(c => c.event.start === '2030-05-02T14:00:00.000Z'), 'events move to the new start time');
+  check(calls.every(c => c.op !== 'delete'), 'nothing is deleted on reschedule');
+  const personal = updates.find(c => c.owner === `token-${investor.id}`);
+  check(personal?.event.summary === 'Meeting with Cole Company' && personal.event.attendees.join() === 'cole1@company.example',
+    'participant event is addressed to the other participant');
+  check(updates.find(c => c.owner === 'service')?.event.attendees.length === 2, 'service event keeps both attendees');
+
+  check(moved.external_events?.length === 2, 'references are stored on the new meeting');
+  const { data: old } = await supabase.from('meetings_eif').select('*').eq('id', original.id).maybeSingle();
+  check((old.external_events ?? []).length === 0, 'references are removed from the superseded meeting');
+  teardown();
+}
+
+/**
+ * Test Case 2: Location change and cancellation
+ */
+async function testLocationAndCancel() {
+  console.log('\n=== TEST 2: Location change and cancellation ===');
+  const { supabase, sync, calls, investor, company, insertMeeting, setFailDeletes, teardown } = await setup();
+
+  const meeting = await insertMeeting('2030-06-01T09:00:00.000Z', {
+    location_url: 'https://meet.example/old',
+    external_events: [
+      { owner: 'service', eventId: 'svc-2' },
+      { owner: investor.id, eventId: 'ms-2', provider: 'microsoft' },
+      // Company disconnected their calendar since
+      { owner: company.id, eventId: 'gone-1', provider: 'google' },
+    ],
+  });
+
+  await sync.updateEvents({ ...meeting, location_url: 'https://zoom.example/new' });
+  const updates = calls.filter(c => c.op === 'update');
+  check(updates.length === 2 && updates.every(c => c.event.location === 'https://zoom.example/new'), 'location change reaches reachable events');
+
+  calls.length = 0;
+  setFailDeletes(true);
+  await sync.deleteEvents(meeting);
+  let { data: row } = await supabase.from('meetings_eif').select('*').eq('id', meeting.id).maybeSingle();
+  check(row.external_events.length === 1 && row.external_events[0].eventId === 'ms-2', 'failed deletes are kept for a retry');
+  check(calls.some(c => c.op === 'delete' && c.eventId === 'svc-2'), 'service event is deleted');
+
+  setFailDeletes(false);
+  await sync.deleteEvents(row);
+  ({ data: row } = await supabase.from('meetings_eif').select('*').eq('id', meeting.id).maybeSingle());
+  check(calls.some(c => c.op === 'delete' && c.eventId === 'ms-2'), 'retry deletes the participant event');
+  check(row.external_events.length === 0, 'all references are cleared after cancellation');
+  teardown();
+}
+
+/**
+ * Test Case 3: Location updates bump the meeting sequence
+ */
+async function testUpdateMeetingLocation() {
+  console.log('\n=== TEST 3: updateMeetingLocation ===');
+  const { insertMeeting, teardown } = await setup();
+  const { updateMeetingLocation } = await import('./db');
+
+  const meeting = await insertMeeting('2030-07-01T09:00:00.000Z', { sequence: 2 });
+  const updated = await updateMeetingLocation(meeting.id, 'zoom', 'https://zoom.example/1');
+  check(updated.location_url === 'https://zoom.example/1' && updated.location_type === 'zoom', 'location is stored');
+  check(updated.sequence === 3, 'sequence is bumped so calendar clients apply the change');
+  check((await updateMeetingLocation('00000000-0000-0000-0000-000000000000', 'zoom')) === null, 'unknown meeting returns null');
+  teardown();
+}
+
+// ============================================
+// RUN ALL TESTS
+// ============================================
+
+async function runAllTests() {
+  console.log('╔════════════════════════════════════════════╗');
+  console.log('║   Meeting Calendar Sync Test Suite         ║');
+  console.log('╚════════════════════════════════════════════╝');
+
+  try {
+    await testReschedule();
+    await testLocationAndCancel();
+    await testUpdateMeetingLocation();
+  } catch (error) {
+    console.error('\n✗ Test suite failed:', error);
+    process.exit(1);
+  }
+
+  console.log(failures === 0 ? '\nAll tests passed.\n' : `\n${failures} test(s) failed.\n`);
+  if (failures > 0) process.exit(1);
+}
+
+// Run tests if this is executed directly
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runAllTests();
+}
+
+export { runAllTests };
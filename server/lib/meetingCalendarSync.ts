@@ -0,0 +1,198 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CalendarProviderName } from './calendarProvider.js';
+import { CalendarConnectionManager } from './oauthManager.js';
+import { CalendarService, type CalendarEvent } from './calendarService.js';
+import { updateGoogleMeetEvent, deleteGoogleMeetEvent } from './googleCalendar.js';
+
+/**
+ * An event we created on an external calendar for a meeting, stored in
+ * `meetings_eif.external_events`
+ */
+export interface ExternalEventRef {
+  /** Participant whose calendar holds the event, or `service` for the shared service-account calendar */
+  owner: string;
+  eventId: string;
+  /** Provider of the participant's connection when the event was created (absent for `service`) */
+  provider?: CalendarProviderName;
+}
+
+export const SERVICE_CALENDAR_OWNER = 'service';
+
+/**
+ * Edits of the service-account calendar (`server/lib/googleCalendar.ts`); replaceable in tests
+ */
+export interface ServiceCalendar {
+  update(eventId: string, event: { summary: string; description?: string; start: string; end: string; attendees?: string[]; location?: string }): Promise<unknown>;
+  delete(eventId: string): Promise<void>;
+}
+
+const googleServiceCalendar: ServiceCalendar = {
+  update: updateGoogleMeetEvent,
+  delete: deleteGoogleMeetEvent,
+};
+
+/**
+ * Keeps the external calendar events of a meeting in step with the meeting row: moved on
+ * reschedule, edited on location change and deleted on cancellation. Failures are logged and
+ * never block the meeting change itself.
+ */
+export class MeetingCalendarSync {
+  private supabase: SupabaseClient;
+  private connections: CalendarConnectionManager;
+  private calendarService: CalendarService;
+  private serviceCalendar: ServiceCalendar;
+
+  constructor(
+    supabase: SupabaseClient,
+    options: { connections?: CalendarConnectionManager; calendarService?: CalendarService; serviceCalendar?: ServiceCalendar } = {},
+  ) {
+    this.supabase = supabase;
+    this.connections = options.connections || new CalendarConnectionManager(supabase);
+    this.calendarService = options.calendarService || new CalendarService(supabase);
+    this.serviceCalendar = options.serviceCalendar || googleServiceCalendar;
+  }
+
+  /**
+   * Record events created for a meeting; returns the updated row
+   */
+  async attachEvents(meeting: any, refs: ExternalEventRef[]): Promise<any> {
+    if (refs.length === 0) return meeting;
+    return this.saveRefs(meeting, [...externalEvents(meeting), ...refs]);
+  }
+
+  /**
+   * Reschedule: move the events of superseded meetings to `meeting` (their replacement) and
+   * record them on it; returns the updated row
+   */
+  async moveEvents(previous: any[], meeting: any): Promise<any> {
+    const seen = new Set(externalEvents(meeting).map(refKey));
+    const moved: ExternalEventRef[] = [];
+    for (const old of previous) {
+      for (const ref of externalEvents(old)) {
+        if (seen.has(refKey(ref))) continue;
+        seen.add(refKey(ref));
+        if (await this.updateEvent(meeting, ref)) moved.push(ref);
+      }
+      if (externalEvents(old).length > 0) await this.saveRefs(old, []);
+    }
+    return this.attachEvents(meeting, moved);
+  }
+
+  /**
+   * Push the meeting's current time and location to its events
+   */
+  async updateEvents(meeting: any): Promise<void> {
+    for (const ref of externalEvents(meeting)) {
+      await this.updateEvent(meeting, ref);
+    }
+  }
+
+  /**
+   * Cancellation: delete the meeting's events and forget them
+   */
+  async deleteEvents(meeting: any): Promise<void> {
+    const refs = externalEvents(meeting);
+    if (refs.length === 0) return;
+
+    const remaining: ExternalEventRef[] = [];
+    for (const ref of refs) {
+      try {
+        if (ref.owner === SERVICE_CALENDAR_OWNER) {
+          await this.serviceCalendar.delete(ref.eventId);
+        } else {
+          const credentials = await this.ownerCredentials(ref);
+          if (!credentials) continue; // calendar disconnected; nothing we can reach
+          await this.calendarService.deleteEvent(ref.owner, credentials, ref.eventId);
+        }
+      } catch (e) {
+        console.error(`Failed to delete external event ${ref.eventId} for meeting ${meeting.id}:`, (e as any)?.message ?? e);
+        remaining.push(ref);
+      }
+    }
+    await this.saveRefs(meeting, remaining);
+  }
+
+  private async updateEvent(meeting: any, ref: ExternalEventRef): Promise<boolean> {
+    try {
+      if (ref.owner === SERVICE_CALENDAR_OWNER) {
+        await this.serviceCalendar.update(ref.eventId, await this.serviceEvent(meeting));
+        return true;
+      }
+      const credentials = await this.ownerCredentials(ref);
+      if (!credentials) return false;
+      await this.calendarService.updateEvent(ref.owner, credentials, ref.eventId, await this.participantEvent(meeting, ref.owner));
+      return true;
+    } catch (e) {
+      console.error(`Failed to update external event ${ref.eventId} for meeting ${meeting.id}:`, (e as any)?.message ?? e);
+      // Keep the reference so a later change can try again
+      return true;
+    }
+  }
+
+  /**
+   * Credentials for the calendar holding a participant's event, or null when the user has
+   * since disconnected it or connected a different provider
+   */
+  private async ownerCredentials(ref: ExternalEventRef) {
+    const credentials = await this.connections.getCredentials(ref.owner);
+    if (!credentials) return null;
+    if (ref.provider && (credentials.provider ?? 'google') !== ref.provider) return null;
+    return credentials;
+  }
+
+  private async participants(meeting: any): Promise<any[]> {
+    const ids = [meeting.participant_a_id, meeting.participant_b_id].filter(Boolean);
+    if (ids.length === 0) return [];
+    const { data, error } = await this.supabase.from('users_eif').select('*').in('id', ids);
+    if (error) throw error;
+    return data ?? [];
+  }
+
+  private async serviceEvent(meeting: any) {
+    const users = await this.participants(meeting);
+    return {
+      summary: 'EIF Meeting',
+      start: new Date(meeting.start_time).toISOString(),
+      end: new Date(meeting.end_time).toISOString(),
+      attendees: users.map(u => u.email).filter(Boolean),
+      location: meeting.location_url ?? meeting.location_type ?? undefined,
+    };
+  }
+
+  private async participantEvent(meeting: any, ownerId: string): Promise<CalendarEvent> {
+    const users = await this.participants(meeting);
+    const other = users.find(u => u.id !== ownerId);
+    return {
+      summary: `Meeting with ${other?.name ?? other?.email ?? 'EIF participant'}`,
+      description: meetingDescription(meeting),
+      start: new Date(meeting.start_time).toISOString(),
+      end: new Date(meeting.end_time).toISOString(),
+      location: meeting.location_url ?? meeting.location_type ?? undefined,
+      attendees: other?.email ? [other.email] : [],
+      sequence: Number(meeting.sequence ?? 0),
+    };
+  }
+
+  private async saveRefs(meeting: any, refs: ExternalEventRef[]): Promise<any> {
+    const { data, error } = await this.supabase
+      .from('meetings_eif')
+      .update({ external_events: refs })
+      .eq('id', meeting.id)
+      .select('*')
+      .maybeSingle();
+    if (error) throw error;
+    return data ?? { ...meeting, external_events: refs };
+  }
+}
+
+export function externalEvents(meeting: any): ExternalEventRef[] {
+  return Array.isArray(meeting?.external_events) ? meeting.external_events : [];
+}
+
+function refKey(ref: ExternalEventRef): string {
+  return `${ref.owner}:${ref.eventId}`;
+}
+
+function meetingDescription(meeting: any): string {
+  return meeting.location_url ? `Join: ${meeting.location_url}` : 'Scheduled through the EIF portal.';
+}
@@ -0,0 +1,109 @@
+#!/usr/bin/env tsx
+/**
+ * Meeting invitations - Test Suite
+ *
+ * Covers the iCalendar writer and the `meetingInvite` email (iTIP REQUEST/CANCEL).
+ *
+ * Run with: npx tsx server/lib/meetingInvites.test.ts
+ */
+
+import { pathToFileURL } from 'url';
+import { buildCalendar, meetingUid, type CalendarEvent } from './ical';
+import { inviteOrganizer } from './meetingInvites';
+import { renderEmail } from './emailTemplates';
+
+let failures = 0;
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✓ PASS: ${message}`);
+  } else {
+    failures++;
+    console.log(`✗ FAIL: ${message}`);
+  }
+}
+
+const event: CalendarEvent = {
+  uid: meetingUid({ id: 'm-2', meeting_request_id: 'req-1' }),
+  start: '2026-11-02T10:00:00Z',
+  end: '2026-11-02T10:30:00Z',
+  summary: 'Meeting with Helio, Inc; Seed round',
+  location: 'https://meet.example.com/abc',
+  sequence: 0,
+  attendees: [{ email: 'ada@example.com', name: 'Ada' }, { email: 'ben@example.com', name: null }],
+};
+
+/**
+ * Test Case 1: iCalendar serialization
+ */
+function testCalendar() {
+  console.log('\n=== TEST 1: iCalendar output ===');
+  const ics = buildCalendar([{ ...event, description: 'x'.repeat(200) }]);
+
+  check(ics.includes('\r\n') && !/[^\r]\n/.test(ics), 'lines end with CRLF');
+  check(ics.split('\r\n').every(line => Buffer.byteLength(line, 'utf8') <= 75), 'long lines are folded to 75 octets');
+  check(ics.includes('UID:req-1@eif-portal'), 'UID comes from the meeting request so reschedules update the same event');
+  check(ics.includes('SUMMARY:Meeting with Helio\\, Inc\\; Seed round'), 'text values are escaped');
+  check(ics.includes('DTSTART:20261102T100000Z'), 'times are written in UTC');
+  check(!ics.includes('METHOD:'), 'plain downloads carry no iTIP method');
+}
+
+/**
+ * Test Case 2: REQUEST and CANCEL messages
+ */
+function testInvites() {
+  console.log('\n=== TEST 2: iTIP messages ===');
+  process.env.SMTP_FROM = 'EIF Meetings <meetings@example.com>';
+  check(inviteOrganizer().email === 'meetings@example.com' && inviteOrganizer().name === 'EIF Meetings', 'organizer is parsed from SMTP_FROM');
+
+  const request = renderEmail('meetingInvite', { event, method: 'REQUEST', timezone: 'Europe/Berlin' });
+  const unfolded = request.icalEvent!.content.replace(/\r\n /g, '');
+  check(request.icalEvent!.content.includes('METHOD:REQUEST'), 'invitation uses METHOD:REQUEST');
+  check(unfolded.includes('ORGANIZER;CN="EIF Meetings":mailto:meetings@example.com'), 'invitation names the organizer');
+  check(unfolded.includes('ATTENDEE;CN="Ada";ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:ada@example.com'), 'attendees are asked to RSVP');
+  check(request.subject.startsWith('Invitation:') && request.text.includes('11:00 AM (Europe/Berlin)'), 'subject and body show the local time');
+
+  const rescheduled = renderEmail('meetingInvite', { event: { ...event, sequence: 2 }, method: 'REQUEST' });
+  check(rescheduled.subject.startsWith('Updated invitation:') && rescheduled.icalEvent!.content.includes('SEQUENCE:2'), 'a reschedule is an updated invitation with a higher SEQUENCE');
+
+  const cancel = renderEmail('meetingInvite', { event: { ...event, status: 'CANCELLED', sequence: 3 }, method: 'CANCEL' });
+  check(cancel.icalEvent!.content.includes('METHOD:CANCEL') && cancel.icalEvent!.content.includes('STATUS:CANCELLED'), 'cancellation uses METHOD:CANCEL');
+  check(cancel.subject.startsWith('Cancelled:'), 'cancellation subject');
+
+  const fallback = renderEmail('meetingInvite', { event, method: 'REQUEST', timezone: 'Not/AZone' });
+  check(fallback.text.includes('(UTC)'), 'an unknown timezone falls back to UTC');
+
+  const both = renderEmail('meetingInvite', { event, method: 'REQUEST', timezone: 'Europe/Berlin', otherTimezone: 'EST' });
+  check(both.text.includes('For the other participant: Monday, November 2, 2026 at 5:00 AM (America/New_York)'),
+    'the other participant\'s local time is shown alongside');
+  const same = renderEmail('meetingInvite', { event, method: 'REQUEST', timezone: 'Europe/Berlin', otherTimezone: 'Europe/Berlin' });
+  check(!same.text.includes('other participant'), 'no second time when both share a timezone');
+}
+
+// ============================================
+// RUN ALL TESTS
+// ============================================
+
+function runAllTests() {
+  console.log('╔════════════════════════════════════════════╗');
+  console.log('║   Meeting Invitations Test Suite           ║');
+  console.log('╚════════════════════════════════════════════╝');
+
+  try {
+    testCalendar();
+    testInvites();
+  } catch (error) {
+    console.error('\n✗ Test suite failed:', error);
+    process.exit(1);
+  }
+
+  console.log(failures === 0 ? '\nAll tests passed.\n' : `\n${failures} test(s) failed.\n`);
+  if (failures > 0) process.exit(1);
+}
+
+// Run tests if this is executed directly
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runAllTests();
+}
+
+export { runAllTests };
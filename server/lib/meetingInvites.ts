@@ -0,0 +1,41 @@
+import { normalizeTimeZone } from '@shared/timezone';
+import { buildCalendar, type CalendarAttendee, type CalendarEvent } from './ical.js';
+
+/**
+ * Calendar invitations (iTIP, RFC 5546) sent by email.
+ *
+ * The portal is the ORGANIZER of every meeting (the sender mailbox) and both
+ * participants are ATTENDEEs, so mail clients show Accept/Decline and replies go back to
+ * that mailbox. A reschedule is a new REQUEST for the same UID with a higher SEQUENCE;
+ * a cancelled meeting is sent as METHOD:CANCEL. The email itself is the `meetingInvite`
+ * template in `emailTemplates.ts`.
+ */
+
+export type InviteMethod = 'REQUEST' | 'CANCEL';
+
+/**
+ * The organizer for invitations, taken from the sender address (default `SMTP_FROM`),
+ * "EIF <meetings@example.com>" or a bare address
+ */
+export function inviteOrganizer(from: string = process.env.SMTP_FROM || 'noreply@localhost'): CalendarAttendee {
+  const match = from.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+  if (match) return { email: match[2].trim(), name: match[1].trim() || 'EIF Portal' };
+  return { email: from.trim(), name: 'EIF Portal' };
+}
+
+/**
+ * Human-readable meeting time in the meeting's timezone, e.g. "Monday, November 2, 2026 at 11:00 AM (Europe/Berlin)".
+ * Legacy abbreviations (EST, PST...) map to their region; unknown timezones fall back to UTC.
+ */
+export function formatMeetingTime(value: string | Date, timezone = 'UTC'): string {
+  const zone = normalizeTimeZone(timezone);
+  return `${new Date(value).toLocaleString('en-US', { dateStyle: 'full', timeStyle: 'short', timeZone: zone })} (${zone})`;
+}
+
+/**
+ * The event as sent in an invitation (organizer filled in) and its iTIP calendar body
+ */
+export function buildInvite(event: CalendarEvent, method: InviteMethod) {
+  const invite: CalendarEvent = { ...event, organizer: event.organizer ?? inviteOrganizer() };
+  return { event: invite, ics: buildCalendar([invite], { method }) };
+}
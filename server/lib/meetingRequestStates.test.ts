@@ -0,0 +1,146 @@
+#!/usr/bin/env tsx
+/**
+ * Meeting request state machine - Test Suite
+ *
+ * Legal transitions, who may make them, the PATCH whitelist and the audit trail.
+ *
+ * Run with: npx tsx server/lib/meetingRequestStates.test.ts
+ */
+
+import { pathToFileURL } from 'url';
+import { checkTransition, currentStatus, isFinalStatus, nextStatuses, validateMeetingRequestUpdate } from './meetingRequestStates';
+
+process.env.DATA_BACKEND = 'memory';
+delete process.env.MEMORY_DB_FILE;
+
+let failures = 0;
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✓ PASS: ${message}`);
+  } else {
+    failures++;
+    console.log(`✗ FAIL: ${message}`);
+  }
+}
+
+const request = (status: string) => ({ status, from_user_id: 'investor', to_user_id: 'company' });
+
+/**
+ * Test Case 1: Legal and illegal transitions
+ */
+function testTransitions() {
+  console.log('\n=== TEST 1: Transitions ===');
+
+  check(nextStatuses('PENDING').join() === 'CONFIRMED,DECLINED,CANCELLED,EXPIRED', 'a pending request can be confirmed, declined, cancelled or expire');
+  check(checkTransition(request('CONFIRMED'), 'RESCHEDULING') === null, 'a confirmed meeting can be rescheduled');
+  check(checkTransition(request('RESCHEDULING'), 'CONFIRMED') === null, 'and confirmed again');
+  check(checkTransition(request('CONFIRMED'), 'COMPLETED') === null && checkTransition(request('CONFIRMED'), 'NO_SHOW') === null, 'a confirmed meeting can be completed or missed');
+
+  const backwards = checkTransition(request('CONFIRMED'), 'PENDING');
+  check(backwards?.code === 'illegal_transition' && backwards.status === 409, 'going back to PENDING is illegal (409 illegal_transition)');
+  check(checkTransition(request('PENDING'), 'COMPLETED')?.code === 'illegal_transition', 'a request is not completed before it is confirmed');
+
+  const final = checkTransition(request('DECLINED'), 'CONFIRMED');
+  check(isFinalStatus('DECLINED') && final?.message.includes('final') === true, 'final statuses say so');
+  check(currentStatus({ status: 'confirmed' }) === 'CONFIRMED' && currentStatus({}) === 'PENDING', 'stored statuses are read leniently');
+}
+
+/**
+ * Test Case 2: Who may make a transition through PATCH
+ */
+function testActors() {
+  console.log('\n=== TEST 2: Actors ===');
+
+  check(checkTransition(request('PENDING'), 'CONFIRMED', 'company') === null, 'the recipient accepts');
+  check(checkTransition(request('PENDING'), 'CONFIRMED', 'investor')?.code === 'transition_forbidden', 'the requester cannot accept their own request');
+  check(checkTransition(request('PENDING'), 'CANCELLED', 'investor') === null, 'the requester cancels');
+  check(checkTransition(request('PENDING'), 'DECLINED', 'investor')?.status === 403, 'the requester cannot decline');
+  check(checkTransition(request('CONFIRMED'), 'NO_SHOW', 'investor') === null && checkTransition(request('CONFIRMED'), 'NO_SHOW', 'company') === null,
+    'either side records a no-show');
+  check(checkTransition(request('PENDING'), 'EXPIRED', 'company')?.code === 'transition_forbidden', 'only the server expires requests');
+  check(checkTransition(request('PENDING'), 'EXPIRED') === null, 'server flows skip the actor check');
+  check(checkTransition(request('PENDING'), 'CONFIRMED', 'stranger')?.code === 'transition_forbidden', 'non-participants cannot change anything');
+}
+
+/**
+ * Test Case 3: PATCH body whitelist
+ */
+function testUpdateValidation() {
+  console.log('\n=== TEST 3: Update validation ===');
+
+  const ok = validateMeetingRequestUpdate({ status: 'confirmed', start_time: '2030-01-07T10:00:00Z', end_time: '2030-01-07T10:30:00Z', message: 'See you' });
+  check(ok.status === 'CONFIRMED' && ok.fields?.message === 'See you' && !('start_time' in (ok.fields ?? {})), 'confirmation details are accepted but not stored on the request');
+
+  const unknown = validateMeetingRequestUpdate({ status: 'CONFIRMED', to_user_id: 'someone-else' });
+  check(unknown.error?.code === 'field_not_updatable' && unknown.error.message.includes('to_user_id'), 'other columns are rejected (400 field_not_updatable)');
+  check(validateMeetingRequestUpdate({ status: 'DONE' }).error?.code === 'invalid_status', 'unknown statuses are rejected (400 invalid_status)');
+}
+
+/**
+ * Test Case 4: Transitions in storage
+ */
+async function testStorage() {
+  console.log('\n=== TEST 4: Audit trail ===');
+
+  const db = await import('./db');
+  const created = await db.createMeetingRequest('investor-1', 'company-1', 'INVESTOR', 'COMPANY', 'Intro');
+
+  const confirmed = await db.transitionMeetingRequest(created.id, 'PENDING', 'CONFIRMED', 'company-1');
+  check(confirmed?.status === 'CONFIRMED', 'the request moves to the new status');
+
+  const stale = await db.transitionMeetingRequest(created.id, 'PENDING', 'DECLINED', 'company-1');
+  check(stale === null && (await db.getMeetingRequestById(created.id))?.status === 'CONFIRMED', 'a transition from an outdated status changes nothing');
+
+  await db.transitionMeetingRequest(created.id, 'CONFIRMED', 'RESCHEDULING', 'investor-1', { reason: 'new times proposed' });
+  const trail = await db.listMeetingRequestTransitions(created.id);
+  check(trail.length === 2, 'each transition is recorded once');
+  check(trail[1].from_status === 'CONFIRMED' && trail[1].to_status === 'RESCHEDULING' && trail[1].actor_user_id === 'investor-1' && trail[1].reason === 'new times proposed',
+    'with the statuses, actor and reason');
+  check(Boolean(trail[0].created_at), 'and a timestamp');
+
+  // Rows from before statuses existed have none and count as PENDING
+  const legacy = await db.createMeetingRequest('investor-3', 'company-1', 'INVESTOR', 'COMPANY', 'Legacy');
+  await db.updateMeetingRequest(legacy.id, { status: null });
+  const { currentStatus } = await import('./meetingRequestStates');
+  const unset = await db.getMeetingRequestById(legacy.id);
+  const accepted = await db.transitionMeetingRequest(legacy.id, unset.status, 'CONFIRMED', 'company-1');
+  check(unset.status === null && currentStatus(unset) === 'PENDING' && accepted?.status === 'CONFIRMED', 'a request without a status can be moved on');
+  check((await db.listMeetingRequestTransitions(legacy.id))[0]?.from_status === 'PENDING', 'and its audit entry starts from PENDING');
+  check((await db.transitionMeetingRequest(legacy.id, null, 'DECLINED', 'company-1')) === null, 'a status set since then is not overwritten');
+
+  const old = await db.createMeetingRequest('investor-2', 'company-1', 'INVESTOR', 'COMPANY', 'Old');
+  const cutoff = new Date(Date.now() + 1000);
+  check((await db.listStalePendingMeetingRequests(cutoff)).some((r: any) => r.id === old.id), 'unanswered requests older than the cutoff are found for expiry');
+  check(!(await db.listStalePendingMeetingRequests(cutoff)).some((r: any) => r.id === created.id), 'answered ones are not');
+}
+
+// ============================================
+// RUN ALL TESTS
+// ============================================
+
+async function runAllTests() {
+  console.log('╔════════════════════════════════════════════╗');
+  console.log('║   Meeting Request States Test Suite        ║');
+  console.log('╚════════════════════════════════════════════╝');
+
+  try {
+    testTransitions();
+    testActors();
+    testUpdateValidation();
+    await testStorage();
+  } catch (error) {
+    console.error('\n✗ Test suite failed:', error);
+    process.exit(1);
+  }
+
+  console.log(failures === 0 ? '\nAll tests passed.\n' : `\n${failures} test(s) failed.\n`);
+  if (failures > 0) process.exit(1);
+}
+
+// Run tests if this is executed directly
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runAllTests();
+}
+
+export { runAllTests };
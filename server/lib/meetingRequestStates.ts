@@ -0,0 +1,157 @@
+/**
+ * Meeting request lifecycle (`meeting_requests_eif.status`).
+ *
+ *   PENDING -> CONFIRMED | DECLINED | CANCELLED | EXPIRED
+ *   CONFIRMED -> RESCHEDULING | COMPLETED | NO_SHOW | CANCELLED
+ *   RESCHEDULING -> CONFIRMED | CANCELLED
+ *
+ * DECLINED, CANCELLED, EXPIRED, COMPLETED and NO_SHOW are final. Each transition lists who may
+ * make it through `PATCH /api/meetings/requests/:id`; an empty list means only the server does,
+ * from a flow with its own checks (booking, proposals, expiry). Every transition is recorded in
+ * `meeting_request_transitions_eif`.
+ */
+
+export type MeetingRequestStatus =
+  | 'PENDING'
+  | 'CONFIRMED'
+  | 'RESCHEDULING'
+  | 'DECLINED'
+  | 'CANCELLED'
+  | 'EXPIRED'
+  | 'COMPLETED'
+  | 'NO_SHOW';
+
+/** Which side of the request a user is on */
+export type MeetingRequestParty = 'requester' | 'recipient';
+
+export type TransitionErrorCode =
+  | 'invalid_status'
+  | 'field_not_updatable'
+  | 'illegal_transition'
+  | 'transition_forbidden'
+  | 'meeting_not_started'
+  | 'status_conflict';
+
+export interface TransitionError {
+  code: TransitionErrorCode;
+  /** HTTP status the routes answer with */
+  status: number;
+  message: string;
+}
+
+export const MEETING_REQUEST_STATUSES: MeetingRequestStatus[] = [
+  'PENDING', 'CONFIRMED', 'RESCHEDULING', 'DECLINED', 'CANCELLED', 'EXPIRED', 'COMPLETED', 'NO_SHOW',
+];
+
+const BOTH: MeetingRequestParty[] = ['requester', 'recipient'];
+
+const TRANSITIONS: Record<MeetingRequestStatus, Partial<Record<MeetingRequestStatus, MeetingRequestParty[]>>> = {
+  PENDING: { CONFIRMED: ['recipient'], DECLINED: ['recipient'], CANCELLED: ['requester'], EXPIRED: [] },
+  CONFIRMED: { RESCHEDULING: BOTH, COMPLETED: BOTH, NO_SHOW: BOTH, CANCELLED: ['requester'] },
+  // Back to CONFIRMED keeps the current time; accepting a proposal moves it
+  RESCHEDULING: { CONFIRMED: BOTH, CANCELLED: ['requester'] },
+  DECLINED: {},
+  CANCELLED: {},
+  EXPIRED: {},
+  COMPLETED: {},
+  NO_SHOW: {},
+};
+
+/** Statuses that can only be set once the meeting has started */
+export const AFTER_MEETING_STATUSES: MeetingRequestStatus[] = ['COMPLETED', 'NO_SHOW'];
+
+/** Statuses with a meeting on the calendar */
+export const SCHEDULED_STATUSES: MeetingRequestStatus[] = ['CONFIRMED', 'RESCHEDULING'];
+
+/** Pending requests nobody answered expire after this many days */
+export const MEETING_REQUEST_TTL_DAYS = 30;
+
+/** Columns of the request itself a participant may change through PATCH (besides `status`) */
+export const UPDATABLE_FIELDS = ['message'];
+
+/** Details used when confirming, kept on the meeting record rather than the request */
+export const CONFIRMATION_FIELDS = ['start_time', 'end_time', 'timezone', 'location_type', 'location_url'];
+
+export function isMeetingRequestStatus(value: unknown): value is MeetingRequestStatus {
+  return typeof value === 'string' && (MEETING_REQUEST_STATUSES as string[]).includes(value);
+}
+
+export function isFinalStatus(status: MeetingRequestStatus): boolean {
+  return Object.keys(TRANSITIONS[status]).length === 0;
+}
+
+/** Statuses reachable from `status` */
+export function nextStatuses(status: MeetingRequestStatus): MeetingRequestStatus[] {
+  return Object.keys(TRANSITIONS[status]) as MeetingRequestStatus[];
+}
+
+/** The stored status, treating rows from before the state machine (lowercase, missing) leniently */
+export function currentStatus(request: { status?: string | null }): MeetingRequestStatus {
+  const status = (request.status ?? 'PENDING').toString().toUpperCase();
+  return isMeetingRequestStatus(status) ? status : 'PENDING';
+}
+
+export function partyOf(request: { from_user_id: string; to_user_id: string }, userId: string): MeetingRequestParty | null {
+  if (request.from_user_id === userId) return 'requester';
+  if (request.to_user_id === userId) return 'recipient';
+  return null;
+}
+
+/**
+ * Check a PATCH body: `status` must be known and only whitelisted fields may be present.
+ * Returns the normalized target status (if any) and the request columns to update.
+ */
+export function validateMeetingRequestUpdate(body: unknown): { status?: MeetingRequestStatus; fields?: Record<string, any>; error?: TransitionError } {
+  if (!body || typeof body !== 'object') return { fields: {} };
+  const raw = body as Record<string, any>;
+
+  const unknown = Object.keys(raw).filter(key => key !== 'status' && key !== 'reason' && !UPDATABLE_FIELDS.includes(key) && !CONFIRMATION_FIELDS.includes(key));
+  if (unknown.length > 0) {
+    return { error: { code: 'field_not_updatable', status: 400, message: `cannot update ${unknown.join(', ')}` } };
+  }
+
+  let status: MeetingRequestStatus | undefined;
+  if (raw.status !== undefined) {
+    const value = String(raw.status).toUpperCase();
+    if (!isMeetingRequestStatus(value)) {
+      return { error: { code: 'invalid_status', status: 400, message: `status must be one of ${MEETING_REQUEST_STATUSES.join(', ')}` } };
+    }
+    status = value;
+  }
+
+  const fields: Record<string, any> = {};
+  for (const key of UPDATABLE_FIELDS) if (raw[key] !== undefined) fields[key] = raw[key];
+  return { status, fields };
+}
+
+/**
+ * Whether the request may move to `to`. With `actor` the transition must be one that user's side
+ * may make by hand; without it the caller is a server flow that authorized the change itself.
+ */
+export function checkTransition(
+  request: { status?: string | null; from_user_id: string; to_user_id: string },
+  to: MeetingRequestStatus,
+  actor?: string,
+): TransitionError | null {
+  const from = currentStatus(request);
+  const allowed = TRANSITIONS[from][to];
+  if (!allowed) {
+    const next = nextStatuses(from);
+    return {
+      code: 'illegal_transition',
+      status: 409,
+      message: `a ${from} meeting request cannot become ${to}` + (next.length > 0 ? ` (allowed: ${next.join(', ')})` : ` (${from} is final)`),
+    };
+  }
+  if (actor !== undefined) {
+    const party = partyOf(request, actor);
+    if (!party || !allowed.includes(party)) {
+      return {
+        code: 'transition_forbidden',
+        status: 403,
+        message: allowed.length > 0 ? `only the ${allowed.join(' or ')} may set a ${from} meeting request to ${to}` : `${to} is set automatically`,
+      };
+    }
+  }
+  return null;
+}
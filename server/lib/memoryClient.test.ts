@@ -0,0 +1,169 @@
+#!/usr/bin/env tsx
+/**
+ * In-memory backend - Test Suite
+ *
+ * Exercises the memory query builder directly, then runs `db.ts` helpers and the
+ * `AutomaticScheduler` against it with DATA_BACKEND=memory (no network).
+ *
+ * Run with: npx tsx server/lib/memoryClient.test.ts
+ */
+
+import { pathToFileURL } from 'url';
+import { createMemoryClient, MemoryDatabase } from './memoryClient';
+
+let failures = 0;
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✓ PASS: ${message}`);
+  } else {
+    failures++;
+    console.log(`✗ FAIL: ${message}`);
+  }
+}
+
+/**
+ * Test Case 1: Insert, filter, order and count
+ */
+async function testQueryBuilder() {
+  console.log('\n=== TEST 1: Query Builder ===');
+  const client = createMemoryClient(new MemoryDatabase());
+
+  await client.from('company_profiles_eif').insert([
+    { user_id: 'c1', name: 'SolarGrid', sector: 'Energy', created_at: '2024-01-01T00:00:00.000Z' },
+    { user_id: 'c2', name: 'PayFlow', sector: 'Fintech', created_at: '2024-02-01T00:00:00.000Z' },
+    { user_id: 'c3', name: 'WindCo', sector: 'Energy', created_at: '2024-03-01T00:00:00.000Z' },
+  ]);
+
+  const { data, count } = await client
+    .from('company_profiles_eif')
+    .select('*', { count: 'exact' })
+    .eq('sector', 'Energy')
+    .order('created_at', { ascending: false })
+    .range(0, 0);
+
+  check(count === 2, 'count reflects all matches before range');
+  check(data?.length === 1 && data[0].user_id === 'c3', 'order + range returns newest match');
+
+  const { data: searched } = await client
+    .from('company_profiles_eif')
+    .select('user_id')
+    .or('name.ilike.%flow%,description.ilike.%flow%');
+  check(searched?.length === 1 && searched[0].user_id === 'c2', 'or() with ilike matches case-insensitively');
+}
+
+/**
+ * Test Case 2: Nested or/and filters and embedded relations
+ */
+async function testRelationsAndOr() {
+  console.log('\n=== TEST 2: Relations and or(and(...)) ===');
+  const client = createMemoryClient(new MemoryDatabase());
+
+  const { data: request } = await client
+    .from('meeting_requests_eif')
+    .insert({ from_user_id: 'a', to_user_id: 'b', from_role: 'INVESTOR', to_role: 'COMPANY' })
+    .select('*')
+    .maybeSingle();
+  await client.from('time_proposals_eif').insert({ meeting_request_id: request.id, proposed_by_user_id: 'a', start_time: '2030-01-01T10:00:00.000Z', end_time: '2030-01-01T10:30:00.000Z' });
+
+  check(request.status === 'PENDING', 'table defaults are applied on insert');
+
+  const { data: found } = await client
+    .from('meeting_requests_eif')
+    .select('*, time_proposals_eif(*)')
+    .or('and(from_user_id.eq.b,to_user_id.eq.a),and(from_user_id.eq.a,to_user_id.eq.b)');
+  check(found?.length === 1 && found[0].time_proposals_eif.length === 1, 'pair lookup embeds time proposals');
+}
+
+/**
+ * Test Case 3: Unique constraints and upsert
+ */
+async function testConstraints() {
+  console.log('\n=== TEST 3: Constraints and Upsert ===');
+  const client = createMemoryClient(new MemoryDatabase());
+
+  await client.from('users_eif').insert({ email: 'a@example.com' });
+  const { error } = await client.from('users_eif').insert({ email: 'a@example.com' });
+  check(error?.code === '23505', 'duplicate email raises unique violation');
+
+  await client.from('favorites_eif').upsert({ user_id: 'u', favorite_user_id: 'c', note: 'first' }, { onConflict: 'user_id, favorite_user_id' });
+  await client.from('favorites_eif').upsert({ user_id: 'u', favorite_user_id: 'c', note: 'second' }, { onConflict: 'user_id, favorite_user_id' });
+  const { data } = await client.from('favorites_eif').select('*').eq('user_id', 'u');
+  check(data?.length === 1 && data[0].note === 'second', 'upsert updates on conflict target');
+}
+
+/**
+ * Test Case 4: db.ts helpers and AutomaticScheduler end-to-end
+ */
+async function testServerModules() {
+  console.log('\n=== TEST 4: db.ts + AutomaticScheduler ===');
+  process.env.DATA_BACKEND = 'memory';
+  delete process.env.MEMORY_DB_FILE;
+  delete process.env.GOOGLE_SERVICE_ACCOUNT_JSON;
+
+  const { default: supabase } = await import('../supabase');
+  const db = await import('./db');
+  const { storage } = await import('../storage');
+  const { AutomaticScheduler } = await import('./automaticScheduler');
+
+  const investor = await storage.createUser({ email: 'inv@example.com', password: 'secret123', role: 'investor', arrange_meetings: true });
+  const company = await storage.createUser({ email: 'co@example.com', password: 'secret123', role: 'company', arrange_meetings: true });
+  check(!!(await storage.getUserByUsername('inv@example.com')), 'storage works on the memory backend');
+
+  await db.createUserAvailabilitySchedule(investor.id, 2, '09:00:00', '12:00:00');
+  await db.createUserAvailabilitySchedule(company.id, 2, '11:00:00', '15:00:00');
+
+  const results = await new AutomaticScheduler(supabase).runScheduler();
+  check(results.length === 1 && results[0].status === 'scheduled', 'scheduler books a meeting for overlapping users');
+
+  const meetings = await db.listMeetingsForUser(company.id);
+  check(meetings.length === 1, 'scheduled meeting is visible through listMeetingsForUser');
+
+  const notifications = await db.listNotificationsForUser(investor.id);
+  check(notifications.length === 1 && notifications[0].type === 'auto_meeting_scheduled', 'scheduler notifies participants');
+
+  await supabase.from('investor_profiles_eif').insert([
+    { user_id: investor.id, firm: 'Acme Capital', full_name: 'Ann Investor', sectors: ['Health, Wellness', 'Fintech'] },
+    { user_id: company.id, firm: 'Other Fund', full_name: 'Bob Investor', sectors: ['Health', 'Wellness'] },
+  ]);
+  const bySector = await db.searchInvestorProfiles({ search: 'Health, Wellness' });
+  check(bySector.length === 1 && bySector[0].firm === 'Acme Capital', 'investor search matches a focus sector containing a comma');
+
+  const sentAt = '2030-01-01T10:00:00.000Z';
+  await supabase.from('messages_eif').insert(['one', 'two', 'three'].map(content => ({ from_user_id: investor.id, to_user_id: company.id, content, created_at: sentAt })));
+  const firstPage = await db.listMessagesBetweenUsers(investor.id, company.id, 2);
+  const oldest = firstPage[0];
+  const secondPage = await db.listMessagesBetweenUsers(investor.id, company.id, 2, oldest.created_at, oldest.id);
+  const paged = [...secondPage, ...firstPage].map(m => m.id);
+  check(paged.length === 3 && new Set(paged).size === 3, 'paging by (created_at, id) does not skip messages sharing a timestamp');
+}
+
+// ============================================
+// RUN ALL TESTS
+// ============================================
+
+async function runAllTests() {
+  console.log('╔════════════════════════════════════════════╗');
+  console.log('║   In-Memory Backend Test Suite             ║');
+  console.log('╚════════════════════════════════════════════╝');
+
+  try {
+    await testQueryBuilder();
+    await testRelationsAndOr();
+    await testConstraints();
+    await testServerModules();
+  } catch (error) {
+    console.error('\n✗ Test suite failed:', error);
+    process.exit(1);
+  }
+
+  console.log(failures === 0 ? '\nAll tests passed.\n' : `\n${failures} test(s) failed.\n`);
+  if (failures > 0) process.exit(1);
+}
+
+// Run tests if this is executed directly
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runAllTests();
+}
+
+export { runAllTests };
@@ -0,0 +1,581 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * In-memory data backend
+ *
+ * Implements the subset of the Supabase (PostgREST) query builder used by the
+ * server - `from().select().eq().or()...` - over plain JavaScript arrays, so
+ * `server/lib/db.ts`, `SupabaseStorage`, `AutomaticScheduler`, `CalendarService`
+ * and the OAuth manager can run with zero network access.
+ *
+ * Selected with `DATA_BACKEND=memory` (see `server/supabase.ts`). Set
+ * `MEMORY_DB_FILE` to persist tables as JSON between restarts.
+ */
+
+type Row = Record<string, any>;
+type Filter = (row: Row) => boolean;
+
+export interface MemoryError {
+  message: string;
+  code: string;
+  details?: string;
+  hint?: string;
+}
+
+export interface MemoryResult<T = any> {
+  data: T | null;
+  error: MemoryError | null;
+  count: number | null;
+  status: number;
+  statusText: string;
+}
+
+/**
+ * Column defaults normally supplied by the Postgres schema
+ */
+const TABLE_DEFAULTS: Record<string, Row> = {
+  users_eif: { role: 'user', email_verified: false, automatic_availability: false, arrange_meetings: false, meeting_buffer_minutes: 0 },
+  meeting_requests_eif: { status: 'PENDING' },
+  time_proposals_eif: { status: 'PENDING', timezone: 'UTC' },
+  meetings_eif: { timezone: 'UTC', status: 'CONFIRMED', sequence: 0 },
+  notifications_eif: { is_read: false },
+  messages_eif: { is_encrypted: false, is_read: false },
+  user_availability_schedules_eif: { timezone: 'UTC' },
+  user_idle_hours_eif: { timezone: 'UTC', is_available: true },
+  automatic_meeting_matches_eif: { status: 'PENDING', match_score: 0 },
+  email_outbox_eif: { status: 'pending', attempts: 0, max_attempts: 5 },
+  two_factor_eif: { failed_attempts: 0 },
+};
+
+/**
+ * Unique constraints (used for duplicate detection and upsert conflict targets)
+ */
+const UNIQUE_CONSTRAINTS: Record<string, string[][]> = {
+  users_eif: [['email']],
+  investor_profiles_eif: [['user_id']],
+  company_profiles_eif: [['user_id']],
+  oauth_credentials_eif: [['user_id']],
+  user_calendar_settings_eif: [['user_id']],
+  meeting_arrangement_preferences_eif: [['user_id']],
+  password_resets_eif: [['token']],
+  email_verifications_eif: [['token']],
+  favorites_eif: [['user_id', 'favorite_user_id']],
+  match_scores_eif: [['cache_key']],
+  calendar_feed_tokens_eif: [['user_id'], ['token']],
+  platform_settings_eif: [['key']],
+  sessions_eif: [['refresh_token_hash']],
+  two_factor_eif: [['user_id']],
+  two_factor_recovery_codes_eif: [['user_id', 'code_hash']],
+};
+
+/**
+ * Foreign keys used to resolve embedded selects such as `*, time_proposals_eif(*)`.
+ * Key is `<parent table>.<child table>`, value is the child column referencing `parent.id`.
+ */
+const RELATIONS: Record<string, string> = {
+  'meeting_requests_eif.time_proposals_eif': 'meeting_request_id',
+};
+
+/**
+ * Holds every table as an array of rows
+ */
+export class MemoryDatabase {
+  private tables = new Map<string, Row[]>();
+  private filePath?: string;
+
+  constructor(filePath?: string) {
+    this.filePath = filePath;
+    if (filePath && fs.existsSync(filePath)) {
+      const raw = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Record<string, Row[]>;
+      for (const [name, rows] of Object.entries(raw)) {
+        this.tables.set(name, Array.isArray(rows) ? rows : []);
+      }
+    }
+  }
+
+  table(name: string): Row[] {
+    let rows = this.tables.get(name);
+    if (!rows) {
+      rows = [];
+      this.tables.set(name, rows);
+    }
+    return rows;
+  }
+
+  /**
+   * Insert rows directly (bypasses defaults) - useful for seeding tests
+   */
+  seed(name: string, rows: Row[]): void {
+    this.table(name).push(...rows.map(r => ({ ...r })));
+    this.persist();
+  }
+
+  reset(): void {
+    this.tables.clear();
+    this.persist();
+  }
+
+  snapshot(): Record<string, Row[]> {
+    return Object.fromEntries(Array.from(this.tables.entries()).map(([k, v]) => [k, v.map(r => ({ ...r }))]));
+  }
+
+  persist(): void {
+    if (!this.filePath) return;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(Object.fromEntries(this.tables), null, 2));
+  }
+}
+
+function isDateLike(v: unknown): boolean {
+  return typeof v === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(v);
+}
+
+/**
+ * Compare two column values the way Postgres would for our column types
+ */
+function compareValues(a: any, b: any): number {
+  if (a === null || a === undefined) return b === null || b === undefined ? 0 : -1;
+  if (b === null || b === undefined) return 1;
+  if (typeof a === 'number' || typeof b === 'number') return Number(a) - Number(b);
+  if (isDateLike(a) && isDateLike(b)) return new Date(a).getTime() - new Date(b).getTime();
+  const sa = String(a);
+  const sb = String(b);
+  return sa < sb ? -1 : sa > sb ? 1 : 0;
+}
+
+function valuesEqual(a: any, b: any): boolean {
+  if (a === null || a === undefined || b === null || b === undefined) return (a ?? null) === (b ?? null);
+  if (typeof a === 'boolean' || typeof b === 'boolean') return String(a) === String(b);
+  return compareValues(a, b) === 0;
+}
+
+function likeToRegExp(pattern: string, caseInsensitive: boolean): RegExp {
+  const escaped = pattern.replace(/\\%/g, '\u0000').replace(/[.+?^${}()|[\]\\*]/g, '\\$&');
+  const source = escaped.replace(/%/g, '.*').replace(/_/g, '.').replace(/\u0000/g, '%');
+  return new RegExp(`^${source}$`, caseInsensitive ? 'is' : 's');
+}
+
+/**
+ * Parse a Postgres array literal such as `{a,b}` or `{"Health, Wellness"}`
+ */
+function parseArrayLiteral(literal: string): string[] {
+  return splitTopLevel(literal.trim().replace(/^\{|\}$/g, '')).map(item =>
+    item.startsWith('"') && item.endsWith('"') && item.length > 1
+      ? item.slice(1, -1).replace(/\\(.)/g, '$1')
+      : item);
+}
+
+function buildFilter(column: string, operator: string, value: any): Filter {
+  switch (operator) {
+    case 'eq': return row => valuesEqual(row[column], value);
+    case 'neq': return row => !valuesEqual(row[column], value);
+    case 'gt': return row => row[column] != null && compareValues(row[column], value) > 0;
+    case 'gte': return row => row[column] != null && compareValues(row[column], value) >= 0;
+    case 'lt': return row => row[column] != null && compareValues(row[column], value) < 0;
+    case 'lte': return row => row[column] != null && compareValues(row[column], value) <= 0;
+    case 'like': return row => row[column] != null && likeToRegExp(String(value), false).test(String(row[column]));
+    case 'ilike': return row => row[column] != null && likeToRegExp(String(value), true).test(String(row[column]));
+    case 'is': return row => (value === null || value === 'null') ? row[column] == null : String(row[column]) === String(value);
+    case 'in': {
+      const list: any[] = Array.isArray(value) ? value : String(value).replace(/^\(|\)$/g, '').split(',').map(s => s.trim());
+      return row => list.some(v => valuesEqual(row[column], v));
+    }
+    case 'cs':
+    case 'contains': {
+      const wanted: any[] = Array.isArray(value) ? value : parseArrayLiteral(String(value));
+      return row => Array.isArray(row[column]) && wanted.every(w => row[column].some((v: any) => valuesEqual(v, w)));
+    }
+    case 'ov':
+    case 'overlaps': {
+      const wanted: any[] = Array.isArray(value) ? value : parseArrayLiteral(String(value));
+      return row => Array.isArray(row[column]) && wanted.some(w => row[column].some((v: any) => valuesEqual(v, w)));
+    }
+    default:
+      throw new Error(`memory backend: unsupported filter operator '${operator}'`);
+  }
+}
+
+/**
+ * Split a PostgREST list on top-level commas (ignoring commas inside parentheses,
+ * array braces and double-quoted values)
+ */
+function splitTopLevel(expr: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+  for (let i = 0; i < expr.length; i++) {
+    const ch = expr[i];
+    if (quoted) {
+      current += ch;
+      if (ch === '\\' && i + 1 < expr.length) current += expr[++i];
+      else if (ch === '"') quoted = false;
+      continue;
+    }
+    if (ch === '"') quoted = true;
+    if (ch === '(' || ch === '{') depth++;
+    if (ch === ')' || ch === '}') depth--;
+    if (ch === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+/**
+ * Parse an `.or()` expression such as
+ * `and(from_user_id.eq.A,to_user_id.eq.B),and(from_user_id.eq.B,to_user_id.eq.A)`
+ */
+function parseLogicalExpression(expr: string, mode: 'and' | 'or'): Filter {
+  const filters = splitTopLevel(expr).map(term => {
+    const group = term.match(/^(and|or)\(([\s\S]*)\)$/);
+    if (group) return parseLogicalExpression(group[2], group[1] as 'and' | 'or');
+
+    const firstDot = term.indexOf('.');
+    const secondDot = term.indexOf('.', firstDot + 1);
+    if (firstDot === -1 || secondDot === -1) throw new Error(`memory backend: cannot parse filter '${term}'`);
+    const column = term.slice(0, firstDot);
+    let operator = term.slice(firstDot + 1, secondDot);
+    let value: string = term.slice(secondDot + 1);
+    if (operator === 'not') {
+      const innerDot = value.indexOf('.');
+      const inner = buildFilter(column, value.slice(0, innerDot), value.slice(innerDot + 1));
+      return (row: Row) => !inner(row);
+    }
+    return buildFilter(column, operator, value);
+  });
+
+  return mode === 'and'
+    ? row => filters.every(f => f(row))
+    : row => filters.some(f => f(row));
+}
+
+interface SelectPart {
+  column?: string;
+  embed?: { table: string; columns: string };
+}
+
+function parseColumns(columns: string): SelectPart[] {
+  return splitTopLevel(columns.replace(/\s+/g, ' ')).map(part => {
+    const embed = part.match(/^([\w]+)(?:!\w+)?\(([\s\S]*)\)$/);
+    if (embed) return { embed: { table: embed[1], columns: embed[2] } };
+    return { column: part.trim() };
+  });
+}
+
+class MemoryQueryBuilder implements PromiseLike<MemoryResult> {
+  private action: 'select' | 'insert' | 'update' | 'upsert' | 'delete' = 'select';
+  private columns = '*';
+  private returning = false;
+  private countRequested = false;
+  private headOnly = false;
+  private payload: Row[] | Row | null = null;
+  private onConflict?: string;
+  private ignoreDuplicates = false;
+  private filters: Filter[] = [];
+  private orders: Array<{ column: string; ascending: boolean; nullsFirst?: boolean }> = [];
+  private limitCount?: number;
+  private rangeBounds?: [number, number];
+  private singleMode: 'single' | 'maybe' | null = null;
+
+  constructor(private db: MemoryDatabase, private tableName: string) {}
+
+  select(columns = '*', options?: { count?: 'exact' | 'planned' | 'estimated'; head?: boolean }) {
+    this.columns = columns;
+    if (this.action === 'select') {
+      this.countRequested = !!options?.count;
+      this.headOnly = !!options?.head;
+    } else {
+      this.returning = true;
+    }
+    return this;
+  }
+
+  insert(values: Row | Row[]) {
+    this.action = 'insert';
+    this.payload = values;
+    return this;
+  }
+
+  upsert(values: Row | Row[], options?: { onConflict?: string; ignoreDuplicates?: boolean }) {
+    this.action = 'upsert';
+    this.payload = values;
+    this.onConflict = options?.onConflict;
+    this.ignoreDuplicates = !!options?.ignoreDuplicates;
+    return this;
+  }
+
+  update(values: Row) {
+    this.action = 'update';
+    this.payload = values;
+    return this;
+  }
+
+  delete() {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: any) { this.filters.push(buildFilter(column, 'eq', value)); return this; }
+  neq(column: string, value: any) { this.filters.push(buildFilter(column, 'neq', value)); return this; }
+  gt(column: string, value: any) { this.filters.push(buildFilter(column, 'gt', value)); return this; }
+  gte(column: string, value: any) { this.filters.push(buildFilter(column, 'gte', value)); return this; }
+  lt(column: string, value: any) { this.filters.push(buildFilter(column, 'lt', value)); return this; }
+  lte(column: string, value: any) { this.filters.push(buildFilter(column, 'lte', value)); return this; }
+  like(column: string, value: string) { this.filters.push(buildFilter(column, 'like', value)); return this; }
+  ilike(column: string, value: string) { this.filters.push(buildFilter(column, 'ilike', value)); return this; }
+  is(column: string, value: any) { this.filters.push(buildFilter(column, 'is', value)); return this; }
+  in(column: string, values: any[]) { this.filters.push(buildFilter(column, 'in', values)); return this; }
+  contains(column: string, values: any[]) { this.filters.push(buildFilter(column, 'contains', values)); return this; }
+  overlaps(column: string, values: any[]) { this.filters.push(buildFilter(column, 'overlaps', values)); return this; }
+
+  not(column: string, operator: string, value: any) {
+    const inner = buildFilter(column, operator, value);
+    this.filters.push(row => !inner(row));
+    return this;
+  }
+
+  match(query: Row) {
+    for (const [column, value] of Object.entries(query)) this.eq(column, value);
+    return this;
+  }
+
+  filter(column: string, operator: string, value: any) {
+    this.filters.push(buildFilter(column, operator, value));
+    return this;
+  }
+
+  or(expression: string) {
+    this.filters.push(parseLogicalExpression(expression, 'or'));
+    return this;
+  }
+
+  order(column: string, options?: { ascending?: boolean; nullsFirst?: boolean }) {
+    this.orders.push({ column, ascending: options?.ascending ?? true, nullsFirst: options?.nullsFirst });
+    return this;
+  }
+
+  limit(count: number) {
+    this.limitCount = count;
+    return this;
+  }
+
+  range(from: number, to: number) {
+    this.rangeBounds = [from, to];
+    return this;
+  }
+
+  single() {
+    this.singleMode = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.singleMode = 'maybe';
+    return this;
+  }
+
+  then<TResult1 = MemoryResult, TResult2 = never>(
+    onfulfilled?: ((value: MemoryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null,
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onfulfilled, onrejected);
+  }
+
+  private matches(row: Row): boolean {
+    return this.filters.every(f => f(row));
+  }
+
+  private execute(): MemoryResult {
+    try {
+      switch (this.action) {
+        case 'select': return this.runSelect();
+        case 'insert': return this.runInsert();
+        case 'upsert': return this.runUpsert();
+        case 'update': return this.runUpdate();
+        case 'delete': return this.runDelete();
+      }
+    } catch (e: any) {
+      return this.failure({ message: e?.message ?? String(e), code: e?.code ?? 'MEMORY' });
+    }
+  }
+
+  private runSelect(): MemoryResult {
+    let rows = this.db.table(this.tableName).filter(r => this.matches(r));
+    const count = rows.length;
+
+    if (this.orders.length > 0) {
+      rows = [...rows].sort((a, b) => {
+        for (const o of this.orders) {
+          const aNull = a[o.column] == null;
+          const bNull = b[o.column] == null;
+          if (aNull !== bNull) {
+            const nullsFirst = o.nullsFirst ?? !o.ascending;
+            return aNull === nullsFirst ? -1 : 1;
+          }
+          const diff = compareValues(a[o.column], b[o.column]);
+          if (diff !== 0) return o.ascending ? diff : -diff;
+        }
+        return 0;
+      });
+    }
+
+    if (this.rangeBounds) rows = rows.slice(this.rangeBounds[0], this.rangeBounds[1] + 1);
+    if (this.limitCount !== undefined) rows = rows.slice(0, this.limitCount);
+
+    if (this.headOnly) return this.success(null, this.countRequested ? count : null);
+    return this.finish(rows.map(r => this.project(this.tableName, r, this.columns)), this.countRequested ? count : null);
+  }
+
+  private runInsert(): MemoryResult {
+    const rows = this.normalizePayload();
+    const table = this.db.table(this.tableName);
+    const inserted: Row[] = [];
+    for (const values of rows) {
+      const row = this.withDefaults(values);
+      const conflict = this.findConflict(row);
+      if (conflict) {
+        return this.failure({
+          code: '23505',
+          message: `duplicate key value violates unique constraint "${this.tableName}_${conflict.join('_')}_key"`,
+        });
+      }
+      table.push(row);
+      inserted.push(row);
+    }
+    this.db.persist();
+    return this.finish(this.returning ? inserted.map(r => this.project(this.tableName, r, this.columns)) : null);
+  }
+
+  private runUpsert(): MemoryResult {
+    const rows = this.normalizePayload();
+    const table = this.db.table(this.tableName);
+    const conflictColumns = this.onConflict
+      ? this.onConflict.split(',').map(c => c.trim()).filter(Boolean)
+      : ['id'];
+    const written: Row[] = [];
+
+    for (const values of rows) {
+      const existing = table.find(r => conflictColumns.every(c => values[c] !== undefined && valuesEqual(r[c], values[c])));
+      if (existing) {
+        if (this.ignoreDuplicates) continue;
+        Object.assign(existing, values);
+        written.push(existing);
+      } else {
+        const row = this.withDefaults(values);
+        table.push(row);
+        written.push(row);
+      }
+    }
+    this.db.persist();
+    return this.finish(this.returning ? written.map(r => this.project(this.tableName, r, this.columns)) : null);
+  }
+
+  private runUpdate(): MemoryResult {
+    const values = (this.payload ?? {}) as Row;
+    const updated = this.db.table(this.tableName).filter(r => this.matches(r));
+    for (const row of updated) Object.assign(row, values);
+    this.db.persist();
+    return this.finish(this.returning ? updated.map(r => this.project(this.tableName, r, this.columns)) : null);
+  }
+
+  private runDelete(): MemoryResult {
+    const table = this.db.table(this.tableName);
+    const removed: Row[] = [];
+    for (let i = table.length - 1; i >= 0; i--) {
+      if (this.matches(table[i])) removed.unshift(...table.splice(i, 1));
+    }
+    this.db.persist();
+    return this.finish(this.returning ? removed.map(r => this.project(this.tableName, r, this.columns)) : null);
+  }
+
+  private normalizePayload(): Row[] {
+    const payload = this.payload ?? [];
+    return (Array.isArray(payload) ? payload : [payload]).map(r => ({ ...r }));
+  }
+
+  private withDefaults(values: Row): Row {
+    const now = new Date().toISOString();
+    const row: Row = { ...(TABLE_DEFAULTS[this.tableName] ?? {}), ...values };
+    if (row.id === undefined || row.id === null) row.id = crypto.randomUUID();
+    if (row.created_at === undefined) row.created_at = now;
+    if (row.updated_at === undefined) row.updated_at = now;
+    return row;
+  }
+
+  private findConflict(row: Row): string[] | null {
+    const table = this.db.table(this.tableName);
+    const constraints = [['id'], ...(UNIQUE_CONSTRAINTS[this.tableName] ?? [])];
+    for (const columns of constraints) {
+      if (columns.some(c => row[c] === undefined || row[c] === null)) continue;
+      if (table.some(r => columns.every(c => valuesEqual(r[c], row[c])))) return columns;
+    }
+    return null;
+  }
+
+  private project(tableName: string, row: Row, columns: string): Row {
+    const parts = parseColumns(columns);
+    const out: Row = {};
+    for (const part of parts) {
+      if (part.column === '*') {
+        Object.assign(out, row);
+      } else if (part.column) {
+        // support `alias:column`
+        const [alias, source] = part.column.includes(':') ? part.column.split(':').map(s => s.trim()) : [part.column, part.column];
+        out[alias] = row[source] ?? null;
+      } else if (part.embed) {
+        const fk = RELATIONS[`${tableName}.${part.embed.table}`]
+          ?? `${tableName.replace(/_eif$/, '').replace(/s$/, '')}_id`;
+        const children = this.db.table(part.embed.table).filter(c => valuesEqual(c[fk], row.id));
+        out[part.embed.table] = children.map(c => this.project(part.embed!.table, c, part.embed!.columns));
+      }
+    }
+    // Return copies so callers cannot mutate stored rows by accident
+    return JSON.parse(JSON.stringify(out));
+  }
+
+  private finish(rows: Row[] | null, count: number | null = null): MemoryResult {
+    if (!this.singleMode) return this.success(rows, count);
+    const list = rows ?? [];
+    if (list.length > 1) {
+      return this.failure({ code: 'PGRST116', message: 'JSON object requested, multiple (or no) rows returned', details: `Results contain ${list.length} rows` });
+    }
+    if (list.length === 0 && this.singleMode === 'single' && rows !== null) {
+      return this.failure({ code: 'PGRST116', message: 'JSON object requested, multiple (or no) rows returned', details: 'Results contain 0 rows' });
+    }
+    return this.success(list[0] ?? null, count);
+  }
+
+  private success(data: any, count: number | null = null): MemoryResult {
+    return { data, error: null, count, status: 200, statusText: 'OK' };
+  }
+
+  private failure(error: MemoryError): MemoryResult {
+    return { data: null, error, count: null, status: 400, statusText: 'Bad Request' };
+  }
+}
+
+/**
+ * Create a Supabase-compatible client backed by a `MemoryDatabase`.
+ * Only `from()` is implemented; that is all the server uses.
+ */
+export function createMemoryClient(db: MemoryDatabase = new MemoryDatabase()): SupabaseClient & { memoryDb: MemoryDatabase } {
+  const client = {
+    memoryDb: db,
+    from(table: string) {
+      return new MemoryQueryBuilder(db, table);
+    },
+  };
+  return client as unknown as SupabaseClient & { memoryDb: MemoryDatabase };
+}
+
+export default createMemoryClient;
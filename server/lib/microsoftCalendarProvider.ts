@@ -0,0 +1,204 @@
+import type { OAuthCredentials } from './oauthManager.js';
+import {
+  CalendarProviderError,
+  type BusyTime,
+  type CalendarProvider,
+  type PasswordConnection,
+  type ProviderEvent,
+  type ProviderEventResult,
+} from './calendarProvider.js';
+
+export interface MicrosoftAuthConfig {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  /** Azure AD tenant: `common` (work and personal accounts), `organizations`, `consumers` or a tenant id */
+  tenant: string;
+}
+
+const GRAPH_URL = 'https://graph.microsoft.com/v1.0';
+const SCOPES = ['offline_access', 'User.Read', 'Calendars.ReadWrite'];
+
+/**
+ * Outlook / Microsoft 365 calendars through Microsoft Graph
+ */
+export class MicrosoftCalendarProvider implements CalendarProvider {
+  readonly name = 'microsoft' as const;
+  readonly label = 'Outlook / Microsoft 365';
+  readonly authType = 'oauth' as const;
+
+  constructor(private config: MicrosoftAuthConfig) {}
+
+  /**
+   * Provider from MICROSOFT_OAUTH_CLIENT_ID / _CLIENT_SECRET / _REDIRECT_URI (and optional
+   * MICROSOFT_OAUTH_TENANT), or null when not configured
+   */
+  static fromEnv(): MicrosoftCalendarProvider | null {
+    const { MICROSOFT_OAUTH_CLIENT_ID, MICROSOFT_OAUTH_CLIENT_SECRET, MICROSOFT_OAUTH_REDIRECT_URI } = process.env;
+    if (!MICROSOFT_OAUTH_CLIENT_ID || !MICROSOFT_OAUTH_CLIENT_SECRET || !MICROSOFT_OAUTH_REDIRECT_URI) return null;
+    return new MicrosoftCalendarProvider({
+      clientId: MICROSOFT_OAUTH_CLIENT_ID,
+      clientSecret: MICROSOFT_OAUTH_CLIENT_SECRET,
+      redirectUri: MICROSOFT_OAUTH_REDIRECT_URI,
+      tenant: process.env.MICROSOFT_OAUTH_TENANT || 'common',
+    });
+  }
+
+  private get authorityUrl() {
+    return `https://login.microsoftonline.com/${encodeURIComponent(this.config.tenant)}/oauth2/v2.0`;
+  }
+
+  getAuthorizationUrl(state: string): string {
+    const params = new URLSearchParams({
+      client_id: this.config.clientId,
+      response_type: 'code',
+      redirect_uri: this.config.redirectUri,
+      response_mode: 'query',
+      scope: SCOPES.join(' '),
+      state,
+      prompt: 'select_account',
+    });
+    return `${this.authorityUrl}/authorize?${params.toString()}`;
+  }
+
+  private async requestToken(params: Record<string, string>): Promise<any> {
+    const res = await fetch(`${this.authorityUrl}/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: this.config.clientId,
+        client_secret: this.config.clientSecret,
+        redirect_uri: this.config.redirectUri,
+        scope: SCOPES.join(' '),
+        ...params,
+      }).toString(),
+    });
+    const body: any = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      throw new CalendarProviderError(this.name, body?.error_description || body?.error || `token request failed (${res.status})`, res.status);
+    }
+    return body;
+  }
+
+  private toCredentials(body: any, previous?: OAuthCredentials): OAuthCredentials {
+    return {
+      provider: this.name,
+      accessToken: body.access_token,
+      refreshToken: body.refresh_token || previous?.refreshToken,
+      expiresAt: body.expires_in ? new Date(Date.now() + Number(body.expires_in) * 1000) : undefined,
+      scope: body.scope || previous?.scope || '',
+    };
+  }
+
+  async exchangeCodeForTokens(code: string): Promise<OAuthCredentials> {
+    return this.toCredentials(await this.requestToken({ grant_type: 'authorization_code', code }));
+  }
+
+  async connectWithPassword(_connection: PasswordConnection): Promise<OAuthCredentials> {
+    throw new CalendarProviderError(this.name, 'Outlook calendars are connected through OAuth');
+  }
+
+  async refreshAccessToken(credentials: OAuthCredentials): Promise<OAuthCredentials> {
+    if (!credentials.refreshToken) return credentials;
+    const body = await this.requestToken({ grant_type: 'refresh_token', refresh_token: credentials.refreshToken });
+    return this.toCredentials(body, credentials);
+  }
+
+  private async graph(credentials: OAuthCredentials, method: string, path: string, body?: unknown): Promise<any> {
+    const res = await fetch(`${GRAPH_URL}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${credentials.accessToken}`,
+        'Content-Type': 'application/json',
+        // Event times in responses come back in UTC
+        Prefer: 'outlook.timezone="UTC"',
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (res.status === 204) return null;
+    const data: any = await res.json().catch(() => null);
+    if (!res.ok) {
+      throw new CalendarProviderError(this.name, data?.error?.message || `${method} ${path} failed (${res.status})`, res.status);
+    }
+    return data;
+  }
+
+  async getAccountEmail(credentials: OAuthCredentials): Promise<string | null> {
+    const me = await this.graph(credentials, 'GET', '/me?$select=mail,userPrincipalName');
+    return me?.mail || me?.userPrincipalName || null;
+  }
+
+  /**
+   * `primary` maps to the user's default calendar; anything else is a Graph calendar id
+   */
+  private calendarPath(calendarId: string): string {
+    return !calendarId || calendarId === 'primary' ? '/me/calendar' : `/me/calendars/${encodeURIComponent(calendarId)}`;
+  }
+
+  async getBusyTimes(credentials: OAuthCredentials, calendarId: string, startTime: string, endTime: string): Promise<BusyTime[]> {
+    const params = new URLSearchParams({
+      startDateTime: startTime,
+      endDateTime: endTime,
+      $select: 'start,end,showAs,isCancelled',
+      $top: '500',
+    });
+    const data = await this.graph(credentials, 'GET', `${this.calendarPath(calendarId)}/calendarView?${params.toString()}`);
+    return (data?.value ?? [])
+      .filter((e: any) => !e.isCancelled && e.showAs !== 'free' && e.showAs !== 'workingElsewhere')
+      .map((e: any) => ({ start: fromGraphTime(e.start), end: fromGraphTime(e.end) }));
+  }
+
+  private eventBody(event: ProviderEvent) {
+    const body: any = {
+      subject: event.summary,
+      body: { contentType: 'text', content: event.description || '' },
+      start: { dateTime: toGraphTime(event.start), timeZone: 'UTC' },
+      end: { dateTime: toGraphTime(event.end), timeZone: 'UTC' },
+      attendees: (event.attendees || []).map(address => ({ emailAddress: { address }, type: 'required' })),
+    };
+    if (event.location) body.location = { displayName: event.location };
+    if (event.conference) {
+      body.isOnlineMeeting = true;
+      body.onlineMeetingProvider = 'teamsForBusiness';
+    }
+    return body;
+  }
+
+  private toResult(data: any): ProviderEventResult {
+    return { id: data?.id, htmlLink: data?.webLink, conferenceLink: data?.onlineMeeting?.joinUrl };
+  }
+
+  async createEvent(credentials: OAuthCredentials, calendarId: string, event: ProviderEvent): Promise<ProviderEventResult> {
+    return this.toResult(await this.graph(credentials, 'POST', `${this.calendarPath(calendarId)}/events`, this.eventBody(event)));
+  }
+
+  async updateEvent(credentials: OAuthCredentials, _calendarId: string, eventId: string, event: ProviderEvent): Promise<ProviderEventResult> {
+    const body = this.eventBody(event);
+    // Keep the existing online meeting when patching
+    delete body.isOnlineMeeting;
+    delete body.onlineMeetingProvider;
+    return this.toResult(await this.graph(credentials, 'PATCH', `/me/events/${encodeURIComponent(eventId)}`, body));
+  }
+
+  async deleteEvent(credentials: OAuthCredentials, _calendarId: string, eventId: string): Promise<void> {
+    try {
+      await this.graph(credentials, 'DELETE', `/me/events/${encodeURIComponent(eventId)}`);
+    } catch (error) {
+      // Already gone
+      if (error instanceof CalendarProviderError && error.status === 404) return;
+      throw error;
+    }
+  }
+}
+
+/**
+ * Graph takes a wall time plus a `timeZone`; we always send UTC without the "Z"
+ */
+function toGraphTime(iso: string): string {
+  return new Date(iso).toISOString().replace(/Z$/, '');
+}
+
+function fromGraphTime(value: { dateTime: string; timeZone?: string }): string {
+  const dateTime = value.dateTime.replace(/(\.\d{3})\d*$/, '$1');
+  return new Date(/Z$|[+-]\d{2}:\d{2}$/.test(dateTime) ? dateTime : `${dateTime}Z`).toISOString();
+}
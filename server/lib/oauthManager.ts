@@ -1,111 +1,54 @@
-import { google } from 'googleapis';
 import type { SupabaseClient } from '@supabase/supabase-js';
-
-export interface GoogleAuthConfig {
-  clientId: string;
-  clientSecret: string;
-  redirectUri: string;
-}
+import type { CalendarProvider, CalendarProviderName } from './calendarProvider.js';
+import { getCalendarProvider } from './calendarProviders.js';
 
 export interface OAuthCredentials {
+  provider?: CalendarProviderName;
   accessToken: string;
   refreshToken?: string;
   expiresAt?: Date;
   scope: string;
+  /** CalDAV: calendar collection URL the user connected */
+  accountUrl?: string;
+  /** CalDAV: login name (the password is kept in `accessToken`) */
+  username?: string;
 }
 
 /**
- * Google OAuth manager for user calendar integration
+ * Stores each user's external calendar connection (one per user, any provider) and
+ * refreshes expired tokens through the provider it was made with
  */
-export class GoogleOAuthManager {
-  private config: GoogleAuthConfig;
+export class CalendarConnectionManager {
   private supabase: SupabaseClient;
+  private resolveProvider: (name: CalendarProviderName) => CalendarProvider | null;
 
-  constructor(config: GoogleAuthConfig, supabase: SupabaseClient) {
-    this.config = config;
+  constructor(supabase: SupabaseClient, resolveProvider: (name: CalendarProviderName) => CalendarProvider | null = getCalendarProvider) {
     this.supabase = supabase;
+    this.resolveProvider = resolveProvider;
   }
 
   /**
-   * Generate OAuth authorization URL for user to authorize the app
-   */
-  getAuthorizationUrl(state: string): string {
-    const oauth2Client = new google.auth.OAuth2(
-      this.config.clientId,
-      this.config.clientSecret,
-      this.config.redirectUri
-    );
-
-    const scopes = [
-      'https://www.googleapis.com/auth/calendar',
-      'https://www.googleapis.com/auth/calendar.events',
-    ];
-
-    return oauth2Client.generateAuthUrl({
-      access_type: 'offline',
-      scope: scopes,
-      state,
-      prompt: 'consent', // Force consent screen to get refresh token
-    });
-  }
-
-  /**
-   * Exchange authorization code for access/refresh tokens
-   */
-  async exchangeCodeForTokens(code: string): Promise<OAuthCredentials> {
-    const oauth2Client = new google.auth.OAuth2(
-      this.config.clientId,
-      this.config.clientSecret,
-      this.config.redirectUri
-    );
-
-    const { tokens } = await oauth2Client.getToken(code);
-
-    return {
-      accessToken: tokens.access_token!,
-      refreshToken: tokens.refresh_token || undefined,
-      expiresAt: tokens.expiry_date ? new Date(tokens.expiry_date) : undefined,
-      scope: tokens.scope || '',
-    };
-  }
-
-  /**
-   * Refresh an expired access token
+   * Provider implementation for stored credentials (connections made before providers existed are Google)
    */
-  async refreshAccessToken(refreshToken: string): Promise<OAuthCredentials> {
-    const oauth2Client = new google.auth.OAuth2(
-      this.config.clientId,
-      this.config.clientSecret,
-      this.config.redirectUri
-    );
-
-    oauth2Client.setCredentials({
-      refresh_token: refreshToken,
-    });
-
-    const { credentials } = await oauth2Client.refreshAccessToken();
-
-    return {
-      accessToken: credentials.access_token!,
-      refreshToken: credentials.refresh_token || refreshToken,
-      expiresAt: credentials.expiry_date ? new Date(credentials.expiry_date) : undefined,
-      scope: credentials.scope || '',
-    };
+  getProvider(credentials: OAuthCredentials): CalendarProvider | null {
+    return this.resolveProvider(credentials.provider ?? 'google');
   }
 
   /**
-   * Store OAuth credentials in database
+   * Store credentials in database, replacing any earlier connection
    */
   async storeCredentials(userId: string, credentials: OAuthCredentials): Promise<void> {
     const { error } = await this.supabase
       .from('oauth_credentials_eif')
       .upsert({
         user_id: userId,
-        provider: 'google',
+        provider: credentials.provider ?? 'google',
         access_token: credentials.accessToken,
-        refresh_token: credentials.refreshToken,
-        expires_at: credentials.expiresAt?.toISOString(),
+        refresh_token: credentials.refreshToken ?? null,
+        expires_at: credentials.expiresAt?.toISOString() ?? null,
         scope: credentials.scope,
+        account_url: credentials.accountUrl ?? null,
+        username: credentials.username ?? null,
         updated_at: new Date().toISOString(),
       }, { onConflict: 'user_id' });
 
@@ -120,17 +63,27 @@ export class GoogleOAuthManager {
       .from('oauth_credentials_eif')
       .select('*')
       .eq('user_id', userId)
-      .eq('provider', 'google')
       .maybeSingle();
 
     if (error) throw error;
     if (!data) return null;
 
+    const credentials: OAuthCredentials = {
+      provider: data.provider ?? 'google',
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token ?? undefined,
+      expiresAt: data.expires_at ? new Date(data.expires_at) : undefined,
+      scope: data.scope ?? '',
+      accountUrl: data.account_url ?? undefined,
+      username: data.username ?? undefined,
+    };
+
     // Check if token is expired and refresh if needed
-    if (data.expires_at && new Date(data.expires_at) < new Date()) {
-      if (data.refresh_token) {
+    if (credentials.expiresAt && credentials.expiresAt < new Date() && credentials.refreshToken) {
+      const provider = this.getProvider(credentials);
+      if (provider) {
         try {
-          const refreshed = await this.refreshAccessToken(data.refresh_token);
+          const refreshed = await provider.refreshAccessToken(credentials);
           await this.storeCredentials(userId, refreshed);
           return refreshed;
         } catch (e) {
@@ -140,12 +93,7 @@ export class GoogleOAuthManager {
       }
     }
 
-    return {
-      accessToken: data.access_token,
-      refreshToken: data.refresh_token,
-      expiresAt: data.expires_at ? new Date(data.expires_at) : undefined,
-      scope: data.scope,
-    };
+    return credentials;
   }
 
   /**
@@ -155,8 +103,7 @@ export class GoogleOAuthManager {
     const { error } = await this.supabase
       .from('oauth_credentials_eif')
       .delete()
-      .eq('user_id', userId)
-      .eq('provider', 'google');
+      .eq('user_id', userId);
 
     if (error) throw error;
   }
@@ -0,0 +1,133 @@
+#!/usr/bin/env tsx
+/**
+ * Platform settings - Test Suite
+ *
+ * Validation of admin changes, environment fallbacks, storage and the mailer reading the
+ * SMTP host and sender from the settings.
+ *
+ * Run with: npx tsx server/lib/platformSettings.test.ts
+ */
+
+import { pathToFileURL } from 'url';
+
+process.env.DATA_BACKEND = 'memory';
+delete process.env.MEMORY_DB_FILE;
+delete process.env.MAIL_TRANSPORT;
+
+let failures = 0;
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✓ PASS: ${message}`);
+  } else {
+    failures++;
+    console.log(`✗ FAIL: ${message}`);
+  }
+}
+
+/**
+ * Test Case 1: Validation
+ */
+async function testValidation() {
+  console.log('\n=== TEST 1: Validation ===');
+  const { validateSettingsUpdate } = await import('./platformSettings');
+
+  const ok = validateSettingsUpdate({ registration_open: false, smtp_port: '2525', smtp_host: ' smtp.example.com ', sender_name: '' });
+  check(ok.value?.registration_open === false && ok.value?.smtp_port === 2525, 'switches and ports are accepted (ports may be strings)');
+  check(ok.value?.smtp_host === 'smtp.example.com' && ok.value?.sender_name === null, 'text is trimmed and empty text resets to the default');
+  check(validateSettingsUpdate({ maintenance_mode: null }).value?.maintenance_mode === null, 'null resets a setting');
+
+  check(Boolean(validateSettingsUpdate({ smtp_password: 'x' }).error), 'unknown settings are rejected');
+  check(Boolean(validateSettingsUpdate({ maintenance_mode: 'yes' }).error), 'switches must be booleans');
+  check(Boolean(validateSettingsUpdate({ smtp_port: 70000 }).error), 'ports must be in range');
+  check(Boolean(validateSettingsUpdate({ sender_email: 'not-an-address' }).error), 'the sender must be an email address');
+  check(Boolean(validateSettingsUpdate({ sender_name: 'EIF\r\nBcc: x@example.com' }).error), 'the sender name cannot inject headers');
+  check(Boolean(validateSettingsUpdate({ smtp_host: 'smtp.example.com:25' }).error), 'the host is a bare host name');
+  check(Boolean(validateSettingsUpdate([]).error), 'the body must be an object');
+}
+
+/**
+ * Test Case 2: Defaults
+ */
+async function testDefaults() {
+  console.log('\n=== TEST 2: Defaults ===');
+  const { defaultPlatformSettings, senderAddress } = await import('./platformSettings');
+
+  process.env.SMTP_HOST = 'env.example.com';
+  process.env.SMTP_PORT = '465';
+  process.env.SMTP_FROM = 'EIF <env@example.com>';
+  process.env.REQUIRE_ADMIN_APPROVAL = 'false';
+  const defaults = defaultPlatformSettings();
+  check(defaults.registration_open && !defaults.maintenance_mode, 'registration is open and maintenance off by default');
+  check(!defaults.require_admin_approval, 'approval falls back to REQUIRE_ADMIN_APPROVAL');
+  check(defaults.smtp_host === 'env.example.com' && defaults.smtp_port === 465 && defaults.sender_email === 'EIF <env@example.com>', 'SMTP falls back to the SMTP_* variables');
+
+  check(senderAddress({ sender_name: 'EIF Portal Team', sender_email: 'noreply@example.com' }) === '"EIF Portal Team" <noreply@example.com>', 'the sender name and address form the From header');
+  check(senderAddress({ sender_name: 'Ignored', sender_email: 'EIF <env@example.com>' }) === 'EIF <env@example.com>', 'a full SMTP_FROM is used as is');
+  check(senderAddress({ sender_name: null, sender_email: null }) === 'noreply@localhost', 'without a sender mail comes from noreply@localhost');
+}
+
+/**
+ * Test Case 3: Storage and the mailer
+ */
+async function testStorage() {
+  console.log('\n=== TEST 3: Storage and mailer ===');
+
+  const { getPlatformSettings, updatePlatformSettings } = await import('./platformSettings');
+  const mailer = await import('./mailer');
+
+  check((await getPlatformSettings()).smtp_host === 'env.example.com', 'nothing saved yet: the environment applies');
+
+  const saved = await updatePlatformSettings({ maintenance_mode: true, smtp_host: 'smtp.example.com', sender_name: 'EIF Portal Team', sender_email: 'noreply@example.com' }, 'admin-1');
+  check(saved.maintenance_mode && saved.smtp_host === 'smtp.example.com', 'saved settings apply immediately');
+  check(saved.smtp_port === 465, 'settings that were not saved keep their default');
+
+  const again = await updatePlatformSettings({ maintenance_mode: false }, 'admin-1');
+  check(!again.maintenance_mode && again.sender_email === 'noreply@example.com', 'saving one setting leaves the others alone');
+  check((await updatePlatformSettings({ smtp_host: null }, 'admin-1')).smtp_host === 'env.example.com', 'a reset setting falls back to the environment');
+
+  const sent: string[] = [];
+  mailer.setMailTransport({ name: 'log', async send(mail) { sent.push(mail.from); return null; } });
+  try {
+    const email = await mailer.sendEmail('someone@example.com', 'verifyEmail', { verifyLink: 'https://eif.example/v' });
+    check(email.from_address === '"EIF Portal Team" <noreply@example.com>' && sent[0] === email.from_address, 'emails are sent from the configured sender');
+  } finally {
+    mailer.setMailTransport(null);
+  }
+
+  process.env.SMTP_USER = 'user';
+  process.env.SMTP_PASS = 'pass';
+  check(mailer.resolveMailTransport(await getPlatformSettings()) === 'smtp', 'SMTP is used once a host and credentials are configured');
+  check(mailer.resolveMailTransport({ smtp_host: null, smtp_port: 587 }) === 'log', 'without a host mail is logged');
+  delete process.env.SMTP_USER;
+  delete process.env.SMTP_PASS;
+}
+
+// ============================================
+// RUN ALL TESTS
+// ============================================
+
+async function runAllTests() {
+  console.log('╔════════════════════════════════════════════╗');
+  console.log('║   Platform Settings Test Suite             ║');
+  console.log('╚════════════════════════════════════════════╝');
+
+  try {
+    await testValidation();
+    await testDefaults();
+    await testStorage();
+  } catch (error) {
+    console.error('\n✗ Test suite failed:', error);
+    process.exit(1);
+  }
+
+  console.log(failures === 0 ? '\nAll tests passed.\n' : `\n${failures} test(s) failed.\n`);
+  if (failures > 0) process.exit(1);
+}
+
+// Run tests if this is executed directly
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runAllTests();
+}
+
+export { runAllTests };
@@ -0,0 +1,136 @@
+import { listPlatformSettings, savePlatformSettings } from './db.js';
+import { approvalRequired } from './accountApproval.js';
+import { ROLES, type Role } from './access.js';
+
+/**
+ * Platform-wide settings (`platform_settings_eif`, one row per key), edited on the admin
+ * settings page.
+ *
+ * A key that was never saved (or was reset to null) falls back to its default:
+ * `REQUIRE_ADMIN_APPROVAL` for approval, `SMTP_HOST` / `SMTP_PORT` / `SMTP_FROM` for email.
+ * `require_two_factor_roles` defaults to none. SMTP credentials stay in the environment. Reads are cached briefly because the maintenance
+ * check runs on every API request.
+ */
+
+export interface PlatformSettings {
+  registration_open: boolean;
+  maintenance_mode: boolean;
+  require_admin_approval: boolean;
+  smtp_host: string | null;
+  smtp_port: number;
+  sender_name: string | null;
+  sender_email: string | null;
+  /** Roles that must sign in with two-factor authentication (see twoFactor.ts) */
+  require_two_factor_roles: Role[];
+}
+
+export type PlatformSettingKey = keyof PlatformSettings;
+
+const BOOLEAN_KEYS: PlatformSettingKey[] = ['registration_open', 'maintenance_mode', 'require_admin_approval'];
+const TEXT_KEYS: PlatformSettingKey[] = ['smtp_host', 'sender_name', 'sender_email'];
+export const PLATFORM_SETTING_KEYS: PlatformSettingKey[] = [...BOOLEAN_KEYS, ...TEXT_KEYS, 'smtp_port', 'require_two_factor_roles'];
+
+const MAX_TEXT_LENGTH = 255;
+const EMAIL_RE = /^[^\s@<>"]+@[^\s@<>"]+\.[^\s@<>"]+$/;
+const HOST_RE = /^[a-zA-Z0-9.-]+$/;
+const CACHE_TTL_MS = 5000;
+
+/**
+ * Values used for keys that have not been saved
+ */
+export function defaultPlatformSettings(): PlatformSettings {
+  const port = Number(process.env.SMTP_PORT);
+  return {
+    registration_open: true,
+    maintenance_mode: false,
+    require_admin_approval: approvalRequired(),
+    smtp_host: process.env.SMTP_HOST || null,
+    smtp_port: Number.isInteger(port) && port > 0 ? port : 587,
+    sender_name: null,
+    sender_email: process.env.SMTP_FROM || null,
+    require_two_factor_roles: [],
+  };
+}
+
+/**
+ * Check a PATCH body. Every key is optional; null resets a key to its default.
+ */
+export function validateSettingsUpdate(body: unknown): { value?: Partial<Record<PlatformSettingKey, any>>; error?: string } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return { error: 'settings must be an object' };
+  const raw = body as Record<string, any>;
+
+  const unknown = Object.keys(raw).filter(key => !(PLATFORM_SETTING_KEYS as string[]).includes(key));
+  if (unknown.length > 0) return { error: `unknown setting: ${unknown.join(', ')}` };
+
+  const value: Partial<Record<PlatformSettingKey, any>> = {};
+  for (const key of Object.keys(raw) as PlatformSettingKey[]) {
+    const v = raw[key];
+    if (v === null) {
+      value[key] = null;
+    } else if (BOOLEAN_KEYS.includes(key)) {
+      if (typeof v !== 'boolean') return { error: `${key} must be true or false` };
+      value[key] = v;
+    } else if (key === 'smtp_port') {
+      const port = typeof v === 'string' && v.trim() ? Number(v) : v;
+      if (!Number.isInteger(port) || port < 1 || port > 65535) return { error: 'smtp_port must be a port number' };
+      value[key] = port;
+    } else if (key === 'require_two_factor_roles') {
+      if (!Array.isArray(v) || v.some(role => !(ROLES as unknown[]).includes(role))) {
+        return { error: `require_two_factor_roles must be a list of roles (${ROLES.join(', ')})` };
+      }
+      value[key] = ROLES.filter(role => v.includes(role));
+    } else {
+      if (typeof v !== 'string') return { error: `${key} must be a string` };
+      const text = v.trim();
+      if (text.length > MAX_TEXT_LENGTH) return { error: `${key} must be at most ${MAX_TEXT_LENGTH} characters` };
+      if (key === 'smtp_host' && text && !HOST_RE.test(text)) return { error: 'smtp_host must be a host name' };
+      if (key === 'sender_email' && text && !EMAIL_RE.test(text)) return { error: 'sender_email must be an email address' };
+      // The name ends up in the From header
+      if (key === 'sender_name' && /[\r\n"<>]/.test(text)) return { error: 'sender_name may not contain quotes, angle brackets or line breaks' };
+      value[key] = text || null;
+    }
+  }
+  return { value };
+}
+
+let cache: { settings: PlatformSettings; expiresAt: number } | null = null;
+
+/**
+ * Current settings, stored values over defaults. A failed read (e.g. the table is missing)
+ * is logged and answered with the defaults so it cannot take the API down.
+ */
+export async function getPlatformSettings(): Promise<PlatformSettings> {
+  if (cache && cache.expiresAt > Date.now()) return cache.settings;
+
+  const settings = defaultPlatformSettings();
+  try {
+    for (const row of await listPlatformSettings()) {
+      if ((PLATFORM_SETTING_KEYS as string[]).includes(row.key) && row.value !== null && row.value !== undefined) {
+        (settings as any)[row.key] = row.value;
+      }
+    }
+  } catch (e) {
+    console.error('[platformSettings] reading settings failed:', (e as any)?.message ?? e);
+  }
+  cache = { settings, expiresAt: Date.now() + CACHE_TTL_MS };
+  return settings;
+}
+
+/**
+ * Save validated values (see `validateSettingsUpdate`) and return the resulting settings
+ */
+export async function updatePlatformSettings(values: Partial<Record<PlatformSettingKey, any>>, updatedBy: string | null): Promise<PlatformSettings> {
+  await savePlatformSettings(values, updatedBy);
+  cache = null;
+  return getPlatformSettings();
+}
+
+/**
+ * The From header for outgoing email
+ */
+export function senderAddress(settings: Pick<PlatformSettings, 'sender_name' | 'sender_email'>): string {
+  const email = settings.sender_email || 'noreply@localhost';
+  // SMTP_FROM may already be a full `Name <address>`
+  if (!settings.sender_name || email.includes('<')) return email;
+  return `"${settings.sender_name}" <${email}>`;
+}
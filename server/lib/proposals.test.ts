@@ -0,0 +1,167 @@
+#!/usr/bin/env tsx
+/**
+ * Multi-slot time proposals - Test Suite
+ *
+ * Ranked candidate slots, expiry, superseding earlier proposals, accepting one slot and the
+ * reschedule email listing every option.
+ *
+ * Run with: npx tsx server/lib/proposals.test.ts
+ */
+
+import { pathToFileURL } from 'url';
+import { MAX_PROPOSAL_SLOTS, isProposalExpired, proposalExpiry, proposalSlots, validateProposalSlots } from './proposals';
+import { renderEmail } from './emailTemplates';
+
+process.env.DATA_BACKEND = 'memory';
+delete process.env.MEMORY_DB_FILE;
+
+let failures = 0;
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✓ PASS: ${message}`);
+  } else {
+    failures++;
+    console.log(`✗ FAIL: ${message}`);
+  }
+}
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date('2030-01-07T12:00:00Z');
+
+function slot(hoursFromNow: number, minutes = 30) {
+  const start = new Date(NOW.getTime() + hoursFromNow * HOUR);
+  return { start_time: start.toISOString(), end_time: new Date(start.getTime() + minutes * 60 * 1000).toISOString() };
+}
+
+/**
+ * Test Case 1: Slot validation
+ */
+function testValidation() {
+  console.log('\n=== TEST 1: Slot validation ===');
+
+  const { slots } = validateProposalSlots({ slots: [slot(48), slot(24)] }, NOW);
+  check(slots?.length === 2 && slots[0].start_time === slot(48).start_time, 'slots keep their order of preference');
+
+  const legacy = validateProposalSlots(slot(24), NOW);
+  check(legacy.slots?.length === 1 && legacy.slots[0].end_time === slot(24).end_time, 'a single start_time/end_time is one slot');
+
+  check(Boolean(validateProposalSlots({}, NOW).error), 'at least one slot is required');
+  const tooMany = Array.from({ length: MAX_PROPOSAL_SLOTS + 1 }, (_, i) => slot(24 + i));
+  check(Boolean(validateProposalSlots({ slots: tooMany }, NOW).error), `at most ${MAX_PROPOSAL_SLOTS} slots`);
+  check(Boolean(validateProposalSlots({ slots: [{ start_time: slot(24).end_time, end_time: slot(24).start_time }] }, NOW).error), 'a slot must end after it starts');
+  check(Boolean(validateProposalSlots({ slots: [slot(-1)] }, NOW).error), 'slots in the past are rejected');
+  check(Boolean(validateProposalSlots({ slots: [slot(24), slot(24)] }, NOW).error), 'duplicate slots are rejected');
+  check(Boolean(validateProposalSlots({ slots: [{ start_time: 'soon' }] }, NOW).error), 'unparseable times are rejected');
+}
+
+/**
+ * Test Case 2: Expiry
+ */
+function testExpiry() {
+  console.log('\n=== TEST 2: Expiry ===');
+
+  check(proposalExpiry([slot(200)], NOW) === new Date(NOW.getTime() + 72 * HOUR).toISOString(), 'proposals lapse after 72 hours');
+  check(proposalExpiry([slot(5), slot(10)], NOW) === slot(10).start_time, 'or once the last slot has started');
+
+  check(isProposalExpired({ status: 'PENDING', expires_at: slot(-1).start_time }, NOW), 'past expires_at is expired');
+  check(!isProposalExpired({ status: 'PENDING', expires_at: slot(1).start_time }, NOW), 'future expires_at is open');
+  check(!isProposalExpired({ status: 'PENDING' }, NOW), 'proposals without an expiry never lapse');
+
+  check(proposalSlots({ start_time: 'a', end_time: 'b' }).length === 1, 'older single-slot proposals read as one slot');
+}
+
+/**
+ * Test Case 3: Storage - supersede, accept one slot, expire
+ */
+async function testStorage() {
+  console.log('\n=== TEST 3: Storage ===');
+
+  const db = await import('./db');
+  const request = await db.createMeetingRequest('investor-1', 'company-1', 'INVESTOR', 'COMPANY', 'Intro');
+
+  const now = new Date();
+  const later = (hours: number) => ({
+    start_time: new Date(now.getTime() + hours * HOUR).toISOString(),
+    end_time: new Date(now.getTime() + hours * HOUR + 30 * 60 * 1000).toISOString(),
+  });
+
+  const first = await db.createTimeProposal(request.id, 'investor-1', [later(24), later(48)], 'Europe/Berlin');
+  check(first.status === 'PENDING' && first.slots.length === 2 && first.start_time === later(24).start_time, 'a proposal stores its slots with the first choice as start_time');
+  check(Boolean(first.expires_at) && new Date(first.expires_at).getTime() <= now.getTime() + 72 * HOUR + 1000, 'a proposal gets an expiry');
+
+  await db.updateTimeProposalStatus(first.id, 'COUNTERED');
+  const counter = await db.createTimeProposal(request.id, 'company-1', [later(30), later(54)], 'UTC', first.id);
+  check(counter.counter_to_proposal_id === first.id, 'a counter links to the proposal it answers');
+
+  const replacement = await db.createTimeProposal(request.id, 'company-1', [later(60)], 'UTC');
+  check((await db.getTimeProposalById(counter.id))?.status === 'SUPERSEDED', 'a new proposal supersedes pending ones on the request');
+  check((await db.getTimeProposalById(first.id))?.status === 'COUNTERED', 'answered proposals keep their status');
+
+  const accepted = await db.acceptTimeProposalSlot(replacement.id, later(60), 0);
+  check(accepted.status === 'ACCEPTED' && accepted.accepted_slot === 0 && accepted.start_time === later(60).start_time, 'accepting records the slot and its times');
+
+  const stale = await db.createTimeProposal(request.id, 'investor-1', [later(5)], 'UTC');
+  const notYet = await db.expireStaleProposals(now);
+  check(notYet.length === 0, 'open proposals are left alone');
+  const expired = await db.expireStaleProposals(new Date(now.getTime() + 6 * HOUR));
+  check(expired.length === 1 && expired[0].id === stale.id && expired[0].status === 'EXPIRED', 'stale proposals expire and are returned for notifying');
+  check((await db.getTimeProposalById(accepted.id))?.status === 'ACCEPTED', 'closed proposals never expire');
+
+  const withHistory = await db.getMeetingRequestById(request.id);
+  check(withHistory?.time_proposals_eif?.length === 4, 'the request lists its whole negotiation history');
+}
+
+/**
+ * Test Case 4: Reschedule email
+ */
+function testEmail() {
+  console.log('\n=== TEST 4: Reschedule email ===');
+
+  const options = [slot(24), slot(48)].map(s => ({ start: s.start_time, end: s.end_time }));
+  const email = renderEmail('rescheduleRequested', {
+    start: options[0].start,
+    end: options[0].end,
+    slots: options,
+    counter: true,
+    timezone: 'UTC',
+    acceptUrl: 'https://eif.example/accept',
+    declineUrl: 'https://eif.example/decline',
+  });
+  check(email.subject === 'Meeting reschedule counter-proposal', 'counter-proposals have their own subject');
+  check(email.text.includes('1. ') && email.text.includes('2. ') && email.html.includes('<ol>'), 'every option is listed in order');
+  check(email.text.includes('Choose a time: https://eif.example/accept'), 'the recipient picks a time in the portal');
+
+  const single = renderEmail('rescheduleRequested', { ...options[0], timezone: 'UTC', acceptUrl: 'a', declineUrl: 'd' });
+  check(single.subject === 'Meeting reschedule requested' && single.text.includes('Accept: a'), 'single-slot proposals read as before');
+}
+
+// ============================================
+// RUN ALL TESTS
+// ============================================
+
+async function runAllTests() {
+  console.log('╔════════════════════════════════════════════╗');
+  console.log('║   Time Proposals Test Suite                ║');
+  console.log('╚════════════════════════════════════════════╝');
+
+  try {
+    testValidation();
+    testExpiry();
+    await testStorage();
+    testEmail();
+  } catch (error) {
+    console.error('\n✗ Test suite failed:', error);
+    process.exit(1);
+  }
+
+  console.log(failures === 0 ? '\nAll tests passed.\n' : `\n${failures} test(s) failed.\n`);
+  if (failures > 0) process.exit(1);
+}
+
+// Run tests if this is executed directly
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runAllTests();
+}
+
+export { runAllTests };
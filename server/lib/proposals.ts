@@ -0,0 +1,67 @@
+/**
+ * Time proposals (`time_proposals_eif`) with several candidate slots.
+ *
+ * A proposal lists up to `MAX_PROPOSAL_SLOTS` slots in the proposer's order of preference. The
+ * other participant accepts any one of them, declines, or counters with their own set, which
+ * closes the proposal as COUNTERED. A new proposal supersedes the request's earlier pending ones.
+ * `start_time` / `end_time` hold the first choice until a slot is accepted and the accepted slot
+ * afterwards, so single-slot readers keep working.
+ *
+ * A pending proposal expires after `PROPOSAL_TTL_HOURS`, or once its last slot has started.
+ */
+
+export const MAX_PROPOSAL_SLOTS = 5;
+export const PROPOSAL_TTL_HOURS = 72;
+
+export type ProposalStatus = 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'COUNTERED' | 'SUPERSEDED' | 'EXPIRED';
+
+export interface ProposalSlot {
+  start_time: string;
+  end_time: string;
+}
+
+/**
+ * Check and normalize candidate slots: `{ slots: [...] }`, or the single `{ start_time, end_time }`
+ * of older clients. Slots keep the given order (their rank) and must start after `now`.
+ */
+export function validateProposalSlots(input: any, now: Date = new Date()): { slots?: ProposalSlot[]; error?: string } {
+  const raw: any[] = Array.isArray(input?.slots)
+    ? input.slots
+    : (input?.start_time || input?.end_time ? [{ start_time: input.start_time, end_time: input.end_time }] : []);
+  if (raw.length === 0) return { error: 'slots (or start_time and end_time) required' };
+  if (raw.length > MAX_PROPOSAL_SLOTS) return { error: `a proposal can offer at most ${MAX_PROPOSAL_SLOTS} slots` };
+
+  const slots: ProposalSlot[] = [];
+  for (let i = 0; i < raw.length; i++) {
+    const start = new Date(raw[i]?.start_time);
+    const end = new Date(raw[i]?.end_time);
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) return { error: `slots[${i}] needs start_time and end_time` };
+    if (end <= start) return { error: `slots[${i}] ends before it starts` };
+    if (start <= now) return { error: `slots[${i}] is in the past` };
+    const slot = { start_time: start.toISOString(), end_time: end.toISOString() };
+    if (slots.some(s => s.start_time === slot.start_time && s.end_time === slot.end_time)) return { error: `slots[${i}] is listed twice` };
+    slots.push(slot);
+  }
+  return { slots };
+}
+
+/**
+ * When a proposal made at `now` with these slots goes stale
+ */
+export function proposalExpiry(slots: ProposalSlot[], now: Date = new Date()): string {
+  const lastStart = Math.max(...slots.map(s => new Date(s.start_time).getTime()));
+  return new Date(Math.min(now.getTime() + PROPOSAL_TTL_HOURS * 60 * 60 * 1000, lastStart)).toISOString();
+}
+
+/**
+ * A proposal's candidate slots in rank order (proposals from before multi-slot have one)
+ */
+export function proposalSlots(proposal: any): ProposalSlot[] {
+  if (Array.isArray(proposal?.slots) && proposal.slots.length > 0) return proposal.slots;
+  return proposal?.start_time ? [{ start_time: proposal.start_time, end_time: proposal.end_time }] : [];
+}
+
+export function isProposalExpired(proposal: any, now: Date = new Date()): boolean {
+  if (proposal?.status === 'EXPIRED') return true;
+  return Boolean(proposal?.expires_at) && new Date(proposal.expires_at).getTime() <= now.getTime();
+}
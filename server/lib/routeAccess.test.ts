@@ -0,0 +1,346 @@
+#!/usr/bin/env tsx
+/**
+ * Route access - Test Suite
+ *
+ * Every API route has a policy, and each policy lets exactly the expected callers through:
+ * anonymous visitors, an investor and a company that share a meeting request, an admin, and an
+ * outsider (an investor with no relation to either).
+ *
+ * Run with: npx tsx server/lib/routeAccess.test.ts
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { fileURLToPath, pathToFileURL } from 'url';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { authenticate, guardRoutes, roleOf, verifySessionToken } from './access';
+
+process.env.DATA_BACKEND = 'memory';
+delete process.env.MEMORY_DB_FILE;
+process.env.JWT_SECRET = 'route-access-test-secret';
+
+const here = path.dirname(fileURLToPath(import.meta.url));
+
+let failures = 0;
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✓ PASS: ${message}`);
+  } else {
+    failures++;
+    console.log(`✗ FAIL: ${message}`);
+  }
+}
+
+type Caller = 'anonymous' | 'investor' | 'company' | 'admin' | 'outsider';
+
+const CALLERS: Caller[] = ['anonymous', 'investor', 'company', 'admin', 'outsider'];
+const EVERYONE: Caller[] = CALLERS;
+const SIGNED_IN: Caller[] = ['investor', 'company', 'admin', 'outsider'];
+const ADMIN: Caller[] = ['admin'];
+const INVESTORS: Caller[] = ['investor', 'outsider'];
+const COMPANIES: Caller[] = ['company'];
+const PARTICIPANTS: Caller[] = ['investor', 'company'];
+
+/** Who may reach each endpoint (the investor sent the meeting request to the company) */
+const EXPECTED: Record<string, Caller[]> = {
+  'GET /api/health': EVERYONE,
+  'POST /api/users': EVERYONE,
+  'POST /api/auth/login': EVERYONE,
+  'POST /api/auth/2fa/verify': EVERYONE,
+  'POST /api/auth/2fa/setup': EVERYONE,
+  'POST /api/auth/2fa/confirm': EVERYONE,
+  'GET /api/auth/verify': EVERYONE,
+  'POST /api/auth/resend-verification': EVERYONE,
+  'POST /api/auth/refresh': EVERYONE,
+  'POST /api/auth/logout': EVERYONE,
+  'POST /api/auth/forgot-password': EVERYONE,
+  'POST /api/auth/reset-password': EVERYONE,
+  'GET /api/users/me': SIGNED_IN,
+  'GET /api/users/me/sessions': SIGNED_IN,
+  'DELETE /api/users/me/sessions': SIGNED_IN,
+  // The investor's session
+  'DELETE /api/users/me/sessions/:id': ['investor'],
+  'GET /api/users/me/2fa': SIGNED_IN,
+  'POST /api/users/me/2fa/setup': SIGNED_IN,
+  'POST /api/users/me/2fa/confirm': SIGNED_IN,
+  'POST /api/users/me/2fa/recovery-codes': SIGNED_IN,
+  'DELETE /api/users/me/2fa': SIGNED_IN,
+  // The company's account: itself, its contact and admins
+  'GET /api/users/:id': ['investor', 'company', 'admin'],
+
+  'GET /api/investors': SIGNED_IN,
+  'GET /api/investors/me': INVESTORS,
+  'PATCH /api/investors/me': INVESTORS,
+  'GET /api/investors/:userId': SIGNED_IN,
+  'GET /api/investors/me/recommendations': INVESTORS,
+  'GET /api/investors/me/favorites': INVESTORS,
+  'POST /api/investors/me/favorites/:companyUserId': INVESTORS,
+  'DELETE /api/investors/me/favorites/:companyUserId': INVESTORS,
+  'GET /api/investors/me/meetings': INVESTORS,
+  'GET /api/companies': EVERYONE,
+  'GET /api/companies/me': COMPANIES,
+  'PATCH /api/companies/me': COMPANIES,
+  'GET /api/companies/me/recommendations': COMPANIES,
+  'GET /api/companies/:userId': EVERYONE,
+
+  'POST /api/events/profile_view': EVERYONE,
+  'POST /api/events/deck_download': EVERYONE,
+  'GET /api/metrics/company/overview': COMPANIES,
+  'GET /api/metrics/investor/overview': INVESTORS,
+
+  'GET /api/admin/users': ADMIN,
+  'GET /api/admin/approvals': ADMIN,
+  'POST /api/admin/users/:id/approve': ADMIN,
+  'POST /api/admin/users/:id/reject': ADMIN,
+  'POST /api/admin/users/:id/2fa/reset': ADMIN,
+  'POST /api/admin/invite': ADMIN,
+  'POST /api/admin/scheduler/run': ADMIN,
+  'POST /api/admin/meetings/expire': ADMIN,
+  'GET /api/admin/match-cache': ADMIN,
+  'DELETE /api/admin/match-cache': ADMIN,
+  'GET /api/admin/emails': ADMIN,
+  'POST /api/admin/emails/:id/retry': ADMIN,
+  'POST /api/admin/emails/process': ADMIN,
+  'GET /api/admin/settings': ADMIN,
+  'PATCH /api/admin/settings': ADMIN,
+  'POST /api/admin/settings/smtp/test': ADMIN,
+
+  'POST /api/meetings/requests': INVESTORS.concat(COMPANIES),
+  // The investor's requests: the investor and admins
+  'GET /api/meetings/requests/:userId': ['investor', 'admin'],
+  'PATCH /api/meetings/requests/:id': PARTICIPANTS,
+  'GET /api/meetings/requests/:id/transitions': ['investor', 'company', 'admin'],
+  'POST /api/meetings/requests/:id/proposals': PARTICIPANTS,
+  'POST /api/meetings/requests/:id/proposals/:proposalId/counter': PARTICIPANTS,
+  'POST /api/meetings/requests/:id/proposals/:proposalId/accept': PARTICIPANTS,
+  'POST /api/meetings/requests/:id/proposals/:proposalId/decline': PARTICIPANTS,
+  'GET /api/meetings/requests/:id/booking': ['investor'],
+  'POST /api/meetings/requests/:id/booking': ['investor'],
+  'GET /api/meetings/requests/:id/ics': PARTICIPANTS,
+
+  'GET /api/users/me/meetings': SIGNED_IN,
+  'GET /api/meetings/:id/ics': PARTICIPANTS,
+  'PATCH /api/meetings/:id/location': PARTICIPANTS,
+  'GET /api/users/me/calendar-feed': SIGNED_IN,
+  'POST /api/users/me/calendar-feed/rotate': SIGNED_IN,
+  'GET /api/calendar/feed/:token': EVERYONE,
+  'GET /api/users/me/availability': SIGNED_IN,
+  'PUT /api/users/me/availability': SIGNED_IN,
+  'GET /api/users/me/booking-settings': SIGNED_IN,
+  'PUT /api/users/me/booking-settings': SIGNED_IN,
+  'POST /api/users/me/arrangement-preferences': SIGNED_IN,
+
+  'GET /api/notifications': SIGNED_IN,
+  'PATCH /api/notifications/:id/read': SIGNED_IN,
+  'POST /api/notifications/mark-all-read': SIGNED_IN,
+  'PATCH /api/notifications/:id': SIGNED_IN,
+  'DELETE /api/notifications/:id': SIGNED_IN,
+  'POST /api/messages': SIGNED_IN,
+  'GET /api/messages/conversations': SIGNED_IN,
+  // The thread with the company: only its contact
+  'GET /api/messages/:userId': ['investor'],
+  'POST /api/messages/:userId/read': SIGNED_IN,
+
+  'GET /api/oauth/authorize': SIGNED_IN,
+  'GET /api/oauth/callback': EVERYONE,
+  'POST /api/oauth/connect': SIGNED_IN,
+  'GET /api/oauth/status': SIGNED_IN,
+  'POST /api/oauth/disconnect': SIGNED_IN,
+  'POST /api/oauth/settings': SIGNED_IN,
+};
+
+/**
+ * Routes registered in the server source, as `METHOD path`
+ */
+function registeredRoutes(): { routes: string[]; unguarded: string[] } {
+  const routes: string[] = [];
+  const unguarded: string[] = [];
+  for (const file of ['../routes.ts', '../oauth-routes.ts']) {
+    const source = fs.readFileSync(path.join(here, file), 'utf8');
+    for (const m of source.matchAll(/\bapi\.(get|post|put|patch|delete)\(\s*'([^']+)'/g)) routes.push(`${m[1].toUpperCase()} ${m[2]}`);
+    for (const m of source.matchAll(/\bapp\.(get|post|put|patch|delete|all)\(\s*'([^']+)'/g)) unguarded.push(`${m[1].toUpperCase()} ${m[2]}`);
+  }
+  return { routes, unguarded };
+}
+
+/**
+ * Test Case 1: Every route has a policy
+ */
+async function testCoverage() {
+  console.log('\n=== TEST 1: Coverage ===');
+  const { ROUTE_ACCESS } = await import('./routeAccess');
+
+  const { routes, unguarded } = registeredRoutes();
+  const policies = Object.keys(ROUTE_ACCESS);
+  check(routes.length > 0 && unguarded.length === 0, `all ${routes.length} routes are registered through guardRoutes`);
+  const missing = routes.filter(key => !policies.includes(key));
+  check(missing.length === 0, `every route has a policy${missing.length ? ` (missing: ${missing.join(', ')})` : ''}`);
+  const stale = policies.filter(key => !routes.includes(key));
+  check(stale.length === 0, `every policy belongs to a route${stale.length ? ` (stale: ${stale.join(', ')})` : ''}`);
+  const untested = policies.filter(key => !(key in EXPECTED));
+  check(untested.length === 0, `every policy is covered below${untested.length ? ` (untested: ${untested.join(', ')})` : ''}`);
+
+  const app = express();
+  const api = guardRoutes(app, ROUTE_ACCESS);
+  let error: any = null;
+  try {
+    api.get('/api/not-in-the-table', (_req, res) => { res.json({}); });
+  } catch (e) {
+    error = e;
+  }
+  check(Boolean(error?.message?.includes('GET /api/not-in-the-table')), 'routes without a policy cannot be registered');
+}
+
+/**
+ * Test Case 2: Tokens and roles
+ */
+function testTokens() {
+  console.log('\n=== TEST 2: Tokens and roles ===');
+
+  const secret = process.env.JWT_SECRET as string;
+  const user = verifySessionToken(jwt.sign({ sub: 'u1', role: 'INVESTOR', username: 'ann', sid: 's1' }, secret));
+  check(user?.id === 'u1' && user.role === 'investor' && user.username === 'ann' && user.sessionId === 's1', 'a valid token yields the user with a normalized role and its session');
+  check(verifySessionToken(jwt.sign({ sub: 'u1', sid: 's1' }, 'another-secret')) === null, 'tokens signed with another secret are ignored');
+  check(verifySessionToken(jwt.sign({ sub: 'u1', sid: 's1', exp: Math.floor(Date.now() / 1000) - 60 }, secret)) === null, 'expired tokens are ignored');
+  check(verifySessionToken(jwt.sign({ role: 'admin', sid: 's1' }, secret)) === null, 'tokens without a subject are ignored');
+  check(verifySessionToken(jwt.sign({ sub: 'u1', purpose: 'oauth_state' }, secret)) === null, 'tokens without a session (like the OAuth state) are ignored');
+
+  check(roleOf('super_admin') === 'admin' && roleOf('Company') === 'company', 'stored role variants map to platform roles');
+  check(roleOf('user') === null && roleOf(undefined) === null, 'other roles have none');
+}
+
+/**
+ * Concrete URL for a route, with parameters pointing at the fixtures
+ */
+function urlFor(key: string, ids: { investor: string; company: string; request: string; meeting: string; session: string }): { method: string; url: string } {
+  const [method, route] = key.split(' ');
+  let url = route;
+  if (route.startsWith('/api/meetings/requests/:id')) url = url.replace(':id', ids.request);
+  else if (route.startsWith('/api/meetings/:id')) url = url.replace(':id', ids.meeting);
+  else if (route === '/api/users/me/sessions/:id') url = url.replace(':id', ids.session);
+  else if (route === '/api/users/:id' || route.startsWith('/api/messages/:userId')) url = url.replace(/:\w+/, ids.company);
+  else if (route === '/api/meetings/requests/:userId') url = url.replace(':userId', ids.investor);
+  // Other ids are well-formed but match nothing
+  url = url.replace(/:\w+/g, '00000000-0000-4000-8000-000000000000');
+  return { method, url };
+}
+
+/**
+ * Test Case 3: Who reaches each endpoint
+ */
+async function testMatrix() {
+  console.log('\n=== TEST 3: Who reaches each endpoint ===');
+
+  const { ROUTE_ACCESS } = await import('./routeAccess');
+  const { storage } = await import('../storage');
+  const db = await import('./db');
+
+  const secret = process.env.JWT_SECRET as string;
+  const investor = await storage.createUser({ email: 'ann@investor.example', password: 'secret123', role: 'investor' });
+  const company = await storage.createUser({ email: 'founder@company.example', password: 'secret123', role: 'company' });
+  const admin = await storage.createUser({ email: 'ops@eif.example', password: 'secret123', role: 'admin' });
+  const outsider = await storage.createUser({ email: 'bob@investor.example', password: 'secret123', role: 'investor' });
+  const request = await db.createMeetingRequest(investor.id, company.id, 'INVESTOR', 'COMPANY', 'Intro?');
+  const meeting = await db.createMeetingFromRequest(request.id, '2030-01-01T10:00:00.000Z', '2030-01-01T10:30:00.000Z');
+  const session = await db.createSession({ user_id: investor.id, refresh_token_hash: 'fixture', user_agent: null, ip: null, expires_at: '2030-01-01T00:00:00.000Z' });
+
+  const tokens: Record<Caller, string | null> = {
+    anonymous: null,
+    investor: jwt.sign({ sub: investor.id, role: 'investor', sid: session.id }, secret),
+    company: jwt.sign({ sub: company.id, role: 'COMPANY', sid: 's-company' }, secret),
+    admin: jwt.sign({ sub: admin.id, role: 'admin', sid: 's-admin' }, secret),
+    outsider: jwt.sign({ sub: outsider.id, role: 'investor', sid: 's-outsider' }, secret),
+  };
+
+  const app = express();
+  app.use('/api', authenticate);
+  const api = guardRoutes(app, ROUTE_ACCESS);
+  // Register in the same order as the server so literal paths win over parameters
+  for (const key of registeredRoutes().routes) {
+    const [method, route] = key.split(' ');
+    api[method.toLowerCase() as 'get'](route, (req, res) => { res.json({ route: key, user: req.user?.id ?? null }); });
+  }
+  const server = app.listen(0);
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const call = async (method: string, url: string, token: string | null) => {
+    const res = await fetch(base + url, { method, headers: token ? { Authorization: `Bearer ${token}` } : {} });
+    return { status: res.status, body: await res.json().catch(() => null) as any };
+  };
+
+  try {
+    const ids = { investor: investor.id, company: company.id, request: request.id, meeting: meeting.id, session: session.id };
+    for (const [key, allowed] of Object.entries(EXPECTED)) {
+      const { method, url } = urlFor(key, ids);
+      const wrong: string[] = [];
+      for (const caller of CALLERS) {
+        const { status, body } = await call(method, url, tokens[caller]);
+        const reached = status === 200 && body?.route === key;
+        if (reached !== allowed.includes(caller)) wrong.push(`${caller} ${reached ? 'reached it' : `got ${status}`}`);
+        if (!reached && ![401, 403, 404].includes(status)) wrong.push(`${caller} got ${status} instead of 401/403/404`);
+      }
+      check(wrong.length === 0, `${key}: ${allowed.length === CALLERS.length ? 'everyone' : allowed.join(', ')}${wrong.length ? ` (${wrong.join('; ')})` : ''}`);
+    }
+
+    const anonymous = await call('GET', '/api/users/me', null);
+    check(anonymous.status === 401 && anonymous.body?.message === 'not authenticated', 'no token: 401 not authenticated');
+    const invalid = await call('GET', '/api/users/me', jwt.sign({ sub: investor.id, sid: session.id }, 'another-secret'));
+    check(invalid.status === 401 && invalid.body?.message === 'invalid token', 'a bad token: 401 invalid token');
+    const cookie = await fetch(`${base}/api/users/me`, { headers: { Cookie: `theme=dark; token=${tokens.company}` } });
+    check(cookie.status === 200 && (await cookie.json()).user === company.id, 'the session cookie works like the Authorization header');
+
+    const missing = await call('PATCH', '/api/meetings/requests/00000000-0000-0000-0000-000000000000', tokens.investor);
+    check(missing.status === 404 && missing.body?.message === 'meeting not found', 'rules answer 404 for meetings that do not exist');
+    const denied = await call('GET', `/api/meetings/requests/${request.id}/booking`, tokens.company);
+    check(denied.status === 403 && denied.body?.message === 'only the requester may book this meeting', 'denials carry the policy message');
+    const own = await call('GET', `/api/messages/${investor.id}`, tokens.investor);
+    check(own.status === 403, 'there is no message thread with yourself');
+    const malformed = await call('POST', `/api/meetings/requests/${request.id}/proposals/not-a-uuid/accept`, tokens.investor);
+    check(malformed.status === 400 && malformed.body?.message === 'invalid proposalId', 'ids in the path that are not UUIDs get a 400 instead of reaching the database');
+    const injected = encodeURIComponent(`${company.id}),id.not.is.null,and(from_user_id.eq.${company.id}`);
+    const filter = await call('GET', `/api/messages/${injected}`, tokens.outsider);
+    check(filter.status === 400, 'user ids that are not UUIDs are refused before any lookup');
+    const contactRule = ROUTE_ACCESS['GET /api/messages/:userId'] as { allow: { check: (req: any, user: any) => any }[] };
+    const bypass = await contactRule.allow[0].check({ params: { userId: decodeURIComponent(injected) } }, { id: outsider.id, role: 'investor' });
+    check(bypass === false, 'the contact rule refuses filter text in place of a user id');
+
+    delete process.env.JWT_SECRET;
+    const unconfigured = await call('GET', '/api/users/me', tokens.investor);
+    check(unconfigured.status === 500 && (await call('GET', '/api/health', null)).status === 200, 'without JWT_SECRET only public routes work');
+    process.env.JWT_SECRET = secret;
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+}
+
+// ============================================
+// RUN ALL TESTS
+// ============================================
+
+async function runAllTests() {
+  console.log('╔════════════════════════════════════════════╗');
+  console.log('║   Route Access Test Suite                  ║');
+  console.log('╚════════════════════════════════════════════╝');
+
+  try {
+    await testCoverage();
+    testTokens();
+    await testMatrix();
+  } catch (error) {
+    console.error('\n✗ Test suite failed:', error);
+    process.exit(1);
+  }
+
+  console.log(failures === 0 ? '\nAll tests passed.\n' : `\n${failures} test(s) failed.\n`);
+  if (failures > 0) process.exit(1);
+}
+
+// Run tests if this is executed directly
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runAllTests();
+}
+
+export { runAllTests };
@@ -0,0 +1,207 @@
+import { ADMIN, isUuid, self, type AccessRule, type RoutePolicy } from './access.js';
+import { findMeetingRequestByParticipants, getMeetingById, getMeetingRequestById, getSessionById } from './db.js';
+
+/**
+ * Who may call each API route, keyed by `METHOD path` exactly as registered (see access.ts).
+ *
+ * Routes not listed cannot be registered. Checks that depend on the request body or on the state
+ * of a resource (who may make a status transition, who may answer a proposal) stay in the handlers.
+ */
+
+const PUBLIC: RoutePolicy = { public: true };
+const SIGNED_IN: RoutePolicy = {};
+const ADMIN_ONLY: RoutePolicy = { roles: ['admin'] };
+const INVESTOR_ONLY: RoutePolicy = { roles: ['investor'] };
+const COMPANY_ONLY: RoutePolicy = { roles: ['company'] };
+
+/**
+ * Allows either side of the meeting request in the route parameter `param`
+ */
+export function participantOfRequest(param: string): AccessRule {
+  return {
+    name: `participant(${param})`,
+    notFound: 'meeting not found',
+    check: async (req, user) => {
+      const request = await getMeetingRequestById(req.params[param]);
+      if (!request) return null;
+      return request.from_user_id === user.id || request.to_user_id === user.id;
+    },
+  };
+}
+
+/**
+ * Allows the user who sent the meeting request in the route parameter `param`
+ */
+export function requesterOf(param: string): AccessRule {
+  return {
+    name: `requester(${param})`,
+    notFound: 'meeting not found',
+    check: async (req, user) => {
+      const request = await getMeetingRequestById(req.params[param]);
+      if (!request) return null;
+      return request.from_user_id === user.id;
+    },
+  };
+}
+
+/**
+ * Allows either participant of the meeting (`meetings_eif`) in the route parameter `param`
+ */
+export function participantOfMeeting(param: string): AccessRule {
+  return {
+    name: `attendee(${param})`,
+    notFound: 'meeting not found',
+    check: async (req, user) => {
+      const meeting = await getMeetingById(req.params[param]);
+      if (!meeting) return null;
+      return meeting.participant_a_id === user.id || meeting.participant_b_id === user.id;
+    },
+  };
+}
+
+/**
+ * Allows users who share a meeting request with the user in the route parameter `param`
+ */
+export function contactOf(param: string): AccessRule {
+  return {
+    name: `contact(${param})`,
+    check: async (req, user) => {
+      const other = req.params[param];
+      if (!isUuid(other) || other === user.id) return false;
+      return Boolean(await findMeetingRequestByParticipants(user.id, other));
+    },
+  };
+}
+
+/**
+ * Allows the user who owns the sign-in session in the route parameter `param`
+ */
+export function ownSession(param: string): AccessRule {
+  return {
+    name: `session(${param})`,
+    notFound: 'session not found',
+    check: async (req, user) => {
+      const session = await getSessionById(req.params[param]);
+      // Other users' sessions are reported as missing rather than forbidden
+      if (!session || session.user_id !== user.id) return null;
+      return true;
+    },
+  };
+}
+
+const PARTICIPANT: RoutePolicy = { ids: ['id'], allow: [participantOfRequest('id')] };
+const PROPOSAL_PARTICIPANT: RoutePolicy = { ids: ['id', 'proposalId'], allow: [participantOfRequest('id')] };
+
+export const ROUTE_ACCESS: Record<string, RoutePolicy> = {
+  'GET /api/health': PUBLIC,
+
+  // Accounts and sessions
+  'POST /api/users': PUBLIC,
+  'POST /api/auth/login': PUBLIC,
+  // The challenge from the login response is the credential
+  'POST /api/auth/2fa/verify': PUBLIC,
+  'POST /api/auth/2fa/setup': PUBLIC,
+  'POST /api/auth/2fa/confirm': PUBLIC,
+  'GET /api/auth/verify': PUBLIC,
+  'POST /api/auth/resend-verification': PUBLIC,
+  'POST /api/auth/refresh': PUBLIC,
+  'POST /api/auth/logout': PUBLIC,
+  'POST /api/auth/forgot-password': PUBLIC,
+  'POST /api/auth/reset-password': PUBLIC,
+  'GET /api/users/me': SIGNED_IN,
+  'GET /api/users/me/sessions': SIGNED_IN,
+  'DELETE /api/users/me/sessions': SIGNED_IN,
+  'DELETE /api/users/me/sessions/:id': { ids: ['id'], allow: [ownSession('id')] },
+  'GET /api/users/me/2fa': SIGNED_IN,
+  'POST /api/users/me/2fa/setup': SIGNED_IN,
+  'POST /api/users/me/2fa/confirm': SIGNED_IN,
+  'POST /api/users/me/2fa/recovery-codes': SIGNED_IN,
+  'DELETE /api/users/me/2fa': SIGNED_IN,
+  'GET /api/users/:id': { ids: ['id'], allow: [self('id'), ADMIN, contactOf('id')] },
+
+  // Profiles; company profiles are public pages, investor profiles need an account
+  'GET /api/investors': SIGNED_IN,
+  'GET /api/investors/me': INVESTOR_ONLY,
+  'PATCH /api/investors/me': INVESTOR_ONLY,
+  'GET /api/investors/:userId': SIGNED_IN,
+  'GET /api/investors/me/recommendations': INVESTOR_ONLY,
+  'GET /api/investors/me/favorites': INVESTOR_ONLY,
+  'POST /api/investors/me/favorites/:companyUserId': { roles: ['investor'], denied: 'only investors can save companies' },
+  'DELETE /api/investors/me/favorites/:companyUserId': INVESTOR_ONLY,
+  'GET /api/investors/me/meetings': INVESTOR_ONLY,
+  'GET /api/companies': PUBLIC,
+  'GET /api/companies/me': COMPANY_ONLY,
+  'PATCH /api/companies/me': COMPANY_ONLY,
+  'GET /api/companies/me/recommendations': COMPANY_ONLY,
+  'GET /api/companies/:userId': PUBLIC,
+
+  // Analytics; anonymous visitors of public company pages count too
+  'POST /api/events/profile_view': PUBLIC,
+  'POST /api/events/deck_download': PUBLIC,
+  'GET /api/metrics/company/overview': COMPANY_ONLY,
+  'GET /api/metrics/investor/overview': INVESTOR_ONLY,
+
+  // Admin
+  'GET /api/admin/users': ADMIN_ONLY,
+  'GET /api/admin/approvals': ADMIN_ONLY,
+  'POST /api/admin/users/:id/approve': { roles: ['admin'], ids: ['id'] },
+  'POST /api/admin/users/:id/reject': { roles: ['admin'], ids: ['id'] },
+  'POST /api/admin/users/:id/2fa/reset': { roles: ['admin'], ids: ['id'] },
+  'POST /api/admin/invite': ADMIN_ONLY,
+  'POST /api/admin/scheduler/run': ADMIN_ONLY,
+  'POST /api/admin/meetings/expire': ADMIN_ONLY,
+  'GET /api/admin/match-cache': ADMIN_ONLY,
+  'DELETE /api/admin/match-cache': ADMIN_ONLY,
+  'GET /api/admin/emails': ADMIN_ONLY,
+  'POST /api/admin/emails/:id/retry': { roles: ['admin'], ids: ['id'] },
+  'POST /api/admin/emails/process': ADMIN_ONLY,
+  'GET /api/admin/settings': ADMIN_ONLY,
+  'PATCH /api/admin/settings': ADMIN_ONLY,
+  'POST /api/admin/settings/smtp/test': ADMIN_ONLY,
+
+  // Meeting requests, proposals and booking
+  'POST /api/meetings/requests': { roles: ['investor', 'company'] },
+  'GET /api/meetings/requests/:userId': { ids: ['userId'], allow: [self('userId'), ADMIN] },
+  'PATCH /api/meetings/requests/:id': PARTICIPANT,
+  'GET /api/meetings/requests/:id/transitions': { ids: ['id'], allow: [participantOfRequest('id'), ADMIN] },
+  'POST /api/meetings/requests/:id/proposals': PARTICIPANT,
+  'POST /api/meetings/requests/:id/proposals/:proposalId/counter': PROPOSAL_PARTICIPANT,
+  'POST /api/meetings/requests/:id/proposals/:proposalId/accept': PROPOSAL_PARTICIPANT,
+  'POST /api/meetings/requests/:id/proposals/:proposalId/decline': PROPOSAL_PARTICIPANT,
+  'GET /api/meetings/requests/:id/booking': { ids: ['id'], allow: [requesterOf('id')], denied: 'only the requester may book this meeting' },
+  'POST /api/meetings/requests/:id/booking': { ids: ['id'], allow: [requesterOf('id')], denied: 'only the requester may book this meeting' },
+  'GET /api/meetings/requests/:id/ics': PARTICIPANT,
+
+  // Meetings and calendars
+  'GET /api/users/me/meetings': SIGNED_IN,
+  'GET /api/meetings/:id/ics': { ids: ['id'], allow: [participantOfMeeting('id')] },
+  'PATCH /api/meetings/:id/location': { ids: ['id'], allow: [participantOfMeeting('id')] },
+  'GET /api/users/me/calendar-feed': SIGNED_IN,
+  'POST /api/users/me/calendar-feed/rotate': SIGNED_IN,
+  // The secret token in the URL is the credential
+  'GET /api/calendar/feed/:token': PUBLIC,
+  'GET /api/users/me/availability': SIGNED_IN,
+  'PUT /api/users/me/availability': SIGNED_IN,
+  'GET /api/users/me/booking-settings': SIGNED_IN,
+  'PUT /api/users/me/booking-settings': SIGNED_IN,
+  'POST /api/users/me/arrangement-preferences': SIGNED_IN,
+
+  // Notifications and messages (handlers only touch the caller's own rows)
+  'GET /api/notifications': SIGNED_IN,
+  'PATCH /api/notifications/:id/read': { ids: ['id'] },
+  'POST /api/notifications/mark-all-read': SIGNED_IN,
+  'PATCH /api/notifications/:id': { ids: ['id'] },
+  'DELETE /api/notifications/:id': { ids: ['id'] },
+  'POST /api/messages': SIGNED_IN,
+  'GET /api/messages/conversations': SIGNED_IN,
+  'GET /api/messages/:userId': { ids: ['userId'], allow: [contactOf('userId')], denied: 'messaging requires an existing meeting request with this user' },
+  'POST /api/messages/:userId/read': { ids: ['userId'] },
+
+  // Calendar connections; the callback is authenticated by its signed `state`
+  'GET /api/oauth/authorize': SIGNED_IN,
+  'GET /api/oauth/callback': PUBLIC,
+  'POST /api/oauth/connect': SIGNED_IN,
+  'GET /api/oauth/status': SIGNED_IN,
+  'POST /api/oauth/disconnect': SIGNED_IN,
+  'POST /api/oauth/settings': SIGNED_IN,
+};
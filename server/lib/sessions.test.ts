@@ -0,0 +1,205 @@
+#!/usr/bin/env tsx
+/**
+ * Sessions - Test Suite
+ *
+ * Signing in, refresh token rotation (including the grace period and reuse detection),
+ * revocation, and the middleware that renews expired access tokens.
+ *
+ * Run with: npx tsx server/lib/sessions.test.ts
+ */
+
+import { pathToFileURL } from 'url';
+import jwt from 'jsonwebtoken';
+
+process.env.DATA_BACKEND = 'memory';
+delete process.env.MEMORY_DB_FILE;
+process.env.JWT_SECRET = 'sessions-test-secret';
+
+let failures = 0;
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✓ PASS: ${message}`);
+  } else {
+    failures++;
+    console.log(`✗ FAIL: ${message}`);
+  }
+}
+
+/** Just enough of an Express request */
+function fakeRequest(options: { cookie?: string; path?: string; userAgent?: string } = {}): any {
+  return {
+    headers: options.cookie ? { cookie: options.cookie } : {},
+    path: options.path ?? '/users/me',
+    ip: '203.0.113.7',
+    get: (name: string) => (name.toLowerCase() === 'user-agent' ? options.userAgent ?? 'Mozilla/5.0 (Test)' : undefined),
+  };
+}
+
+/** Records the cookies a response sets and clears */
+function fakeResponse(): any {
+  const res: any = { set: {} as Record<string, { value: string; options: any }>, cleared: [] as string[] };
+  res.cookie = (name: string, value: string, options: any) => { res.set[name] = { value, options }; return res; };
+  res.clearCookie = (name: string) => { res.cleared.push(name); return res; };
+  return res;
+}
+
+async function fixtureUser(email: string) {
+  const { storage } = await import('../storage');
+  return storage.createUser({ email, password: 'secret123', role: 'investor' });
+}
+
+/**
+ * Test Case 1: Signing in
+ */
+async function testStart() {
+  console.log('\n=== TEST 1: Signing in ===');
+  const { startSession, ACCESS_TOKEN_TTL_SECONDS } = await import('./sessions');
+  const db = await import('./db');
+
+  const user = await fixtureUser('start@investor.example');
+  const issued = await startSession(user as any, fakeRequest());
+  const payload = jwt.verify(issued.accessToken, process.env.JWT_SECRET as string) as any;
+  const session = await db.getSessionById(payload.sid);
+
+  check(payload.sub === user.id && payload.role === 'investor' && Boolean(payload.sid), 'the access token names the user, role and session');
+  check(payload.exp - payload.iat === ACCESS_TOKEN_TTL_SECONDS, `the access token lasts ${ACCESS_TOKEN_TTL_SECONDS / 60} minutes`);
+  check(issued.refreshToken.startsWith(`${session?.id}.`), 'the refresh token starts with the session id');
+  check(Boolean(session) && !JSON.stringify(session).includes(issued.refreshToken.split('.')[1]), 'only a hash of the refresh token is stored');
+  check(session?.user_agent === 'Mozilla/5.0 (Test)' && session?.ip === '203.0.113.7', 'the device and address are recorded');
+}
+
+/**
+ * Test Case 2: Rotation
+ */
+async function testRotation() {
+  console.log('\n=== TEST 2: Rotation ===');
+  const { startSession, refreshSession, isSessionActive } = await import('./sessions');
+  const supabase = (await import('../supabase')).default;
+
+  const user = await fixtureUser('rotate@investor.example');
+  const first = await startSession(user as any, fakeRequest());
+
+  const second = await refreshSession(first.refreshToken, fakeRequest({ userAgent: 'Mobile Safari' }));
+  check(Boolean(second?.refreshToken) && second?.refreshToken !== first.refreshToken, 'refreshing issues a new refresh token');
+  check(second?.user.id === user.id && second?.user.sessionId === first.user.sessionId, 'the session stays the same');
+
+  const racing = await refreshSession(first.refreshToken, fakeRequest());
+  check(Boolean(racing?.accessToken) && racing?.refreshToken === null, 'a request racing the rotation still gets an access token');
+
+  const third = await refreshSession(second!.refreshToken as string, fakeRequest());
+  check(Boolean(third?.refreshToken), 'the new refresh token works');
+
+  // The grace period of the first rotation is long over
+  await supabase.from('sessions_eif').update({ rotated_at: new Date(Date.now() - 60 * 1000).toISOString() }).eq('id', first.user.sessionId);
+  check((await refreshSession(second!.refreshToken as string, fakeRequest())) === null, 'a replaced refresh token is refused after the grace period');
+  check(!(await isSessionActive(first.user.sessionId)), 'and reusing it revokes the session');
+  check((await refreshSession(third!.refreshToken as string, fakeRequest())) === null, 'so the latest refresh token stops working too');
+
+  check((await refreshSession('not-a-token', fakeRequest())) === null, 'malformed tokens are refused');
+  check((await refreshSession(`${first.user.sessionId}.guess`, fakeRequest())) === null, 'guessed secrets are refused');
+}
+
+/**
+ * Test Case 3: Revocation
+ */
+async function testRevocation() {
+  console.log('\n=== TEST 3: Revocation ===');
+  const { startSession, refreshSession, endSession, endUserSessions, isSessionActive } = await import('./sessions');
+  const db = await import('./db');
+
+  const user = await fixtureUser('revoke@investor.example');
+  const laptop = await startSession(user as any, fakeRequest({ userAgent: 'Laptop' }));
+  const phone = await startSession(user as any, fakeRequest({ userAgent: 'Phone' }));
+  const tablet = await startSession(user as any, fakeRequest({ userAgent: 'Tablet' }));
+
+  const listed = await db.listActiveSessionsForUser(user.id);
+  check(listed.length === 3 && listed.every((s: any) => !('refresh_token_hash' in s)), 'active sessions are listed without their token hashes');
+
+  check(await isSessionActive(phone.user.sessionId), 'a new session is active');
+  await endSession(phone.user.sessionId, 'revoked');
+  check(!(await isSessionActive(phone.user.sessionId)), 'a revoked session is inactive at once');
+  check((await refreshSession(phone.refreshToken, fakeRequest())) === null, 'and cannot be refreshed');
+
+  const others = await endUserSessions(user.id, 'revoked', laptop.user.sessionId);
+  check(others === 1 && !(await isSessionActive(tablet.user.sessionId)) && await isSessionActive(laptop.user.sessionId), 'signing out other devices keeps the current one');
+
+  const { sessionIdOfVerifiedRefreshToken } = await import('./sessions');
+  check(await sessionIdOfVerifiedRefreshToken(laptop.refreshToken) === laptop.user.sessionId, 'a refresh token names its session');
+  check(await sessionIdOfVerifiedRefreshToken(`${laptop.user.sessionId}.guess`) === null, 'a session id with a guessed secret names no session');
+
+  await endUserSessions(user.id, 'password_reset');
+  check((await db.listActiveSessionsForUser(user.id)).length === 0, 'a password reset ends every session');
+}
+
+/**
+ * Test Case 4: Middleware
+ */
+async function testMiddleware() {
+  console.log('\n=== TEST 4: Middleware ===');
+  const { authenticate } = await import('./access');
+  const { startSession, checkSession, endSession } = await import('./sessions');
+
+  const run = async (req: any, res: any) => {
+    authenticate(req, res, () => undefined);
+    let error: unknown = null;
+    await checkSession(req, res, (err?: unknown) => { error = err ?? null; });
+    return error;
+  };
+
+  const user = await fixtureUser('middleware@investor.example');
+  const issued = await startSession(user as any, fakeRequest());
+
+  const fresh = fakeRequest({ cookie: `token=${issued.accessToken}; refresh_token=${issued.refreshToken}` });
+  const freshRes = fakeResponse();
+  await run(fresh, freshRes);
+  check(fresh.user?.id === user.id && Object.keys(freshRes.set).length === 0, 'a valid access token is used as is');
+
+  const expired = fakeRequest({ cookie: `refresh_token=${issued.refreshToken}` });
+  const expiredRes = fakeResponse();
+  await run(expired, expiredRes);
+  check(expired.user?.id === user.id, 'without an access token the refresh cookie signs the request in');
+  check(Boolean(expiredRes.set.token?.value) && Boolean(expiredRes.set.refresh_token?.value), 'and both cookies are renewed');
+  check(expiredRes.set.refresh_token?.options?.path === '/api' && expiredRes.set.refresh_token?.options?.httpOnly === true, 'the refresh cookie is HTTP-only and limited to the API');
+
+  const authRoute = fakeRequest({ cookie: `refresh_token=${expiredRes.set.refresh_token.value}`, path: '/auth/refresh' });
+  await run(authRoute, fakeResponse());
+  check(!authRoute.user, 'the auth routes handle the refresh cookie themselves');
+
+  await endSession(issued.user.sessionId, 'revoked');
+  const revoked = fakeRequest({ cookie: `token=${expiredRes.set.token.value}; refresh_token=${expiredRes.set.refresh_token.value}` });
+  const revokedRes = fakeResponse();
+  await run(revoked, revokedRes);
+  check(!revoked.user, 'access tokens of a revoked session are ignored');
+  check(revokedRes.cleared.includes('token') && revokedRes.cleared.includes('refresh_token'), 'and its cookies are cleared');
+}
+
+// ============================================
+// RUN ALL TESTS
+// ============================================
+
+async function runAllTests() {
+  console.log('╔════════════════════════════════════════════╗');
+  console.log('║   Sessions Test Suite                      ║');
+  console.log('╚════════════════════════════════════════════╝');
+
+  try {
+    await testStart();
+    await testRotation();
+    await testRevocation();
+    await testMiddleware();
+  } catch (error) {
+    console.error('\n✗ Test suite failed:', error);
+    process.exit(1);
+  }
+
+  console.log(failures === 0 ? '\nAll tests passed.\n' : `\n${failures} test(s) failed.\n`);
+  if (failures > 0) process.exit(1);
+}
+
+// Run tests if this is executed directly
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runAllTests();
+}
+
+export { runAllTests };
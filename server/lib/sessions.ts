@@ -0,0 +1,251 @@
+import crypto from 'crypto';
+import type { CookieOptions, NextFunction, Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { readCookie, roleOf, type AuthUser } from './access.js';
+import { createSession, getSessionById, revokeSession, revokeSessionsForUser, rotateSessionToken } from './db.js';
+import { storage } from '../storage.js';
+
+/**
+ * Sign-in sessions (`sessions_eif`, one row per signed-in device).
+ *
+ * Signing in starts a session and issues two tokens: a short-lived access token (a JWT naming
+ * the session, in the `token` cookie) and an opaque refresh token (`<session id>.<secret>`, in
+ * the `refresh_token` cookie; only its hash is stored). Every refresh replaces the refresh token.
+ * The replaced one keeps working for a few seconds so requests already in flight do not fail;
+ * presenting it after that means it was copied, and the session is revoked.
+ *
+ * `checkSession` runs after `authenticate` on every API request. It drops access tokens of
+ * revoked sessions and, when the access token has expired, renews it from the refresh cookie,
+ * so the browser never has to call `/api/auth/refresh` itself.
+ *
+ * Accounts with two-factor authentication get a short-lived challenge instead of a session when
+ * their password checks out; the session starts once they answer it (see twoFactor.ts).
+ */
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+export const REFRESH_TOKEN_TTL_DAYS = 30;
+/** How long a replaced refresh token is still accepted */
+export const ROTATION_GRACE_SECONDS = 30;
+/** How long a session found active is trusted without reading it again */
+const ACTIVE_CACHE_TTL_MS = 30 * 1000;
+const MAX_USER_AGENT_LENGTH = 500;
+
+/** How long a two-factor challenge can be answered after the password was accepted */
+export const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60;
+
+export const ACCESS_COOKIE = 'token';
+export const REFRESH_COOKIE = 'refresh_token';
+
+export type RevokeReason = 'logout' | 'revoked' | 'password_reset' | 'refresh_token_reused' | 'account_closed' | 'two_factor_reset';
+
+/** `verify`: enter a code; `setup`: the role requires two-factor authentication and the user has none yet */
+export type TwoFactorChallengePurpose = 'verify' | 'setup';
+
+interface SessionUser {
+  id: string;
+  username?: string | null;
+  role?: string | null;
+}
+
+export interface IssuedTokens {
+  user: AuthUser;
+  accessToken: string;
+  /** Null when a request raced a rotation: the browser already holds the new refresh token */
+  refreshToken: string | null;
+}
+
+function hashSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+function sameHash(a: string | null | undefined, b: string | null | undefined): boolean {
+  if (!a || !b || a.length !== b.length) return false;
+  return crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
+
+function newSecret(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+function refreshExpiry(): string {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+function clientInfo(req: Request): { user_agent: string | null; ip: string | null } {
+  const agent = req.get?.('user-agent') ?? null;
+  return { user_agent: agent ? agent.slice(0, MAX_USER_AGENT_LENGTH) : null, ip: req.ip ?? null };
+}
+
+/**
+ * The session id of a refresh token, or null when it is malformed
+ */
+export function sessionIdOfRefreshToken(token: string | null | undefined): string | null {
+  const dot = token ? token.indexOf('.') : -1;
+  return dot > 0 ? (token as string).slice(0, dot) : null;
+}
+
+export function signAccessToken(user: SessionUser, sessionId: string): string {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) throw new Error('JWT_SECRET not configured');
+  return jwt.sign({ sub: user.id, username: user.username ?? null, role: user.role ?? null, sid: sessionId }, secret, { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+}
+
+/**
+ * Proof that the password was right, to be exchanged for a session with a second factor. It has no
+ * session id, so `authenticate` does not accept it as an access token.
+ */
+export function signTwoFactorChallenge(userId: string, purpose: TwoFactorChallengePurpose): string {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) throw new Error('JWT_SECRET not configured');
+  return jwt.sign({ sub: userId, purpose: `two_factor_${purpose}` }, secret, { expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS });
+}
+
+/**
+ * The user id of a valid challenge for `purpose`, or null
+ */
+export function verifyTwoFactorChallenge(challenge: unknown, purpose: TwoFactorChallengePurpose): string | null {
+  const secret = process.env.JWT_SECRET;
+  if (!secret || typeof challenge !== 'string' || !challenge) return null;
+  try {
+    const payload = jwt.verify(challenge, secret) as any;
+    return payload?.purpose === `two_factor_${purpose}` && typeof payload.sub === 'string' ? payload.sub : null;
+  } catch {
+    return null;
+  }
+}
+
+function authUser(user: SessionUser, sessionId: string): AuthUser {
+  return { id: user.id, role: roleOf(user.role), username: user.username ?? null, sessionId };
+}
+
+/**
+ * Start a session for a user who just signed in
+ */
+export async function startSession(user: SessionUser, req: Request): Promise<IssuedTokens & { refreshToken: string }> {
+  const secret = newSecret();
+  const session = await createSession({ user_id: user.id, refresh_token_hash: hashSecret(secret), expires_at: refreshExpiry(), ...clientInfo(req) });
+  if (!session) throw new Error('session could not be created');
+  return { user: authUser(user, session.id), accessToken: signAccessToken(user, session.id), refreshToken: `${session.id}.${secret}` };
+}
+
+/**
+ * Exchange a refresh token for a new access token and refresh token. Null when the token is
+ * unknown, expired, revoked or was already replaced (which also revokes its session).
+ */
+export async function refreshSession(refreshToken: string, req: Request): Promise<IssuedTokens | null> {
+  const sessionId = sessionIdOfRefreshToken(refreshToken);
+  if (!sessionId) return null;
+  const presented = hashSecret(refreshToken.slice(sessionId.length + 1));
+
+  let session = await getSessionById(sessionId);
+  if (!session || session.revoked_at || new Date(session.expires_at).getTime() <= Date.now()) return null;
+
+  const user = await storage.getUser(session.user_id);
+  if (!user) {
+    await endSession(session.id, 'account_closed');
+    return null;
+  }
+
+  if (sameHash(presented, session.refresh_token_hash)) {
+    const secret = newSecret();
+    const rotated = await rotateSessionToken(session.id, presented, { refresh_token_hash: hashSecret(secret), expires_at: refreshExpiry(), ...clientInfo(req) });
+    if (rotated) return { user: authUser(user as SessionUser, session.id), accessToken: signAccessToken(user as SessionUser, session.id), refreshToken: `${session.id}.${secret}` };
+    // Another request rotated it a moment ago
+    session = await getSessionById(sessionId);
+    if (!session || session.revoked_at) return null;
+  }
+
+  if (sameHash(presented, session.previous_token_hash)) {
+    const rotatedAt = session.rotated_at ? new Date(session.rotated_at).getTime() : 0;
+    if (Date.now() - rotatedAt <= ROTATION_GRACE_SECONDS * 1000) {
+      return { user: authUser(user as SessionUser, session.id), accessToken: signAccessToken(user as SessionUser, session.id), refreshToken: null };
+    }
+    await endSession(session.id, 'refresh_token_reused');
+  }
+  return null;
+}
+
+const activeCache = new Map<string, number>();
+
+/**
+ * Whether a session may still be used (not revoked or expired)
+ */
+export async function isSessionActive(sessionId: string): Promise<boolean> {
+  const cachedUntil = activeCache.get(sessionId);
+  if (cachedUntil && cachedUntil > Date.now()) return true;
+
+  const session = await getSessionById(sessionId);
+  const active = Boolean(session && !session.revoked_at && new Date(session.expires_at).getTime() > Date.now());
+  if (active) activeCache.set(sessionId, Date.now() + ACTIVE_CACHE_TTL_MS);
+  else activeCache.delete(sessionId);
+  return active;
+}
+
+/**
+ * The session a refresh token belongs to, when its secret matches the current or the
+ * previous token of that session; null otherwise. The id alone proves nothing.
+ */
+export async function sessionIdOfVerifiedRefreshToken(refreshToken: string | null | undefined): Promise<string | null> {
+  const sessionId = sessionIdOfRefreshToken(refreshToken);
+  if (!sessionId) return null;
+  const presented = hashSecret((refreshToken as string).slice(sessionId.length + 1));
+  const session = await getSessionById(sessionId);
+  if (!session) return null;
+  return sameHash(presented, session.refresh_token_hash) || sameHash(presented, session.previous_token_hash) ? session.id : null;
+}
+
+export async function endSession(sessionId: string, reason: RevokeReason) {
+  activeCache.delete(sessionId);
+  return revokeSession(sessionId, reason);
+}
+
+/**
+ * Revoke all sessions of a user except `keepSessionId`; returns how many were ended
+ */
+export async function endUserSessions(userId: string, reason: RevokeReason, keepSessionId?: string | null): Promise<number> {
+  const revoked = await revokeSessionsForUser(userId, reason, keepSessionId);
+  for (const row of revoked) activeCache.delete(row.id);
+  return revoked.length;
+}
+
+function cookieOptions(): CookieOptions {
+  return { httpOnly: true, sameSite: 'lax', secure: process.env.NODE_ENV === 'production' };
+}
+
+export function setSessionCookies(res: Response, tokens: Pick<IssuedTokens, 'accessToken' | 'refreshToken'>) {
+  res.cookie(ACCESS_COOKIE, tokens.accessToken, { ...cookieOptions(), maxAge: ACCESS_TOKEN_TTL_SECONDS * 1000 });
+  if (tokens.refreshToken) {
+    res.cookie(REFRESH_COOKIE, tokens.refreshToken, { ...cookieOptions(), path: '/api', maxAge: REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000 });
+  }
+}
+
+export function clearSessionCookies(res: Response) {
+  res.clearCookie(ACCESS_COOKIE, cookieOptions());
+  res.clearCookie(REFRESH_COOKIE, { ...cookieOptions(), path: '/api' });
+}
+
+/**
+ * Middleware after `authenticate`: enforce revocation and renew expired access tokens
+ */
+export async function checkSession(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (req.user) {
+      if (await isSessionActive(req.user.sessionId)) return next();
+      delete req.user;
+    }
+    // The auth routes handle the refresh cookie themselves
+    const refreshToken = readCookie(req, REFRESH_COOKIE);
+    if (refreshToken && !req.path.startsWith('/auth/')) {
+      const issued = await refreshSession(refreshToken, req);
+      if (issued) {
+        setSessionCookies(res, issued);
+        req.user = issued.user;
+      } else {
+        clearSessionCookies(res);
+      }
+    }
+    return next();
+  } catch (err) {
+    return next(err);
+  }
+}
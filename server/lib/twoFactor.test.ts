@@ -0,0 +1,195 @@
+#!/usr/bin/env tsx
+/**
+ * Two-Factor Authentication - Test Suite
+ *
+ * TOTP codes (RFC 6238 test vectors), enrollment, recovery codes, replay and lockout, the
+ * platform policy, and the login challenge.
+ *
+ * Run with: npx tsx server/lib/twoFactor.test.ts
+ */
+
+import { pathToFileURL } from 'url';
+
+process.env.DATA_BACKEND = 'memory';
+delete process.env.MEMORY_DB_FILE;
+process.env.JWT_SECRET = 'two-factor-test-secret';
+
+let failures = 0;
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✓ PASS: ${message}`);
+  } else {
+    failures++;
+    console.log(`✗ FAIL: ${message}`);
+  }
+}
+
+/** The RFC 6238 SHA-1 seed, "12345678901234567890", in base32 */
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+async function fixtureUser(email: string) {
+  const { storage } = await import('../storage');
+  return storage.createUser({ email, password: 'secret123', role: 'investor' });
+}
+
+/**
+ * Test Case 1: Codes
+ */
+async function testCodes() {
+  console.log('\n=== TEST 1: Codes ===');
+  const { base32Decode, base32Encode, generateRecoveryCodes, generateTotpSecret, hashRecoveryCode, matchTotp, otpauthUri, totpCode, totpStep } = await import('./twoFactor');
+
+  check(base32Decode(RFC_SECRET).toString() === '12345678901234567890' && base32Encode(Buffer.from('12345678901234567890')) === RFC_SECRET, 'base32 round-trips the RFC seed');
+  check(totpCode(RFC_SECRET, totpStep(59 * 1000)) === '287082', 'T=59 gives the RFC code');
+  check(totpCode(RFC_SECRET, totpStep(1111111109 * 1000)) === '081804', 'T=1111111109 gives the RFC code (leading zero kept)');
+  check(totpCode(RFC_SECRET, totpStep(1234567890 * 1000)) === '005924', 'T=1234567890 gives the RFC code');
+
+  const now = 1234567890 * 1000;
+  const current = totpStep(now);
+  check(matchTotp(RFC_SECRET, '005924', now) === current, 'the current code matches its time step');
+  check(matchTotp(RFC_SECRET, totpCode(RFC_SECRET, current - 1), now) === current - 1 && matchTotp(RFC_SECRET, totpCode(RFC_SECRET, current + 1), now) === current + 1, 'one step of clock drift either way is accepted');
+  check(matchTotp(RFC_SECRET, totpCode(RFC_SECRET, current - 2), now) === null, 'older codes are not');
+  check(matchTotp(RFC_SECRET, '005 924', now) === current && matchTotp(RFC_SECRET, 'abc', now) === null, 'spaces are ignored and non-digits refused');
+
+  const secret = generateTotpSecret();
+  check(/^[A-Z2-7]{32}$/.test(secret), 'new secrets are 160 bits of base32');
+  const uri = otpauthUri(secret, 'ann@investor.example');
+  check(uri.startsWith('otpauth://totp/EIF:ann%40investor.example?') && uri.includes(`secret=${secret}`) && uri.includes('issuer=EIF') && uri.includes('digits=6'), 'the otpauth URI names the issuer, account and secret');
+
+  const codes = generateRecoveryCodes();
+  check(codes.length === 10 && new Set(codes).size === 10 && codes.every(code => /^[a-z2-7]{5}-[a-z2-7]{5}$/.test(code)), 'ten distinct recovery codes');
+  check(hashRecoveryCode(codes[0]) === hashRecoveryCode(` ${codes[0].toUpperCase().replace('-', '')} `) && !hashRecoveryCode(codes[0]).includes(codes[0].slice(0, 5)), 'recovery codes are hashed ignoring case, spaces and dashes');
+}
+
+/**
+ * Test Case 2: Enrollment
+ */
+async function testEnrollment() {
+  console.log('\n=== TEST 2: Enrollment ===');
+  const { confirmEnrollment, getTwoFactorStatus, isTwoFactorEnabled, startEnrollment, totpCode, totpStep } = await import('./twoFactor');
+
+  const user = await fixtureUser('enroll@investor.example');
+  check((await confirmEnrollment(user.id, '123456')).error === 'not_enrolling', 'confirming without a setup is refused');
+
+  const first = await startEnrollment(user.id, 'enroll@investor.example');
+  const enrollment = await startEnrollment(user.id, 'enroll@investor.example');
+  check(Boolean(enrollment.secret) && enrollment.secret !== first.secret && enrollment.otpauthUri?.includes(enrollment.secret as string) === true, 'starting again replaces the pending key');
+  check(!(await isTwoFactorEnabled(user.id)), 'a pending key does not turn two-factor authentication on');
+
+  check((await confirmEnrollment(user.id, totpCode(first.secret as string, totpStep()))).error === 'invalid_code', 'codes from the replaced key are refused');
+  const confirmed = await confirmEnrollment(user.id, totpCode(enrollment.secret as string, totpStep()));
+  check(confirmed.recoveryCodes?.length === 10, 'a code from the app turns it on and returns recovery codes');
+
+  const status = await getTwoFactorStatus(user.id, false);
+  check(status.enabled && Boolean(status.enabledAt) && status.recoveryCodesRemaining === 10, 'the status shows it enabled with ten recovery codes');
+  check((await startEnrollment(user.id, 'enroll@investor.example')).error === 'already_enabled', 'enrolling again needs turning it off first');
+}
+
+async function enrolledUser(email: string) {
+  const { confirmEnrollment, startEnrollment, totpCode, totpStep } = await import('./twoFactor');
+  const user = await fixtureUser(email);
+  const { secret } = await startEnrollment(user.id, email);
+  // Confirm with the previous step so the current one is still unused
+  const { recoveryCodes } = await confirmEnrollment(user.id, totpCode(secret as string, totpStep() - 1));
+  return { user, secret: secret as string, recoveryCodes: recoveryCodes as string[] };
+}
+
+/**
+ * Test Case 3: Verification
+ */
+async function testVerification() {
+  console.log('\n=== TEST 3: Verification ===');
+  const { disableTwoFactor, getTwoFactorStatus, regenerateRecoveryCodes, totpCode, totpStep, verifySecondFactor, MAX_FAILED_ATTEMPTS } = await import('./twoFactor');
+  const supabase = (await import('../supabase')).default;
+  const db = await import('./db');
+
+  const { user, secret, recoveryCodes } = await enrolledUser('verify@investor.example');
+  const code = totpCode(secret, totpStep());
+  check((await verifySecondFactor(user.id, { code })).method === 'totp', 'the current code is accepted');
+  check((await verifySecondFactor(user.id, { code })).error === 'invalid_code', 'the same code is not accepted twice');
+  check((await verifySecondFactor(user.id, { code: totpCode(secret, totpStep() - 1) })).error === 'invalid_code', 'nor a code older than the last one used');
+
+  check((await verifySecondFactor(user.id, { recoveryCode: recoveryCodes[0].toUpperCase() })).method === 'recovery_code', 'a recovery code is accepted');
+  check((await verifySecondFactor(user.id, { recoveryCode: recoveryCodes[0] })).error === 'invalid_code', 'once');
+  check((await getTwoFactorStatus(user.id, false)).recoveryCodesRemaining === 9, 'and is used up');
+  const stored = (await supabase.from('two_factor_recovery_codes_eif').select('*').eq('user_id', user.id)).data ?? [];
+  check(stored.length === 10 && !JSON.stringify(stored).includes(recoveryCodes[1]), 'only hashes of recovery codes are stored');
+
+  for (let i = 0; i < MAX_FAILED_ATTEMPTS; i++) await verifySecondFactor(user.id, { code: '000000' });
+  check((await verifySecondFactor(user.id, { code: totpCode(secret, totpStep() + 1) })).error === 'locked', `after ${MAX_FAILED_ATTEMPTS} wrong codes even the right one is refused`);
+  check((await verifySecondFactor(user.id, { recoveryCode: recoveryCodes[1] })).error === 'locked', 'recovery codes too');
+
+  await supabase.from('two_factor_eif').update({ locked_until: new Date(Date.now() - 1000).toISOString() }).eq('user_id', user.id);
+  check((await verifySecondFactor(user.id, { code: totpCode(secret, totpStep() + 1) })).method === 'totp', 'codes work again once the lockout is over');
+  check(Number((await db.getTwoFactorByUserId(user.id))?.failed_attempts) === 0, 'and a good code clears the failed attempts');
+
+  const parallel = await enrolledUser('parallel@investor.example');
+  const guesses = await Promise.all(Array.from({ length: 20 }, () => verifySecondFactor(parallel.user.id, { code: '000000' })));
+  check(guesses.filter(g => g.error === 'invalid_code').length === MAX_FAILED_ATTEMPTS && guesses.filter(g => g.error === 'locked').length === 20 - MAX_FAILED_ATTEMPTS, 'parallel guesses count against the same limit');
+
+  const other = await enrolledUser('regenerate@investor.example');
+  check((await regenerateRecoveryCodes(other.user.id, '000000')).error === 'invalid_code', 'new recovery codes need a valid code');
+  const regenerated = await regenerateRecoveryCodes(other.user.id, totpCode(other.secret, totpStep()));
+  check(regenerated.recoveryCodes?.length === 10 && (await verifySecondFactor(other.user.id, { recoveryCode: other.recoveryCodes[0] })).error === 'invalid_code', 'regenerating replaces the old recovery codes');
+
+  check(await disableTwoFactor(other.user.id), 'turning it off reports that it was on');
+  const status = await getTwoFactorStatus(other.user.id, false);
+  check(!status.enabled && status.recoveryCodesRemaining === 0 && !(await db.getTwoFactorByUserId(other.user.id)), 'and forgets the key and recovery codes');
+  check(!(await disableTwoFactor(other.user.id)) && (await verifySecondFactor(other.user.id, { code: '123456' })).error === 'not_enabled', 'after which there is nothing to check');
+}
+
+/**
+ * Test Case 4: Policy and login challenge
+ */
+async function testPolicyAndChallenge() {
+  console.log('\n=== TEST 4: Policy and login challenge ===');
+  const { twoFactorRequiredFor } = await import('./twoFactor');
+  const { validateSettingsUpdate, defaultPlatformSettings } = await import('./platformSettings');
+  const { signTwoFactorChallenge, verifyTwoFactorChallenge } = await import('./sessions');
+  const { verifySessionToken } = await import('./access');
+
+  check(defaultPlatformSettings().require_two_factor_roles.length === 0, 'no role requires it by default');
+  check(twoFactorRequiredFor('investor', { require_two_factor_roles: ['investor', 'admin'] }) && !twoFactorRequiredFor('company', { require_two_factor_roles: ['investor'] }), 'the policy applies to the listed roles');
+  check(!twoFactorRequiredFor(null, { require_two_factor_roles: ['investor', 'company', 'admin'] }), 'accounts without a platform role are not covered');
+
+  const valid = validateSettingsUpdate({ require_two_factor_roles: ['investor', 'admin', 'investor'] });
+  check(JSON.stringify(valid.value?.require_two_factor_roles) === JSON.stringify(['admin', 'investor']), 'the setting keeps each known role once');
+  check(Boolean(validateSettingsUpdate({ require_two_factor_roles: ['superuser'] }).error) && Boolean(validateSettingsUpdate({ require_two_factor_roles: 'admin' }).error), 'unknown roles and non-lists are refused');
+
+  const challenge = signTwoFactorChallenge('u1', 'verify');
+  check(verifyTwoFactorChallenge(challenge, 'verify') === 'u1', 'a challenge names the user');
+  check(verifyTwoFactorChallenge(challenge, 'setup') === null && verifyTwoFactorChallenge(signTwoFactorChallenge('u1', 'setup'), 'verify') === null, 'and only works for its own step');
+  check(verifySessionToken(challenge) === null, 'it cannot be used as an access token');
+  check(verifyTwoFactorChallenge('not-a-token', 'verify') === null && verifyTwoFactorChallenge(undefined, 'verify') === null, 'malformed challenges are refused');
+}
+
+// ============================================
+// RUN ALL TESTS
+// ============================================
+
+async function runAllTests() {
+  console.log('╔════════════════════════════════════════════╗');
+  console.log('║   Two-Factor Authentication Test Suite     ║');
+  console.log('╚════════════════════════════════════════════╝');
+
+  try {
+    await testCodes();
+    await testEnrollment();
+    await testVerification();
+    await testPolicyAndChallenge();
+  } catch (error) {
+    console.error('\n✗ Test suite failed:', error);
+    process.exit(1);
+  }
+
+  console.log(failures === 0 ? '\nAll tests passed.\n' : `\n${failures} test(s) failed.\n`);
+  if (failures > 0) process.exit(1);
+}
+
+// Run tests if this is executed directly
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runAllTests();
+}
+
+export { runAllTests };
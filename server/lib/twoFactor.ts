@@ -0,0 +1,258 @@
+import crypto from 'crypto';
+import type { Role } from './access.js';
+import type { PlatformSettings } from './platformSettings.js';
+import {
+  countUnusedRecoveryCodes,
+  deleteTwoFactor,
+  getTwoFactorByUserId,
+  recordTwoFactorStep,
+  replaceRecoveryCodes,
+  saveTwoFactor,
+  updateTwoFactorAttempts,
+  useRecoveryCode,
+} from './db.js';
+
+/**
+ * Two-factor authentication with authenticator apps (TOTP, RFC 6238), stored in `two_factor_eif`.
+ *
+ * Enrolling stores a pending secret; it becomes active once the user enters a code from their
+ * app, which also issues one-time recovery codes (only their hashes are kept). A code is accepted
+ * for the time step before and after the current one, and each step only once. Every check
+ * claims an attempt before comparing, so parallel guesses count too; after `MAX_FAILED_ATTEMPTS`
+ * failures in a row the account refuses codes for `LOCKOUT_MINUTES`.
+ */
+
+export const TOTP_DIGITS = 6;
+export const TOTP_PERIOD_SECONDS = 30;
+/** Time steps accepted either side of the current one, for clock drift */
+const TOTP_WINDOW = 1;
+export const TOTP_ISSUER = 'EIF';
+export const RECOVERY_CODE_COUNT = 10;
+export const MAX_FAILED_ATTEMPTS = 5;
+export const LOCKOUT_MINUTES = 15;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export type TwoFactorError = 'invalid_code' | 'locked' | 'not_enabled' | 'already_enabled' | 'not_enrolling';
+
+/** How routes answer each error */
+export const TWO_FACTOR_ERRORS: Record<TwoFactorError, { status: number; message: string }> = {
+  invalid_code: { status: 400, message: 'invalid or expired code' },
+  locked: { status: 429, message: `too many invalid codes, please try again in ${LOCKOUT_MINUTES} minutes` },
+  not_enabled: { status: 409, message: 'two-factor authentication is not enabled' },
+  already_enabled: { status: 409, message: 'two-factor authentication is already enabled' },
+  not_enrolling: { status: 409, message: 'start the setup again to get a new key' },
+};
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  /** The platform requires two-factor authentication for the user's role */
+  required: boolean;
+}
+
+export function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let out = '';
+  for (let i = 0; i < bytes.length; i++) {
+    value = (value << 8) | bytes[i];
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+}
+
+export function base32Decode(text: string): Buffer {
+  const clean = text.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const out: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('invalid base32 secret');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(out);
+}
+
+/**
+ * A new 160-bit secret, base32 encoded as authenticator apps expect
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+export function totpStep(at: number = Date.now()): number {
+  return Math.floor(at / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+export function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * The time step `code` belongs to, or null when it matches none in the window
+ */
+export function matchTotp(secret: string, code: string, at: number = Date.now()): number | null {
+  const presented = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(presented)) return null;
+  const current = totpStep(at);
+  for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+    if (crypto.timingSafeEqual(Buffer.from(totpCode(secret, step)), Buffer.from(presented))) return step;
+  }
+  return null;
+}
+
+/**
+ * The `otpauth://` URI authenticator apps import (usually shown as a QR code)
+ */
+export function otpauthUri(secret: string, account: string): string {
+  const label = `${encodeURIComponent(TOTP_ISSUER)}:${encodeURIComponent(account)}`;
+  const params = new URLSearchParams({ secret, issuer: TOTP_ISSUER, algorithm: 'SHA1', digits: String(TOTP_DIGITS), period: String(TOTP_PERIOD_SECONDS) });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Recovery codes look like `k7q2m-x9d4p`; case, spaces and dashes do not matter when entered
+ */
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const code = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+export function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(code.toLowerCase().replace(/[^a-z0-9]/g, '')).digest('hex');
+}
+
+export function twoFactorRequiredFor(role: Role | null, settings: Pick<PlatformSettings, 'require_two_factor_roles'>): boolean {
+  return role !== null && (settings.require_two_factor_roles ?? []).includes(role);
+}
+
+export async function isTwoFactorEnabled(userId: string): Promise<boolean> {
+  return Boolean((await getTwoFactorByUserId(userId))?.enabled_at);
+}
+
+export async function getTwoFactorStatus(userId: string, required: boolean): Promise<TwoFactorStatus> {
+  const row = await getTwoFactorByUserId(userId);
+  const enabled = Boolean(row?.enabled_at);
+  return {
+    enabled,
+    enabledAt: row?.enabled_at ?? null,
+    recoveryCodesRemaining: enabled ? await countUnusedRecoveryCodes(userId) : 0,
+    required,
+  };
+}
+
+/**
+ * Start (or restart) enrolling: a new pending secret and the URI to add it to an app
+ */
+export async function startEnrollment(userId: string, account: string): Promise<{ secret?: string; otpauthUri?: string; error?: TwoFactorError }> {
+  const row = await getTwoFactorByUserId(userId);
+  if (row?.enabled_at) return { error: 'already_enabled' };
+  const secret = generateTotpSecret();
+  await saveTwoFactor(userId, { pending_secret: secret });
+  return { secret, otpauthUri: otpauthUri(secret, account) };
+}
+
+/**
+ * Count an attempt before checking a code. False while the account is locked out.
+ */
+async function claimAttempt(userId: string): Promise<boolean> {
+  for (let tries = 0; tries < 5; tries++) {
+    const row = await getTwoFactorByUserId(userId);
+    if (!row) return false;
+    const lockedUntil = row.locked_until ? new Date(row.locked_until).getTime() : 0;
+    if (lockedUntil > Date.now()) return false;
+    // A lockout that has run out starts the count again
+    const failed = lockedUntil ? 0 : Number(row.failed_attempts ?? 0);
+    const attempts = failed + 1;
+    const lockUntil = attempts >= MAX_FAILED_ATTEMPTS ? new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000).toISOString() : null;
+    if (await updateTwoFactorAttempts(userId, Number(row.failed_attempts ?? 0), { failed_attempts: attempts, locked_until: lockUntil })) return true;
+  }
+  return false;
+}
+
+async function issueRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+  await replaceRecoveryCodes(userId, codes.map(hashRecoveryCode));
+  return codes;
+}
+
+/**
+ * Turn two-factor authentication on with a code from the pending secret; returns the recovery codes
+ */
+export async function confirmEnrollment(userId: string, code: string): Promise<{ recoveryCodes?: string[]; error?: TwoFactorError }> {
+  const row = await getTwoFactorByUserId(userId);
+  if (row?.enabled_at) return { error: 'already_enabled' };
+  if (!row?.pending_secret) return { error: 'not_enrolling' };
+  if (!(await claimAttempt(userId))) return { error: 'locked' };
+
+  const step = matchTotp(row.pending_secret, code);
+  if (step === null) return { error: 'invalid_code' };
+  await saveTwoFactor(userId, {
+    secret: row.pending_secret,
+    pending_secret: null,
+    enabled_at: new Date().toISOString(),
+    last_used_step: step,
+    failed_attempts: 0,
+    locked_until: null,
+  });
+  return { recoveryCodes: await issueRecoveryCodes(userId) };
+}
+
+/**
+ * Check a code from the app, or a recovery code (which is then used up)
+ */
+export async function verifySecondFactor(userId: string, input: { code?: string | null; recoveryCode?: string | null }): Promise<{ method?: 'totp' | 'recovery_code'; error?: TwoFactorError }> {
+  const row = await getTwoFactorByUserId(userId);
+  if (!row?.enabled_at || !row.secret) return { error: 'not_enabled' };
+  if (!input.code && !input.recoveryCode) return { error: 'invalid_code' };
+  if (!(await claimAttempt(userId))) return { error: 'locked' };
+
+  if (input.recoveryCode) {
+    if (!(await useRecoveryCode(userId, hashRecoveryCode(input.recoveryCode)))) return { error: 'invalid_code' };
+    await saveTwoFactor(userId, { failed_attempts: 0, locked_until: null });
+    return { method: 'recovery_code' };
+  }
+
+  const step = matchTotp(row.secret, input.code as string);
+  const lastStep = row.last_used_step ?? null;
+  // A code is only good once, and never one older than the last accepted code
+  if (step === null || (lastStep !== null && step <= Number(lastStep))) return { error: 'invalid_code' };
+  if (!(await recordTwoFactorStep(userId, step, lastStep))) return { error: 'invalid_code' };
+  return { method: 'totp' };
+}
+
+/**
+ * Replace all recovery codes after checking a code from the app
+ */
+export async function regenerateRecoveryCodes(userId: string, code: string): Promise<{ recoveryCodes?: string[]; error?: TwoFactorError }> {
+  const verified = await verifySecondFactor(userId, { code });
+  if (verified.error) return { error: verified.error };
+  return { recoveryCodes: await issueRecoveryCodes(userId) };
+}
+
+/**
+ * Turn two-factor authentication off and forget the secret and recovery codes; false if it was never set up
+ */
+export async function disableTwoFactor(userId: string): Promise<boolean> {
+  return (await deleteTwoFactor(userId)).length > 0;
+}
@@ -1,61 +1,40 @@
-import type { Express, Request, Response } from 'express';
+import type { Request, Response } from 'express';
 import jwt from 'jsonwebtoken';
-import { GoogleOAuthManager } from './lib/oauthManager.js';
+import { CalendarConnectionManager } from './lib/oauthManager.js';
+import { getCalendarProvider, listCalendarProviders } from './lib/calendarProviders.js';
+import { CalendarProviderError, isCalendarProviderName, type CalendarProviderName } from './lib/calendarProvider.js';
 import supabaseClient from './supabase.js';
+import { currentUser, type GuardedRoutes } from './lib/access.js';
 import { log } from './index.js';
 
-let oauthManager: GoogleOAuthManager | null = null;
-
-function initOAuthManager() {
-  if (!oauthManager && process.env.GOOGLE_OAUTH_CLIENT_ID && process.env.GOOGLE_OAUTH_CLIENT_SECRET && process.env.GOOGLE_OAUTH_REDIRECT_URI) {
-    oauthManager = new GoogleOAuthManager(
-      {
-        clientId: process.env.GOOGLE_OAUTH_CLIENT_ID,
-        clientSecret: process.env.GOOGLE_OAUTH_CLIENT_SECRET,
-        redirectUri: process.env.GOOGLE_OAUTH_REDIRECT_URI,
-      },
-      supabaseClient
-    );
-  }
-}
+const oauthManager = new CalendarConnectionManager(supabaseClient);
 
-function extractToken(req: any) {
-  const auth = req.headers?.authorization as string | undefined;
-  if (auth && auth.toLowerCase().startsWith('bearer ')) return auth.split(' ')[1];
-  const cookie = req.headers?.cookie as string | undefined;
-  if (cookie) {
-    const match = cookie.split(';').map(s => s.trim()).find(s => s.startsWith('token='));
-    if (match) return match.split('=')[1];
-  }
-  return null;
+/**
+ * Resolve the `provider` parameter (defaults to Google, the only provider before there were several)
+ */
+function resolveProvider(value: unknown) {
+  const name: CalendarProviderName | null = value === undefined || value === '' ? 'google' : isCalendarProviderName(value) ? value : null;
+  return name ? getCalendarProvider(name) : null;
 }
 
-export function registerOAuthRoutes(app: Express): void {
-  initOAuthManager();
-
-  if (!oauthManager) {
-    log('OAuth is not configured. Skipping OAuth routes.', 'oauth-routes');
-    return;
-  }
-
+export function registerOAuthRoutes(api: GuardedRoutes): void {
   /**
-   * GET /api/oauth/authorize
+   * GET /api/oauth/authorize?provider=google|microsoft
    * Generate OAuth authorization URL for user
    */
-  app.get('/api/oauth/authorize', (req: Request, res: Response) => {
+  api.get('/api/oauth/authorize', (req: Request, res: Response) => {
     try {
-      const token = extractToken(req);
-      if (!token) return res.status(401).json({ message: 'not authenticated' });
+      const userId = currentUser(req).id;
 
-      if (!process.env.JWT_SECRET) return res.status(500).json({ message: 'authentication not configured' });
-      const payload = jwt.verify(token, process.env.JWT_SECRET) as any;
-      const userId = payload?.sub;
-      if (!userId) return res.status(401).json({ message: 'invalid token' });
+      const provider = resolveProvider(req.query.provider);
+      if (!provider) return res.status(400).json({ message: 'calendar provider not available' });
+      if (provider.authType !== 'oauth') return res.status(400).json({ message: `${provider.label} is connected with a username and password` });
 
-      // Generate state parameter to prevent CSRF
-      const state = Buffer.from(JSON.stringify({ userId, ts: Date.now() })).toString('base64');
+      // Signed state ties the callback to this user and provider (CSRF protection); the access
+      // policy has already checked that JWT_SECRET is set
+      const state = jwt.sign({ sub: userId, provider: provider.name, purpose: 'oauth_state' }, process.env.JWT_SECRET as string, { expiresIn: '15m' });
 
-      const authUrl = oauthManager!.getAuthorizationUrl(state);
+      const authUrl = provider.getAuthorizationUrl(state);
       return res.json({ authUrl });
     } catch (err: any) {
       log(`OAuth authorize error: ${err?.message ?? String(err)}`, 'oauth-routes');
@@ -67,59 +46,54 @@ export function registerOAuthRoutes(app: Express): void {
    * GET /api/oauth/callback
    * Handle OAuth redirect callback
    */
-  app.get('/api/oauth/callback', async (req: Request, res: Response) => {
+  api.get('/api/oauth/callback', async (req: Request, res: Response) => {
     try {
       const code = req.query.code as string;
       const state = req.query.state as string;
 
+      // Consent denied or failed at the provider
+      if (req.query.error) {
+        throw new Error(String(req.query.error_description || req.query.error));
+      }
+
       if (!code || !state) {
         return res.status(400).json({ message: 'missing code or state' });
       }
 
+      if (!process.env.JWT_SECRET) return res.status(500).json({ message: 'authentication not configured' });
+
       // Verify state (CSRF protection)
       let stateData: any;
       try {
-        stateData = JSON.parse(Buffer.from(state, 'base64').toString('utf-8'));
+        stateData = jwt.verify(state, process.env.JWT_SECRET);
       } catch (e) {
         return res.status(400).json({ message: 'invalid state parameter' });
       }
 
-      const userId = stateData.userId;
-      if (!userId) {
+      const userId = stateData?.sub;
+      if (!userId || stateData.purpose !== 'oauth_state') {
         return res.status(400).json({ message: 'invalid state: missing userId' });
       }
 
+      const provider = resolveProvider(stateData.provider);
+      if (!provider) {
+        return res.status(400).json({ message: 'calendar provider not available' });
+      }
+
       // Exchange code for tokens
-      const credentials = await oauthManager!.exchangeCodeForTokens(code);
+      const credentials = await provider.exchangeCodeForTokens(code);
 
       // Store credentials
-      await oauthManager!.storeCredentials(userId, credentials);
+      await oauthManager.storeCredentials(userId, credentials);
 
       // Get user info to set calendar settings
-      const oauth2Client = new (await import('googleapis')).google.auth.OAuth2(
-        process.env.GOOGLE_OAUTH_CLIENT_ID!,
-        process.env.GOOGLE_OAUTH_CLIENT_SECRET!,
-        process.env.GOOGLE_OAUTH_REDIRECT_URI!
-      );
-
-      oauth2Client.setCredentials({
-        access_token: credentials.accessToken,
-        refresh_token: credentials.refreshToken,
-      });
-
-      const { google } = await import('googleapis');
-      const people = google.people({ version: 'v1', auth: oauth2Client });
-      const profile = await people.people.get({ resourceName: 'people/me', personFields: 'emailAddresses' });
+      const email = await provider.getAccountEmail(credentials).catch(() => null);
 
-      const email = profile.data.emailAddresses?.[0]?.value;
-
-      if (email) {
-        await oauthManager!.saveCalendarSettings(userId, {
-          calendarEmail: email,
-          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-          syncExternalCalendar: true,
-        });
-      }
+      await oauthManager.saveCalendarSettings(userId, {
+        calendarEmail: email ?? undefined,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        syncExternalCalendar: true,
+      });
 
       // Redirect to dashboard settings or OAuth success page
       const origin = (process.env.APP_URL && process.env.APP_URL.trim()) || `${req.protocol}://${req.get('host')}`;
@@ -130,25 +104,61 @@ export function registerOAuthRoutes(app: Express): void {
     }
   });
 
+  /**
+   * POST /api/oauth/connect
+   * Connect a calendar that uses a username and password instead of OAuth (CalDAV)
+   */
+  api.post('/api/oauth/connect', async (req: Request, res: Response) => {
+    try {
+      const userId = currentUser(req).id;
+
+      const { serverUrl, username, password } = req.body || {};
+      const provider = resolveProvider(req.body?.provider ?? 'caldav');
+      if (!provider) return res.status(400).json({ message: 'calendar provider not available' });
+      if (provider.authType !== 'password') return res.status(400).json({ message: `${provider.label} is connected through OAuth` });
+      if (!serverUrl || !username || !password) {
+        return res.status(400).json({ message: 'serverUrl, username and password are required' });
+      }
+
+      let credentials;
+      try {
+        credentials = await provider.connectWithPassword({ serverUrl: String(serverUrl), username: String(username), password: String(password) });
+      } catch (err: any) {
+        if (err instanceof CalendarProviderError) return res.status(400).json({ message: err.message });
+        throw err;
+      }
+
+      await oauthManager.storeCredentials(userId, credentials);
+      const email = await provider.getAccountEmail(credentials).catch(() => null);
+      await oauthManager.saveCalendarSettings(userId, {
+        calendarEmail: email ?? undefined,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        syncExternalCalendar: true,
+      });
+
+      return res.json({ connected: true, provider: provider.name, calendarEmail: email });
+    } catch (err: any) {
+      log(`OAuth connect error: ${err?.message ?? String(err)}`, 'oauth-routes');
+      return res.status(500).json({ message: 'error connecting calendar' });
+    }
+  });
+
   /**
    * GET /api/oauth/status
    * Check if user has OAuth connected
    */
-  app.get('/api/oauth/status', async (req: Request, res: Response) => {
+  api.get('/api/oauth/status', async (req: Request, res: Response) => {
     try {
-      const token = extractToken(req);
-      if (!token) return res.status(401).json({ message: 'not authenticated' });
-
-      if (!process.env.JWT_SECRET) return res.status(500).json({ message: 'authentication not configured' });
-      const payload = jwt.verify(token, process.env.JWT_SECRET) as any;
-      const userId = payload?.sub;
-      if (!userId) return res.status(401).json({ message: 'invalid token' });
+      const userId = currentUser(req).id;
 
-      const credentials = await oauthManager!.getCredentials(userId);
-      const settings = await oauthManager!.getCalendarSettings(userId);
+      const credentials = await oauthManager.getCredentials(userId);
+      const settings = await oauthManager.getCalendarSettings(userId);
 
       return res.json({
         connected: !!credentials,
+        provider: credentials?.provider ?? null,
+        accountUrl: credentials?.accountUrl ?? null,
+        providers: listCalendarProviders().map(p => ({ name: p.name, label: p.label, authType: p.authType })),
         calendarEmail: settings?.calendar_email,
         syncExternalCalendar: settings?.sync_external_calendar,
       });
@@ -160,19 +170,13 @@ export function registerOAuthRoutes(app: Express): void {
 
   /**
    * POST /api/oauth/disconnect
-   * Disconnect user's OAuth
+   * Disconnect user's calendar (any provider)
    */
-  app.post('/api/oauth/disconnect', async (req: Request, res: Response) => {
+  api.post('/api/oauth/disconnect', async (req: Request, res: Response) => {
     try {
-      const token = extractToken(req);
-      if (!token) return res.status(401).json({ message: 'not authenticated' });
+      const userId = currentUser(req).id;
 
-      if (!process.env.JWT_SECRET) return res.status(500).json({ message: 'authentication not configured' });
-      const payload = jwt.verify(token, process.env.JWT_SECRET) as any;
-      const userId = payload?.sub;
-      if (!userId) return res.status(401).json({ message: 'invalid token' });
-
-      await oauthManager!.deleteCredentials(userId);
+      await oauthManager.deleteCredentials(userId);
 
       return res.json({ message: 'OAuth credentials deleted' });
     } catch (err: any) {
@@ -185,19 +189,13 @@ export function registerOAuthRoutes(app: Express): void {
    * POST /api/oauth/settings
    * Update calendar settings
    */
-  app.post('/api/oauth/settings', async (req: Request, res: Response) => {
+  api.post('/api/oauth/settings', async (req: Request, res: Response) => {
     try {
-      const token = extractToken(req);
-      if (!token) return res.status(401).json({ message: 'not authenticated' });
-
-      if (!process.env.JWT_SECRET) return res.status(500).json({ message: 'authentication not configured' });
-      const payload = jwt.verify(token, process.env.JWT_SECRET) as any;
-      const userId = payload?.sub;
-      if (!userId) return res.status(401).json({ message: 'invalid token' });
+      const userId = currentUser(req).id;
 
       const { autoAcceptMeetings, syncExternalCalendar } = req.body;
 
-      await oauthManager!.saveCalendarSettings(userId, {
+      await oauthManager.saveCalendarSettings(userId, {
         autoAcceptMeetings: autoAcceptMeetings ?? false,
         syncExternalCalendar: syncExternalCalendar ?? false,
       });
@@ -209,5 +207,5 @@ export function registerOAuthRoutes(app: Express): void {
     }
   });
 
-  log('OAuth routes registered', 'oauth-routes');
+  log(`OAuth routes registered (calendar providers: ${listCalendarProviders().map(p => p.name).join(', ')})`, 'oauth-routes');
 }
@@ -1,12 +1,9 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage.js";
-import nodemailer from 'nodemailer';
 import crypto from 'crypto';
 import bcrypt from "bcryptjs";
-import jwt from "jsonwebtoken";
 import {
-  listInvestorProfiles,
   getInvestorProfileByUserId,
   listCompanyProfiles,
   getCompanyProfileByUserId,
@@ -18,8 +15,19 @@ import {
   createNotification,
   getTimeProposalById,
   updateTimeProposalStatus,
-  deleteFutureMeetingsForParticipants,
+  acceptTimeProposalSlot,
+  expireStaleProposals,
+  transitionMeetingRequest,
+  listMeetingRequestTransitions,
+  listStalePendingMeetingRequests,
+  cancelFutureMeetingsForParticipants,
+  cancelMeetingsForRequest,
   listMeetingsForUser,
+  getMeetingById,
+  getCurrentMeetingForRequest,
+  updateMeetingLocation,
+  getCalendarFeedToken,
+  getUserIdByCalendarFeedToken,
   listNotificationsForUser,
   markNotificationAsRead,
   updateNotificationIsRead,
@@ -27,12 +35,78 @@ import {
   searchCompanyProfiles,
   upsertCompanyProfile,
   upsertInvestorProfile,
+  createMessage,
+  listMessagesBetweenUsers,
+  listConversationsForUser,
+  markMessagesRead,
+  findMeetingRequestByParticipants,
+  addFavorite,
+  removeFavorite,
+  listFavoriteCompaniesForUser,
+  searchInvestorProfiles,
+  getRecommendedInvestors,
+  listOutboxEmails,
+  getUserTimezones,
+  getUserAvailability,
+  saveUserAvailability,
+  listActiveSessionsForUser,
+  countUnusedRecoveryCodes,
+  listTwoFactorEnabledUserIds,
 } from "./lib/db.js";
 import { createMeetingFromRequest } from './lib/db.js';
 import { createGoogleMeetEvent } from './lib/googleCalendar.js';
+import { MeetingCalendarSync, SERVICE_CALENDAR_OWNER, type ExternalEventRef } from './lib/meetingCalendarSync.js';
 import { recordProfileView, recordDeckDownload, getCompanyOverviewMetrics, getInvestorOverviewMetrics, getRecommendedCompanies, getUpcomingMeetings } from "./lib/db.js";
 import { type InsertUser } from "@shared/schema";
-import { matchEngine } from "./lib/matchEngine.js";
+import { normalizeSector, normalizeSectors } from "@shared/sectors";
+import { CURRENCIES, formatMoneyRange, validateFundingAsk } from "@shared/money";
+import { normalizeTimeZone } from "@shared/timezone";
+import { buildCalendar, meetingUid, type CalendarEvent } from "./lib/ical.js";
+import { inviteOrganizer, type InviteMethod } from "./lib/meetingInvites.js";
+import { sendEmail, processOutbox, retryOutboxEmail, resolveMailTransport, verifySmtpConnection } from "./lib/mailer.js";
+import { matchEngine, validateScoringWeights, validateDealBreakers } from "./lib/matchEngine.js";
+import { validateAvailability } from "./lib/availability.js";
+import { BookingService, validateBookingSettings } from "./lib/booking.js";
+import { isProposalExpired, proposalSlots, validateProposalSlots } from "./lib/proposals.js";
+import { approvalStatusOf, loginApprovalError, validateApprovalDecision } from "./lib/accountApproval.js";
+import { getPlatformSettings, senderAddress, updatePlatformSettings, validateSettingsUpdate, type PlatformSettings } from "./lib/platformSettings.js";
+import {
+  AFTER_MEETING_STATUSES,
+  MEETING_REQUEST_TTL_DAYS,
+  checkTransition,
+  currentStatus,
+  validateMeetingRequestUpdate,
+} from "./lib/meetingRequestStates.js";
+import { authenticate, currentUser, guardRoutes, isAdmin, isUuid, readCookie, roleOf } from "./lib/access.js";
+import { ROUTE_ACCESS } from "./lib/routeAccess.js";
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  REFRESH_COOKIE,
+  TWO_FACTOR_CHALLENGE_TTL_SECONDS,
+  checkSession,
+  clearSessionCookies,
+  endSession,
+  endUserSessions,
+  refreshSession,
+  sessionIdOfVerifiedRefreshToken,
+  setSessionCookies,
+  signTwoFactorChallenge,
+  startSession,
+  verifyTwoFactorChallenge,
+  type TwoFactorChallengePurpose,
+} from "./lib/sessions.js";
+import {
+  TWO_FACTOR_ERRORS,
+  confirmEnrollment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  isTwoFactorEnabled,
+  regenerateRecoveryCodes,
+  startEnrollment,
+  twoFactorRequiredFor,
+  verifySecondFactor,
+  type TwoFactorError,
+} from "./lib/twoFactor.js";
 import { log } from "./index.js";
 import { registerOAuthRoutes } from "./oauth-routes.js";
 import supabase from './supabase.js';
@@ -44,15 +118,45 @@ export async function registerRoutes(
   // put application routes here
   // prefix all routes with /api
 
+  // Every API request carries its caller (if any) as `req.user`, renewed from the refresh
+  // cookie when the access token has expired; each route then checks its entry in
+  // ROUTE_ACCESS (lib/routeAccess.ts)
+  app.use('/api', authenticate, checkSession);
+  const api = guardRoutes(app, ROUTE_ACCESS);
+
+  // Maintenance mode: only admins use the API. Health checks and login (with its two-factor step)
+  // stay open so an admin can sign in; the login routes turn everyone else away.
+  app.use('/api', async (req, res, next) => {
+    if (req.path === '/health' || req.path === '/auth/login' || req.path === '/auth/logout' || req.path.startsWith('/auth/2fa/')) return next();
+    try {
+      const settings = await getPlatformSettings();
+      if (!settings.maintenance_mode || isAdmin(req.user)) return next();
+      return res.status(503).json({ message: 'the platform is down for maintenance, please try again later', code: 'maintenance' });
+    } catch (err: any) {
+      log(`maintenance check error: ${err?.message ?? String(err)}`, 'routes');
+      return next();
+    }
+  });
+
   // Register OAuth routes
-  registerOAuthRoutes(app);
+  registerOAuthRoutes(api);
+
+  // Keeps external calendar events in step with meeting changes
+  const calendarSync = new MeetingCalendarSync(supabase);
+  // Free slots and settings for self-service booking
+  const booking = new BookingService(supabase);
 
   // Health check
-  app.get('/api/health', (_req, res) => res.json({ ok: true }));
+  api.get('/api/health', (_req, res) => res.json({ ok: true }));
 
   // Register (create user)
-  app.post('/api/users', async (req, res) => {
+  api.post('/api/users', async (req, res) => {
     try {
+      const settings = await getPlatformSettings();
+      if (!settings.registration_open) {
+        return res.status(403).json({ message: 'registration is currently closed', code: 'registration_closed' });
+      }
+
       const { name, email, password, role, automatic_availability, availability_from, availability_to, availability_timezone, arrange_meetings } = req.body as { 
         name?: string; 
         email?: string; 
@@ -79,6 +183,9 @@ export async function registerRoutes(
           return res.status(400).json({ message: 'availability_to must be after availability_from' });
         }
       }
+      if (availability_timezone && !normalizeTimeZone(availability_timezone, '')) {
+        return res.status(400).json({ message: 'availability_timezone must be an IANA timezone such as Europe/Berlin' });
+      }
 
       const user = await storage.createUser({ 
         email, 
@@ -88,8 +195,9 @@ export async function registerRoutes(
         automatic_availability: automatic_availability ?? false,
         availability_from,
         availability_to,
-        availability_timezone: availability_timezone ?? 'UTC',
+        availability_timezone: normalizeTimeZone(availability_timezone),
         arrange_meetings: arrange_meetings ?? false,
+        approval_status: settings.require_admin_approval ? 'pending' : 'approved',
       });
 
       // Do not auto-login on registration. Require email verification before allowing login.
@@ -100,30 +208,8 @@ export async function registerRoutes(
         const origin = (process.env.APP_URL && process.env.APP_URL.trim()) || `${req.protocol}://${req.get('host')}`;
         const verifyLink = `${origin.replace(/\/$/, '')}/auth?verify_token=${verification?.token}`;
 
-        // Send email if SMTP config present
-        if (process.env.SMTP_HOST && process.env.SMTP_USER && process.env.SMTP_PASS) {
-          try {
-            const transporter = nodemailer.createTransport({
-              host: process.env.SMTP_HOST,
-              port: Number(process.env.SMTP_PORT || 587),
-              secure: (process.env.SMTP_SECURE || 'false') === 'true',
-              auth: { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
-            });
-            const from = process.env.SMTP_FROM || 'noreply@localhost';
-            await transporter.sendMail({
-              from,
-              to: user.email,
-              subject: 'Verify your email',
-              html: `<p>Welcome to EIF. Please verify your email by clicking <a href="${verifyLink}">this link</a>.</p>`
-            });
-          } catch (e) {
-            log(`email send warning: ${(e as any)?.message ?? String(e)}`, 'routes');
-            log(`[EMAIL VERIFICATION LINK] ${verifyLink}`, 'routes');
-          }
-        } else {
-          // Fallback: log verification link for development
-          log(`[EMAIL VERIFICATION LINK] ${verifyLink}`, 'routes');
-        }
+        const sent = await sendEmail(user.email, 'verifyEmail', { verifyLink, welcome: true });
+        if (sent?.status !== 'sent') log(`[EMAIL VERIFICATION LINK] ${verifyLink}`, 'routes');
       } catch (e) {
         log(`create verification token warning: ${(e as any)?.message ?? String(e)}`, 'routes');
       }
@@ -153,8 +239,45 @@ export async function registerRoutes(
     }
   });
 
+  // Why a user whose password checked out may not sign in (yet), or null
+  const signInError = (user: any, settings: PlatformSettings): { status: number; body: { message: string; code: string } } | null => {
+    // Checked after the password so it does not reveal account state
+    const approvalError = loginApprovalError(user);
+    if (approvalError) return { status: 403, body: approvalError };
+    if (settings.maintenance_mode && !(user.role ?? '').toString().toLowerCase().includes('admin')) {
+      return { status: 503, body: { message: 'the platform is down for maintenance, please try again later', code: 'maintenance' } };
+    }
+    return null;
+  };
+
+  const completeSignIn = async (req: Request, res: Response, user: any, extra: Record<string, unknown> = {}) => {
+    const session = await startSession(user, req);
+    setSessionCookies(res, session);
+    return res.json({ token: session.accessToken, expiresIn: ACCESS_TOKEN_TTL_SECONDS, user: { id: user.id, username: user.username, role: user.role }, ...extra });
+  };
+
+  // The user a two-factor challenge in the body was issued to, if they may still sign in;
+  // otherwise answers the request and returns null
+  const challengedUser = async (req: Request, res: Response, purpose: TwoFactorChallengePurpose): Promise<any | null> => {
+    const userId = verifyTwoFactorChallenge(req.body?.challenge, purpose);
+    const user = userId ? await storage.getUser(userId) : undefined;
+    if (!user) {
+      res.status(401).json({ message: 'sign-in expired, please enter your password again', code: 'challenge_expired' });
+      return null;
+    }
+    const blocked = signInError(user, await getPlatformSettings());
+    if (blocked) {
+      res.status(blocked.status).json(blocked.body);
+      return null;
+    }
+    return user;
+  };
+
+  const sendTwoFactorError = (res: Response, error: TwoFactorError) =>
+    res.status(TWO_FACTOR_ERRORS[error].status).json({ message: TWO_FACTOR_ERRORS[error].message, code: error });
+
   // Login
-  app.post('/api/auth/login', async (req, res) => {
+  api.post('/api/auth/login', async (req, res) => {
     try {
       const { email, password } = req.body as { email?: string; password?: string };
       if (!email || !password) return res.status(400).json({ message: 'email and password required' });
@@ -170,25 +293,88 @@ export async function registerRoutes(
       const matches = await bcrypt.compare(password, user.password as string);
       if (!matches) return res.status(401).json({ message: 'invalid credentials' });
 
-      const jwtSecret = process.env.JWT_SECRET;
-      if (!jwtSecret) {
+      const settings = await getPlatformSettings();
+      const blocked = signInError(user, settings);
+      if (blocked) return res.status(blocked.status).json(blocked.body);
+
+      if (!process.env.JWT_SECRET) {
         log('JWT_SECRET not configured', 'routes');
         return res.status(500).json({ message: 'authentication not configured' });
       }
 
-      const token = jwt.sign({ sub: user.id, username: user.username, role: (user as any).role }, jwtSecret, { expiresIn: '7d' });
-
-      res.cookie('token', token, { httpOnly: true, sameSite: 'lax', secure: process.env.NODE_ENV === 'production', maxAge: 7 * 24 * 60 * 60 * 1000 });
+      // Second step: a code from the authenticator app, or setting one up when the role requires it
+      if (await isTwoFactorEnabled(user.id)) {
+        return res.json({ code: 'two_factor_required', challenge: signTwoFactorChallenge(user.id, 'verify'), expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS });
+      }
+      if (twoFactorRequiredFor(roleOf((user as any).role), settings)) {
+        return res.json({ code: 'two_factor_setup_required', challenge: signTwoFactorChallenge(user.id, 'setup'), expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS });
+      }
 
-      return res.json({ token, user: { id: user.id, username: user.username, role: (user as any).role } });
+      return await completeSignIn(req, res, user);
     } catch (err: any) {
       log(`login error: ${err?.message ?? String(err)}`, 'routes');
       return res.status(500).json({ message: 'error logging in' });
     }
   });
 
+  // Login, second step: a code from the authenticator app (`code`) or a recovery code (`recoveryCode`)
+  api.post('/api/auth/2fa/verify', async (req, res) => {
+    try {
+      const { code, recoveryCode } = req.body as { code?: unknown; recoveryCode?: unknown };
+      if ((typeof code !== 'string' || !code) && (typeof recoveryCode !== 'string' || !recoveryCode)) {
+        return res.status(400).json({ message: 'code or recoveryCode required' });
+      }
+      const user = await challengedUser(req, res, 'verify');
+      if (!user) return;
+
+      const verified = await verifySecondFactor(user.id, { code: typeof code === 'string' ? code : null, recoveryCode: typeof recoveryCode === 'string' ? recoveryCode : null });
+      if (verified.error) return sendTwoFactorError(res, verified.error);
+      if (verified.method === 'recovery_code') {
+        const remaining = await countUnusedRecoveryCodes(user.id);
+        log(`recovery code used to sign in user: ${user.id} (${remaining} left)`, 'routes');
+        return await completeSignIn(req, res, user, { recoveryCodesRemaining: remaining });
+      }
+      return await completeSignIn(req, res, user);
+    } catch (err: any) {
+      log(`two-factor login error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error logging in' });
+    }
+  });
+
+  // Login when the role requires two-factor authentication and none is set up: get a key for the app...
+  api.post('/api/auth/2fa/setup', async (req, res) => {
+    try {
+      const user = await challengedUser(req, res, 'setup');
+      if (!user) return;
+      const enrollment = await startEnrollment(user.id, user.email ?? user.username);
+      if (enrollment.error) return sendTwoFactorError(res, enrollment.error);
+      return res.json({ secret: enrollment.secret, otpauthUri: enrollment.otpauthUri });
+    } catch (err: any) {
+      log(`two-factor setup error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error setting up two-factor authentication' });
+    }
+  });
+
+  // ...then confirm it with a code, which signs in and returns the recovery codes
+  api.post('/api/auth/2fa/confirm', async (req, res) => {
+    try {
+      const { code } = req.body as { code?: unknown };
+      if (typeof code !== 'string' || !code) return res.status(400).json({ message: 'code required' });
+      const user = await challengedUser(req, res, 'setup');
+      if (!user) return;
+
+      const confirmed = await confirmEnrollment(user.id, code);
+      if (confirmed.error) return sendTwoFactorError(res, confirmed.error);
+      log(`two-factor authentication enabled for user: ${user.id}`, 'routes');
+      return await completeSignIn(req, res, user, { recoveryCodes: confirmed.recoveryCodes });
+    } catch (err: any) {
+      log(`two-factor confirm error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error setting up two-factor authentication' });
+    }
+  });
+
   // Verify email token
-  app.get('/api/auth/verify', async (req, res) => {
+  api.get('/api/auth/verify', async (req, res) => {
     try {
       const token = req.query.token || req.query.verify_token;
       if (!token || typeof token !== 'string') return res.status(400).json({ message: 'token required' });
@@ -205,7 +391,7 @@ export async function registerRoutes(
   });
 
   // Resend verification email (for users who have not yet verified their email)
-  app.post('/api/auth/resend-verification', async (req, res) => {
+  api.post('/api/auth/resend-verification', async (req, res) => {
     try {
       const { email } = req.body as { email?: string };
       if (!email) return res.status(400).json({ message: 'email is required' });
@@ -226,23 +412,11 @@ export async function registerRoutes(
       const origin = (process.env.APP_URL && process.env.APP_URL.trim()) || `${req.protocol}://${req.get('host')}`;
       const verifyLink = `${origin.replace(/\/$/, '')}/auth?verify_token=${verification?.token}`;
 
-      // Send email if SMTP configured
-      if (process.env.SMTP_HOST && process.env.SMTP_USER && process.env.SMTP_PASS) {
-        try {
-          const transporter = nodemailer.createTransport({
-            host: process.env.SMTP_HOST,
-            port: Number(process.env.SMTP_PORT || 587),
-            secure: (process.env.SMTP_SECURE || 'false') === 'true',
-            auth: { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
-          });
-          const from = process.env.SMTP_FROM || 'noreply@localhost';
-          await transporter.sendMail({ from, to: user.email, subject: 'Verify your email', html: `<p>Please verify your email by clicking <a href="${verifyLink}">this link</a>.</p>` });
-        } catch (e) {
-          log(`email resend warning: ${(e as any)?.message ?? String(e)}`, 'routes');
-          log(`[EMAIL VERIFICATION LINK] ${verifyLink}`, 'routes');
-        }
-      } else {
-        // Log link for development
+      try {
+        const sent = await sendEmail(user.email, 'verifyEmail', { verifyLink });
+        if (sent?.status !== 'sent') log(`[EMAIL VERIFICATION LINK] ${verifyLink}`, 'routes');
+      } catch (e) {
+        log(`email resend warning: ${(e as any)?.message ?? String(e)}`, 'routes');
         log(`[EMAIL VERIFICATION LINK] ${verifyLink}`, 'routes');
       }
 
@@ -253,14 +427,41 @@ export async function registerRoutes(
     }
   });
 
-  // Logout
-  app.post('/api/auth/logout', (_req, res) => {
-    res.clearCookie('token', { httpOnly: true, sameSite: 'lax', secure: process.env.NODE_ENV === 'production' });
+  // Exchange the refresh cookie for a new access token (and refresh token)
+  api.post('/api/auth/refresh', async (req, res) => {
+    try {
+      const refreshToken = readCookie(req, REFRESH_COOKIE);
+      if (!refreshToken) return res.status(401).json({ message: 'not authenticated' });
+      if (!process.env.JWT_SECRET) return res.status(500).json({ message: 'authentication not configured' });
+
+      const issued = await refreshSession(refreshToken, req);
+      if (!issued) {
+        clearSessionCookies(res);
+        return res.status(401).json({ message: 'session expired, please sign in again' });
+      }
+      setSessionCookies(res, issued);
+      return res.json({ token: issued.accessToken, expiresIn: ACCESS_TOKEN_TTL_SECONDS, user: { id: issued.user.id, username: issued.user.username, role: issued.user.role } });
+    } catch (err: any) {
+      log(`refresh session error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error refreshing session' });
+    }
+  });
+
+  // Logout: end this device's session
+  api.post('/api/auth/logout', async (req, res) => {
+    try {
+      // Without an access token, only a refresh cookie whose secret checks out names the session
+      const sessionId = req.user?.sessionId ?? await sessionIdOfVerifiedRefreshToken(readCookie(req, REFRESH_COOKIE));
+      if (sessionId) await endSession(sessionId, 'logout');
+    } catch (err: any) {
+      log(`logout error: ${err?.message ?? String(err)}`, 'routes');
+    }
+    clearSessionCookies(res);
     return res.json({ message: 'logged out' });
   });
 
   // Forgot password - request reset
-  app.post('/api/auth/forgot-password', async (req, res) => {
+  api.post('/api/auth/forgot-password', async (req, res) => {
     try {
       const { email } = req.body as { email?: string };
       if (!email) return res.status(400).json({ message: 'email is required' });
@@ -284,25 +485,11 @@ export async function registerRoutes(
       const origin = (process.env.APP_URL && process.env.APP_URL.trim()) || `${req.protocol}://${req.get('host')}`;
       const resetLink = `${origin.replace(/\/$/, '')}/auth?token=${resetToken.token}`;
 
-      // TODO: Integrate email service (e.g., Resend, SendGrid, Mailgun).
-      // For development we log the link. In production you must send the link by email.
-      // Example with Resend (pseudo):
-      // Try sending via SMTP (nodemailer) when configured
-      if (process.env.SMTP_HOST && process.env.SMTP_USER && process.env.SMTP_PASS) {
-        try {
-          const transporter = nodemailer.createTransport({
-            host: process.env.SMTP_HOST,
-            port: Number(process.env.SMTP_PORT || 587),
-            secure: (process.env.SMTP_SECURE || 'false') === 'true',
-            auth: { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
-          });
-          const from = process.env.SMTP_FROM || 'noreply@localhost';
-          await transporter.sendMail({ from, to: email, subject: 'Reset your EIF password', html: `<p>Reset your password by clicking <a href="${resetLink}">this link</a>.</p>` });
-        } catch (e) {
-          log(`email send warning: ${(e as any)?.message ?? String(e)}`, 'routes');
-          log(`[PASSWORD RESET] Link for ${email}: ${resetLink}`, 'routes');
-        }
-      } else {
+      try {
+        const sent = await sendEmail(email, 'passwordReset', { resetLink });
+        if (sent?.status !== 'sent') log(`[PASSWORD RESET] Link for ${email}: ${resetLink}`, 'routes');
+      } catch (e) {
+        log(`email send warning: ${(e as any)?.message ?? String(e)}`, 'routes');
         log(`[PASSWORD RESET] Link for ${email}: ${resetLink}`, 'routes');
       }
 
@@ -319,7 +506,7 @@ export async function registerRoutes(
   });
 
   // Reset password - validate token and update
-  app.post('/api/auth/reset-password', async (req, res) => {
+  api.post('/api/auth/reset-password', async (req, res) => {
     try {
       const { token, password } = req.body as { token?: string; password?: string };
       if (!token || !password) {
@@ -346,6 +533,9 @@ export async function registerRoutes(
 
       // Invalidate all reset tokens for this user
       await storage.invalidateResetTokens(userId);
+      // Whoever knew the old password may still be signed in somewhere
+      const ended = await endUserSessions(userId, 'password_reset');
+      if (ended > 0) log(`password reset ended ${ended} session(s) for user: ${userId}`, 'routes');
 
       log(`Password reset successful for user: ${userId}`, 'routes');
       return res.status(200).json({ message: 'Password has been reset successfully' });
@@ -356,15 +546,9 @@ export async function registerRoutes(
   });
 
   // Get current authenticated user
-  app.get('/api/users/me', async (req, res) => {
-    try {
-      const token = extractToken(req);
-      if (!token) return res.status(401).json({ message: 'not authenticated' });
-      const jwtSecret = process.env.JWT_SECRET;
-      if (!jwtSecret) return res.status(500).json({ message: 'authentication not configured' });
-      const payload = jwt.verify(token, jwtSecret) as any;
-      const userId = payload?.sub;
-      if (!userId) return res.status(401).json({ message: 'invalid token' });
+  api.get('/api/users/me', async (req, res) => {
+    try {
+      const userId = currentUser(req).id;
       
       log(`fetching user with id: ${userId}`, 'routes');
       const user = await storage.getUser(userId);
@@ -379,7 +563,8 @@ export async function registerRoutes(
         id: user.id, 
         email: userData.email ?? user.username, 
         name: userData.name, 
-        role: userData.role 
+        role: userData.role,
+        timezone: userData.timezone,
       });
     } catch (err: any) {
       log(`get current user error: ${err?.message ?? String(err)}`, 'routes');
@@ -387,40 +572,140 @@ export async function registerRoutes(
     }
   });
 
+  // Devices signed in to the current user's account
+  api.get('/api/users/me/sessions', async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const sessions = await listActiveSessionsForUser(user.id);
+      return res.json(sessions.map((session: any) => ({ ...session, current: session.id === user.sessionId })));
+    } catch (err: any) {
+      log(`list sessions error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error listing sessions' });
+    }
+  });
+
+  // Sign out every other device
+  api.delete('/api/users/me/sessions', async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const revokedCount = await endUserSessions(user.id, 'revoked', user.sessionId);
+      return res.json({ revokedCount });
+    } catch (err: any) {
+      log(`revoke sessions error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error signing out other devices' });
+    }
+  });
+
+  // Sign out one device (revoking the current session signs this browser out too)
+  api.delete('/api/users/me/sessions/:id', async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const revoked = await endSession(req.params.id, 'revoked');
+      if (!revoked) return res.status(404).json({ message: 'session not found' });
+      if (req.params.id === user.sessionId) clearSessionCookies(res);
+      return res.json({ id: revoked.id, current: req.params.id === user.sessionId });
+    } catch (err: any) {
+      log(`revoke session error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error revoking session' });
+    }
+  });
+
+  // Two-factor authentication of the current user
+  api.get('/api/users/me/2fa', async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const required = twoFactorRequiredFor(user.role, await getPlatformSettings());
+      return res.json(await getTwoFactorStatus(user.id, required));
+    } catch (err: any) {
+      log(`two-factor status error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error fetching two-factor status' });
+    }
+  });
+
+  // Start setting up an authenticator app; returns the key and its otpauth:// URI
+  api.post('/api/users/me/2fa/setup', async (req, res) => {
+    try {
+      const user = await storage.getUser(currentUser(req).id);
+      if (!user) return res.status(404).json({ message: 'user not found' });
+      const enrollment = await startEnrollment(user.id, (user as any).email ?? user.username);
+      if (enrollment.error) return sendTwoFactorError(res, enrollment.error);
+      return res.json({ secret: enrollment.secret, otpauthUri: enrollment.otpauthUri });
+    } catch (err: any) {
+      log(`two-factor setup error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error setting up two-factor authentication' });
+    }
+  });
+
+  // Turn two-factor authentication on with a code from the app; the recovery codes are only shown here
+  api.post('/api/users/me/2fa/confirm', async (req, res) => {
+    try {
+      const { code } = req.body as { code?: unknown };
+      if (typeof code !== 'string' || !code) return res.status(400).json({ message: 'code required' });
+      const userId = currentUser(req).id;
+      const confirmed = await confirmEnrollment(userId, code);
+      if (confirmed.error) return sendTwoFactorError(res, confirmed.error);
+      log(`two-factor authentication enabled for user: ${userId}`, 'routes');
+      return res.json({ recoveryCodes: confirmed.recoveryCodes });
+    } catch (err: any) {
+      log(`two-factor confirm error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error setting up two-factor authentication' });
+    }
+  });
+
+  // Replace the recovery codes (needs a code from the app)
+  api.post('/api/users/me/2fa/recovery-codes', async (req, res) => {
+    try {
+      const { code } = req.body as { code?: unknown };
+      if (typeof code !== 'string' || !code) return res.status(400).json({ message: 'code required' });
+      const regenerated = await regenerateRecoveryCodes(currentUser(req).id, code);
+      if (regenerated.error) return sendTwoFactorError(res, regenerated.error);
+      return res.json({ recoveryCodes: regenerated.recoveryCodes });
+    } catch (err: any) {
+      log(`recovery codes error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error creating recovery codes' });
+    }
+  });
+
+  // Turn two-factor authentication off (needs a code from the app or a recovery code)
+  api.delete('/api/users/me/2fa', async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const { code, recoveryCode } = (req.body ?? {}) as { code?: unknown; recoveryCode?: unknown };
+      if ((typeof code !== 'string' || !code) && (typeof recoveryCode !== 'string' || !recoveryCode)) {
+        return res.status(400).json({ message: 'code or recoveryCode required' });
+      }
+      if (twoFactorRequiredFor(user.role, await getPlatformSettings())) {
+        return res.status(403).json({ message: 'two-factor authentication is required for your account', code: 'two_factor_required_by_policy' });
+      }
+
+      const verified = await verifySecondFactor(user.id, { code: typeof code === 'string' ? code : null, recoveryCode: typeof recoveryCode === 'string' ? recoveryCode : null });
+      if (verified.error) return sendTwoFactorError(res, verified.error);
+      await disableTwoFactor(user.id);
+      log(`two-factor authentication disabled by user: ${user.id}`, 'routes');
+      return res.json({ enabled: false });
+    } catch (err: any) {
+      log(`two-factor disable error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error disabling two-factor authentication' });
+    }
+  });
+
   // Get user by id
-  app.get('/api/users/:id', async (req, res) => {
+  api.get('/api/users/:id', async (req, res) => {
     try {
       const user = await storage.getUser(req.params.id);
       if (!user) return res.status(404).json({ message: 'user not found' });
-      return res.json(user);
+      const { password: _password, ...visible } = user as any;
+      return res.json(visible);
     } catch (error: any) {
       log(`get user error: ${error?.message ?? String(error)}`, 'routes');
       return res.status(500).json({ message: error?.message ?? 'error fetching user' });
     }
   });
 
-  // Helper to extract JWT token from Authorization header or cookie header
-  function extractToken(req: any) {
-    const auth = req.headers?.authorization as string | undefined;
-    if (auth && auth.toLowerCase().startsWith('bearer ')) return auth.split(' ')[1];
-    const cookie = req.headers?.cookie as string | undefined;
-    if (cookie) {
-      const match = cookie.split(';').map(s => s.trim()).find(s => s.startsWith('token='));
-      if (match) return match.split('=')[1];
-    }
-    return null;
-  }
-
   // Get current authenticated investor profile
-  app.get('/api/investors/me', async (req, res) => {
-    try {
-      const token = extractToken(req);
-      if (!token) return res.status(401).json({ message: 'not authenticated' });
-      const jwtSecret = process.env.JWT_SECRET;
-      if (!jwtSecret) return res.status(500).json({ message: 'authentication not configured' });
-      const payload = jwt.verify(token, jwtSecret) as any;
-      const userId = payload?.sub;
-      if (!userId) return res.status(401).json({ message: 'invalid token' });
+  api.get('/api/investors/me', async (req, res) => {
+    try {
+      const userId = currentUser(req).id;
       log(`get current investor me invoked (userId: ${userId ?? 'unknown'})`, 'routes');
       const investor = await getInvestorProfileByUserId(userId);
       if (!investor) return res.status(404).json({ message: 'investor profile not found' });
@@ -432,16 +717,36 @@ export async function registerRoutes(
   });
 
   // Update current authenticated investor profile
-  app.patch('/api/investors/me', async (req, res) => {
-    try {
-      const token = extractToken(req);
-      if (!token) return res.status(401).json({ message: 'not authenticated' });
-      const jwtSecret = process.env.JWT_SECRET;
-      if (!jwtSecret) return res.status(500).json({ message: 'authentication not configured' });
-      const payload = jwt.verify(token, jwtSecret) as any;
-      const userId = payload?.sub;
-      if (!userId) return res.status(401).json({ message: 'invalid token' });
-      const updates = req.body as Record<string, any>;
+  api.patch('/api/investors/me', async (req, res) => {
+    try {
+      const userId = currentUser(req).id;
+      const updates = { ...(req.body as Record<string, any>) };
+      // The weights version is server-managed: bump it whenever the weight profile changes
+      // so cached match scores computed with the previous weights are not reused.
+      delete updates.scoring_weights_version;
+      if ('scoring_weights' in updates) {
+        if (updates.scoring_weights !== null) {
+          const { weights, error } = validateScoringWeights(updates.scoring_weights);
+          if (error) return res.status(400).json({ message: error });
+          updates.scoring_weights = weights;
+        }
+        const current = await getInvestorProfileByUserId(userId);
+        updates.scoring_weights_version = Number(current?.scoring_weights_version ?? 0) + 1;
+      }
+      if ('deal_breakers' in updates && updates.deal_breakers !== null) {
+        const { dealBreakers, error } = validateDealBreakers(updates.deal_breakers);
+        if (error) return res.status(400).json({ message: error });
+        updates.deal_breakers = dealBreakers;
+      }
+      if (updates.check_size_currency != null) {
+        const currency = String(updates.check_size_currency).toUpperCase();
+        if (!CURRENCIES.includes(currency)) return res.status(400).json({ message: `unsupported currency: ${updates.check_size_currency}` });
+        updates.check_size_currency = currency;
+      }
+      // Free-text sectors are stored under their canonical taxonomy label
+      if (Array.isArray(updates.sectors)) {
+        updates.sectors = normalizeSectors(updates.sectors.filter((s: unknown): s is string => typeof s === 'string'));
+      }
       const updated = await upsertInvestorProfile(userId, updates);
       return res.json(updated);
     } catch (err: any) {
@@ -450,10 +755,11 @@ export async function registerRoutes(
     }
   });
 
-  // List all investor profiles
-  app.get('/api/investors', async (_req, res) => {
+  // List investor profiles (query: search, type, stage)
+  api.get('/api/investors', async (req, res) => {
     try {
-      const investors = await listInvestorProfiles();
+      const { search, type, stage } = req.query as Record<string, string | undefined>;
+      const investors = await searchInvestorProfiles({ search: search || null, investorType: type || null, stage: stage || null, limit: 100 });
       return res.json(investors ?? []);
     } catch (err: any) {
       log(`list investors error: ${err?.message ?? String(err)}`, 'routes');
@@ -463,11 +769,10 @@ export async function registerRoutes(
 
   // Now the specific investor by ID route
   // Guard against the literal 'me' (which should be handled by the /me route above)
-  app.get('/api/investors/:userId', async (req, res, next) => {
+  api.get('/api/investors/:userId', async (req, res, next) => {
     if (req.params.userId === 'me') return next();
     // Validate UUID pattern to avoid passing invalid values to DB
-    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-    if (!uuidRegex.test(req.params.userId)) return res.status(400).json({ message: 'invalid user id' });
+    if (!isUuid(req.params.userId)) return res.status(400).json({ message: 'invalid user id' });
     try {
       log(`get investor by id invoked (param: ${req.params.userId})`, 'routes');
       const investor = await getInvestorProfileByUserId(req.params.userId);
@@ -479,40 +784,40 @@ export async function registerRoutes(
     }
   });
 
-  app.get('/api/companies', async (_req, res) => {
+  api.get('/api/companies', async (_req, res) => {
     try {
-      const { search, sector, stage, page, pageSize } = _req.query as any;
+      const { search, sector, stage, page, pageSize, includeExcluded } = _req.query as any;
       const p = Number(page || 1);
       const ps = Number(pageSize || 12);
-      const result = await searchCompanyProfiles({ search: search ?? null, sector: sector ?? null, stage: stage ?? null, page: p, pageSize: ps });
-      
-      // If user is authenticated as an investor, add match scores
-      let companies: any[] = result.data ?? [];
-      const token = extractToken(_req);
-      if (token && process.env.JWT_SECRET) {
+      const filters = { search: search ?? null, sector: sector ?? null, stage: stage ?? null };
+
+      // Investors get match scores. Deal breakers and the ranking apply to every matching
+      // company, so those are loaded in full and paginated here.
+      const viewer = _req.user;
+      const investor = viewer?.role === 'investor' ? await getInvestorProfileByUserId(viewer.id) : null;
+      if (investor) {
+        const all = (await searchCompanyProfiles({ ...filters, pageSize: null })).data;
         try {
-          const payload = jwt.verify(token, process.env.JWT_SECRET) as any;
-          const userId = payload?.sub;
-          const role = payload?.role;
-          
-          if (userId && role?.toLowerCase().includes('investor')) {
-            const investor = await getInvestorProfileByUserId(userId);
-            if (investor) {
-              companies = companies.map((company: any) => ({
-                ...company,
-                matchScore: matchEngine.calculateMatch(investor, company),
-              }));
-              // Sort by match score
-              companies.sort((a: any, b: any) => (b.matchScore?.overall ?? 0) - (a.matchScore?.overall ?? 0));
-            }
+          const scores = await matchEngine.calculateMatches(all.map((company: any) => ({ investor, company })));
+          let companies = all.map((company: any, i: number) => ({ ...company, matchScore: scores[i] }));
+          let excludedCount = 0;
+          // Hide companies that hit a deal breaker unless explicitly requested (they then carry the fired rules)
+          if (includeExcluded !== 'true') {
+            companies = companies.filter((company: any) => !company.matchScore.excluded);
+            excludedCount = all.length - companies.length;
           }
+          // Sort by match score
+          companies.sort((a: any, b: any) => (b.matchScore?.overall ?? 0) - (a.matchScore?.overall ?? 0));
+          const from = (Math.max(1, p) - 1) * ps;
+          return res.json({ items: companies.slice(from, from + ps), total: companies.length, excludedCount });
         } catch (e) {
-          // If token verification fails, just return companies without match scores
+          // If scoring fails, just return companies without match scores
           log(`match score calculation failed: ${(e as any)?.message ?? String(e)}`, 'routes');
         }
       }
-      
-      return res.json({ items: companies, total: result.count ?? 0 });
+
+      const result = await searchCompanyProfiles({ ...filters, page: p, pageSize: ps });
+      return res.json({ items: result.data ?? [], total: result.count ?? 0, excludedCount: 0 });
     } catch (err: any) {
       log(`list companies error: ${err?.message ?? String(err)}`, 'routes');
       return res.status(500).json({ message: 'error listing companies' });
@@ -520,15 +825,9 @@ export async function registerRoutes(
   });
 
   // Get current authenticated company profile (declare before `:userId` route)
-  app.get('/api/companies/me', async (req, res) => {
-    try {
-      const token = extractToken(req);
-      if (!token) return res.status(401).json({ message: 'not authenticated' });
-      const jwtSecret = process.env.JWT_SECRET;
-      if (!jwtSecret) return res.status(500).json({ message: 'authentication not configured' });
-      const payload = jwt.verify(token, jwtSecret) as any;
-      const userId = payload?.sub;
-      if (!userId) return res.status(401).json({ message: 'invalid token' });
+  api.get('/api/companies/me', async (req, res) => {
+    try {
+      const userId = currentUser(req).id;
       const company = await getCompanyProfileByUserId(userId);
       log(`get current company me invoked (userId: ${userId ?? 'unknown'})`, 'routes');
       if (!company) return res.status(404).json({ message: 'company profile not found' });
@@ -540,16 +839,25 @@ export async function registerRoutes(
   });
 
   // Update/create current authenticated company profile (upsert)
-  app.patch('/api/companies/me', async (req, res) => {
-    try {
-      const token = extractToken(req);
-      if (!token) return res.status(401).json({ message: 'not authenticated' });
-      const jwtSecret = process.env.JWT_SECRET;
-      if (!jwtSecret) return res.status(500).json({ message: 'authentication not configured' });
-      const payload = jwt.verify(token, jwtSecret) as any;
-      const userId = payload?.sub;
-      if (!userId) return res.status(401).json({ message: 'invalid token' });
-      const updates = req.body as Record<string, any>;
+  api.patch('/api/companies/me', async (req, res) => {
+    try {
+      const userId = currentUser(req).id;
+      const updates = { ...(req.body as Record<string, any>) };
+      // Free-text sectors are stored under their canonical taxonomy label
+      if (typeof updates.sector === 'string') updates.sector = normalizeSector(updates.sector) || null;
+      // The funding ask is stored structurally; `capital_sought` keeps a canonical display string
+      if ('funding_ask' in updates || 'capital_sought' in updates) {
+        const raw = updates.funding_ask ?? updates.capital_sought;
+        if (raw == null || (typeof raw === 'string' && !raw.trim())) {
+          updates.funding_ask = null;
+          updates.capital_sought = null;
+        } else {
+          const { fundingAsk, error } = validateFundingAsk(raw);
+          if (error || !fundingAsk) return res.status(400).json({ message: error });
+          updates.funding_ask = fundingAsk;
+          updates.capital_sought = formatMoneyRange(fundingAsk);
+        }
+      }
       const updated = await upsertCompanyProfile(userId, updates);
       return res.json(updated);
     } catch (err: any) {
@@ -558,11 +866,25 @@ export async function registerRoutes(
     }
   });
 
+  // Investors ranked by match score for the current company (query: search, type, stage)
+  api.get('/api/companies/me/recommendations', async (req, res) => {
+    try {
+      const userId = currentUser(req).id;
+
+      const { search, type, stage } = req.query as Record<string, string | undefined>;
+      const investors = await getRecommendedInvestors(userId, { search: search || null, investorType: type || null, stage: stage || null });
+      if (!investors) return res.status(404).json({ message: 'company profile not found' });
+      return res.json(investors);
+    } catch (err: any) {
+      log(`get investor recommendations error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error fetching recommendations' });
+    }
+  });
+
   // Now get company by userId (after /me)
-  app.get('/api/companies/:userId', async (req, res, next) => {
+  api.get('/api/companies/:userId', async (req, res, next) => {
     if (req.params.userId === 'me') return next();
-    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-    if (!uuidRegex.test(req.params.userId)) return res.status(400).json({ message: 'invalid company id' });
+    if (!isUuid(req.params.userId)) return res.status(400).json({ message: 'invalid company id' });
     try {
       log(`get company by id invoked (param: ${req.params.userId})`, 'routes');
       const company = await getCompanyProfileByUserId(req.params.userId);
@@ -575,60 +897,133 @@ export async function registerRoutes(
   });
 
   // Admin: list users
-  app.get('/api/admin/users', async (req, res) => {
+  api.get('/api/admin/users', async (req, res) => {
     try {
-      const token = extractToken(req);
-      if (!token) return res.status(401).json({ message: 'not authenticated' });
-      if (!process.env.JWT_SECRET) return res.status(500).json({ message: 'authentication not configured' });
-      const payload = jwt.verify(token, process.env.JWT_SECRET) as any;
-      const role = (payload?.role ?? '').toString().toLowerCase();
-      if (!role.includes('admin')) return res.status(403).json({ message: 'forbidden' });
-
       const users = await storage.listUsers(500);
-      return res.json(users);
+      const withTwoFactor = new Set(await listTwoFactorEnabledUserIds(users.map(user => user.id)));
+      return res.json(users.map(user => ({ ...user, two_factor_enabled: withTwoFactor.has(user.id) })));
     } catch (err: any) {
       log(`admin list users error: ${err?.message ?? String(err)}`, 'routes');
       return res.status(500).json({ message: 'error listing users' });
     }
   });
 
-  // Admin: invite a user (auto-generated password)
-  app.post('/api/admin/invite', async (req, res) => {
+  // Admin: accounts waiting for approval, oldest first, with their company or investor profile
+  api.get('/api/admin/approvals', async (req, res) => {
     try {
-      const token = extractToken(req);
-      if (!token) return res.status(401).json({ message: 'not authenticated' });
-      if (!process.env.JWT_SECRET) return res.status(500).json({ message: 'authentication not configured' });
-      const payload = jwt.verify(token, process.env.JWT_SECRET) as any;
-      const role = (payload?.role ?? '').toString().toLowerCase();
-      if (!role.includes('admin')) return res.status(403).json({ message: 'forbidden' });
+      const pending = await storage.listUsersByApprovalStatus('pending', 200);
+      const applicants = await Promise.all(pending.map(async (user: any) => {
+        const userRole = (user.role ?? '').toString().toLowerCase();
+        let profile: any = null;
+        try {
+          if (userRole.includes('company')) profile = await getCompanyProfileByUserId(user.id);
+          else if (userRole.includes('investor')) profile = await getInvestorProfileByUserId(user.id);
+        } catch (e) {
+          log(`approval profile lookup failed: ${(e as any)?.message ?? String(e)}`, 'routes');
+        }
+        return {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          role: user.role,
+          email_verified: user.email_verified,
+          approval_status: user.approval_status,
+          created_at: user.created_at,
+          profile,
+        };
+      }));
+      return res.json(applicants);
+    } catch (err: any) {
+      log(`admin approvals error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error listing pending accounts' });
+    }
+  });
+
+  // Admin: approve or reject an account (`reason` required to reject) and email the applicant
+  const approvalDecisionHandler = (decision: 'approved' | 'rejected') => async (req: Request, res: Response) => {
+    try {
+      const { reason, error } = validateApprovalDecision(req.body, decision);
+      if (error) return res.status(400).json({ message: error });
+
+      const user = await storage.getUser(req.params.id);
+      if (!user) return res.status(404).json({ message: 'user not found' });
+      if (approvalStatusOf(user as any) === decision) return res.status(409).json({ message: `account is already ${decision}` });
+
+      const updated = await storage.setApprovalStatus(user.id, decision, currentUser(req).id, reason ?? null);
+      if (!updated) return res.status(500).json({ message: 'error updating account approval' });
+
+      try {
+        const email = (user as any).email;
+        if (decision === 'approved') {
+          const origin = (process.env.APP_URL && process.env.APP_URL.trim()) || `${req.protocol}://${req.get('host')}`;
+          await sendEmail(email, 'accountApproved', { loginLink: `${origin.replace(/\/$/, '')}/auth`, note: reason });
+        } else {
+          await sendEmail(email, 'accountRejected', { reason: reason as string });
+        }
+      } catch (e) {
+        log(`approval email send warning: ${(e as any)?.message ?? String(e)}`, 'routes');
+      }
+
+      const { password: _password, ...visible } = updated as any;
+      return res.json(visible);
+    } catch (err: any) {
+      log(`admin approval error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error updating account approval' });
+    }
+  };
+  api.post('/api/admin/users/:id/approve', approvalDecisionHandler('approved'));
+  api.post('/api/admin/users/:id/reject', approvalDecisionHandler('rejected'));
+
+  // Admin: turn off two-factor authentication for a user who lost their app and recovery codes.
+  // Their sessions end and they are emailed; they can set it up again at the next sign-in.
+  api.post('/api/admin/users/:id/2fa/reset', async (req, res) => {
+    try {
+      const admin = currentUser(req);
+      const user = await storage.getUser(req.params.id);
+      if (!user) return res.status(404).json({ message: 'user not found' });
+      if (!(await disableTwoFactor(user.id))) return sendTwoFactorError(res, 'not_enabled');
+
+      // An admin resetting their own stays signed in on this device
+      const revokedSessions = await endUserSessions(user.id, 'two_factor_reset', user.id === admin.id ? admin.sessionId : null);
+      log(`two-factor authentication reset for user: ${user.id} by admin: ${admin.id} (${revokedSessions} session(s) ended)`, 'routes');
+
+      try {
+        const origin = (process.env.APP_URL && process.env.APP_URL.trim()) || `${req.protocol}://${req.get('host')}`;
+        await sendEmail((user as any).email, 'twoFactorReset', { loginLink: `${origin.replace(/\/$/, '')}/auth` });
+      } catch (e) {
+        log(`two-factor reset email warning: ${(e as any)?.message ?? String(e)}`, 'routes');
+      }
+
+      return res.json({ id: user.id, two_factor_enabled: false, revokedSessions });
+    } catch (err: any) {
+      log(`admin two-factor reset error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error resetting two-factor authentication' });
+    }
+  });
 
+  // Admin: invite a user; the email carries a link to choose a password
+  api.post('/api/admin/invite', async (req, res) => {
+    try {
       const { email, name, role: inviteRole } = req.body as { email?: string; name?: string; role?: string };
       if (!email) return res.status(400).json({ message: 'email required' });
 
-      // generate password
-      const generated = crypto.randomBytes(6).toString('base64').replace(/[^a-zA-Z0-9]/g, '').slice(0, 12);
+      // Nobody learns this password: the invitee sets their own through the reset link
+      const unusable = crypto.randomBytes(32).toString('hex');
 
-      const newUser = await storage.createUser({ email, password: generated, name: name ?? undefined, role: inviteRole ?? 'user' });
+      const newUser = await storage.createUser({ email, password: unusable, name: name ?? undefined, role: inviteRole ?? 'user' });
 
-      // mark email verified so invitee can immediately login
+      // mark email verified so invitee can login once the password is set
       await storage.markEmailVerified(newUser.id);
 
       // send invite email
-      if (process.env.SMTP_HOST && process.env.SMTP_USER && process.env.SMTP_PASS) {
-        try {
-          const transporter = nodemailer.createTransport({
-            host: process.env.SMTP_HOST,
-            port: Number(process.env.SMTP_PORT || 587),
-            secure: (process.env.SMTP_SECURE || 'false') === 'true',
-            auth: { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
-          });
-          const from = process.env.SMTP_FROM || 'noreply@localhost';
-          const origin = process.env.APP_URL || `${req.protocol}://${req.get('host')}`;
-          const loginLink = `${origin.replace(/\/$/, '')}/auth`;
-          await transporter.sendMail({ from, to: email, subject: 'You are invited to EIF', html: `<p>Your account has been created. Login at <a href="${loginLink}">${loginLink}</a><br/>Email: ${email}<br/>Password: ${generated}</p>` });
-        } catch (e) {
-          log(`invite email send warning: ${(e as any)?.message ?? String(e)}`, 'routes');
-        }
+      try {
+        const resetToken = await storage.createPasswordResetToken(newUser.id);
+        if (!resetToken) throw new Error('could not create a set-password token');
+        const origin = (process.env.APP_URL && process.env.APP_URL.trim()) || `${req.protocol}://${req.get('host')}`;
+        const setPasswordLink = `${origin.replace(/\/$/, '')}/auth?token=${resetToken.token}`;
+        await sendEmail(email, 'accountInvite', { setPasswordLink, email });
+      } catch (e) {
+        log(`invite email send warning: ${(e as any)?.message ?? String(e)}`, 'routes');
       }
 
       return res.status(201).json({ id: newUser.id, email: newUser.email });
@@ -639,41 +1034,26 @@ export async function registerRoutes(
   });
 
   // Meeting requests
-  app.post('/api/meetings/requests', async (req, res) => {
-    try {
-      let { from_user_id, to_user_id, from_role, to_role, message } = req.body as any;
-      const { proposed_start, proposed_end } = req.body as any;
-      // If from_user_id is not provided, try to infer from JWT token (cookie or Authorization header)
-      if (!from_user_id) {
-        const auth = req.headers.authorization as string | undefined;
-        let token: string | null = null;
-        if (auth && auth.toLowerCase().startsWith('bearer ')) token = auth.split(' ')[1];
-        const cookie = req.headers.cookie as string | undefined;
-        if (!token && cookie) {
-          const m = cookie.split(';').map((s: string) => s.trim()).find((s: string) => s.startsWith('token='));
-          if (m) token = m.split('=')[1];
-        }
-        if (token && process.env.JWT_SECRET) {
-          try {
-            const payload = jwt.verify(token, process.env.JWT_SECRET) as any;
-            from_user_id = payload?.sub ?? from_user_id;
-            if (!from_role) from_role = payload?.role ?? from_role;
-          } catch (e) {
-            // ignore
-          }
-        }
+  api.post('/api/meetings/requests', async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const { from_user_id: claimedFrom, to_user_id, message, proposed_start, proposed_end } = req.body as any;
+      let { to_role } = req.body as any;
+      // Requests are always sent by the caller
+      if (claimedFrom && claimedFrom !== user.id) {
+        return res.status(403).json({ message: 'meeting requests can only be sent on your own behalf' });
       }
+      const from_user_id = user.id;
+      const from_role = (user.role ?? 'investor').toUpperCase();
 
       // Basic validation
       if (!to_user_id) {
         return res.status(400).json({ message: 'to_user_id is required' });
       }
-      if (!from_user_id) {
-        // If we couldn't infer from a token, ask the client to authenticate before posting
-        return res.status(401).json({ message: 'not authenticated - please login to request a meeting' });
+      if (to_user_id === from_user_id) {
+        return res.status(400).json({ message: 'you cannot request a meeting with yourself' });
       }
-      if (!from_role) from_role = from_role ?? 'INVESTOR';
-      if (!to_role) to_role = to_role ?? 'COMPANY';
+      if (!to_role) to_role = from_role === 'COMPANY' ? 'INVESTOR' : 'COMPANY';
 
       const meetingRequest = await createMeetingRequest(from_user_id, to_user_id, from_role, to_role, message);
       // Optionally create a time proposal if proposed times were included
@@ -683,7 +1063,7 @@ export async function registerRoutes(
           const endTime = proposed_end ? new Date(proposed_end).toISOString() : null;
           if (startTime && endTime) {
             try {
-              await createTimeProposal(meetingRequest.id, from_user_id, startTime, endTime, 'UTC');
+              await createTimeProposal(meetingRequest.id, from_user_id, [{ start_time: startTime, end_time: endTime }], 'UTC');
             } catch (e) {
               log(`time proposal creation error: ${(e as any)?.message ?? String(e)}`, 'routes');
             }
@@ -700,31 +1080,13 @@ export async function registerRoutes(
   });
 
   // Event endpoints: record profile view and deck download (for analytics)
-  app.post('/api/events/profile_view', async (req, res) => {
+  api.post('/api/events/profile_view', async (req, res) => {
     try {
-      const { viewer_user_id, target_user_id, metadata } = req.body;
+      const { target_user_id, metadata } = req.body;
       if (!target_user_id) return res.status(400).json({ message: 'target_user_id required' });
-      // If viewer_user_id not provided, try to infer from JWT in Authorization header or cookie
-      let actor = viewer_user_id ?? null;
-      if (!actor) {
-        const auth = req.headers.authorization as string | undefined;
-        let token: string | null = null;
-        if (auth && auth.toLowerCase().startsWith('bearer ')) token = auth.split(' ')[1];
-        const cookie = req.headers.cookie as string | undefined;
-        if (!token && cookie) {
-          const m = cookie.split(';').map(s => s.trim()).find(s => s.startsWith('token='));
-          if (m) token = m.split('=')[1];
-        }
-        if (token && process.env.JWT_SECRET) {
-          try {
-            const payload = jwt.verify(token, process.env.JWT_SECRET) as any;
-            actor = payload?.sub ?? actor;
-          } catch (e) {
-            // ignore token errors, leave actor null
-          }
-        }
-      }
-      const rec = await recordProfileView(actor ?? null, target_user_id, metadata ?? null);
+      // Anonymous visitors are recorded without an actor
+      const actor = req.user?.id ?? null;
+      const rec = await recordProfileView(actor, target_user_id, metadata ?? null);
       return res.status(201).json(rec);
     } catch (err: any) {
       log(`record profile view error: ${err?.message ?? String(err)}`, 'routes');
@@ -732,31 +1094,13 @@ export async function registerRoutes(
     }
   });
 
-  app.post('/api/events/deck_download', async (req, res) => {
+  api.post('/api/events/deck_download', async (req, res) => {
     try {
-      const { downloader_user_id, target_user_id, file_name, metadata } = req.body;
+      const { target_user_id, file_name, metadata } = req.body;
       if (!target_user_id) return res.status(400).json({ message: 'target_user_id required' });
-      // Infer downloader from JWT if not provided
-      let actor = downloader_user_id ?? null;
-      if (!actor) {
-        const auth = req.headers.authorization as string | undefined;
-        let token: string | null = null;
-        if (auth && auth.toLowerCase().startsWith('bearer ')) token = auth.split(' ')[1];
-        const cookie = req.headers.cookie as string | undefined;
-        if (!token && cookie) {
-          const m = cookie.split(';').map(s => s.trim()).find(s => s.startsWith('token='));
-          if (m) token = m.split('=')[1];
-        }
-        if (token && process.env.JWT_SECRET) {
-          try {
-            const payload = jwt.verify(token, process.env.JWT_SECRET) as any;
-            actor = payload?.sub ?? actor;
-          } catch (e) {
-            // ignore
-          }
-        }
-      }
-      const rec = await recordDeckDownload(actor ?? null, target_user_id, file_name ?? null, metadata ?? null);
+      // Anonymous visitors are recorded without an actor
+      const actor = req.user?.id ?? null;
+      const rec = await recordDeckDownload(actor, target_user_id, file_name ?? null, metadata ?? null);
       return res.status(201).json(rec);
     } catch (err: any) {
       log(`record deck download error: ${err?.message ?? String(err)}`, 'routes');
@@ -765,23 +1109,9 @@ export async function registerRoutes(
   });
 
   // Overview metrics for current authenticated company
-  app.get('/api/metrics/company/overview', async (req, res) => {
-    try {
-      // try to extract token from header or cookie
-      const auth = req.headers.authorization as string | undefined;
-      let token: string | null = null;
-      if (auth && auth.toLowerCase().startsWith('bearer ')) token = auth.split(' ')[1];
-      const cookie = req.headers.cookie as string | undefined;
-      if (!token && cookie) {
-        const match = cookie.split(';').map(s => s.trim()).find(s => s.startsWith('token='));
-        if (match) token = match.split('=')[1];
-      }
-      if (!token) return res.status(401).json({ message: 'not authenticated' });
-      const jwtSecret = process.env.JWT_SECRET;
-      if (!jwtSecret) return res.status(500).json({ message: 'authentication not configured' });
-      const payload = jwt.verify(token, jwtSecret) as any;
-      const userId = payload?.sub;
-      if (!userId) return res.status(401).json({ message: 'invalid token' });
+  api.get('/api/metrics/company/overview', async (req, res) => {
+    try {
+      const userId = currentUser(req).id;
 
       const metrics = await getCompanyOverviewMetrics(userId);
       return res.json(metrics);
@@ -792,15 +1122,9 @@ export async function registerRoutes(
   });
 
   // Overview metrics for current authenticated investor
-  app.get('/api/metrics/investor/overview', async (req, res) => {
+  api.get('/api/metrics/investor/overview', async (req, res) => {
     try {
-      const token = extractToken(req);
-      if (!token) return res.status(401).json({ message: 'not authenticated' });
-      const jwtSecret = process.env.JWT_SECRET;
-      if (!jwtSecret) return res.status(500).json({ message: 'authentication not configured' });
-      const payload = jwt.verify(token, jwtSecret) as any;
-      const userId = payload?.sub;
-      if (!userId) return res.status(401).json({ message: 'invalid token' });
+      const userId = currentUser(req).id;
 
       const metrics = await getInvestorOverviewMetrics(userId);
       return res.json(metrics);
@@ -811,17 +1135,13 @@ export async function registerRoutes(
   });
 
   // Get recommended companies for the current investor
-  app.get('/api/investors/me/recommendations', async (req, res) => {
+  api.get('/api/investors/me/recommendations', async (req, res) => {
     try {
-      const token = extractToken(req);
-      if (!token) return res.status(401).json({ message: 'not authenticated' });
-      const jwtSecret = process.env.JWT_SECRET;
-      if (!jwtSecret) return res.status(500).json({ message: 'authentication not configured' });
-      const payload = jwt.verify(token, jwtSecret) as any;
-      const userId = payload?.sub;
-      if (!userId) return res.status(401).json({ message: 'invalid token' });
+      const userId = currentUser(req).id;
 
-      const companies = await getRecommendedCompanies(userId);
+      const requested = typeof req.query.limit === 'string' ? parseInt(req.query.limit, 10) : 4;
+      const limit = Math.min(50, Math.max(1, Number.isNaN(requested) ? 4 : requested));
+      const companies = await getRecommendedCompanies(userId, limit);
       return res.json(companies);
     } catch (err: any) {
       log(`get recommendations error: ${err?.message ?? String(err)}`, 'routes');
@@ -829,16 +1149,68 @@ export async function registerRoutes(
     }
   });
 
+  // Saved companies (watchlist) for the current investor, with current match scores
+  api.get('/api/investors/me/favorites', async (req, res) => {
+    try {
+      const userId = currentUser(req).id;
+
+      const companies = await listFavoriteCompaniesForUser(userId);
+      return res.json(companies);
+    } catch (err: any) {
+      log(`list favorites error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error listing favorites' });
+    }
+  });
+
+  // Save a company to the current investor's watchlist (idempotent)
+  api.post('/api/investors/me/favorites/:companyUserId', async (req, res) => {
+    try {
+      const userId = currentUser(req).id;
+
+      const companyUserId = req.params.companyUserId;
+      const company = await getCompanyProfileByUserId(companyUserId);
+      if (!company) return res.status(404).json({ message: 'company not found' });
+
+      const { favorite, created } = await addFavorite(userId, companyUserId);
+
+      if (created) {
+        try {
+          const investor = await getInvestorProfileByUserId(userId);
+          const investorName = investor?.firm ?? investor?.name ?? 'An investor';
+          await createNotification(companyUserId, 'company_favorited', {
+            title: 'Your company was saved',
+            message: `${investorName} added ${company.company_name ?? company.name ?? 'your company'} to their watchlist`,
+            investor_user_id: userId,
+          });
+        } catch (e) {
+          log(`favorite notification failed: ${(e as any)?.message ?? String(e)}`, 'routes');
+        }
+      }
+
+      return res.status(created ? 201 : 200).json(favorite);
+    } catch (err: any) {
+      log(`add favorite error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error saving company' });
+    }
+  });
+
+  // Remove a company from the current investor's watchlist
+  api.delete('/api/investors/me/favorites/:companyUserId', async (req, res) => {
+    try {
+      const userId = currentUser(req).id;
+
+      const removed = await removeFavorite(userId, req.params.companyUserId);
+      return res.json({ removed: removed.length > 0 });
+    } catch (err: any) {
+      log(`remove favorite error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error removing saved company' });
+    }
+  });
+
   // Get upcoming meetings for the current investor
-  app.get('/api/investors/me/meetings', async (req, res) => {
+  api.get('/api/investors/me/meetings', async (req, res) => {
     try {
-      const token = extractToken(req);
-      if (!token) return res.status(401).json({ message: 'not authenticated' });
-      const jwtSecret = process.env.JWT_SECRET;
-      if (!jwtSecret) return res.status(500).json({ message: 'authentication not configured' });
-      const payload = jwt.verify(token, jwtSecret) as any;
-      const userId = payload?.sub;
-      if (!userId) return res.status(401).json({ message: 'invalid token' });
+      const userId = currentUser(req).id;
 
       const meetings = await getUpcomingMeetings(userId);
       return res.json(meetings);
@@ -848,10 +1220,16 @@ export async function registerRoutes(
     }
   });
 
-  app.get('/api/meetings/requests/:userId', async (req, res) => {
+  api.get('/api/meetings/requests/:userId', async (req, res) => {
     try {
       const requests = await listMeetingRequestsForUser(req.params.userId);
-      return res.json(requests ?? []);
+      // Each side's timezone so pages can show the other participant's local time too
+      const zones = await getUserTimezones((requests ?? []).flatMap((r: any) => [r.from_user_id, r.to_user_id]));
+      return res.json((requests ?? []).map((r: any) => ({
+        ...r,
+        from_timezone: zones[r.from_user_id] ?? 'UTC',
+        to_timezone: zones[r.to_user_id] ?? 'UTC',
+      })));
     } catch (err: any) {
       log(`list meeting requests error: ${err?.message ?? String(err)}`, 'routes');
       return res.status(500).json({ message: 'error listing meeting requests' });
@@ -859,15 +1237,9 @@ export async function registerRoutes(
   });
 
   // List notifications for current authenticated user
-  app.get('/api/notifications', async (req, res) => {
+  api.get('/api/notifications', async (req, res) => {
     try {
-      const token = extractToken(req);
-      if (!token) return res.status(401).json({ message: 'not authenticated' });
-      const jwtSecret = process.env.JWT_SECRET;
-      if (!jwtSecret) return res.status(500).json({ message: 'authentication not configured' });
-      const payload = jwt.verify(token, jwtSecret) as any;
-      const userId = payload?.sub;
-      if (!userId) return res.status(401).json({ message: 'invalid token' });
+      const userId = currentUser(req).id;
 
       const limit = typeof req.query.limit === 'string' ? parseInt(req.query.limit, 10) : 20;
       const offset = typeof req.query.offset === 'string' ? parseInt(req.query.offset, 10) : 0;
@@ -880,15 +1252,9 @@ export async function registerRoutes(
   });
 
   // Mark a notification as read
-  app.patch('/api/notifications/:id/read', async (req, res) => {
+  api.patch('/api/notifications/:id/read', async (req, res) => {
     try {
-      const token = extractToken(req);
-      if (!token) return res.status(401).json({ message: 'not authenticated' });
-      const jwtSecret = process.env.JWT_SECRET;
-      if (!jwtSecret) return res.status(500).json({ message: 'authentication not configured' });
-      const payload = jwt.verify(token, jwtSecret) as any;
-      const userId = payload?.sub;
-      if (!userId) return res.status(401).json({ message: 'invalid token' });
+      const userId = currentUser(req).id;
 
       const notificationId = req.params.id;
       const updated = await markNotificationAsRead(notificationId, userId);
@@ -900,15 +1266,9 @@ export async function registerRoutes(
   });
 
   // Mark all notifications for current user as read
-  app.post('/api/notifications/mark-all-read', async (req, res) => {
+  api.post('/api/notifications/mark-all-read', async (req, res) => {
     try {
-      const token = extractToken(req);
-      if (!token) return res.status(401).json({ message: 'not authenticated' });
-      const jwtSecret = process.env.JWT_SECRET;
-      if (!jwtSecret) return res.status(500).json({ message: 'authentication not configured' });
-      const payload = jwt.verify(token, jwtSecret) as any;
-      const userId = payload?.sub;
-      if (!userId) return res.status(401).json({ message: 'invalid token' });
+      const userId = currentUser(req).id;
 
       const updated = await markAllNotificationsRead(userId);
       return res.json({ updatedCount: updated.length });
@@ -919,15 +1279,9 @@ export async function registerRoutes(
   });
 
   // Set a notification read/unread state (body: { is_read: boolean })
-  app.patch('/api/notifications/:id', async (req, res) => {
+  api.patch('/api/notifications/:id', async (req, res) => {
     try {
-      const token = extractToken(req);
-      if (!token) return res.status(401).json({ message: 'not authenticated' });
-      const jwtSecret = process.env.JWT_SECRET;
-      if (!jwtSecret) return res.status(500).json({ message: 'authentication not configured' });
-      const payload = jwt.verify(token, jwtSecret) as any;
-      const userId = payload?.sub;
-      if (!userId) return res.status(401).json({ message: 'invalid token' });
+      const userId = currentUser(req).id;
 
       const notificationId = req.params.id;
       const updates = req.body as Record<string, any>;
@@ -941,15 +1295,9 @@ export async function registerRoutes(
   });
 
   // Delete a notification
-  app.delete('/api/notifications/:id', async (req, res) => {
+  api.delete('/api/notifications/:id', async (req, res) => {
     try {
-      const token = extractToken(req);
-      if (!token) return res.status(401).json({ message: 'not authenticated' });
-      const jwtSecret = process.env.JWT_SECRET;
-      if (!jwtSecret) return res.status(500).json({ message: 'authentication not configured' });
-      const payload = jwt.verify(token, jwtSecret) as any;
-      const userId = payload?.sub;
-      if (!userId) return res.status(401).json({ message: 'invalid token' });
+      const userId = currentUser(req).id;
 
       const notificationId = req.params.id;
       const deleted = await deleteNotification(notificationId, userId);
@@ -960,149 +1308,237 @@ export async function registerRoutes(
     }
   });
 
-  // Update a meeting request (accept/decline/cancel)
-  app.patch('/api/meetings/requests/:id', async (req, res) => {
-    try {
-      const token = extractToken(req);
-      if (!token) return res.status(401).json({ message: 'not authenticated' });
-      const jwtSecret = process.env.JWT_SECRET;
-      if (!jwtSecret) return res.status(500).json({ message: 'authentication not configured' });
-      const payload = jwt.verify(token, jwtSecret) as any;
-      const userId = payload?.sub;
-      if (!userId) return res.status(401).json({ message: 'invalid token' });
-
-      const meetingId = req.params.id;
-      const updates = req.body as Record<string, any>;
+  // Direct messages
+  // Messaging is only available between users that share at least one meeting request.
 
-      const meeting = await getMeetingRequestById(meetingId);
-      if (!meeting) return res.status(404).json({ message: 'meeting not found' });
+  // Send a message (body: { to_user_id, content })
+  api.post('/api/messages', async (req, res) => {
+    try {
+      const userId = currentUser(req).id;
 
-      // Only participants may update meeting details generally
-      if (meeting.from_user_id !== userId && meeting.to_user_id !== userId) {
-        return res.status(403).json({ message: 'forbidden' });
-      }
+      const { to_user_id, content } = req.body as { to_user_id?: string; content?: string };
+      const text = typeof content === 'string' ? content.trim() : '';
+      if (!to_user_id) return res.status(400).json({ message: 'to_user_id is required' });
+      if (!isUuid(to_user_id)) return res.status(400).json({ message: 'invalid to_user_id' });
+      if (!text) return res.status(400).json({ message: 'content is required' });
+      if (text.length > 5000) return res.status(400).json({ message: 'content must be at most 5000 characters' });
+      if (to_user_id === userId) return res.status(400).json({ message: 'cannot message yourself' });
 
-      // Enforce role-based status updates:
-      // - Only the recipient (`to_user_id`) may accept or decline (CONFIRMED / DECLINED)
-      // - Only the requester (`from_user_id`) may cancel the request (CANCELLED)
-      if (updates && typeof updates.status === 'string') {
-        const s = updates.status.toString().toUpperCase();
-        if ((s === 'CONFIRMED' || s === 'DECLINED') && userId !== meeting.to_user_id) {
-          return res.status(403).json({ message: 'only the recipient may accept or decline this meeting' });
-        }
-        if (s === 'CANCELLED' && userId !== meeting.from_user_id) {
-          return res.status(403).json({ message: 'only the requester may cancel this meeting' });
-        }
-      }
+      const relation = await findMeetingRequestByParticipants(userId, to_user_id);
+      if (!relation) return res.status(403).json({ message: 'messaging requires an existing meeting request with this user' });
 
-      // Allowed status transitions are handled by business logic on the client.
-      const updated = await updateMeetingRequest(meetingId, updates);
+      const message = await createMessage(userId, to_user_id, text);
 
-      // If this update confirms the meeting and the client provided start/end times,
-      // attempt to create a Google Meet event (if configured) and persist a meeting record.
       try {
-        if ((updates.status || '').toString().toUpperCase() === 'CONFIRMED' && updates.start_time && updates.end_time) {
-          const start = new Date(updates.start_time).toISOString();
-          const end = new Date(updates.end_time).toISOString();
-
-          let meetUrl: string | undefined;
-          // If Google service account configured, create a calendar event to get a Meet URL
-          if (process.env.GOOGLE_SERVICE_ACCOUNT_JSON && process.env.GOOGLE_CALENDAR_ID) {
-            try {
-              const reqRow = await getMeetingRequestById(meetingId);
-              const attendees: string[] = [];
-              if (reqRow?.from_user_id) {
-                const u = await storage.getUser(reqRow.from_user_id);
-                if (u?.email) attendees.push(u.email);
-              }
-              if (reqRow?.to_user_id) {
-                const u2 = await storage.getUser(reqRow.to_user_id);
-                if (u2?.email) attendees.push(u2.email);
-              }
-
-              const ev = await createGoogleMeetEvent({ summary: 'EIF Meeting', description: reqRow?.message ?? '', start, end, attendees });
-              meetUrl = ev?.meetUrl ?? ev?.htmlLink;
-            } catch (e) {
-              log(`google calendar create event failed: ${(e as any)?.message ?? String(e)}`, 'routes');
-            }
-          }
-
-          // Persist meeting in our DB (will throw if required fields missing)
-          try {
-            const meetingRec = await createMeetingFromRequest(meetingId, start, end, updates.timezone ?? 'UTC', meetUrl ? 'google_meet' : (updates.location_type ?? null), meetUrl ?? updates.location_url ?? null);
-            // include meeting record in response
-            return res.json({ meetingRequest: updated, meeting: meetingRec });
-          } catch (e) {
-            log(`persist meeting record failed: ${(e as any)?.message ?? String(e)}`, 'routes');
-          }
-        }
+        const sender = await storage.getUser(userId);
+        const senderName = (sender as any)?.name ?? (sender as any)?.email ?? 'Someone';
+        const preview = text.length > 120 ? `${text.slice(0, 117)}...` : text;
+        await createNotification(to_user_id, 'message_received', {
+          title: `New message from ${senderName}`,
+          message: preview,
+          from_user_id: userId,
+          message_id: message?.id,
+        });
       } catch (e) {
-        log(`post-confirm hooks error: ${(e as any)?.message ?? String(e)}`, 'routes');
+        log(`message notification failed: ${(e as any)?.message ?? String(e)}`, 'routes');
       }
 
-      return res.json(updated);
+      return res.status(201).json(message);
     } catch (err: any) {
-      log(`update meeting request error: ${err?.message ?? String(err)}`, 'routes');
-      return res.status(500).json({ message: 'error updating meeting request' });
+      log(`send message error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error sending message' });
     }
   });
 
-  // Create a time proposal (reschedule request) for an existing meeting request
-  app.post('/api/meetings/requests/:id/proposals', async (req, res) => {
+  // List conversations for current user (last message + unread count per counterpart)
+  api.get('/api/messages/conversations', async (req, res) => {
     try {
-      const token = extractToken(req);
-      if (!token) return res.status(401).json({ message: 'not authenticated' });
-      const jwtSecret = process.env.JWT_SECRET;
-      if (!jwtSecret) return res.status(500).json({ message: 'authentication not configured' });
-      const payload = jwt.verify(token, jwtSecret) as any;
-      const userId = payload?.sub;
-      if (!userId) return res.status(401).json({ message: 'invalid token' });
-
-      const meetingId = req.params.id;
-      const { start_time, end_time, timezone } = req.body as { start_time?: string; end_time?: string; timezone?: string };
-      if (!start_time || !end_time) return res.status(400).json({ message: 'start_time and end_time required' });
+      const userId = currentUser(req).id;
+
+      const conversations = await listConversationsForUser(userId);
+      const items = await Promise.all(conversations.map(async (c) => {
+        const other = await storage.getUser(c.other_user_id);
+        const o = other as any;
+        return {
+          ...c,
+          user: o ? { id: o.id, name: o.name, email: o.email, role: o.role } : { id: c.other_user_id },
+        };
+      }));
+      return res.json(items);
+    } catch (err: any) {
+      log(`list conversations error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error listing conversations' });
+    }
+  });
+
+  // Fetch a conversation thread, newest page first (query: before=<created_at>|<id> cursor, limit)
+  api.get('/api/messages/:userId', async (req, res) => {
+    try {
+      const userId = currentUser(req).id;
+
+      const otherUserId = req.params.userId;
+      const requested = typeof req.query.limit === 'string' ? parseInt(req.query.limit, 10) : 50;
+      const limit = Math.min(200, Math.max(1, Number.isNaN(requested) ? 50 : requested));
+      // The cursor is `<created_at>|<id>`; a bare timestamp is still accepted from older clients
+      const cursor = typeof req.query.before === 'string' && req.query.before ? req.query.before : null;
+      const [before, beforeId] = cursor ? cursor.split('|') : [null, undefined];
+      if (before !== null && Number.isNaN(new Date(before).getTime())) {
+        return res.status(400).json({ message: 'invalid cursor' });
+      }
+      if (beforeId !== undefined && !isUuid(beforeId)) return res.status(400).json({ message: 'invalid cursor' });
+
+      const items = await listMessagesBetweenUsers(userId, otherUserId, limit, before, beforeId);
+      // A full page means there may be older messages: the oldest message is the next cursor
+      const nextCursor = items.length === limit ? `${items[0].created_at}|${items[0].id}` : null;
+      return res.json({ items, nextCursor });
+    } catch (err: any) {
+      log(`get message thread error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error fetching messages' });
+    }
+  });
+
+  // Mark all messages from a user as read
+  api.post('/api/messages/:userId/read', async (req, res) => {
+    try {
+      const userId = currentUser(req).id;
+
+      const updated = await markMessagesRead(userId, req.params.userId);
+      return res.json({ updatedCount: updated.length });
+    } catch (err: any) {
+      log(`mark messages read error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error marking messages read' });
+    }
+  });
+
+  // Update a meeting request: a status transition (see server/lib/meetingRequestStates.ts) and/or
+  // the requester's message. Illegal changes are rejected with `{ message, code }`.
+  api.patch('/api/meetings/requests/:id', async (req, res) => {
+    try {
+      const userId = currentUser(req).id;
+
+      const meetingId = req.params.id;
+      const updates = (req.body ?? {}) as Record<string, any>;
+      const { status: newStatus, fields = {}, error } = validateMeetingRequestUpdate(updates);
+      if (error) return res.status(error.status).json({ message: error.message, code: error.code });
 
       const meeting = await getMeetingRequestById(meetingId);
       if (!meeting) return res.status(404).json({ message: 'meeting not found' });
 
-      // Only participants may propose new times
-      if (meeting.from_user_id !== userId && meeting.to_user_id !== userId) return res.status(403).json({ message: 'forbidden' });
+      if (fields.message !== undefined && userId !== meeting.from_user_id) {
+        return res.status(403).json({ message: 'only the requester may edit the message', code: 'field_not_updatable' });
+      }
 
-      const start = new Date(start_time).toISOString();
-      const end = new Date(end_time).toISOString();
+      if (!newStatus) {
+        const updated = Object.keys(fields).length > 0 ? await updateMeetingRequest(meetingId, fields) : meeting;
+        return res.json(updated);
+      }
 
-      const proposal = await createTimeProposal(meetingId, userId, start, end, timezone ?? 'UTC');
+      // Who may make which transition: only the recipient accepts or declines, only the requester cancels
+      const rejected = checkTransition(meeting, newStatus, userId);
+      if (rejected) return res.status(rejected.status).json({ message: rejected.message, code: rejected.code });
+      if (AFTER_MEETING_STATUSES.includes(newStatus)) {
+        const current = await getCurrentMeetingForRequest(meetingId);
+        if (!current || new Date(current.start_time).getTime() > Date.now()) {
+          return res.status(409).json({ message: `a meeting can only be marked ${newStatus} once it has started`, code: 'meeting_not_started' });
+        }
+      }
 
-      // Notify the other participant
-      const otherUserId = meeting.from_user_id === userId ? meeting.to_user_id : meeting.from_user_id;
-      try {
-        await createNotification(otherUserId, 'meeting_reschedule_requested', { meeting_request_id: meetingId, proposal_id: proposal.id, start, end });
-
-        // Try to email the recipient if possible
-        const recipient = await storage.getUser(otherUserId);
-        if (recipient?.email && process.env.SMTP_HOST && process.env.SMTP_USER && process.env.SMTP_PASS) {
-          try {
-            const transporter = nodemailer.createTransport({
-              host: process.env.SMTP_HOST,
-              port: Number(process.env.SMTP_PORT || 587),
-              secure: (process.env.SMTP_SECURE || 'false') === 'true',
-              auth: { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
-            });
-            const from = process.env.SMTP_FROM || 'noreply@localhost';
-            const origin = (process.env.APP_URL && process.env.APP_URL.trim()) || `${req.protocol}://${req.get('host')}`;
-            const acceptUrl = `${origin.replace(/\/$/, '')}/dashboard/meetings?proposal=${proposal.id}&action=accept`;
-            const declineUrl = `${origin.replace(/\/$/, '')}/dashboard/meetings?proposal=${proposal.id}&action=decline`;
-            const html = `<p>The meeting has a new reschedule proposal for <strong>${new Date(start).toLocaleString()}</strong> to <strong>${new Date(end).toLocaleString()}</strong>.</p>
-              <p><a href="${acceptUrl}">Accept</a> | <a href="${declineUrl}">Decline</a></p>`;
-            await transporter.sendMail({ from, to: recipient.email, subject: 'Meeting reschedule requested', html });
-          } catch (e) {
-            log(`reschedule email send failed: ${(e as any)?.message ?? String(e)}`, 'routes');
+      // Times that come with a confirmation are checked before the request is confirmed
+      let confirmedTimes: { start: string; end: string } | null = null;
+      if (newStatus === 'CONFIRMED' && (updates.start_time || updates.end_time)) {
+        const start = new Date(updates.start_time);
+        const end = new Date(updates.end_time);
+        if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+          return res.status(400).json({ message: 'start_time and end_time must both be valid dates' });
+        }
+        if (end.getTime() <= start.getTime()) return res.status(400).json({ message: 'end_time must be after start_time' });
+        confirmedTimes = { start: start.toISOString(), end: end.toISOString() };
+      }
+
+      const reason = typeof updates.reason === 'string' ? updates.reason.slice(0, 500) : null;
+      const updated = await transitionMeetingRequest(meetingId, meeting.status, newStatus, userId, { reason, updates: fields });
+      if (!updated) {
+        return res.status(409).json({ message: 'the meeting request was changed by someone else; reload and try again', code: 'status_conflict' });
+      }
+
+      // A cancelled or declined request cancels its meetings (calendar feeds then publish STATUS:CANCELLED)
+      if (newStatus === 'CANCELLED' || newStatus === 'DECLINED') {
+        try {
+          const cancelled = await cancelMeetingsForRequest(meetingId);
+          for (const m of cancelled) {
+            if (new Date(m.end_time).getTime() > Date.now()) {
+              await calendarSync.deleteEvents(m);
+              await sendMeetingInvites(m, 'CANCEL');
+            }
           }
+        } catch (e) {
+          log(`cancel meetings for request failed: ${(e as any)?.message ?? String(e)}`, 'routes');
+        }
+      }
+
+      // If this update confirms the meeting and the client provided start/end times, persist a
+      // meeting record (with a Google Meet event if configured) and send the invitations.
+      if (confirmedTimes) {
+        try {
+          // The confirming user's own timezone unless they picked another one for this meeting
+          const zone = normalizeTimeZone(updates.timezone, (await getUserTimezones([userId]))[userId]);
+          const meetingRec = await confirmMeetingTime(meetingId, confirmedTimes.start, confirmedTimes.end, zone, { location_type: updates.location_type, location_url: updates.location_url });
+          // include meeting record in response
+          return res.json({ meetingRequest: updated, meeting: meetingRec });
+        } catch (e) {
+          log(`persist meeting record failed: ${(e as any)?.message ?? String(e)}`, 'routes');
         }
-      } catch (e) {
-        log(`reschedule notification failed: ${(e as any)?.message ?? String(e)}`, 'routes');
       }
 
+      return res.json(updated);
+    } catch (err: any) {
+      log(`update meeting request error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error updating meeting request' });
+    }
+  });
+
+  // Audit trail of a meeting request's status changes (participants and admins)
+  api.get('/api/meetings/requests/:id/transitions', async (req, res) => {
+    try {
+      const meeting = await getMeetingRequestById(req.params.id);
+      if (!meeting) return res.status(404).json({ message: 'meeting not found' });
+
+      return res.json(await listMeetingRequestTransitions(meeting.id));
+    } catch (err: any) {
+      log(`list meeting request transitions error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error listing meeting request transitions' });
+    }
+  });
+
+  // Create a time proposal (reschedule request) with one or more ranked candidate slots
+  api.post('/api/meetings/requests/:id/proposals', async (req, res) => {
+    try {
+      const userId = currentUser(req).id;
+
+      const meetingId = req.params.id;
+      const { timezone } = req.body as { timezone?: string };
+      const { slots, error } = validateProposalSlots(req.body);
+      if (!slots) return res.status(400).json({ message: error });
+      if (timezone && !normalizeTimeZone(timezone, '')) return res.status(400).json({ message: 'timezone must be an IANA timezone such as Europe/Berlin' });
+
+      const meeting = await getMeetingRequestById(meetingId);
+      if (!meeting) return res.status(404).json({ message: 'meeting not found' });
+
+      // New times for a pending request are part of the negotiation; a confirmed one starts rescheduling
+      const status = currentStatus(meeting);
+      if (status !== 'PENDING' && status !== 'RESCHEDULING') {
+        const rejected = checkTransition(meeting, 'RESCHEDULING');
+        if (rejected) return res.status(rejected.status).json({ message: rejected.message, code: rejected.code });
+        if (!(await transitionMeetingRequest(meetingId, meeting.status, 'RESCHEDULING', userId, { reason: 'new times proposed' }))) {
+          return res.status(409).json({ message: 'the meeting request was changed by someone else; reload and try again', code: 'status_conflict' });
+        }
+      }
+
+      const otherUserId = meeting.from_user_id === userId ? meeting.to_user_id : meeting.from_user_id;
+      const zones = await getUserTimezones([userId]);
+      const proposal = await createTimeProposal(meetingId, userId, slots, normalizeTimeZone(timezone, zones[userId]));
+      await notifyProposal(req, proposal, otherUserId, 'meeting_reschedule_requested');
+
       return res.status(201).json(proposal);
     } catch (err: any) {
       log(`create time proposal error: ${err?.message ?? String(err)}`, 'routes');
@@ -1110,78 +1546,452 @@ export async function registerRoutes(
     }
   });
 
+  // Counter a pending proposal with the other participant's own set of slots
+  api.post('/api/meetings/requests/:id/proposals/:proposalId/counter', async (req, res) => {
+    try {
+      const userId = currentUser(req).id;
+
+      const meetingId = req.params.id;
+      const proposalId = req.params.proposalId;
+      const { timezone } = req.body as { timezone?: string };
+      const { slots, error } = validateProposalSlots(req.body);
+      if (!slots) return res.status(400).json({ message: error });
+      if (timezone && !normalizeTimeZone(timezone, '')) return res.status(400).json({ message: 'timezone must be an IANA timezone such as Europe/Berlin' });
+
+      const proposal = await getTimeProposalById(proposalId);
+      if (!proposal || proposal.meeting_request_id !== meetingId) return res.status(404).json({ message: 'proposal not found' });
+      const meeting = await getMeetingRequestById(meetingId);
+      if (!meeting) return res.status(404).json({ message: 'meeting not found' });
+
+      // Only the other participant may counter
+      if (proposal.proposed_by_user_id === userId) return res.status(403).json({ message: 'proposer cannot counter their own proposal' });
+      const closed = await closedProposalMessage(proposal);
+      if (closed) return res.status(409).json({ message: closed });
+
+      await updateTimeProposalStatus(proposalId, 'COUNTERED');
+      const zones = await getUserTimezones([userId]);
+      const counter = await createTimeProposal(meetingId, userId, slots, normalizeTimeZone(timezone, zones[userId]), proposalId);
+      await notifyProposal(req, counter, proposal.proposed_by_user_id, 'meeting_reschedule_countered');
+
+      return res.status(201).json(counter);
+    } catch (err: any) {
+      log(`counter proposal error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error countering proposal' });
+    }
+  });
+
   // List upcoming confirmed meeting records for current user
-  app.get('/api/users/me/meetings', async (req, res) => {
+  api.get('/api/users/me/meetings', async (req, res) => {
     try {
-      const token = extractToken(req);
-      if (!token) return res.status(401).json({ message: 'not authenticated' });
-      const jwtSecret = process.env.JWT_SECRET;
-      if (!jwtSecret) return res.status(500).json({ message: 'authentication not configured' });
-      const payload = jwt.verify(token, jwtSecret) as any;
-      const userId = payload?.sub;
-      if (!userId) return res.status(401).json({ message: 'invalid token' });
+      const userId = currentUser(req).id;
 
       const meetings = await listMeetingsForUser(userId, 200);
-      return res.json(meetings);
+      const zones = await getUserTimezones(meetings.flatMap((m: any) => [m.participant_a_id, m.participant_b_id]));
+      return res.json(meetings.map((m: any) => ({
+        ...m,
+        participant_a_timezone: zones[m.participant_a_id] ?? 'UTC',
+        participant_b_timezone: zones[m.participant_b_id] ?? 'UTC',
+      })));
     } catch (err: any) {
       log(`list user meetings error: ${err?.message ?? String(err)}`, 'routes');
       return res.status(500).json({ message: 'error listing meetings' });
     }
   });
 
-  // Accept a time proposal
-  app.post('/api/meetings/requests/:id/proposals/:proposalId/accept', async (req, res) => {
+  // Calendar event for a meeting as seen by one participant
+  async function meetingToCalendarEvent(meeting: any, viewerId: string): Promise<CalendarEvent> {
+    const otherId = meeting.participant_a_id === viewerId ? meeting.participant_b_id : meeting.participant_a_id;
+    const [viewer, other] = await Promise.all([storage.getUser(viewerId), otherId ? storage.getUser(otherId) : undefined]);
+    const otherName = (other as any)?.name ?? (other as any)?.email ?? 'EIF participant';
+    const attendees = [viewer, other]
+      .filter((u: any) => u?.email)
+      .map((u: any) => ({ email: u.email, name: u.name ?? null }));
+    return {
+      uid: meetingUid(meeting),
+      start: meeting.start_time,
+      end: meeting.end_time,
+      summary: `Meeting with ${otherName}`,
+      description: meeting.location_url ? `Join: ${meeting.location_url}` : 'Scheduled through the EIF portal.',
+      location: meeting.location_url ?? meeting.location_type ?? null,
+      url: meeting.location_url ?? null,
+      status: (meeting.status ?? 'CONFIRMED').toUpperCase() === 'CANCELLED' ? 'CANCELLED' : 'CONFIRMED',
+      sequence: Number(meeting.sequence ?? 0),
+      updatedAt: meeting.updated_at ?? meeting.created_at ?? null,
+      attendees,
+    };
+  }
+
+  function calendarFeedUrls(req: any, token: string) {
+    const origin = (process.env.APP_URL && process.env.APP_URL.trim()) || `${req.protocol}://${req.get('host')}`;
+    const url = `${origin.replace(/\/$/, '')}/api/calendar/feed/${token}.ics`;
+    return { url, webcalUrl: url.replace(/^https?:/, 'webcal:') };
+  }
+
+  // Persist the meeting for a confirmed request: replaces the request's current meeting (its
+  // external events move), creates a Google Meet event when the service account is configured
+  // and sends the invitations. Shared by confirmation and self-service booking.
+  async function confirmMeetingTime(meetingId: string, start: string, end: string, zone: string, location: { location_type?: string | null; location_url?: string | null } = {}) {
+    // Confirming again with new times replaces the current meeting; its external events move
+    let superseded: any[] = [];
+    try {
+      superseded = await cancelMeetingsForRequest(meetingId);
+    } catch (e) {
+      log(`cancel superseded meetings failed: ${(e as any)?.message ?? String(e)}`, 'routes');
+    }
+    const keptLocation = superseded.find(m => m.location_url);
+
+    let meetUrl: string | undefined;
+    const externalEvents: ExternalEventRef[] = [];
+    // If Google service account configured, create a calendar event to get a Meet URL
+    if (!keptLocation && process.env.GOOGLE_SERVICE_ACCOUNT_JSON && process.env.GOOGLE_CALENDAR_ID) {
+      try {
+        const reqRow = await getMeetingRequestById(meetingId);
+        const attendees: string[] = [];
+        if (reqRow?.from_user_id) {
+          const u = await storage.getUser(reqRow.from_user_id);
+          if (u?.email) attendees.push(u.email);
+        }
+        if (reqRow?.to_user_id) {
+          const u2 = await storage.getUser(reqRow.to_user_id);
+          if (u2?.email) attendees.push(u2.email);
+        }
+
+        const ev = await createGoogleMeetEvent({ summary: 'EIF Meeting', description: reqRow?.message ?? '', start, end, attendees });
+        meetUrl = ev?.meetUrl ?? ev?.htmlLink;
+        if (ev?.eventId) externalEvents.push({ owner: SERVICE_CALENDAR_OWNER, eventId: ev.eventId });
+      } catch (e) {
+        log(`google calendar create event failed: ${(e as any)?.message ?? String(e)}`, 'routes');
+      }
+    }
+
+    // Persist meeting in our DB (will throw if required fields missing)
+    const locationType = meetUrl ? 'google_meet' : (location.location_type ?? keptLocation?.location_type ?? null);
+    const locationUrl = meetUrl ?? location.location_url ?? keptLocation?.location_url ?? null;
+    let meetingRec = await createMeetingFromRequest(meetingId, start, end, zone, locationType, locationUrl);
+    meetingRec = await calendarSync.attachEvents(meetingRec, externalEvents);
+    meetingRec = await calendarSync.moveEvents(superseded, meetingRec);
+    await sendMeetingInvites(meetingRec, 'REQUEST');
+    return meetingRec;
+  }
+
+  // Email each participant a calendar invitation (REQUEST) or cancellation (CANCEL) for a meeting row
+  async function sendMeetingInvites(meeting: any, method: InviteMethod) {
+    const participantIds = [meeting.participant_a_id, meeting.participant_b_id];
+    let zones: Record<string, string> = {};
+    try {
+      zones = await getUserTimezones(participantIds);
+    } catch (e) {
+      log(`meeting invite timezones failed: ${(e as any)?.message ?? String(e)}`, 'routes');
+    }
+    // Replies to the invitation go to the mailbox it was sent from
+    const organizer = inviteOrganizer(senderAddress(await getPlatformSettings()));
+    for (const participantId of participantIds) {
+      try {
+        const participant = participantId ? await storage.getUser(participantId) : undefined;
+        if (!participant?.email) continue;
+        const event = { ...(await meetingToCalendarEvent(meeting, participantId)), organizer };
+        // Each participant reads the time in their own timezone, with the other side's alongside
+        const otherId = participantId === meeting.participant_a_id ? meeting.participant_b_id : meeting.participant_a_id;
+        const timezone = zones[participantId] ?? normalizeTimeZone(meeting.timezone);
+        await sendEmail(participant.email, 'meetingInvite', { event, method, timezone, otherTimezone: zones[otherId] });
+      } catch (e) {
+        log(`meeting invite (${method}) to ${participantId} failed: ${(e as any)?.message ?? String(e)}`, 'routes');
+      }
+    }
+  }
+
+  // Tell the other participant about a new proposal or counter-proposal, in-app and by email
+  async function notifyProposal(req: Request, proposal: any, recipientId: string, type: 'meeting_reschedule_requested' | 'meeting_reschedule_countered') {
+    const slots = proposalSlots(proposal);
+    try {
+      await createNotification(recipientId, type, {
+        meeting_request_id: proposal.meeting_request_id,
+        proposal_id: proposal.id,
+        start: slots[0].start_time,
+        end: slots[0].end_time,
+        slots,
+        expires_at: proposal.expires_at,
+      });
+
+      // Try to email the recipient if possible
+      const recipient = await storage.getUser(recipientId);
+      if (recipient?.email) {
+        try {
+          const zones = await getUserTimezones([recipientId]);
+          const origin = ((process.env.APP_URL && process.env.APP_URL.trim()) || `${req.protocol}://${req.get('host')}`).replace(/\/$/, '');
+          const acceptUrl = `${origin}/dashboard/meetings?proposal=${proposal.id}&action=accept`;
+          const declineUrl = `${origin}/dashboard/meetings?proposal=${proposal.id}&action=decline`;
+          await sendEmail(recipient.email, 'rescheduleRequested', {
+            start: slots[0].start_time,
+            end: slots[0].end_time,
+            slots: slots.map(slot => ({ start: slot.start_time, end: slot.end_time })),
+            counter: type === 'meeting_reschedule_countered',
+            timezone: zones[recipientId],
+            otherTimezone: proposal.timezone,
+            acceptUrl,
+            declineUrl,
+          });
+        } catch (e) {
+          log(`reschedule email send failed: ${(e as any)?.message ?? String(e)}`, 'routes');
+        }
+      }
+    } catch (e) {
+      log(`reschedule notification failed: ${(e as any)?.message ?? String(e)}`, 'routes');
+    }
+  }
+
+  // Why a proposal can no longer be answered, or null while it is open; marks it EXPIRED when stale
+  async function closedProposalMessage(proposal: any): Promise<string | null> {
+    if (proposal.status === 'PENDING' && isProposalExpired(proposal)) {
+      await updateTimeProposalStatus(proposal.id, 'EXPIRED');
+      return 'proposal has expired';
+    }
+    if (proposal.status === 'EXPIRED') return 'proposal has expired';
+    if (proposal.status !== 'PENDING') return `proposal is already ${String(proposal.status).toLowerCase()}`;
+    return null;
+  }
+
+  // A reschedule that ended without a new time leaves the meeting CONFIRMED at its current time.
+  // A request that was cancelled or expired meanwhile is left as it is.
+  async function endReschedule(meeting: any, actorUserId: string | null, reason: string) {
+    if (currentStatus(meeting) !== 'RESCHEDULING') return;
+    try {
+      const confirmed = await transitionMeetingRequest(meeting.id, meeting.status, 'CONFIRMED', actorUserId, { reason });
+      if (!confirmed) log(`end reschedule skipped: meeting request ${meeting.id} was changed meanwhile`, 'routes');
+    } catch (e) {
+      log(`end reschedule failed: ${(e as any)?.message ?? String(e)}`, 'routes');
+    }
+  }
+
+  // Close stale pending proposals and let each proposer know theirs lapsed; returns how many
+  async function expireProposals(): Promise<number> {
+    try {
+      const expired = await expireStaleProposals();
+      for (const proposal of expired) {
+        await createNotification(proposal.proposed_by_user_id, 'meeting_proposal_expired', {
+          meeting_request_id: proposal.meeting_request_id,
+          proposal_id: proposal.id,
+          slots: proposalSlots(proposal),
+        });
+        const meeting = await getMeetingRequestById(proposal.meeting_request_id);
+        if (meeting) await endReschedule(meeting, null, 'reschedule proposal expired');
+      }
+      return expired.length;
+    } catch (e) {
+      log(`expire proposals failed: ${(e as any)?.message ?? String(e)}`, 'routes');
+      return 0;
+    }
+  }
+
+  // Pending requests nobody answered within MEETING_REQUEST_TTL_DAYS become EXPIRED; returns how many
+  async function expireMeetingRequests(): Promise<number> {
+    let count = 0;
     try {
-      const token = extractToken(req);
-      if (!token) return res.status(401).json({ message: 'not authenticated' });
-      const jwtSecret = process.env.JWT_SECRET;
-      if (!jwtSecret) return res.status(500).json({ message: 'authentication not configured' });
-      const payload = jwt.verify(token, jwtSecret) as any;
-      const userId = payload?.sub;
-      if (!userId) return res.status(401).json({ message: 'invalid token' });
+      const cutoff = new Date(Date.now() - MEETING_REQUEST_TTL_DAYS * 24 * 60 * 60 * 1000);
+      for (const meeting of await listStalePendingMeetingRequests(cutoff)) {
+        const expired = await transitionMeetingRequest(meeting.id, meeting.status, 'EXPIRED', null, { reason: `no response within ${MEETING_REQUEST_TTL_DAYS} days` });
+        if (!expired) continue;
+        count++;
+        await createNotification(meeting.from_user_id, 'meeting_request_expired', { meeting_request_id: meeting.id });
+      }
+    } catch (e) {
+      log(`expire meeting requests failed: ${(e as any)?.message ?? String(e)}`, 'routes');
+    }
+    return count;
+  }
+
+  async function expireStaleMeetings() {
+    return { proposals: await expireProposals(), meetingRequests: await expireMeetingRequests() };
+  }
+
+  // Expire stale proposals and unanswered requests in the background; MEETING_EXPIRY_INTERVAL_MS=0
+  // disables it (POST /api/admin/meetings/expire then does the same from a cron job)
+  const expiryInterval = parseInt(process.env.MEETING_EXPIRY_INTERVAL_MS || "300000", 10);
+  if (expiryInterval > 0) {
+    let expiring = false;
+    const timer = setInterval(async () => {
+      if (expiring) return;
+      expiring = true;
+      try {
+        await expireStaleMeetings();
+      } finally {
+        expiring = false;
+      }
+    }, expiryInterval);
+    timer.unref?.();
+  }
+
+  // Single-meeting .ics download; `loadMeeting` resolves the route parameter to a meeting row
+  const meetingIcsHandler = (loadMeeting: (id: string) => Promise<any>) => async (req: Request, res: Response) => {
+    try {
+      const userId = currentUser(req).id;
+
+      const meeting = await loadMeeting(req.params.id);
+      if (!meeting) return res.status(404).json({ message: 'meeting not found' });
+
+      const ics = buildCalendar([await meetingToCalendarEvent(meeting, userId)]);
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="meeting-${meeting.id}.ics"`);
+      return res.send(ics);
+    } catch (err: any) {
+      log(`meeting ics error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error exporting meeting' });
+    }
+  };
+
+  api.get('/api/meetings/:id/ics', meetingIcsHandler(getMeetingById));
+  // Same, by meeting request id (follows reschedules to the current meeting)
+  api.get('/api/meetings/requests/:id/ics', meetingIcsHandler(getCurrentMeetingForRequest));
+
+  // Change where a confirmed meeting takes place; external calendar events and invitations follow
+  api.patch('/api/meetings/:id/location', async (req, res) => {
+    try {
+      const meeting = await getMeetingById(req.params.id);
+      if (!meeting) return res.status(404).json({ message: 'meeting not found' });
+      if ((meeting.status ?? '').toString().toUpperCase() === 'CANCELLED') {
+        return res.status(409).json({ message: 'meeting is cancelled' });
+      }
+
+      const { location_type, location_url } = req.body || {};
+      if (location_url != null && typeof location_url !== 'string') return res.status(400).json({ message: 'location_url must be a string' });
+      if (location_type != null && typeof location_type !== 'string') return res.status(400).json({ message: 'location_type must be a string' });
+
+      const updated = await updateMeetingLocation(meeting.id, location_type || undefined, location_url || undefined);
+      await calendarSync.updateEvents(updated);
+      if (new Date(updated.end_time).getTime() > Date.now()) await sendMeetingInvites(updated, 'REQUEST');
+
+      return res.json(updated);
+    } catch (err: any) {
+      log(`update meeting location error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error updating meeting location' });
+    }
+  });
+
+  // The current user's calendar subscription URLs (the token is created on first use)
+  api.get('/api/users/me/calendar-feed', async (req, res) => {
+    try {
+      const userId = currentUser(req).id;
+
+      const feedToken = await getCalendarFeedToken(userId);
+      return res.json(calendarFeedUrls(req, feedToken));
+    } catch (err: any) {
+      log(`calendar feed url error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error getting calendar feed' });
+    }
+  });
+
+  // Replace the subscription token; the previous feed URL stops working
+  api.post('/api/users/me/calendar-feed/rotate', async (req, res) => {
+    try {
+      const userId = currentUser(req).id;
+
+      const feedToken = await getCalendarFeedToken(userId, { rotate: true });
+      return res.json(calendarFeedUrls(req, feedToken));
+    } catch (err: any) {
+      log(`calendar feed rotate error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error rotating calendar feed' });
+    }
+  });
+
+  // Public webcal feed: the secret token in the URL is the only credential.
+  // Includes meetings from the last 30 days onwards, cancelled ones with STATUS:CANCELLED.
+  api.get('/api/calendar/feed/:token', async (req, res) => {
+    try {
+      const feedToken = req.params.token.replace(/\.ics$/, '');
+      const userId = await getUserIdByCalendarFeedToken(feedToken);
+      if (!userId) return res.status(404).json({ message: 'calendar feed not found' });
+
+      const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
+      const meetings = await listMeetingsForUser(userId, 500, { includeCancelled: true, since });
+
+      // A reschedule leaves the cancelled meeting and its replacement under the same UID: keep the latest
+      const latestByUid = new Map<string, any>();
+      for (const meeting of meetings) {
+        const uid = meetingUid(meeting);
+        const current = latestByUid.get(uid);
+        if (!current || Number(meeting.sequence ?? 0) > Number(current.sequence ?? 0)) latestByUid.set(uid, meeting);
+      }
+      const events = await Promise.all(Array.from(latestByUid.values()).map(meeting => meetingToCalendarEvent(meeting, userId)));
+
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Cache-Control', 'private, max-age=300');
+      return res.send(buildCalendar(events, { name: 'EIF Meetings', refreshMinutes: 60 }));
+    } catch (err: any) {
+      log(`calendar feed error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error building calendar feed' });
+    }
+  });
+
+  // Accept one slot of a time proposal (`slot_index`, default the first choice)
+  api.post('/api/meetings/requests/:id/proposals/:proposalId/accept', async (req, res) => {
+    try {
+      const userId = currentUser(req).id;
 
       const meetingId = req.params.id;
       const proposalId = req.params.proposalId;
       const proposal = await getTimeProposalById(proposalId);
-      if (!proposal) return res.status(404).json({ message: 'proposal not found' });
+      if (!proposal || proposal.meeting_request_id !== meetingId) return res.status(404).json({ message: 'proposal not found' });
 
       const meeting = await getMeetingRequestById(meetingId);
       if (!meeting) return res.status(404).json({ message: 'meeting not found' });
 
-      // Only the non-proposer may accept
+      // Only the other participant may accept
       if (proposal.proposed_by_user_id === userId) return res.status(403).json({ message: 'proposer cannot accept their own proposal' });
+      const closed = await closedProposalMessage(proposal);
+      if (closed) return res.status(409).json({ message: closed });
 
-      // Mark proposal accepted
-      await updateTimeProposalStatus(proposalId, 'ACCEPTED');
+      const slots = proposalSlots(proposal);
+      const slotIndex = Number(req.body?.slot_index ?? 0);
+      if (!Number.isInteger(slotIndex) || slotIndex < 0 || slotIndex >= slots.length) {
+        return res.status(400).json({ message: `slot_index must be between 0 and ${slots.length - 1}` });
+      }
+      const slot = slots[slotIndex];
+      if (new Date(slot.start_time).getTime() <= Date.now()) return res.status(409).json({ message: 'that slot has already started' });
 
-      // Update meeting request status to CONFIRMED
-      await updateMeetingRequest(meetingId, { status: 'CONFIRMED' });
+      // Requests confirmed before reschedules went through RESCHEDULING stay CONFIRMED
+      if (currentStatus(meeting) !== 'CONFIRMED') {
+        const rejected = checkTransition(meeting, 'CONFIRMED');
+        if (rejected) return res.status(rejected.status).json({ message: rejected.message, code: rejected.code });
+      }
 
-      // Remove any future meetings between the participants to avoid duplicates
+      // Update meeting request status to CONFIRMED; nothing is accepted or created if it changed meanwhile
+      if (currentStatus(meeting) !== 'CONFIRMED') {
+        if (!(await transitionMeetingRequest(meetingId, meeting.status, 'CONFIRMED', userId, { reason: 'proposal accepted' }))) {
+          return res.status(409).json({ message: 'the meeting request was changed by someone else; reload and try again', code: 'status_conflict' });
+        }
+      }
+
+      // Mark proposal accepted
+      await acceptTimeProposalSlot(proposalId, slot, slotIndex);
+
+      // Cancel any future meetings between the participants to avoid duplicates
+      let cancelledMeetings: any[] = [];
       try {
-        await deleteFutureMeetingsForParticipants(proposal.proposed_by_user_id, (await getMeetingRequestById(meetingId))?.to_user_id ?? '');
+        cancelledMeetings = await cancelFutureMeetingsForParticipants(meeting.from_user_id, meeting.to_user_id);
       } catch (e) {
-        log(`delete future meetings warning: ${(e as any)?.message ?? String(e)}`, 'routes');
+        log(`cancel future meetings warning: ${(e as any)?.message ?? String(e)}`, 'routes');
       }
 
-      // Create new meeting record for the accepted proposal
-      const meetingRec = await createMeetingFromRequest(meetingId, proposal.start_time, proposal.end_time, proposal.timezone ?? 'UTC');
+      // Create new meeting record for the accepted proposal (keeping the location of the meeting it replaces)
+      const previous = cancelledMeetings.filter(m => m.meeting_request_id === meetingId);
+      const keptLocation = previous.find(m => m.location_url || m.location_type);
+      let meetingRec = await createMeetingFromRequest(meetingId, slot.start_time, slot.end_time, proposal.timezone ?? 'UTC', keptLocation?.location_type ?? undefined, keptLocation?.location_url ?? undefined);
+
+      // Meetings from this request are superseded by the updated invitation (same UID, higher SEQUENCE)
+      // and their external events move to the new time; meetings from other requests between the
+      // pair are cancelled outright
+      meetingRec = await calendarSync.moveEvents(previous, meetingRec);
+      for (const m of cancelledMeetings) {
+        if (meetingUid(m) !== meetingUid(meetingRec)) {
+          await calendarSync.deleteEvents(m);
+          await sendMeetingInvites(m, 'CANCEL');
+        }
+      }
+      await sendMeetingInvites(meetingRec, 'REQUEST');
 
-      // Notify proposer
+      // Notify proposer in-app (their email is the updated invitation above)
       try {
-        await createNotification(proposal.proposed_by_user_id, 'meeting_reschedule_accepted', { meeting_request_id: meetingId, proposal_id: proposalId, start: proposal.start_time, end: proposal.end_time, meeting: meetingRec });
-        const proposer = await storage.getUser(proposal.proposed_by_user_id);
-        if (proposer?.email && process.env.SMTP_HOST && process.env.SMTP_USER && process.env.SMTP_PASS) {
-          const transporter = nodemailer.createTransport({
-            host: process.env.SMTP_HOST,
-            port: Number(process.env.SMTP_PORT || 587),
-            secure: (process.env.SMTP_SECURE || 'false') === 'true',
-            auth: { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
-          });
-          const from = process.env.SMTP_FROM || 'noreply@localhost';
-          const html = `<p>Your reschedule proposal was accepted for <strong>${new Date(proposal.start_time).toLocaleString()}</strong> to <strong>${new Date(proposal.end_time).toLocaleString()}</strong>.</p>`;
-          await transporter.sendMail({ from, to: proposer.email, subject: 'Reschedule accepted', html });
-        }
+        await createNotification(proposal.proposed_by_user_id, 'meeting_reschedule_accepted', { meeting_request_id: meetingId, proposal_id: proposalId, slot_index: slotIndex, start: slot.start_time, end: slot.end_time, meeting: meetingRec });
       } catch (e) {
         log(`reschedule accept notify failed: ${(e as any)?.message ?? String(e)}`, 'routes');
       }
@@ -1194,40 +2004,32 @@ export async function registerRoutes(
   });
 
   // Decline a time proposal
-  app.post('/api/meetings/requests/:id/proposals/:proposalId/decline', async (req, res) => {
+  api.post('/api/meetings/requests/:id/proposals/:proposalId/decline', async (req, res) => {
     try {
-      const token = extractToken(req);
-      if (!token) return res.status(401).json({ message: 'not authenticated' });
-      const jwtSecret = process.env.JWT_SECRET;
-      if (!jwtSecret) return res.status(500).json({ message: 'authentication not configured' });
-      const payload = jwt.verify(token, jwtSecret) as any;
-      const userId = payload?.sub;
-      if (!userId) return res.status(401).json({ message: 'invalid token' });
+      const userId = currentUser(req).id;
 
       const meetingId = req.params.id;
       const proposalId = req.params.proposalId;
       const proposal = await getTimeProposalById(proposalId);
-      if (!proposal) return res.status(404).json({ message: 'proposal not found' });
+      if (!proposal || proposal.meeting_request_id !== meetingId) return res.status(404).json({ message: 'proposal not found' });
+
+      const meeting = await getMeetingRequestById(meetingId);
+      if (!meeting) return res.status(404).json({ message: 'meeting not found' });
 
-      // Only the non-proposer may decline
+      // Only the other participant may decline
       if (proposal.proposed_by_user_id === userId) return res.status(403).json({ message: 'proposer cannot decline their own proposal' });
+      const closed = await closedProposalMessage(proposal);
+      if (closed) return res.status(409).json({ message: closed });
 
       await updateTimeProposalStatus(proposalId, 'DECLINED');
+      await endReschedule(meeting, userId, 'reschedule declined');
 
       // Notify proposer
       try {
         await createNotification(proposal.proposed_by_user_id, 'meeting_reschedule_declined', { meeting_request_id: meetingId, proposal_id: proposalId });
         const proposer = await storage.getUser(proposal.proposed_by_user_id);
-        if (proposer?.email && process.env.SMTP_HOST && process.env.SMTP_USER && process.env.SMTP_PASS) {
-          const transporter = nodemailer.createTransport({
-            host: process.env.SMTP_HOST,
-            port: Number(process.env.SMTP_PORT || 587),
-            secure: (process.env.SMTP_SECURE || 'false') === 'true',
-            auth: { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
-          });
-          const from = process.env.SMTP_FROM || 'noreply@localhost';
-          const html = `<p>Your reschedule proposal for <strong>${new Date(proposal.start_time).toLocaleString()}</strong> was declined.</p>`;
-          await transporter.sendMail({ from, to: proposer.email, subject: 'Reschedule declined', html });
+        if (proposer?.email) {
+          await sendEmail(proposer.email, 'rescheduleDeclined', { start: proposal.start_time, timezone: (proposer as any).timezone ?? proposal.timezone ?? 'UTC' });
         }
       } catch (e) {
         log(`reschedule decline notify failed: ${(e as any)?.message ?? String(e)}`, 'routes');
@@ -1240,17 +2042,95 @@ export async function registerRoutes(
     }
   });
 
+  // Self-service booking: the requester sees the recipient's free slots for a pending request
+  api.get('/api/meetings/requests/:id/booking', async (req, res) => {
+    try {
+      const userId = currentUser(req).id;
+
+      const meeting = await getMeetingRequestById(req.params.id);
+      if (!meeting) return res.status(404).json({ message: 'meeting not found' });
+      if ((meeting.status ?? 'PENDING').toString().toUpperCase() !== 'PENDING') {
+        return res.status(409).json({ message: 'this meeting request is no longer open for booking' });
+      }
+
+      const hostId = meeting.to_user_id;
+      const settings = await booking.getSettings(hostId);
+      const duration = req.query.duration ? Number(req.query.duration) : settings.durations[0];
+      if (!settings.durations.includes(duration)) {
+        return res.status(400).json({ message: `duration must be one of ${settings.durations.join(', ')} minutes` });
+      }
+
+      const [host, zones, slots] = await Promise.all([
+        storage.getUser(hostId),
+        getUserTimezones([userId, hostId]),
+        booking.listSlots(hostId, userId, duration),
+      ]);
+      return res.json({
+        meeting_request_id: meeting.id,
+        host: { id: hostId, name: (host as any)?.name ?? null, timezone: zones[hostId] ?? 'UTC' },
+        timezone: zones[userId] ?? 'UTC',
+        durations: settings.durations,
+        horizon_days: settings.horizon_days,
+        duration,
+        slots,
+      });
+    } catch (err: any) {
+      log(`booking slots error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error loading free slots' });
+    }
+  });
+
+  // Book one of the recipient's free slots: confirms the request and creates the meeting
+  api.post('/api/meetings/requests/:id/booking', async (req, res) => {
+    try {
+      const userId = currentUser(req).id;
+
+      const meetingId = req.params.id;
+      const { start_time, duration_minutes, timezone } = req.body as { start_time?: string; duration_minutes?: number; timezone?: string };
+      const start = start_time ? new Date(start_time) : null;
+      if (!start || Number.isNaN(start.getTime())) return res.status(400).json({ message: 'start_time is required' });
+      if (timezone && !normalizeTimeZone(timezone, '')) return res.status(400).json({ message: 'timezone must be an IANA timezone such as Europe/Berlin' });
+
+      const meeting = await getMeetingRequestById(meetingId);
+      if (!meeting) return res.status(404).json({ message: 'meeting not found' });
+      if ((meeting.status ?? 'PENDING').toString().toUpperCase() !== 'PENDING') {
+        return res.status(409).json({ message: 'this meeting request is no longer open for booking' });
+      }
+
+      const hostId = meeting.to_user_id;
+      const settings = await booking.getSettings(hostId);
+      const duration = Number(duration_minutes ?? settings.durations[0]);
+      if (!settings.durations.includes(duration)) {
+        return res.status(400).json({ message: `duration_minutes must be one of ${settings.durations.join(', ')}` });
+      }
+      if (!(await booking.isBookable(hostId, userId, start, duration))) {
+        return res.status(409).json({ message: 'that time is no longer available' });
+      }
+
+      const end = new Date(start.getTime() + duration * 60 * 1000);
+      const zone = normalizeTimeZone(timezone, (await getUserTimezones([userId]))[userId]);
+      const updated = await transitionMeetingRequest(meetingId, meeting.status, 'CONFIRMED', userId, { reason: 'booked' });
+      if (!updated) return res.status(409).json({ message: 'this meeting request is no longer open for booking', code: 'status_conflict' });
+      const meetingRec = await confirmMeetingTime(meetingId, start.toISOString(), end.toISOString(), zone);
+
+      // The recipient gets the invitation by email; tell them in-app how it was booked
+      try {
+        await createNotification(hostId, 'meeting_booked', { meeting_request_id: meetingId, start: meetingRec.start_time, end: meetingRec.end_time, meeting: meetingRec });
+      } catch (e) {
+        log(`booking notify failed: ${(e as any)?.message ?? String(e)}`, 'routes');
+      }
+
+      return res.status(201).json({ meetingRequest: updated, meeting: meetingRec });
+    } catch (err: any) {
+      log(`book meeting error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error booking meeting' });
+    }
+  });
+
   // Automatic scheduler endpoints
   // Admin: Run automatic scheduler to match and book meetings
-  app.post('/api/admin/scheduler/run', async (req, res) => {
+  api.post('/api/admin/scheduler/run', async (req, res) => {
     try {
-      const token = extractToken(req);
-      if (!token) return res.status(401).json({ message: 'not authenticated' });
-      if (!process.env.JWT_SECRET) return res.status(500).json({ message: 'authentication not configured' });
-      const payload = jwt.verify(token, process.env.JWT_SECRET) as any;
-      const role = (payload?.role ?? '').toString().toLowerCase();
-      if (!role.includes('admin')) return res.status(403).json({ message: 'forbidden' });
-
       // Import here to avoid circular dependency
       const { AutomaticScheduler } = await import('./lib/automaticScheduler.js');
       const scheduler = new AutomaticScheduler(supabase);
@@ -1268,15 +2148,172 @@ export async function registerRoutes(
     }
   });
 
+  // Admin: expire stale proposals and unanswered meeting requests now (same as the background job)
+  api.post('/api/admin/meetings/expire', async (req, res) => {
+    try {
+      return res.json(await expireStaleMeetings());
+    } catch (err: any) {
+      log(`meeting expiry error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error expiring meetings' });
+    }
+  });
+
+  // Admin: match score cache stats (size, hit/miss counters, backend)
+  api.get('/api/admin/match-cache', async (req, res) => {
+    try {
+      return res.json(matchEngine.getCacheStats());
+    } catch (err: any) {
+      log(`match cache stats error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error reading match cache stats' });
+    }
+  });
+
+  // Admin: clear the match score cache (including the shared store)
+  api.delete('/api/admin/match-cache', async (req, res) => {
+    try {
+      await matchEngine.clearSharedCache();
+      return res.json({ cleared: true });
+    } catch (err: any) {
+      log(`match cache clear error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error clearing match cache' });
+    }
+  });
+
+  // Admin: recent outgoing emails (optionally ?status=pending|sent|failed), with delivery summary
+  api.get('/api/admin/emails', async (req, res) => {
+    try {
+      const status = typeof req.query.status === 'string' && req.query.status ? req.query.status : null;
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? '100'), 10) || 100, 1), 500);
+      const emails = await listOutboxEmails({ status, limit });
+      return res.json({ transport: resolveMailTransport(await getPlatformSettings()), emails });
+    } catch (err: any) {
+      log(`admin emails error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error listing emails' });
+    }
+  });
+
+  // Admin: retry one email now
+  api.post('/api/admin/emails/:id/retry', async (req, res) => {
+    try {
+      const email = await retryOutboxEmail(req.params.id);
+      if (!email) return res.status(404).json({ message: 'email not found' });
+      // Like the listing, without the body
+      const { message: _message, ...summary } = email;
+      return res.json(summary);
+    } catch (err: any) {
+      log(`admin email retry error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error retrying email' });
+    }
+  });
+
+  // Admin: platform settings (registration, maintenance, approval, SMTP host and sender)
+  api.get('/api/admin/settings', async (req, res) => {
+    try {
+      return res.json(await getPlatformSettings());
+    } catch (err: any) {
+      log(`admin settings error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error loading settings' });
+    }
+  });
+
+  // Admin: change some settings; null resets a setting to its default
+  api.patch('/api/admin/settings', async (req, res) => {
+    try {
+      const { value, error } = validateSettingsUpdate(req.body);
+      if (error || !value) return res.status(400).json({ message: error });
+
+      const adminId = currentUser(req).id;
+      const settings = await updatePlatformSettings(value, adminId);
+      log(`platform settings changed by ${adminId}: ${Object.keys(value).join(', ')}`, 'routes');
+      return res.json(settings);
+    } catch (err: any) {
+      log(`admin settings update error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error saving settings' });
+    }
+  });
+
+  // Admin: check that the SMTP server accepts the configured host and credentials
+  api.post('/api/admin/settings/smtp/test', async (req, res) => {
+    try {
+      try {
+        await verifySmtpConnection();
+      } catch (e: any) {
+        return res.status(502).json({ message: e?.message ?? String(e) });
+      }
+      return res.json({ ok: true });
+    } catch (err: any) {
+      log(`smtp test error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error testing SMTP connection' });
+    }
+  });
+
+  // Admin: retry every due email now (same as the background worker; usable from a cron job)
+  api.post('/api/admin/emails/process', async (req, res) => {
+    try {
+      return res.json(await processOutbox());
+    } catch (err: any) {
+      log(`admin email processing error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error processing email outbox' });
+    }
+  });
+
+  // User: availability editor (weekly windows, date overrides, blackouts, buffer, daily limit)
+  api.get('/api/users/me/availability', async (req, res) => {
+    try {
+      const userId = currentUser(req).id;
+
+      return res.json(await getUserAvailability(userId));
+    } catch (err: any) {
+      log(`get availability error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error loading availability' });
+    }
+  });
+
+  // Replaces the whole availability; the editor always sends everything
+  api.put('/api/users/me/availability', async (req, res) => {
+    try {
+      const userId = currentUser(req).id;
+
+      const { settings, error } = validateAvailability(req.body);
+      if (error || !settings) return res.status(400).json({ message: error ?? 'invalid availability' });
+
+      return res.json(await saveUserAvailability(userId, settings));
+    } catch (err: any) {
+      log(`save availability error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error saving availability' });
+    }
+  });
+
+  // Meeting lengths and horizon offered to people booking a meeting with this user
+  api.get('/api/users/me/booking-settings', async (req, res) => {
+    try {
+      const userId = currentUser(req).id;
+
+      return res.json(await booking.getSettings(userId));
+    } catch (err: any) {
+      log(`get booking settings error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error loading booking settings' });
+    }
+  });
+
+  api.put('/api/users/me/booking-settings', async (req, res) => {
+    try {
+      const userId = currentUser(req).id;
+
+      const { settings, error } = validateBookingSettings(req.body);
+      if (error || !settings) return res.status(400).json({ message: error ?? 'invalid booking settings' });
+
+      return res.json(await booking.saveSettings(userId, settings));
+    } catch (err: any) {
+      log(`save booking settings error: ${err?.message ?? String(err)}`, 'routes');
+      return res.status(500).json({ message: 'error saving booking settings' });
+    }
+  });
+
   // User: Update auto-arrangement preferences
-  app.post('/api/users/me/arrangement-preferences', async (req, res) => {
+  api.post('/api/users/me/arrangement-preferences', async (req, res) => {
     try {
-      const token = extractToken(req);
-      if (!token) return res.status(401).json({ message: 'not authenticated' });
-      if (!process.env.JWT_SECRET) return res.status(500).json({ message: 'authentication not configured' });
-      const payload = jwt.verify(token, process.env.JWT_SECRET) as any;
-      const userId = payload?.sub;
-      if (!userId) return res.status(401).json({ message: 'invalid token' });
+      const userId = currentUser(req).id;
 
       const { arrangeMeetings, autoConfirm } = req.body;
 
@@ -1297,16 +2334,5 @@ export async function registerRoutes(
     }
   });
 
-  function extractToken(req: any) {
-    const auth = req.headers?.authorization as string | undefined;
-    if (auth && auth.toLowerCase().startsWith('bearer ')) return auth.split(' ')[1];
-    const cookie = req.headers?.cookie as string | undefined;
-    if (cookie) {
-      const match = cookie.split(';').map(s => s.trim()).find(s => s.startsWith('token='));
-      if (match) return match.split('=')[1];
-    }
-    return null;
-  }
-
   return httpServer;
 }
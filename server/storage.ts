@@ -1,8 +1,10 @@
 import { type User, type InsertUser } from "@shared/schema";
+import { normalizeTimeZone } from "@shared/timezone";
 import type { SupabaseClient } from "@supabase/supabase-js";
 import bcrypt from "bcryptjs";
 import supabaseClient from "./supabase.js";
 import crypto from "crypto";
+import type { ApprovalStatus } from "./lib/accountApproval.js";
 
 // modify the interface with any CRUD methods you might need
 export interface RegisterUser {
@@ -16,6 +18,8 @@ export interface RegisterUser {
   availability_to?: string;
   availability_timezone?: string;
   arrange_meetings?: boolean;
+  // Defaults to approved (e.g. admin invites); registration passes pending while approval is required
+  approval_status?: ApprovalStatus;
 }
 
 export interface IStorage {
@@ -31,6 +35,9 @@ export interface IStorage {
   validateEmailVerificationToken(token: string): Promise<{ user_id: string; token: string; expires_at: string } | null>;
   markEmailVerified(userId: string): Promise<void>;
   listUsers(limit?: number): Promise<User[]>;
+  // Account approval
+  listUsersByApprovalStatus(status: ApprovalStatus, limit?: number): Promise<User[]>;
+  setApprovalStatus(userId: string, status: ApprovalStatus, reviewerId: string, reason: string | null): Promise<User | null>;
 }
 
 export class SupabaseStorage implements IStorage {
@@ -51,6 +58,12 @@ export class SupabaseStorage implements IStorage {
       password: row.password ?? row.hashed_password ?? undefined,
       role: row.role ?? undefined,
       email_verified: row.email_verified ?? false,
+      timezone: normalizeTimeZone(row.availability_timezone),
+      // Rows from before account approval have no status and count as approved
+      approval_status: row.approval_status ?? 'approved',
+      approval_reason: row.approval_reason ?? null,
+      approval_reviewed_at: row.approval_reviewed_at ?? null,
+      created_at: row.created_at ?? undefined,
     };
     return user as User;
   }
@@ -124,8 +137,9 @@ export class SupabaseStorage implements IStorage {
         automatic_availability: registerUser.automatic_availability ?? false,
         availability_from: normalizedAvailabilityFrom ?? registerUser.availability_from ?? null,
         availability_to: normalizedAvailabilityTo ?? registerUser.availability_to ?? null,
-        availability_timezone: registerUser.availability_timezone ?? 'UTC',
+        availability_timezone: normalizeTimeZone(registerUser.availability_timezone),
         arrange_meetings: registerUser.arrange_meetings ?? false,
+        approval_status: registerUser.approval_status ?? 'approved',
       })
       .select("*")
       .limit(1)
@@ -178,6 +192,31 @@ export class SupabaseStorage implements IStorage {
     return (data ?? []).map((r: any) => this.mapSupabaseRowToUser(r)).filter(Boolean) as User[];
   }
 
+  async listUsersByApprovalStatus(status: ApprovalStatus, limit = 100): Promise<User[]> {
+    // Oldest first, so applicants are reviewed in the order they signed up
+    const { data, error } = await this.client.from('users_eif').select('*').eq('approval_status', status).order('created_at', { ascending: true }).limit(limit);
+    if (error) {
+      console.error('Failed to list users by approval status:', error);
+      return [];
+    }
+    return (data ?? []).map((r: any) => this.mapSupabaseRowToUser(r)).filter(Boolean) as User[];
+  }
+
+  async setApprovalStatus(userId: string, status: ApprovalStatus, reviewerId: string, reason: string | null): Promise<User | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await this.client
+      .from('users_eif')
+      .update({ approval_status: status, approval_reason: reason, approval_reviewed_by: reviewerId, approval_reviewed_at: now, updated_at: now })
+      .eq('id', userId)
+      .select('*')
+      .maybeSingle();
+    if (error) {
+      console.error('Failed to update approval status:', error);
+      return null;
+    }
+    return this.mapSupabaseRowToUser(data) ?? null;
+  }
+
   async createEmailVerificationToken(userId: string): Promise<{ token: string; expiresAt: string } | null> {
     const token = crypto.randomBytes(24).toString('hex');
     const expiresAt = new Date();
@@ -286,6 +325,7 @@ export class SupabaseStorage implements IStorage {
   }
 }
 
-// Always use Supabase storage in this project. `supabaseClient` is created
-// at import time and will throw a clear error if required env vars are missing.
+// `supabaseClient` is created at import time: either a real Supabase client (throws a
+// clear error if required env vars are missing) or, with DATA_BACKEND=memory, the
+// in-memory client from `lib/memoryClient.ts` which speaks the same query API.
 export const storage: IStorage = new SupabaseStorage(supabaseClient as SupabaseClient);
@@ -1,20 +1,40 @@
 import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { createMemoryClient, MemoryDatabase } from "./lib/memoryClient.js";
 
-// Create and export a single server-side Supabase client instance.
-// This project requires Supabase for storage; fail fast if env vars are missing.
-const url = process.env.SUPABASE_URL;
-const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_KEY;
+// Create and export a single server-side data client instance.
+// `DATA_BACKEND=memory` swaps Supabase for an in-process store (offline dev and tests);
+// otherwise Supabase is required and we fail fast if env vars are missing.
+const backend = (process.env.DATA_BACKEND || 'supabase').toLowerCase();
 
-console.log(`[supabase.ts] Initializing: URL=${url ? 'set' : 'MISSING'}, KEY=${key ? 'set' : 'MISSING'}`);
+function createSupabaseBackend(): SupabaseClient {
+  const url = process.env.SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_KEY;
 
-if (!url || !key) {
-  const errorMsg = `Missing required environment variables: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (or SUPABASE_KEY). Got: url=${!!url}, key=${!!key}`;
-  console.error(`[supabase.ts] ${errorMsg}`);
-  throw new Error(errorMsg);
+  console.log(`[supabase.ts] Initializing: URL=${url ? 'set' : 'MISSING'}, KEY=${key ? 'set' : 'MISSING'}`);
+
+  if (!url || !key) {
+    const errorMsg = `Missing required environment variables: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (or SUPABASE_KEY). Got: url=${!!url}, key=${!!key}`;
+    console.error(`[supabase.ts] ${errorMsg}`);
+    throw new Error(errorMsg);
+  }
+
+  return createClient(url, key, {
+    auth: { persistSession: false },
+  });
+}
+
+function createMemoryBackend(): SupabaseClient {
+  const file = process.env.MEMORY_DB_FILE;
+  console.log(`[supabase.ts] Initializing in-memory backend${file ? ` (persisting to ${file})` : ''}`);
+  return createMemoryClient(new MemoryDatabase(file || undefined));
 }
 
-const supabaseClient: SupabaseClient = createClient(url, key, {
-  auth: { persistSession: false },
-});
+if (backend !== 'supabase' && backend !== 'memory') {
+  throw new Error(`Unknown DATA_BACKEND '${backend}'. Expected 'supabase' or 'memory'.`);
+}
+
+const supabaseClient: SupabaseClient = backend === 'memory' ? createMemoryBackend() : createSupabaseBackend();
+
+export const dataBackend = backend as 'supabase' | 'memory';
 
 export default supabaseClient;
@@ -0,0 +1,182 @@
+/**
+ * Money model shared by the match engine, the company/investor profile routes and the pitch page.
+ *
+ * Amounts are kept in major units of their own currency and only converted to USD
+ * (via the static FX table below) when two amounts have to be compared.
+ */
+
+/**
+ * USD value of one unit of each supported currency. This table is maintained by the
+ * platform admins: update the rates and `FX_RATES_AS_OF` together. It is shown read-only
+ * on the admin settings page.
+ */
+export const FX_RATES_TO_USD: Record<string, number> = {
+  USD: 1,
+  EUR: 1.08,
+  GBP: 1.27,
+  INR: 0.012,
+  JPY: 0.0067,
+  CNY: 0.14,
+  CAD: 0.73,
+  AUD: 0.66,
+  SGD: 0.74,
+  CHF: 1.12,
+  AED: 0.27,
+};
+
+export const FX_RATES_AS_OF = '2026-10-01';
+
+export const CURRENCIES = Object.keys(FX_RATES_TO_USD);
+
+/**
+ * A single amount or a range in one currency; a single amount has `min === max`
+ */
+export interface MoneyRange {
+  min: number;
+  max: number;
+  currency: string;
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  USD: '$',
+  EUR: '€',
+  GBP: '£',
+  INR: '₹',
+  JPY: '¥',
+};
+
+// Longest tokens first so "us$" wins over "$"
+const CURRENCY_TOKENS: Array<[string, string]> = ([
+  ['us$', 'USD'], ['a$', 'AUD'], ['c$', 'CAD'], ['s$', 'SGD'],
+  ['$', 'USD'], ['€', 'EUR'], ['£', 'GBP'], ['₹', 'INR'], ['¥', 'JPY'],
+  ['rs.', 'INR'], ['rs', 'INR'],
+  ...CURRENCIES.map(code => [code.toLowerCase(), code] as [string, string]),
+] as Array<[string, string]>).sort((a, b) => b[0].length - a[0].length);
+
+const MULTIPLIERS: Record<string, number> = {
+  '': 1,
+  k: 1_000, thousand: 1_000,
+  l: 100_000, lakh: 100_000, lakhs: 100_000, lac: 100_000, lacs: 100_000,
+  m: 1_000_000, mn: 1_000_000, mm: 1_000_000, million: 1_000_000, millions: 1_000_000,
+  cr: 10_000_000, crore: 10_000_000, crores: 10_000_000,
+  b: 1_000_000_000, bn: 1_000_000_000, billion: 1_000_000_000, billions: 1_000_000_000,
+};
+
+const INDIAN_UNITS = new Set(['l', 'lakh', 'lakhs', 'lac', 'lacs', 'cr', 'crore', 'crores']);
+
+/**
+ * Parse a free-text amount such as "$5M", "€2-3M", "£500k", "₹40 Cr", "10 lakh INR" or
+ * "USD 1.5 million to 2 million". Without a currency marker the amount is in
+ * `defaultCurrency`, except lakh/crore amounts which default to INR.
+ * Returns null when the text is not a recognizable amount.
+ */
+export function parseMoney(input: string | null | undefined, defaultCurrency = 'USD'): MoneyRange | null {
+  if (!input) return null;
+  let text = input.toLowerCase().trim();
+  if (!text) return null;
+
+  // Currency markers may appear before or after the amount
+  let currency: string | null = null;
+  for (const [token, code] of CURRENCY_TOKENS) {
+    const escaped = token.replace(/[$.]/g, m => `\\${m}`);
+    // Letter tokens ("rs", "eur") must stand alone so "crores" does not read as rupees
+    const pattern = /^[a-z.]+$/.test(token)
+      ? new RegExp(`(?<![a-z])${escaped}(?![a-z])`, 'g')
+      : new RegExp(escaped, 'g');
+    const stripped = text.replace(pattern, ' ');
+    if (stripped === text) continue;
+    if (currency && currency !== code) return null;
+    currency = code;
+    text = stripped;
+  }
+
+  // Thousands separators, including Indian grouping ("1,00,000")
+  text = text.replace(/(\d),(?=\d)/g, '$1').replace(/\s+/g, ' ').trim();
+
+  const sides = text.split(/\s*(?:-|–|—|\bto\b)\s*/);
+  if (sides.length > 2) return null;
+
+  const parsed: Array<{ value: number; unit: string }> = [];
+  for (const side of sides) {
+    const match = side.match(/^(\d+(?:\.\d+)?)\s*([a-z]*)$/);
+    if (!match || !(match[2] in MULTIPLIERS)) return null;
+    parsed.push({ value: parseFloat(match[1]), unit: match[2] });
+  }
+
+  // "$2-3M": a bare lower bound takes the upper bound's unit
+  if (parsed.length === 2 && !parsed[0].unit) parsed[0].unit = parsed[1].unit;
+
+  const [min, max] = parsed.map(({ value, unit }) => value * MULTIPLIERS[unit]);
+  const upper = max ?? min;
+  if (!(min > 0) || upper < min) return null;
+
+  const resolvedCurrency = currency
+    ?? (parsed.some(p => INDIAN_UNITS.has(p.unit)) ? 'INR' : defaultCurrency.toUpperCase());
+  if (!(resolvedCurrency in FX_RATES_TO_USD)) return null;
+
+  return { min, max: upper, currency: resolvedCurrency };
+}
+
+/**
+ * Convert an amount to USD; null for currencies missing from the FX table
+ */
+export function toUsd(amount: number, currency: string | null | undefined): number | null {
+  const rate = FX_RATES_TO_USD[(currency || 'USD').toUpperCase()];
+  return rate === undefined ? null : amount * rate;
+}
+
+/**
+ * Compact display, e.g. 5_000_000 USD -> "$5M", 400_000_000 INR -> "₹40Cr"
+ */
+export function formatMoney(amount: number, currency = 'USD'): string {
+  const code = currency.toUpperCase();
+  const prefix = CURRENCY_SYMBOLS[code] ?? `${code} `;
+  const compact = (value: number, divisor: number, suffix: string) => `${prefix}${+(value / divisor).toFixed(2)}${suffix}`;
+
+  if (code === 'INR' && amount >= 10_000_000) return compact(amount, 10_000_000, 'Cr');
+  if (code === 'INR' && amount >= 100_000) return compact(amount, 100_000, 'L');
+  if (amount >= 1_000_000_000) return compact(amount, 1_000_000_000, 'B');
+  if (amount >= 1_000_000) return compact(amount, 1_000_000, 'M');
+  if (amount >= 1_000) return compact(amount, 1_000, 'k');
+  return `${prefix}${amount}`;
+}
+
+export function formatMoneyRange(range: MoneyRange): string {
+  if (range.min === range.max) return formatMoney(range.min, range.currency);
+  return `${formatMoney(range.min, range.currency)}-${formatMoney(range.max, range.currency)}`;
+}
+
+/**
+ * Validate a funding ask given either as text ("$2-3M") or as a `{ min, max, currency }` object
+ */
+export function validateFundingAsk(input: unknown, defaultCurrency = 'USD'): { fundingAsk?: MoneyRange; error?: string } {
+  if (typeof input === 'string') {
+    const fundingAsk = parseMoney(input, defaultCurrency);
+    if (!fundingAsk) return { error: `funding ask "${input}" is not a recognizable amount (e.g. $5M, €2-3M, ₹40Cr)` };
+    return { fundingAsk };
+  }
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'funding_ask must be an amount string or an object with min, max and currency' };
+  }
+  const { min, max, currency } = input as Record<string, unknown>;
+  const code = typeof currency === 'string' ? currency.toUpperCase() : 'USD';
+  if (!(code in FX_RATES_TO_USD)) return { error: `unsupported currency: ${String(currency)}` };
+  const lower = Number(min);
+  const upper = max == null ? lower : Number(max);
+  if (!Number.isFinite(lower) || lower <= 0 || !Number.isFinite(upper)) {
+    return { error: 'funding_ask.min and funding_ask.max must be positive numbers' };
+  }
+  if (upper < lower) return { error: 'funding_ask.min cannot be greater than funding_ask.max' };
+  return { fundingAsk: { min: lower, max: upper, currency: code } };
+}
+
+/**
+ * Investor check sizes are stored as numbers scaled by `check_size_unit` ('M', 'k' or 'raw').
+ * Values of 1000 or more are treated as raw amounts whatever the unit, matching older data.
+ */
+export function checkSizeAmount(value: number, unit: string | null | undefined): number {
+  if (Math.abs(value) >= 1000) return value;
+  if (unit === 'M') return value * 1_000_000;
+  if (unit === 'k') return value * 1_000;
+  return value;
+}
@@ -0,0 +1,152 @@
+/**
+ * Sector taxonomy shared by the match engine, company search and the sector pickers.
+ *
+ * Each sector has a canonical label, an optional parent and a list of synonyms.
+ * Free-text sectors are normalized to the canonical label when they match a label
+ * or synonym (case-insensitive); unknown values are kept as entered.
+ */
+
+export interface SectorNode {
+  label: string;
+  parent?: string;
+  synonyms: string[];
+}
+
+export const SECTOR_TAXONOMY: SectorNode[] = [
+  // Energy & climate
+  { label: 'Energy', synonyms: ['energy & climate', 'climate', 'climate tech', 'cleantech', 'clean tech'] },
+  { label: 'Renewables', parent: 'Energy', synonyms: ['renewable energy', 'clean energy', 'renewable'] },
+  { label: 'Solar', parent: 'Renewables', synonyms: ['solar energy', 'solar power', 'photovoltaics', 'pv'] },
+  { label: 'Wind', parent: 'Renewables', synonyms: ['wind energy', 'wind power', 'offshore wind'] },
+  { label: 'Grid Infra', parent: 'Energy', synonyms: ['grid infrastructure', 'grid', 'smart grid', 'transmission', 'utilities'] },
+  { label: 'Storage', parent: 'Energy', synonyms: ['energy storage', 'batteries', 'battery', 'battery storage'] },
+  { label: 'Clean Fuels', parent: 'Energy', synonyms: ['hydrogen', 'green hydrogen', 'biofuels', 'sustainable fuels'] },
+  { label: 'Energy Efficiency', parent: 'Energy', synonyms: ['efficiency', 'building efficiency'] },
+  { label: 'Carbon Management', parent: 'Energy', synonyms: ['carbon capture', 'carbon removal', 'ccus', 'carbon markets'] },
+  { label: 'Oil & Gas', parent: 'Energy', synonyms: ['oil and gas', 'oil', 'gas', 'petroleum'] },
+
+  // Financial services
+  { label: 'Fintech', synonyms: ['financial technology', 'financial services', 'finance', 'fin tech'] },
+  { label: 'Payments', parent: 'Fintech', synonyms: ['payment', 'payments infrastructure', 'payment processing'] },
+  { label: 'Lending', parent: 'Fintech', synonyms: ['credit', 'loans', 'lendtech'] },
+  { label: 'Insurtech', parent: 'Fintech', synonyms: ['insurance', 'insurance technology'] },
+  { label: 'Wealthtech', parent: 'Fintech', synonyms: ['wealth management', 'asset management', 'investing'] },
+  { label: 'Banking', parent: 'Fintech', synonyms: ['neobank', 'digital banking', 'banking infrastructure'] },
+  { label: 'Crypto', parent: 'Fintech', synonyms: ['blockchain', 'web3', 'defi', 'digital assets'] },
+
+  // Healthcare
+  { label: 'Healthcare', synonyms: ['health', 'health care', 'life sciences'] },
+  { label: 'Biotech', parent: 'Healthcare', synonyms: ['biotechnology'] },
+  { label: 'Medtech', parent: 'Healthcare', synonyms: ['medical devices', 'medical technology'] },
+  { label: 'Digital Health', parent: 'Healthcare', synonyms: ['healthtech', 'health tech', 'telehealth', 'telemedicine'] },
+  { label: 'Pharma', parent: 'Healthcare', synonyms: ['pharmaceuticals', 'drug discovery'] },
+
+  // Software
+  { label: 'Software', synonyms: ['saas', 'enterprise software', 'b2b software', 'tech', 'technology'] },
+  { label: 'AI', parent: 'Software', synonyms: ['artificial intelligence', 'machine learning', 'ml', 'ai/ml'] },
+  { label: 'Cybersecurity', parent: 'Software', synonyms: ['security', 'infosec', 'cyber security'] },
+  { label: 'Developer Tools', parent: 'Software', synonyms: ['devtools', 'developer tooling'] },
+  { label: 'Data & Analytics', parent: 'Software', synonyms: ['data', 'analytics', 'big data'] },
+
+  // Mobility
+  { label: 'Mobility', synonyms: ['transportation', 'transport'] },
+  { label: 'EV', parent: 'Mobility', synonyms: ['electric vehicles', 'electric vehicle', 'e-mobility', 'ev charging'] },
+  { label: 'Logistics', parent: 'Mobility', synonyms: ['supply chain', 'freight', 'shipping'] },
+
+  // Other top-level sectors
+  { label: 'Agriculture & Food', synonyms: ['agriculture', 'agtech', 'agritech', 'food', 'foodtech'] },
+  { label: 'Consumer', synonyms: ['e-commerce', 'ecommerce', 'retail', 'd2c', 'dtc'] },
+  { label: 'Real Estate', synonyms: ['proptech', 'property', 'construction'] },
+  { label: 'Education', synonyms: ['edtech', 'learning'] },
+  { label: 'Industrials', synonyms: ['manufacturing', 'industrial', 'robotics'] },
+];
+
+const normalizeKey = (value: string) => value.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const BY_KEY = new Map<string, SectorNode>();
+for (const node of SECTOR_TAXONOMY) {
+  BY_KEY.set(normalizeKey(node.label), node);
+  for (const synonym of node.synonyms) BY_KEY.set(normalizeKey(synonym), node);
+}
+
+/**
+ * Find the taxonomy node for a label or synonym (case-insensitive)
+ */
+export function findSector(value: string | null | undefined): SectorNode | undefined {
+  if (!value) return undefined;
+  return BY_KEY.get(normalizeKey(value));
+}
+
+/**
+ * Canonical label for a free-text sector; unknown values are returned trimmed
+ */
+export function normalizeSector(value: string): string {
+  return findSector(value)?.label ?? value.trim();
+}
+
+/**
+ * Normalize and de-duplicate a list of sectors
+ */
+export function normalizeSectors(values: string[]): string[] {
+  return Array.from(new Set(values.map(normalizeSector).filter(Boolean)));
+}
+
+/**
+ * Labels of the sector's ancestors, nearest first
+ */
+export function sectorAncestors(label: string): string[] {
+  const ancestors: string[] = [];
+  let node = findSector(label);
+  while (node?.parent && !ancestors.includes(node.parent)) {
+    ancestors.push(node.parent);
+    node = findSector(node.parent);
+  }
+  return ancestors;
+}
+
+/**
+ * The sector itself plus every descendant label, e.g. "Renewables" -> Renewables, Solar, Wind
+ */
+export function sectorFamily(value: string): string[] {
+  const root = findSector(value);
+  if (!root) return [value.trim()];
+  return SECTOR_TAXONOMY
+    .filter(node => node.label === root.label || sectorAncestors(node.label).includes(root.label))
+    .map(node => node.label);
+}
+
+/**
+ * Every label and synonym that belongs to a sector family, for matching un-normalized data
+ */
+export function sectorFamilyTerms(value: string): string[] {
+  const labels = sectorFamily(value);
+  const terms = labels.flatMap(label => [label, ...(findSector(label)?.synonyms ?? [])]);
+  return Array.from(new Set(terms));
+}
+
+export type SectorRelation = 'same' | 'ancestor' | 'descendant' | 'sibling' | 'unrelated' | 'unknown';
+
+/**
+ * How `other` relates to `sector` in the taxonomy:
+ * - `ancestor`: `sector` is a broader category containing `other` (Fintech -> Payments)
+ * - `descendant`: `sector` is a sub-sector of `other` (Payments -> Fintech)
+ * - `sibling`: both share a parent (Payments ~ Lending)
+ * - `unknown`: either value is not in the taxonomy
+ */
+export function sectorRelation(sector: string, other: string): SectorRelation {
+  const a = findSector(sector);
+  const b = findSector(other);
+  if (!a || !b) return 'unknown';
+  if (a.label === b.label) return 'same';
+  if (sectorAncestors(b.label).includes(a.label)) return 'ancestor';
+  if (sectorAncestors(a.label).includes(b.label)) return 'descendant';
+  if (a.parent && a.parent === b.parent) return 'sibling';
+  return 'unrelated';
+}
+
+/**
+ * Sectors grouped under their top-level category, for pickers
+ */
+export const SECTOR_GROUPS: Array<{ label: string; sectors: string[] }> = SECTOR_TAXONOMY
+  .filter(node => !node.parent)
+  .map(top => ({ label: top.label, sectors: sectorFamily(top.label) }));
@@ -0,0 +1,194 @@
+/**
+ * IANA timezone helpers built on `Intl` (no timezone database of our own).
+ */
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function wallClockFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string | null | undefined): boolean {
+  if (!timeZone) return false;
+  try {
+    wallClockFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of `timeZone` from UTC at the given instant, in milliseconds (e.g. +7_200_000 for CEST)
+ */
+export function timeZoneOffsetMs(instant: Date | number, timeZone: string): number {
+  const epoch = typeof instant === 'number' ? instant : instant.getTime();
+  const parts = wallClockFormatter(timeZone).formatToParts(new Date(epoch));
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - (epoch - (epoch % 1000));
+}
+
+/**
+ * The instant at which the wall clock in `timeZone` shows the given local date and time.
+ * Times skipped by a DST jump move forward by the jump (02:30 on a spring-forward night is
+ * 03:30); times repeated by a DST fall-back resolve to the first occurrence.
+ */
+export function zonedTimeToUtc(
+  local: { year: number; month: number; day: number; hour?: number; minute?: number; second?: number },
+  timeZone: string,
+): Date {
+  const guess = Date.UTC(local.year, local.month - 1, local.day, local.hour ?? 0, local.minute ?? 0, local.second ?? 0);
+  // Offsets in force half a day either side; DST transitions are never closer together than that
+  const before = timeZoneOffsetMs(guess - 12 * 60 * 60 * 1000, timeZone);
+  const after = timeZoneOffsetMs(guess + 12 * 60 * 60 * 1000, timeZone);
+  const matches = [before, after]
+    .map(offset => guess - offset)
+    .filter(instant => timeZoneOffsetMs(instant, timeZone) === guess - instant);
+  if (matches.length > 0) return new Date(Math.min(...matches));
+  // Skipped wall time: keep the pre-jump offset, which lands after the jump
+  return new Date(guess - before);
+}
+
+/**
+ * Zones offered in timezone pickers; any other valid IANA zone is accepted as well
+ */
+export const COMMON_TIME_ZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Paris',
+  'Europe/Helsinki',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+] as const;
+
+/**
+ * Abbreviations older registrations stored instead of IANA zones
+ */
+const LEGACY_ZONES: Record<string, string> = {
+  EST: 'America/New_York',
+  EDT: 'America/New_York',
+  CST: 'America/Chicago',
+  CDT: 'America/Chicago',
+  MST: 'America/Denver',
+  MDT: 'America/Denver',
+  PST: 'America/Los_Angeles',
+  PDT: 'America/Los_Angeles',
+  GMT: 'UTC',
+};
+
+/**
+ * An IANA zone for a stored or submitted value: legacy abbreviations are mapped to their
+ * region and anything unrecognised falls back to `fallback`
+ */
+export function normalizeTimeZone(timeZone: string | null | undefined, fallback = 'UTC'): string {
+  const value = (timeZone ?? '').trim();
+  if (!value) return fallback;
+  const legacy = LEGACY_ZONES[value.toUpperCase()];
+  if (legacy) return legacy;
+  return isValidTimeZone(value) ? value : fallback;
+}
+
+export interface LocalDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+export interface WallClock extends LocalDate {
+  hour: number;
+  minute: number;
+  second: number;
+  /** 0 = Sunday, as `Date#getDay` */
+  weekday: number;
+}
+
+/**
+ * Date and time shown by a wall clock in `timeZone` at the given instant
+ */
+export function wallClock(instant: Date | number, timeZone: string): WallClock {
+  const parts = wallClockFormatter(timeZone).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const local = { year: get('year'), month: get('month'), day: get('day') };
+  return { ...local, hour: get('hour'), minute: get('minute'), second: get('second'), weekday: weekdayOf(local) };
+}
+
+export function weekdayOf(date: LocalDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+/**
+ * Calendar arithmetic on a local date (no timezone involved)
+ */
+export function addDays(date: LocalDate, days: number): LocalDate {
+  const d = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+/**
+ * The instant for a `YYYY-MM-DDTHH:MM[:SS]` wall-clock value (as produced by
+ * `<input type="datetime-local">`) in `timeZone`, or null when the value is malformed
+ */
+export function parseLocalDateTime(value: string, timeZone: string): Date | null {
+  const m = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?$/.exec(value.trim());
+  if (!m) return null;
+  const [year, month, day, hour, minute, second] = m.slice(1).map(v => Number(v ?? 0));
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59 || second > 59) return null;
+  return zonedTimeToUtc({ year, month, day, hour, minute, second }, timeZone);
+}
+
+/**
+ * `YYYY-MM-DDTHH:MM` for the instant as seen in `timeZone`; the inverse of `parseLocalDateTime`
+ */
+export function toLocalDateTimeInput(instant: Date | number, timeZone: string): string {
+  const c = wallClock(instant, timeZone);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${c.year}-${pad(c.month)}-${pad(c.day)}T${pad(c.hour)}:${pad(c.minute)}`;
+}
+
+/**
+ * Date and/or time of the instant as seen in `timeZone`; unknown zones fall back to UTC
+ */
+export function formatInTimeZone(
+  instant: Date | number | string,
+  timeZone: string | null | undefined,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' },
+  locale = 'en-US',
+): string {
+  const date = new Date(instant);
+  if (Number.isNaN(date.getTime())) return String(instant);
+  return new Intl.DateTimeFormat(locale, { ...options, timeZone: normalizeTimeZone(timeZone) }).format(date);
+}
+
+/**
+ * Short name of the zone at the instant ("CEST", "GMT+5:30"), which changes across DST transitions
+ */
+export function timeZoneAbbreviation(instant: Date | number | string, timeZone: string | null | undefined, locale = 'en-US'): string {
+  const parts = new Intl.DateTimeFormat(locale, { timeZone: normalizeTimeZone(timeZone), timeZoneName: 'short' })
+    .formatToParts(new Date(instant));
+  return parts.find(p => p.type === 'timeZoneName')?.value ?? normalizeTimeZone(timeZone);
+}